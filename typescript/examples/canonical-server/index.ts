@@ -18,7 +18,6 @@
  */
 
 import { RhizomeDB } from '../../src/storage/instance';
-import { LevelDBStore } from '../../src/storage/leveldb';
 import * as path from 'path';
 import * as os from 'os';
 
@@ -27,16 +26,17 @@ async function main() {
 
   // Create a persistent LevelDB store
   const dbPath = path.join(os.tmpdir(), 'rhizomedb-canonical-server');
-  const storage = new LevelDBStore(dbPath);
 
   // Initialize the canonical server with all capabilities enabled
   const server = new RhizomeDB({
     storage: 'leveldb',
+    storageConfig: { path: dbPath },
     systemId: 'canonical-server-001',
     cacheSize: 10000,
     enableIndexing: true,
     validateSchemas: true
   });
+  await server.ready(); // Load persisted deltas
 
   console.log(`Instance ID: ${server.systemId}`);
   console.log(`Storage: LevelDB at ${dbPath}`);
@@ -86,7 +86,7 @@ async function main() {
 
   // Cleanup
   unsubscribe();
-  await storage.close();
+  await server.close();
 
   console.log('\n=== FEDERATION STATUS ===');
   console.log('❌ Federation not yet implemented');
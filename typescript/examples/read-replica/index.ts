@@ -19,7 +19,6 @@
  */
 
 import { RhizomeDB } from '../../src/storage/instance';
-import { LevelDBStore } from '../../src/storage/leveldb';
 import * as path from 'path';
 import * as os from 'os';
 
@@ -28,15 +27,16 @@ async function main() {
 
   // Persistent storage for replica
   const dbPath = path.join(os.tmpdir(), 'rhizomedb-read-replica');
-  const storage = new LevelDBStore(dbPath);
 
   // Configure as read-only replica
   const replica = new RhizomeDB({
     storage: 'leveldb',
+    storageConfig: { path: dbPath },
     systemId: 'read-replica-us-west-1',
     cacheSize: 5000, // Large cache for read performance
     enableIndexing: true // Maintain indexes for fast queries
   });
+  await replica.ready(); // Load persisted deltas
 
   console.log(`Instance ID: ${replica.systemId}`);
   console.log(`Storage: LevelDB at ${dbPath}`);
@@ -118,7 +118,7 @@ async function main() {
 
   // Cleanup
   unsubscribe();
-  await storage.close();
+  await replica.close();
 
   console.log('\n=== FEDERATION STATUS ===');
   console.log('❌ Automatic replication not yet implemented');
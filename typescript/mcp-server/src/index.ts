@@ -140,6 +140,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description: 'Include negated (retracted) deltas',
             default: false
           },
+          where: {
+            type: 'object',
+            description:
+              'Filter expression: {and: [...]}, {or: [...]}, {not: expr}, ' +
+              '{field: "id"|"author"|"system"|"timestamp", is: value|comparison}, or ' +
+              '{pointer: {role?, targetId?, context?, value?}}. ' +
+              'Comparisons use eq, ne, gt, gte, lt, lte, in.'
+          },
           limit: { type: 'number', description: 'Maximum number of results to return' }
         }
       }
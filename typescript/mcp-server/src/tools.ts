@@ -3,7 +3,7 @@
  */
 
 import { RhizomeDB } from 'rhizomedb';
-import { Delta, Pointer, DeltaFilter, HyperSchema } from 'rhizomedb';
+import { Delta, Pointer, DeltaFilter, HyperSchema, validateFilterExpression } from 'rhizomedb';
 
 export interface ToolContext {
   db: RhizomeDB;
@@ -45,9 +45,14 @@ export async function queryDeltas(
     timestampStart?: number;
     timestampEnd?: number;
     includeNegated?: boolean;
+    where?: unknown;
     limit?: number;
   }
 ): Promise<{ deltas: Delta[]; count: number }> {
+  if (args.where !== undefined) {
+    validateFilterExpression(args.where);
+  }
+
   const filter: DeltaFilter = {
     ids: args.ids,
     authors: args.authors,
@@ -58,7 +63,8 @@ export async function queryDeltas(
       args.timestampStart !== undefined || args.timestampEnd !== undefined
         ? { start: args.timestampStart, end: args.timestampEnd }
         : undefined,
-    includeNegated: args.includeNegated || false
+    includeNegated: args.includeNegated || false,
+    where: args.where
   };
 
   const deltas = context.db.queryDeltas(filter);
@@ -0,0 +1,68 @@
+/**
+ * Tests for canonical serialization and content-addressed delta IDs
+ */
+
+import { computeContentId, hasValidContentId, isContentId } from './canonical';
+import { validateDelta, ValidationError } from './validation';
+import { Delta } from './types';
+
+describe('Content-addressed Delta IDs', () => {
+  const content = {
+    timestamp: 1700000000000,
+    author: 'alice',
+    system: 'system_1',
+    pointers: [
+      { role: 'person', target: { id: 'alice', context: 'name' } },
+      { role: 'name', target: 'Alice' }
+    ]
+  };
+
+  it('should derive the same ID from the same content', () => {
+    const reordered = {
+      pointers: [
+        { target: { context: 'name', id: 'alice' }, role: 'person' },
+        { role: 'name', target: 'Alice' }
+      ],
+      system: 'system_1',
+      author: 'alice',
+      timestamp: 1700000000000
+    };
+
+    expect(computeContentId(content)).toBe(computeContentId(reordered));
+    expect(isContentId(computeContentId(content))).toBe(true);
+  });
+
+  it('should derive different IDs from different content', () => {
+    expect(computeContentId(content)).not.toBe(
+      computeContentId({ ...content, timestamp: content.timestamp + 1 })
+    );
+    expect(computeContentId(content)).not.toBe(computeContentId({ ...content, author: 'bob' }));
+  });
+
+  it('should accept deltas whose ID matches their content', () => {
+    const delta: Delta = { id: computeContentId(content), ...content };
+
+    expect(hasValidContentId(delta)).toBe(true);
+    expect(() => validateDelta(delta, { requireContentId: true })).not.toThrow();
+  });
+
+  it('should reject tampered content-addressed deltas', () => {
+    const delta: Delta = {
+      id: computeContentId(content),
+      ...content,
+      pointers: [{ role: 'name', target: 'Mallory' }]
+    };
+
+    expect(hasValidContentId(delta)).toBe(false);
+    expect(() => validateDelta(delta)).toThrow(ValidationError);
+  });
+
+  it('should only require content IDs when asked to', () => {
+    const delta: Delta = { id: 'random-uuid', ...content };
+
+    expect(() => validateDelta(delta)).not.toThrow();
+    expect(() => validateDelta(delta, { requireContentId: true })).toThrow(
+      'does not have a content-addressed id'
+    );
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Canonical delta serialization and content-addressed identity
+ *
+ * Provides the deterministic byte representation that signatures and
+ * content-addressed IDs are computed over.
+ */
+
+import { createHash } from 'crypto';
+import { Delta, Pointer } from './types';
+
+/**
+ * Prefix marking a delta ID as content-addressed
+ */
+export const CONTENT_ID_PREFIX = 'sha256-';
+
+/**
+ * Serialize a pointer with a fixed key order
+ */
+function canonicalizePointer(pointer: Pointer): unknown {
+  const target = pointer.target;
+
+  if (typeof target === 'object' && target !== null) {
+    return {
+      role: pointer.role,
+      target:
+        target.context !== undefined
+          ? { id: target.id, context: target.context }
+          : { id: target.id }
+    };
+  }
+
+  return { role: pointer.role, target };
+}
+
+/**
+ * Produce the canonical serialization of a delta
+ *
+ * Covers id, timestamp, author, system, pointers and HLC in a fixed order, so the
+ * same delta always serializes to the same string regardless of how its
+ * objects were constructed. The signature itself is excluded.
+ *
+ * @param delta - The delta to serialize
+ * @returns Canonical JSON string
+ */
+export function canonicalizeDelta(delta: Delta): string {
+  return JSON.stringify([delta.id, ...canonicalContentFields(delta)]);
+}
+
+/**
+ * Produce the canonical serialization of a delta's content (everything but its ID)
+ */
+export function canonicalizeDeltaContent(delta: Omit<Delta, 'id'>): string {
+  return JSON.stringify(canonicalContentFields(delta));
+}
+
+/**
+ * Content fields in canonical order
+ *
+ * The HLC is only appended when present, so wall-clock deltas keep the
+ * serialization (and therefore the signatures and content IDs) they had
+ * before HLCs existed.
+ */
+function canonicalContentFields(delta: Omit<Delta, 'id'>): unknown[] {
+  const fields: unknown[] = [
+    delta.timestamp,
+    delta.author,
+    delta.system,
+    delta.pointers.map(canonicalizePointer)
+  ];
+
+  if (delta.hlc) {
+    fields.push([delta.hlc.physical, delta.hlc.logical]);
+  }
+
+  return fields;
+}
+
+/**
+ * Compute the content-addressed ID for a delta
+ *
+ * The ID is a SHA-256 hash of the canonical timestamp, author, system and
+ * pointers, so identical content always yields the same ID.
+ *
+ * @param delta - The delta (its existing ID, if any, is ignored)
+ * @returns ID of the form `sha256-<hex>`
+ */
+export function computeContentId(delta: Omit<Delta, 'id'>): string {
+  const hash = createHash('sha256').update(canonicalizeDeltaContent(delta)).digest('hex');
+  return `${CONTENT_ID_PREFIX}${hash}`;
+}
+
+/**
+ * Check whether an ID is content-addressed
+ */
+export function isContentId(id: string): boolean {
+  return id.startsWith(CONTENT_ID_PREFIX);
+}
+
+/**
+ * Check whether a delta's ID matches its content
+ *
+ * @returns true if the ID is content-addressed and matches the delta's content
+ */
+export function hasValidContentId(delta: Delta): boolean {
+  return isContentId(delta.id) && computeContentId(delta) === delta.id;
+}
@@ -0,0 +1,174 @@
+/**
+ * Tests for causal parents and causally-ordered persistence
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { LevelDBStore } from '../storage/leveldb-store';
+import {
+  CAUSAL_PARENT_ROLE,
+  createCausalParentPointers,
+  getCausalParentIds,
+  sortCausally
+} from './causality';
+import { validateDelta, ValidationError } from './validation';
+import { Delta, Pointer } from './types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+function edit(text: string): Pointer[] {
+  return [
+    { role: 'document', target: { id: 'doc1', context: 'text' } },
+    { role: 'text', target: text }
+  ];
+}
+
+describe('Causal Parents', () => {
+  let db: RhizomeDB;
+
+  beforeEach(() => {
+    db = new RhizomeDB({ storage: 'memory', systemId: 'editor' });
+  });
+
+  describe('validateDelta', () => {
+    it('should accept well-formed parent pointers', () => {
+      const delta = db.createDelta('alice', [
+        ...edit('a'),
+        ...createCausalParentPointers(['p1', 'p2', 'p1'])
+      ]);
+
+      expect(getCausalParentIds(delta)).toEqual(['p1', 'p2']);
+    });
+
+    it('should reject malformed, duplicate and self parents', () => {
+      const base: Delta = {
+        id: 'd1',
+        timestamp: 1000,
+        author: 'alice',
+        system: 'editor',
+        pointers: []
+      };
+
+      expect(() =>
+        validateDelta({ ...base, pointers: [{ role: CAUSAL_PARENT_ROLE, target: 'p1' }] })
+      ).toThrow(ValidationError);
+      expect(() =>
+        validateDelta({
+          ...base,
+          pointers: [{ role: CAUSAL_PARENT_ROLE, target: { id: 'p1', context: 'other' } }]
+        })
+      ).toThrow(ValidationError);
+      expect(() =>
+        validateDelta({ ...base, pointers: createCausalParentPointers(['d1']) })
+      ).toThrow('own causal parent');
+      expect(() =>
+        validateDelta({
+          ...base,
+          pointers: [...createCausalParentPointers(['p1']), ...createCausalParentPointers(['p1'])]
+        })
+      ).toThrow('Duplicate causal parent');
+    });
+  });
+
+  describe('persistDelta', () => {
+    it('should hold deltas until their parents arrive', async () => {
+      const original = db.createDelta('alice', edit('Hello'));
+      const reply = db.createDelta('bob', [
+        ...edit('Hello, world'),
+        ...createCausalParentPointers([original.id])
+      ]);
+
+      const seen: string[] = [];
+      db.subscribe({}, delta => {
+        seen.push(delta.id);
+      });
+
+      await db.persistDelta(reply);
+      expect(db.queryDeltas({ ids: [reply.id] })).toHaveLength(0);
+      expect(db.getPendingDeltas().map(d => d.id)).toEqual([reply.id]);
+      expect(db.getStats().pendingDeltas).toBe(1);
+
+      await db.persistDelta(original);
+      expect(seen).toEqual([original.id, reply.id]);
+      expect(db.getPendingDeltas()).toHaveLength(0);
+    });
+
+    it('should apply chains and merges in causal order', async () => {
+      const a = db.createDelta('alice', edit('a'));
+      const b = db.createDelta('alice', [...edit('ab'), ...createCausalParentPointers([a.id])]);
+      const c = db.createDelta('bob', [...edit('ac'), ...createCausalParentPointers([a.id])]);
+      const d = db.createDelta('alice', [
+        ...edit('abc'),
+        ...createCausalParentPointers([b.id, c.id])
+      ]);
+
+      const seen: string[] = [];
+      db.subscribe({}, delta => {
+        seen.push(delta.id);
+      });
+
+      await db.persistDeltas([d, c, b]);
+      expect(seen).toEqual([]);
+
+      await db.persistDelta(a);
+      expect(seen[0]).toBe(a.id);
+      expect(seen[3]).toBe(d.id);
+      expect(new Set(seen)).toEqual(new Set([a.id, b.id, c.id, d.id]));
+    });
+  });
+
+  describe('getCausalHistory', () => {
+    it('should return all ancestors, parents first', async () => {
+      const a = db.createDelta('alice', edit('a'));
+      const b = db.createDelta('alice', [...edit('ab'), ...createCausalParentPointers([a.id])]);
+      const unrelated = db.createDelta('carol', edit('z'));
+      const c = db.createDelta('bob', [...edit('abc'), ...createCausalParentPointers([b.id])]);
+      await db.persistDeltas([a, b, unrelated, c]);
+
+      expect(db.getCausalHistory(c.id).map(d => d.id)).toEqual([a.id, b.id]);
+      expect(db.getCausalHistory(a.id)).toEqual([]);
+      expect(db.getCausalHistory('missing')).toEqual([]);
+    });
+
+    it('should sort causally even when clocks disagree', () => {
+      const parent: Delta = { ...db.createDelta('alice', edit('a')), timestamp: 2000 };
+      const child: Delta = {
+        ...db.createDelta('bob', [...edit('b'), ...createCausalParentPointers([parent.id])]),
+        timestamp: 1000
+      };
+
+      expect(sortCausally([child, parent])).toEqual([parent, child]);
+    });
+  });
+
+  describe('LevelDBStore', () => {
+    let store: LevelDBStore;
+    let dbPath: string;
+
+    beforeEach(() => {
+      const tmpDir = '/tmp/rhizomedb-test';
+      if (!fs.existsSync(tmpDir)) {
+        fs.mkdirSync(tmpDir, { recursive: true });
+      }
+      dbPath = path.join(tmpDir, `test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      store = new LevelDBStore({ systemId: 'editor', storage: 'leveldb', dbPath });
+    });
+
+    afterEach(async () => {
+      await store.close();
+      fs.rmSync(dbPath, { recursive: true, force: true });
+    });
+
+    it('should hold deltas until their parents arrive and report history', async () => {
+      const a = store.createDelta('alice', edit('a'));
+      const b = store.createDelta('alice', [...edit('ab'), ...createCausalParentPointers([a.id])]);
+
+      await store.persistDelta(b);
+      expect(await store.getDeltas([b.id])).toHaveLength(0);
+      expect((await store.getStats()).pendingDeltas).toBe(1);
+
+      await store.persistDelta(a);
+      expect(await store.getDeltas([b.id])).toHaveLength(1);
+      expect((await store.getCausalHistory(b.id)).map(d => d.id)).toEqual([a.id]);
+    });
+  });
+});
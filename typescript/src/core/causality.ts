@@ -0,0 +1,161 @@
+/**
+ * Explicit causal dependencies between deltas
+ *
+ * A delta declares the deltas it was written in response to with "causal
+ * parent" pointers:
+ *
+ *   { role: 'causal_parent', target: { id: parentDeltaId, context: 'causal_children' } }
+ *
+ * Stores hold back a delta until all of its parents have been persisted, so
+ * readers never see an edit before the state it edited.
+ */
+
+import { Delta, Pointer } from './types';
+import { compareDeltas } from './hlc';
+
+/** Role of a pointer naming a causal parent */
+export const CAUSAL_PARENT_ROLE = 'causal_parent';
+
+/** Target context of a causal parent pointer (the parent's children) */
+export const CAUSAL_CHILDREN_CONTEXT = 'causal_children';
+
+/**
+ * Build causal parent pointers to include in a new delta
+ *
+ * @example
+ * db.createDelta('alice', [...pointers, ...createCausalParentPointers([seen.id])]);
+ */
+export function createCausalParentPointers(parentIds: Iterable<string>): Pointer[] {
+  return Array.from(new Set(parentIds), id => ({
+    role: CAUSAL_PARENT_ROLE,
+    target: { id, context: CAUSAL_CHILDREN_CONTEXT }
+  }));
+}
+
+/**
+ * Get the IDs of the deltas a delta causally depends on
+ */
+export function getCausalParentIds(delta: Delta): string[] {
+  const ids: string[] = [];
+
+  for (const pointer of delta.pointers) {
+    const target = pointer.target;
+    if (pointer.role === CAUSAL_PARENT_ROLE && typeof target === 'object' && target !== null) {
+      ids.push(target.id);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Order deltas so every delta comes after its parents
+ *
+ * Parents outside the given set are ignored. Deltas that are otherwise
+ * unordered follow `compareDeltas`.
+ */
+export function sortCausally(deltas: Delta[]): Delta[] {
+  const byId = new Map(deltas.map(delta => [delta.id, delta]));
+  const waitingOn = new Map<string, number>();
+  const children = new Map<string, Delta[]>();
+
+  for (const delta of byId.values()) {
+    const parents = getCausalParentIds(delta).filter(id => byId.has(id));
+    waitingOn.set(delta.id, parents.length);
+    for (const parentId of parents) {
+      if (!children.has(parentId)) {
+        children.set(parentId, []);
+      }
+      children.get(parentId)!.push(delta);
+    }
+  }
+
+  const ready = Array.from(byId.values()).filter(delta => waitingOn.get(delta.id) === 0);
+  const sorted: Delta[] = [];
+
+  while (ready.length > 0) {
+    ready.sort(compareDeltas);
+    const delta = ready.shift()!;
+    sorted.push(delta);
+
+    for (const child of children.get(delta.id) || []) {
+      const remaining = waitingOn.get(child.id)! - 1;
+      waitingOn.set(child.id, remaining);
+      if (remaining === 0) {
+        ready.push(child);
+      }
+    }
+  }
+
+  return sorted;
+}
+
+/**
+ * Deltas held back until their causal parents arrive
+ */
+export class CausalBuffer {
+  private pending: Map<string, { delta: Delta; missing: Set<string> }> = new Map();
+  // Missing parent ID -> IDs of pending deltas waiting on it
+  private waiters: Map<string, Set<string>> = new Map();
+
+  /**
+   * Hold a delta until the given parents have been persisted
+   */
+  hold(delta: Delta, missingParentIds: string[]): void {
+    this.pending.set(delta.id, { delta, missing: new Set(missingParentIds) });
+
+    for (const parentId of missingParentIds) {
+      if (!this.waiters.has(parentId)) {
+        this.waiters.set(parentId, new Set());
+      }
+      this.waiters.get(parentId)!.add(delta.id);
+    }
+  }
+
+  /**
+   * Record that a delta has been persisted
+   *
+   * @returns Held deltas that now have all their parents, in causal order
+   */
+  release(persistedId: string): Delta[] {
+    const waiting = this.waiters.get(persistedId);
+    if (!waiting) {
+      return [];
+    }
+    this.waiters.delete(persistedId);
+
+    const ready: Delta[] = [];
+    for (const id of waiting) {
+      const entry = this.pending.get(id);
+      if (!entry) continue;
+
+      entry.missing.delete(persistedId);
+      if (entry.missing.size === 0) {
+        this.pending.delete(id);
+        ready.push(entry.delta);
+      }
+    }
+
+    return ready.sort(compareDeltas);
+  }
+
+  has(id: string): boolean {
+    return this.pending.has(id);
+  }
+
+  /**
+   * Get all held deltas
+   */
+  getPending(): Delta[] {
+    return Array.from(this.pending.values(), entry => entry.delta);
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  clear(): void {
+    this.pending.clear();
+    this.waiters.clear();
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Tests for hybrid logical clocks and delta ordering
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { FederationManager } from '../federation/manager';
+import { FederationEvent } from '../federation/types';
+import { DEFAULT_MAX_CLOCK_DRIFT, HybridLogicalClock, compareDeltas, compareHLC } from './hlc';
+import { validateDelta, ValidationError } from './validation';
+import { mostRecent } from '../queries/view-resolver';
+import { Delta } from './types';
+
+function delta(overrides: Partial<Delta>): Delta {
+  return {
+    id: 'd',
+    timestamp: 1000,
+    author: 'alice',
+    system: 'system_1',
+    pointers: [{ role: 'name', target: 'x' }],
+    ...overrides
+  };
+}
+
+describe('Hybrid Logical Clocks', () => {
+  describe('HybridLogicalClock', () => {
+    it('should never run backwards when the wall clock does', () => {
+      let wall = 1000;
+      const clock = new HybridLogicalClock({ wallClock: () => wall });
+
+      const a = clock.tick();
+      wall = 900;
+      const b = clock.tick();
+      const c = clock.tick();
+      wall = 1001;
+      const d = clock.tick();
+
+      expect(a).toEqual({ physical: 1000, logical: 0 });
+      expect(b).toEqual({ physical: 1000, logical: 1 });
+      expect(c).toEqual({ physical: 1000, logical: 2 });
+      expect(d).toEqual({ physical: 1001, logical: 0 });
+    });
+
+    it('should move past received timestamps', () => {
+      const clock = new HybridLogicalClock({ wallClock: () => 1000 });
+
+      expect(clock.receive({ physical: 5000, logical: 3 })).toBe(true);
+      expect(clock.peek()).toEqual({ physical: 5000, logical: 4 });
+      expect(compareHLC(clock.tick(), { physical: 5000, logical: 4 })).toBeGreaterThan(0);
+    });
+
+    it('should ignore remote clocks too far ahead', () => {
+      const clock = new HybridLogicalClock({ wallClock: () => 1000, maxDrift: 100 });
+
+      expect(clock.receive({ physical: 1200, logical: 0 })).toBe(false);
+      expect(clock.tick()).toEqual({ physical: 1000, logical: 0 });
+    });
+  });
+
+  describe('compareDeltas', () => {
+    it('should order by clock, then system, then ID', () => {
+      const deltas = [
+        delta({ id: 'd4', timestamp: 2000 }),
+        delta({ id: 'd3', system: 'system_2' }),
+        delta({ id: 'd2' }),
+        delta({ id: 'd1', hlc: { physical: 1000, logical: 1 } })
+      ];
+
+      expect(deltas.sort(compareDeltas).map(d => d.id)).toEqual(['d2', 'd3', 'd1', 'd4']);
+    });
+  });
+
+  describe('validateDelta', () => {
+    it('should require timestamp to match the HLC physical time', () => {
+      expect(() =>
+        validateDelta(delta({ timestamp: 1000, hlc: { physical: 1001, logical: 0 } }))
+      ).toThrow(ValidationError);
+      expect(() => validateDelta(delta({ hlc: { physical: 1000, logical: -1 } }))).toThrow(
+        ValidationError
+      );
+      expect(() => validateDelta(delta({ hlc: { physical: 1000, logical: 2 } }))).not.toThrow();
+    });
+  });
+
+  describe('RhizomeDB with clock: hlc', () => {
+    it('should stamp created deltas with an HLC', () => {
+      const db = new RhizomeDB({ storage: 'memory', clock: 'hlc' });
+
+      const first = db.createDelta('alice', [{ role: 'name', target: 'a' }]);
+      const second = db.createDelta('alice', [{ role: 'name', target: 'b' }]);
+
+      expect(first.hlc).toBeDefined();
+      expect(first.timestamp).toBe(first.hlc!.physical);
+      expect(compareDeltas(first, second)).toBeLessThan(0);
+    });
+
+    it('should not stamp deltas with the default wall clock', () => {
+      const db = new RhizomeDB({ storage: 'memory' });
+
+      expect(db.createDelta('alice', [{ role: 'name', target: 'a' }]).hlc).toBeUndefined();
+    });
+
+    it('should order deltas after observed ones despite clock skew', async () => {
+      const local = new RhizomeDB({ storage: 'memory', systemId: 'local', clock: 'hlc' });
+      const remote = new RhizomeDB({ storage: 'memory', systemId: 'remote', clock: 'hlc' });
+
+      // Remote's wall clock runs 30s ahead of ours
+      jest.spyOn(Date, 'now').mockReturnValue(1_030_000);
+      const remoteName = remote.createDelta('bob', [
+        { role: 'person', target: { id: 'p1', context: 'name' } },
+        { role: 'name', target: 'Remote' }
+      ]);
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+      local.observeDelta(remoteName);
+      await local.persistDelta(remoteName);
+
+      const localName = local.createDelta('alice', [
+        { role: 'person', target: { id: 'p1', context: 'name' } },
+        { role: 'name', target: 'Local' }
+      ]);
+      const negation = local.negateDelta('alice', remoteName.id);
+      await local.persistDeltas([localName, negation]);
+      jest.restoreAllMocks();
+
+      expect(compareDeltas(localName, remoteName)).toBeGreaterThan(0);
+      expect(compareDeltas(negation, remoteName)).toBeGreaterThan(0);
+      expect(mostRecent([localName, remoteName])).toBe(localName);
+    });
+
+    it('should report clocks too far ahead as not observed', () => {
+      const db = new RhizomeDB({ storage: 'memory', clock: 'hlc' });
+
+      expect(db.observeDelta(db.createDelta('alice', [{ role: 'name', target: 'a' }]))).toBe(true);
+      expect(
+        db.observeDelta(
+          delta({ hlc: { physical: Date.now() + DEFAULT_MAX_CLOCK_DRIFT * 2, logical: 0 } })
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('over a federation link', () => {
+    const port = 22000 + Math.floor(Math.random() * 1000);
+    let server: FederationManager;
+    let client: FederationManager;
+
+    afterEach(async () => {
+      await client.close();
+      await server.close();
+    });
+
+    it('should refuse deltas whose clock is too far ahead', async () => {
+      const hub = new RhizomeDB({ storage: 'memory', systemId: 'hub', clock: 'hlc' });
+      const spoke = new RhizomeDB({ storage: 'memory', systemId: 'spoke', clock: 'hlc' });
+      const events: FederationEvent[] = [];
+      server = new FederationManager(hub, { enableServer: true, serverConfig: { port } });
+      server.onFederationEvent(event => events.push(event));
+      client = new FederationManager(spoke, { autoBroadcast: true });
+      await client.connectToRemote(`ws://localhost:${port}/federation`, {
+        mode: 'push',
+        initialSync: 'none'
+      });
+
+      // The spoke's wall clock runs a day ahead
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 24 * 60 * 60 * 1000);
+      const skewed = spoke.createDelta('mallory', [{ role: 'name', target: 'Mallory' }]);
+      jest.restoreAllMocks();
+      await spoke.persistDelta(skewed);
+
+      for (let i = 0; i < 100 && !events.some(e => e.type === 'delta:rejected'); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(events.find(e => e.type === 'delta:rejected')).toMatchObject({
+        deltaId: skewed.id,
+        reason: 'Clock too far ahead'
+      });
+      expect(hub.getStats().totalDeltas).toBe(0);
+      expect(hub.createDelta('alice', [{ role: 'name', target: 'a' }]).timestamp).toBeLessThan(
+        skewed.timestamp
+      );
+    });
+  });
+});
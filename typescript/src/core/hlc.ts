@@ -0,0 +1,129 @@
+/**
+ * Hybrid logical clocks and deterministic delta ordering
+ *
+ * A hybrid logical clock (HLC) pairs wall-clock milliseconds with a logical
+ * counter. It stays close to physical time but never runs backwards and
+ * always moves past any timestamp it has observed, so a delta created after
+ * seeing another delta (e.g. a negation of it) is ordered after it even when
+ * the two systems' wall clocks disagree.
+ */
+
+import { Delta, HLCTimestamp } from './types';
+
+/**
+ * Default maximum distance (ms) a remote clock may be ahead of ours before we
+ * refuse to adopt it
+ */
+export const DEFAULT_MAX_CLOCK_DRIFT = 60_000;
+
+/**
+ * Compare two HLC timestamps
+ *
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareHLC(a: HLCTimestamp, b: HLCTimestamp): number {
+  return a.physical - b.physical || a.logical - b.logical;
+}
+
+/**
+ * Get a delta's position on the clock
+ *
+ * Deltas without an HLC (from wall-clock instances) are placed at their
+ * timestamp with a zero counter.
+ */
+export function getDeltaClock(delta: Delta): HLCTimestamp {
+  return delta.hlc ?? { physical: delta.timestamp, logical: 0 };
+}
+
+/**
+ * Deterministic total order over deltas: (HLC, system, id)
+ *
+ * Every instance sorts the same set of deltas the same way, regardless of
+ * arrival order.
+ *
+ * @returns Negative if a precedes b, positive if b precedes a
+ */
+export function compareDeltas(a: Delta, b: Delta): number {
+  const byClock = compareHLC(getDeltaClock(a), getDeltaClock(b));
+  if (byClock !== 0) return byClock;
+
+  if (a.system !== b.system) return a.system < b.system ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+/**
+ * Hybrid logical clock for one instance
+ */
+export class HybridLogicalClock {
+  private last: HLCTimestamp = { physical: 0, logical: 0 };
+  private readonly wallClock: () => number;
+  private readonly maxDrift: number;
+
+  /**
+   * @param options.wallClock - Physical time source (default: Date.now)
+   * @param options.maxDrift - Ignore remote clocks further ahead than this (ms)
+   */
+  constructor(options: { wallClock?: () => number; maxDrift?: number } = {}) {
+    this.wallClock = options.wallClock ?? (() => Date.now());
+    this.maxDrift = options.maxDrift ?? DEFAULT_MAX_CLOCK_DRIFT;
+  }
+
+  /**
+   * Advance the clock for a local event (e.g. creating a delta)
+   */
+  tick(): HLCTimestamp {
+    const wall = this.wallClock();
+
+    if (wall > this.last.physical) {
+      this.last = { physical: wall, logical: 0 };
+    } else {
+      this.last = { physical: this.last.physical, logical: this.last.logical + 1 };
+    }
+
+    return { ...this.last };
+  }
+
+  /**
+   * Advance the clock past a timestamp observed from another system
+   *
+   * @returns false if the remote clock is too far ahead and was ignored
+   */
+  receive(remote: HLCTimestamp): boolean {
+    const wall = this.wallClock();
+
+    if (remote.physical - wall > this.maxDrift) {
+      return false;
+    }
+
+    const physical = Math.max(wall, this.last.physical, remote.physical);
+    let logical = 0;
+
+    if (physical === this.last.physical && physical === remote.physical) {
+      logical = Math.max(this.last.logical, remote.logical) + 1;
+    } else if (physical === this.last.physical) {
+      logical = this.last.logical + 1;
+    } else if (physical === remote.physical) {
+      logical = remote.logical + 1;
+    }
+
+    this.last = { physical, logical };
+    return true;
+  }
+
+  /**
+   * Advance the clock past a received delta
+   *
+   * @returns false if the delta's clock is too far ahead and was ignored
+   */
+  observe(delta: Delta): boolean {
+    return this.receive(getDeltaClock(delta));
+  }
+
+  /**
+   * Get the most recent timestamp issued or observed, without advancing
+   */
+  peek(): HLCTimestamp {
+    return { ...this.last };
+  }
+}
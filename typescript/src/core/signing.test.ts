@@ -0,0 +1,108 @@
+/**
+ * Tests for delta signing and signature verification
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { generateSigningKeyPair, signDelta, verifyDeltaSignature, KeyRegistry } from './signing';
+import { canonicalizeDelta } from './canonical';
+import { validateDelta, ValidationError } from './validation';
+import { Delta } from './types';
+
+describe('Delta Signing', () => {
+  let db: RhizomeDB;
+
+  beforeEach(() => {
+    db = new RhizomeDB({ storage: 'memory', systemId: 'system_1' });
+  });
+
+  describe('canonicalizeDelta', () => {
+    it('should ignore object key order and the signature', () => {
+      const a: Delta = {
+        id: 'd1',
+        timestamp: 1000,
+        author: 'alice',
+        system: 'system_1',
+        pointers: [{ role: 'friend', target: { id: 'bob', context: 'friends' } }]
+      };
+      const b = {
+        pointers: [{ target: { context: 'friends', id: 'bob' }, role: 'friend' }],
+        system: 'system_1',
+        author: 'alice',
+        timestamp: 1000,
+        id: 'd1',
+        signature: 'c2ln'
+      } as Delta;
+
+      expect(canonicalizeDelta(a)).toBe(canonicalizeDelta(b));
+    });
+  });
+
+  describe('signDelta / verifyDeltaSignature', () => {
+    it('should create signed deltas that verify with the author key', () => {
+      const { publicKey, privateKey } = generateSigningKeyPair();
+      const delta = db.createSignedDelta('alice', [{ role: 'name', target: 'Alice' }], privateKey);
+
+      expect(delta.signature).toBeDefined();
+      expect(() => validateDelta(delta)).not.toThrow();
+      expect(verifyDeltaSignature(delta, publicKey)).toBe(true);
+    });
+
+    it('should accept PEM-encoded keys', () => {
+      const { publicKey, privateKey } = generateSigningKeyPair();
+      const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+      const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+      const delta = signDelta(db.createDelta('alice', []), privatePem);
+      expect(verifyDeltaSignature(delta, publicPem)).toBe(true);
+    });
+
+    it('should reject tampered deltas', () => {
+      const { publicKey, privateKey } = generateSigningKeyPair();
+      const delta = db.createSignedDelta('alice', [{ role: 'name', target: 'Alice' }], privateKey);
+
+      const tampered: Delta = { ...delta, pointers: [{ role: 'name', target: 'Mallory' }] };
+      expect(verifyDeltaSignature(tampered, publicKey)).toBe(false);
+      expect(verifyDeltaSignature({ ...delta, author: 'bob' }, publicKey)).toBe(false);
+    });
+
+    it('should reject signatures from another key', () => {
+      const alice = generateSigningKeyPair();
+      const mallory = generateSigningKeyPair();
+      const forged = db.createSignedDelta('alice', [], mallory.privateKey);
+
+      expect(verifyDeltaSignature(forged, alice.publicKey)).toBe(false);
+    });
+
+    it('should reject unsigned or malformed signatures', () => {
+      const { publicKey } = generateSigningKeyPair();
+      const delta = db.createDelta('alice', []);
+
+      expect(verifyDeltaSignature(delta, publicKey)).toBe(false);
+      expect(verifyDeltaSignature({ ...delta, signature: 'not-a-signature' }, publicKey)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('KeyRegistry', () => {
+    it('should verify deltas against registered author keys', () => {
+      const registry = new KeyRegistry();
+      const alice = generateSigningKeyPair();
+      registry.register('alice', alice.publicKey);
+
+      const delta = db.createSignedDelta('alice', [], alice.privateKey);
+      expect(registry.has('alice')).toBe(true);
+      expect(registry.verify(delta)).toBe(true);
+
+      registry.remove('alice');
+      expect(registry.verify(delta)).toBe(false);
+    });
+  });
+
+  describe('validateDelta', () => {
+    it('should reject an empty signature', () => {
+      const delta = { ...db.createDelta('alice', []), signature: '' };
+      expect(() => validateDelta(delta)).toThrow(ValidationError);
+    });
+  });
+});
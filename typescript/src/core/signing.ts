@@ -0,0 +1,138 @@
+/**
+ * Delta signing and signature verification
+ *
+ * Deltas are signed with Ed25519 over a SHA-256 digest of their canonical
+ * serialization, using Node's built-in crypto module.
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  KeyObject
+} from 'crypto';
+import { Delta } from './types';
+import { canonicalizeDelta } from './canonical';
+
+/**
+ * A key in any form accepted by the signing helpers (KeyObject or PEM string)
+ */
+export type SigningKey = KeyObject | string;
+
+/**
+ * An Ed25519 key pair for signing deltas
+ */
+export interface SigningKeyPair {
+  publicKey: KeyObject;
+  privateKey: KeyObject;
+}
+
+/**
+ * Generate a new Ed25519 key pair
+ */
+export function generateSigningKeyPair(): SigningKeyPair {
+  return generateKeyPairSync('ed25519');
+}
+
+/**
+ * Compute the SHA-256 digest that gets signed for a delta
+ */
+export function getDeltaDigest(delta: Delta): Buffer {
+  return createHash('sha256').update(canonicalizeDelta(delta)).digest();
+}
+
+function toPrivateKey(key: SigningKey): KeyObject {
+  return typeof key === 'string' ? createPrivateKey(key) : key;
+}
+
+function toPublicKey(key: SigningKey): KeyObject {
+  return typeof key === 'string' ? createPublicKey(key) : key;
+}
+
+/**
+ * Sign a delta
+ *
+ * @param delta - The delta to sign
+ * @param privateKey - Ed25519 private key of the delta's author
+ * @returns A copy of the delta with a base64 `signature`
+ */
+export function signDelta(delta: Delta, privateKey: SigningKey): Delta {
+  const signature = sign(null, getDeltaDigest(delta), toPrivateKey(privateKey));
+  return { ...delta, signature: signature.toString('base64') };
+}
+
+/**
+ * Verify a delta's signature
+ *
+ * @param delta - The signed delta
+ * @param publicKey - Ed25519 public key of the delta's author
+ * @returns true if the delta is signed and the signature matches its content
+ */
+export function verifyDeltaSignature(delta: Delta, publicKey: SigningKey): boolean {
+  if (!delta.signature) {
+    return false;
+  }
+
+  try {
+    return verify(
+      null,
+      getDeltaDigest(delta),
+      toPublicKey(publicKey),
+      Buffer.from(delta.signature, 'base64')
+    );
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+}
+
+/**
+ * Registry mapping author IDs to their public keys
+ */
+export class KeyRegistry {
+  private keys: Map<string, KeyObject> = new Map();
+
+  /**
+   * Register (or replace) the public key for an author
+   */
+  register(authorId: string, publicKey: SigningKey): void {
+    this.keys.set(authorId, toPublicKey(publicKey));
+  }
+
+  /**
+   * Get the public key for an author
+   */
+  get(authorId: string): KeyObject | undefined {
+    return this.keys.get(authorId);
+  }
+
+  /**
+   * Check if an author has a registered key
+   */
+  has(authorId: string): boolean {
+    return this.keys.has(authorId);
+  }
+
+  /**
+   * Remove an author's key
+   */
+  remove(authorId: string): boolean {
+    return this.keys.delete(authorId);
+  }
+
+  /**
+   * Verify a delta against its author's registered key
+   *
+   * @returns false if the author is unknown or the signature is invalid
+   */
+  verify(delta: Delta): boolean {
+    const publicKey = this.keys.get(delta.author);
+    if (!publicKey) {
+      return false;
+    }
+    return verifyDeltaSignature(delta, publicKey);
+  }
+}
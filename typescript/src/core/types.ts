@@ -4,6 +4,7 @@
  */
 
 import type { GraphQLScalarType } from 'graphql';
+import type { SigningKey } from './signing';
 
 // ============================================================================
 // Delta and Pointer Types
@@ -50,6 +51,19 @@ export interface Pointer {
   target: Reference | Primitive;
 }
 
+/**
+ * Hybrid logical clock timestamp
+ *
+ * Ordered by physical time, then by the logical counter.
+ */
+export interface HLCTimestamp {
+  /** Wall-clock milliseconds (never behind any previously observed clock) */
+  physical: number;
+
+  /** Counter distinguishing events within the same physical millisecond */
+  logical: number;
+}
+
 /**
  * An immutable assertion with unique identity, timestamp, author, system, and pointers
  *
@@ -65,14 +79,24 @@ export interface Delta {
   /** Millisecond timestamp of delta creation */
   timestamp: number;
 
-  /** UUID of the author (person or process) - currently unverified */
+  /** UUID of the author (person or process) - verifiable only when the delta is signed */
   author: string;
 
-  /** UUID of the instance that created this delta - currently unverified */
+  /** UUID of the instance that created this delta - verifiable only when the delta is signed */
   system: string;
 
   /** Array of contextualized pointers */
   pointers: Pointer[];
+
+  /**
+   * Optional: hybrid logical clock stamp (set by instances with `clock: 'hlc'`)
+   *
+   * When present, `timestamp` equals `hlc.physical`.
+   */
+  hlc?: HLCTimestamp;
+
+  /** Optional: base64 Ed25519 signature by the author over the canonical serialization */
+  signature?: string;
 }
 
 // ============================================================================
@@ -280,10 +304,116 @@ export interface DeltaFilter {
   /** Include negated deltas? (default: false) */
   includeNegated?: boolean;
 
-  /** Arbitrary predicate for advanced filtering */
+  /**
+   * Declarative filter expression
+   *
+   * Unlike `predicate`, this survives JSON serialization, so it can be sent
+   * over the wire (federation, GraphQL, MCP) and used for index planning.
+   */
+  where?: DeltaFilterExpression;
+
+  /** Arbitrary predicate for advanced filtering (local only, not serializable) */
   predicate?: (delta: Delta) => boolean;
 }
 
+/**
+ * Comparison against a primitive value
+ *
+ * All given operators must hold. Ordering operators compare numbers with
+ * numbers and strings with strings; mismatched types never match.
+ */
+export interface PrimitiveComparison {
+  eq?: Primitive;
+  ne?: Primitive;
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+  in?: Primitive[];
+}
+
+/**
+ * Matches a delta if at least one pointer satisfies every given condition
+ */
+export interface PointerMatch {
+  /** Pointer role */
+  role?: string | PrimitiveComparison;
+
+  /** Referenced object ID (only matches Reference targets) */
+  targetId?: string | PrimitiveComparison;
+
+  /** Reference context (only matches Reference targets) */
+  context?: string | PrimitiveComparison;
+
+  /** Primitive target value (only matches primitive targets) */
+  value?: Primitive | PrimitiveComparison;
+}
+
+/**
+ * JSON-serializable filter expression over deltas
+ *
+ * @example
+ * { and: [
+ *   { field: 'author', is: { in: ['alice', 'bob'] } },
+ *   { pointer: { role: 'name', value: { ne: '' } } },
+ *   { not: { pointer: { targetId: 'user_1', context: 'secrets' } } }
+ * ] }
+ */
+export type DeltaFilterExpression =
+  | { and: DeltaFilterExpression[] }
+  | { or: DeltaFilterExpression[] }
+  | { not: DeltaFilterExpression }
+  | { field: 'id' | 'author' | 'system' | 'timestamp'; is: Primitive | PrimitiveComparison }
+  | { pointer: PointerMatch };
+
+/**
+ * Constraint on a HyperView property's resolved value
+ *
+ * A bare primitive means equality. `between` is an inclusive range, and
+ * `exists` tests whether the property has any value at all.
+ */
+export type PropertyConstraint =
+  | Primitive
+  | (PrimitiveComparison & {
+      between?: [number | string, number | string];
+      exists?: boolean;
+    });
+
+/**
+ * Property constraints for multi-root HyperView queries, keyed by property
+ *
+ * The special key `id` constrains the root object ID.
+ *
+ * @example
+ * { year: { between: [1990, 1999] }, director: 'person_wachowski_lana' }
+ */
+export type HyperViewConstraints = Record<string, PropertyConstraint>;
+
+/**
+ * Ordering for multi-root HyperView queries
+ */
+export interface HyperViewOrder {
+  /** Property to order by (or `id`) */
+  property: string;
+
+  /** Sort direction (default: 'asc') */
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Options for findHyperViews
+ */
+export interface FindHyperViewsOptions {
+  /** Ordering (default: by id) */
+  orderBy?: HyperViewOrder;
+
+  /** Number of matches to skip */
+  offset?: number;
+
+  /** Maximum number of views to return */
+  limit?: number;
+}
+
 // ============================================================================
 // Stream Types
 // ============================================================================
@@ -293,6 +423,11 @@ export interface DeltaFilter {
  */
 export type DeltaHandler = (delta: Delta) => void | Promise<void>;
 
+/**
+ * Handler for the deltas committed together by one transaction
+ */
+export type DeltaBatchHandler = (deltas: Delta[]) => void | Promise<void>;
+
 /**
  * Subscription to a delta stream
  */
@@ -349,6 +484,9 @@ export interface DeltaAuthor extends RhizomeInstance {
   /** Create a new delta */
   createDelta(author: string, pointers: Pointer[]): Delta;
 
+  /** Create a new delta signed with the author's Ed25519 private key */
+  createSignedDelta(author: string, pointers: Pointer[], privateKey: SigningKey): Delta;
+
   /** Create a negation delta */
   negateDelta(author: string, targetDeltaId: string, reason?: string): Delta;
 }
@@ -357,7 +495,12 @@ export interface DeltaAuthor extends RhizomeInstance {
  * Delta persistence capability
  */
 export interface DeltaStore extends RhizomeInstance {
-  /** Persist a delta */
+  /**
+   * Persist a delta
+   *
+   * Already-known delta IDs are ignored; deltas are held back until their
+   * causal parents are persisted.
+   */
   persistDelta(delta: Delta): Promise<void>;
 
   /** Batch persist deltas */
@@ -368,6 +511,30 @@ export interface DeltaStore extends RhizomeInstance {
 
   /** Scan deltas (for initial load, backfill, etc.) */
   scanDeltas(filter?: DeltaFilter, cursor?: string): AsyncIterable<Delta>;
+
+  /**
+   * Stage deltas in `fn` and persist them atomically once it resolves
+   *
+   * Nothing is persisted if `fn` throws or any staged delta is invalid.
+   */
+  transaction<T>(fn: (tx: DeltaTransaction) => T | Promise<T>): Promise<T>;
+}
+
+/**
+ * Deltas staged for an atomic commit
+ */
+export interface DeltaTransaction {
+  /** Create a delta and stage it */
+  createDelta(author: string, pointers: Pointer[]): Delta;
+
+  /** Create a negation delta and stage it */
+  negateDelta(author: string, targetDeltaId: string, reason?: string): Delta;
+
+  /** Stage an existing delta (validated immediately) */
+  persistDelta(delta: Delta): void;
+
+  /** Staged deltas, in staging order */
+  getDeltas(): Delta[];
 }
 
 /**
@@ -409,6 +576,90 @@ export interface IndexMaintainer extends RhizomeInstance {
   rebuildHyperView(objectId: string, schemaId?: string): MaterializedHyperView;
 }
 
+/**
+ * Storage backend behind a RhizomeDB instance
+ *
+ * RhizomeDB's query API is synchronous, so adapters answer reads from an
+ * in-memory working set and make appends durable asynchronously.
+ */
+export interface DeltaStorageAdapter {
+  /** Backend name reported in instance stats */
+  readonly type: string;
+
+  /**
+   * Load persisted deltas (called once, before any other method)
+   *
+   * Backends with nothing to load may open synchronously.
+   */
+  open(): void | Promise<void>;
+
+  /** Release the backend */
+  close(): Promise<void>;
+
+  /**
+   * Append a validated delta
+   *
+   * The promise resolves once the delta is durable and readable. If the
+   * write fails, the delta must not be left readable (or reported by `has`),
+   * so that it can be retried.
+   */
+  append(delta: Delta): Promise<void>;
+
+  /**
+   * Append validated deltas all-or-nothing, in the given order
+   *
+   * Like `append`, the promise resolves once all of them are durable and
+   * readable together.
+   */
+  appendBatch(deltas: Delta[]): Promise<void>;
+
+  /** Get a delta by ID */
+  get(id: string): Delta | undefined;
+
+  /** Check whether a delta is stored */
+  has(id: string): boolean;
+
+  /** All deltas in append order (callers must not mutate the array) */
+  getAll(): Delta[];
+
+  /** Number of stored deltas */
+  count(): number;
+
+  /** Candidate delta IDs for a filter from the indexes, or null to scan */
+  queryDeltaIds(filter: DeltaFilter): Set<string> | null;
+
+  /** IDs of deltas with a Reference to an object */
+  getDeltaIdsByTargetId(targetId: string): Set<string>;
+
+  /** IDs of deltas with a Reference in a target context */
+  getDeltaIdsByTargetContext(context: string): Set<string>;
+
+  /** IDs of effectively negated deltas, optionally as of a timestamp */
+  getNegatedDeltaIds(asOfTimestamp?: number): Set<string>;
+
+  /**
+   * Read deltas by ID from the backend itself (optional)
+   *
+   * Backends with their own indexes implement this and `scan`, and
+   * `RhizomeDB.getDeltas`/`scanDeltas` then read through them.
+   */
+  getMany?(ids: string[]): Promise<Delta[]>;
+
+  /**
+   * Stream deltas from the backend's own indexes (optional)
+   *
+   * With a filter, negated deltas are skipped unless `includeNegated`, as in
+   * `RhizomeDB.queryDeltas`; without one, every delta is streamed.
+   */
+  scan?(filter?: DeltaFilter, cursor?: string): AsyncIterable<Delta>;
+
+  /** Index statistics */
+  getIndexStats(): IndexStats;
+
+  /** Remove all deltas */
+  clear(): void;
+}
+
 /**
  * Configuration for RhizomeDB instance
  */
@@ -419,7 +670,12 @@ export interface RhizomeConfig {
   /** Storage backend type */
   storage: 'memory' | 'leveldb' | 'custom';
 
-  /** Storage-specific configuration */
+  /**
+   * Storage-specific configuration
+   *
+   * 'memory': optionally `{ wal: WriteAheadLogConfig }` for durability.
+   * 'leveldb': `{ path: string }`. 'custom': `{ adapter: DeltaStorageAdapter }`.
+   */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   storageConfig?: any;
 
@@ -431,6 +687,24 @@ export interface RhizomeConfig {
 
   /** Validate schemas on registration to prevent cycles (default: false) */
   validateSchemas?: boolean;
+
+  /**
+   * How new delta IDs are generated (default: 'uuid')
+   *
+   * 'content' derives the ID from a hash of the delta's content, rejects
+   * deltas whose ID is not content-addressed, and treats re-delivery of the
+   * same content as a no-op.
+   */
+  deltaIdentity?: 'uuid' | 'content';
+
+  /**
+   * How new deltas are timestamped (default: 'wall')
+   *
+   * 'hlc' stamps each delta from a hybrid logical clock that advances past
+   * every delta received through federation, so causally later deltas always
+   * order after the deltas they follow, despite clock skew between systems.
+   */
+  clock?: 'wall' | 'hlc';
 }
 
 /**
@@ -498,6 +772,9 @@ export interface InstanceStats {
   /** Storage backend type */
   storageType?: string;
 
+  /** Deltas held back until their causal parents arrive */
+  pendingDeltas?: number;
+
   /** Cache performance statistics */
   cacheStats?: CacheStats;
 
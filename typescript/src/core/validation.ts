@@ -4,6 +4,8 @@
  */
 
 import { Delta, Pointer, Reference, DomainNodeReference } from './types';
+import { isContentId, hasValidContentId } from './canonical';
+import { CAUSAL_PARENT_ROLE, CAUSAL_CHILDREN_CONTEXT } from './causality';
 
 /**
  * Validation error thrown when a delta or pointer is invalid
@@ -76,6 +78,14 @@ export function validatePointer(pointer: Pointer): void {
   }
 }
 
+/**
+ * Options for delta validation
+ */
+export interface DeltaValidationOptions {
+  /** Reject deltas whose ID is not content-addressed (default: false) */
+  requireContentId?: boolean;
+}
+
 /**
  * Validate a delta
  *
@@ -86,10 +96,14 @@ export function validatePointer(pointer: Pointer): void {
  * 4. Non-empty system
  * 5. Valid pointers array (can be empty)
  * 6. Each pointer must be valid
+ * 7. Signature, if present, must be a non-empty string
+ * 8. A content-addressed ID must match the delta's content
+ * 9. HLC, if present, must be well-formed and agree with the timestamp
+ * 10. Causal parent pointers must reference other deltas, each at most once
  *
  * @throws ValidationError if delta is invalid
  */
-export function validateDelta(delta: Delta): void {
+export function validateDelta(delta: Delta, options: DeltaValidationOptions = {}): void {
   // 1. Non-empty ID
   if (!delta.id || typeof delta.id !== 'string') {
     throw new ValidationError('Delta must have non-empty id string');
@@ -126,6 +140,53 @@ export function validateDelta(delta: Delta): void {
       throw error;
     }
   }
+
+  // 7. Optional signature
+  if (
+    delta.signature !== undefined &&
+    (typeof delta.signature !== 'string' || delta.signature.length === 0)
+  ) {
+    throw new ValidationError('Delta signature must be a non-empty string');
+  }
+
+  // 8. Content-addressed identity
+  if (isContentId(delta.id)) {
+    if (!hasValidContentId(delta)) {
+      throw new ValidationError(`Delta ${delta.id} does not match its content`);
+    }
+  } else if (options.requireContentId) {
+    throw new ValidationError(`Delta ${delta.id} does not have a content-addressed id`);
+  }
+
+  // 9. Optional hybrid logical clock
+  if (delta.hlc !== undefined) {
+    const { physical, logical } = delta.hlc;
+    if (!Number.isInteger(physical) || !Number.isInteger(logical) || logical < 0) {
+      throw new ValidationError('Delta hlc must have integer physical and logical components');
+    }
+    if (physical !== delta.timestamp) {
+      throw new ValidationError('Delta hlc.physical must equal its timestamp');
+    }
+  }
+
+  // 10. Causal parents
+  const parentIds = new Set<string>();
+  for (const pointer of delta.pointers) {
+    if (pointer.role !== CAUSAL_PARENT_ROLE) continue;
+
+    if (!isReference(pointer.target) || pointer.target.context !== CAUSAL_CHILDREN_CONTEXT) {
+      throw new ValidationError(
+        `Causal parent pointer must reference a delta in context '${CAUSAL_CHILDREN_CONTEXT}'`
+      );
+    }
+    if (pointer.target.id === delta.id) {
+      throw new ValidationError(`Delta ${delta.id} cannot be its own causal parent`);
+    }
+    if (parentIds.has(pointer.target.id)) {
+      throw new ValidationError(`Duplicate causal parent ${pointer.target.id}`);
+    }
+    parentIds.add(pointer.target.id);
+  }
 }
 
 /**
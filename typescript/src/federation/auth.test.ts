@@ -0,0 +1,197 @@
+/**
+ * Tests for the authenticated federation handshake
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { generateSigningKeyPair } from '../core/signing';
+import { FederationManager, FederationManagerConfig } from './manager';
+import { FederationServerConfig } from './server/server';
+import { createNonce, createProof, verifyProof } from './auth';
+import { FederationEvent, SyncCheckpoint, SyncCheckpointStore } from './types';
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(check()).toBe(true);
+}
+
+describe('Federation Authentication', () => {
+  describe('proofs', () => {
+    it('should verify HMAC proofs only with the same secret and systems', () => {
+      const nonce = createNonce();
+      const proof = createProof('hmac', { sharedSecret: 'secret' }, 'spoke', 'hub', nonce);
+
+      expect(verifyProof(proof, { sharedSecret: 'secret' }, 'spoke', 'hub', nonce)).toBe(true);
+      expect(verifyProof(proof, { sharedSecret: 'other' }, 'spoke', 'hub', nonce)).toBe(false);
+      // A proof can't be reflected back at its sender
+      expect(verifyProof(proof, { sharedSecret: 'secret' }, 'hub', 'spoke', nonce)).toBe(false);
+      expect(verifyProof(proof, { sharedSecret: 'secret' }, 'spoke', 'hub', createNonce())).toBe(
+        false
+      );
+    });
+
+    it('should verify signed nonces against the public key', () => {
+      const keys = generateSigningKeyPair();
+      const nonce = createNonce();
+      const proof = createProof(
+        'signature',
+        { privateKey: keys.privateKey },
+        'spoke',
+        'hub',
+        nonce
+      );
+
+      expect(verifyProof(proof, { publicKey: keys.publicKey }, 'spoke', 'hub', nonce)).toBe(true);
+      expect(
+        verifyProof(proof, { publicKey: generateSigningKeyPair().publicKey }, 'spoke', 'hub', nonce)
+      ).toBe(false);
+      expect(createProof('signature', { sharedSecret: 'secret' }, 'spoke', 'hub', nonce)).toBe(
+        undefined
+      );
+    });
+  });
+
+  describe('over a link', () => {
+    const port = 21000 + Math.floor(Math.random() * 1000);
+    const url = `ws://localhost:${port}/federation`;
+    let hub: RhizomeDB;
+    let spoke: RhizomeDB;
+    let server: FederationManager | undefined;
+    let client: FederationManager | undefined;
+    let events: FederationEvent[];
+
+    function start(
+      serverConfig: Omit<FederationServerConfig, 'port'>,
+      clientConfig: FederationManagerConfig = {}
+    ): FederationManager {
+      server = new FederationManager(hub, {
+        enableServer: true,
+        serverConfig: { port, ...serverConfig }
+      });
+      server.onFederationEvent(event => events.push(event));
+      client = new FederationManager(spoke, { autoBroadcast: true, ...clientConfig });
+      return client;
+    }
+
+    beforeEach(() => {
+      hub = new RhizomeDB({ storage: 'memory', systemId: 'hub' });
+      spoke = new RhizomeDB({ storage: 'memory', systemId: 'spoke' });
+      events = [];
+    });
+
+    afterEach(async () => {
+      await client?.close();
+      await server?.close();
+      client = server = undefined;
+    });
+
+    it('should reject systems missing from the allow-list', async () => {
+      const manager = start({ peers: [{ systemId: 'other' }] });
+
+      await expect(manager.connectToRemote(url, { mode: 'pull' })).rejects.toThrow(
+        'System not allowed: spoke'
+      );
+      expect(events.find(event => event.type === 'link:rejected')).toMatchObject({
+        remoteSystemId: 'spoke',
+        reason: 'System not allowed: spoke'
+      });
+      await waitFor(() => server!.getServer()!.getClients().length === 0);
+    });
+
+    it('should authenticate both ends with a shared secret', async () => {
+      const manager = start(
+        { peers: [{ systemId: 'spoke', sharedSecret: 'secret' }] },
+        { credentials: { sharedSecret: 'secret' } }
+      );
+
+      const link = await manager.connectToRemote(url, { mode: 'bidirectional' });
+
+      expect(link.permission).toBe('full');
+      expect(server!.getServer()!.getClients()[0]).toMatchObject({
+        systemId: 'spoke',
+        permission: 'full'
+      });
+    });
+
+    it('should reject a wrong secret', async () => {
+      const manager = start(
+        { peers: [{ systemId: 'spoke', sharedSecret: 'secret' }] },
+        { credentials: { sharedSecret: 'guess' } }
+      );
+
+      await expect(manager.connectToRemote(url, { mode: 'pull' })).rejects.toThrow(
+        'Authentication failed'
+      );
+    });
+
+    it('should refuse a server that cannot prove it holds the secret', async () => {
+      const manager = start({}, { credentials: { sharedSecret: 'secret' } });
+
+      await expect(manager.connectToRemote(url, { mode: 'pull' })).rejects.toThrow(
+        'Remote failed authentication: hub'
+      );
+    });
+
+    it('should authenticate a peer by signed nonce', async () => {
+      const spokeKeys = generateSigningKeyPair();
+      const hubKeys = generateSigningKeyPair();
+      const manager = start(
+        {
+          peers: [{ systemId: 'spoke', publicKey: spokeKeys.publicKey }],
+          credentials: { privateKey: hubKeys.privateKey }
+        },
+        {
+          credentials: { privateKey: spokeKeys.privateKey, remotePublicKey: hubKeys.publicKey }
+        }
+      );
+
+      const link = await manager.connectToRemote(url, { mode: 'pull' });
+
+      expect(link.status).toBe('connected');
+    });
+
+    it('should not accept deltas from a read-only peer', async () => {
+      const manager = start({ peers: [{ systemId: 'spoke', permission: 'read-only' }] });
+      const link = await manager.connectToRemote(url, { mode: 'push', initialSync: 'none' });
+      expect(link.permission).toBe('read-only');
+
+      await spoke.persistDelta(spoke.createDelta('alice', [{ role: 'name', target: 'Alice' }]));
+      await waitFor(() => events.some(event => event.type === 'delta:rejected'));
+
+      expect(events.find(event => event.type === 'delta:rejected')).toMatchObject({
+        reason: 'Peer is read-only'
+      });
+      expect(hub.getStats().totalDeltas).toBe(0);
+    });
+
+    it('should sync in batches no larger than either side allows', async () => {
+      for (let i = 0; i < 5; i++) {
+        await hub.persistDelta(hub.createDelta('alice', [{ role: 'name', target: `v${i}` }]));
+      }
+      // One checkpoint is saved per batch received
+      const saved: SyncCheckpoint[] = [];
+      const checkpointStore: SyncCheckpointStore = {
+        get: () => Promise.resolve(undefined),
+        set: (_, checkpoint) => {
+          saved.push(checkpoint);
+          return Promise.resolve();
+        }
+      };
+      const manager = start({ capabilities: { maxBatchSize: 10 } }, { checkpointStore });
+
+      const link = await manager.connectToRemote(url, {
+        mode: 'pull',
+        initialSync: 'full',
+        capabilities: { maxBatchSize: 2 }
+      });
+      await waitFor(() => spoke.getStats().totalDeltas === 5);
+
+      expect(link.remoteCapabilities).toMatchObject({
+        codecs: ['binary', 'json'],
+        maxBatchSize: 10
+      });
+      expect(saved).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Federation handshake authentication
+ *
+ * Each side of a link can prove its identity by answering a fresh nonce from
+ * the other: with an HMAC under a shared secret, or with an Ed25519
+ * signature from its system key pair. The signed payload names the prover
+ * and the verifier, so a proof can't be replayed to another system or
+ * reflected back at its sender.
+ */
+
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  randomBytes,
+  sign,
+  timingSafeEqual,
+  verify,
+  KeyObject
+} from 'crypto';
+import { SigningKey } from '../core/signing';
+import { AuthMethod, AuthProof, PROTOCOL_VERSION } from './protocol/messages';
+
+/**
+ * Keys a proof can be checked against
+ */
+export interface ProofKeys {
+  sharedSecret?: string;
+  publicKey?: SigningKey;
+}
+
+/**
+ * Generate a random challenge nonce
+ */
+export function createNonce(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Bytes a proof covers
+ */
+function authPayload(prover: string, verifier: string, nonce: string): Buffer {
+  return Buffer.from([PROTOCOL_VERSION, prover, verifier, nonce].join('\n'));
+}
+
+function toKey(key: SigningKey, create: (pem: string) => KeyObject): KeyObject {
+  return typeof key === 'string' ? create(key) : key;
+}
+
+/**
+ * Answer a nonce, or return undefined without the credentials the method needs
+ *
+ * @param prover - System ID of the side making the proof
+ * @param verifier - System ID of the side that sent the nonce
+ */
+export function createProof(
+  method: AuthMethod,
+  credentials: { sharedSecret?: string; privateKey?: SigningKey },
+  prover: string,
+  verifier: string,
+  nonce: string
+): AuthProof | undefined {
+  const payload = authPayload(prover, verifier, nonce);
+
+  if (method === 'hmac' && credentials.sharedSecret !== undefined) {
+    return {
+      method,
+      value: createHmac('sha256', credentials.sharedSecret).update(payload).digest('hex')
+    };
+  }
+
+  if (method === 'signature' && credentials.privateKey !== undefined) {
+    const signature = sign(null, payload, toKey(credentials.privateKey, createPrivateKey));
+    return { method, value: signature.toString('base64') };
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a proof made with `createProof`
+ *
+ * @returns false if the proof is wrong, malformed, or uses a method there is
+ * no key for
+ */
+export function verifyProof(
+  proof: AuthProof | undefined,
+  keys: ProofKeys,
+  prover: string,
+  verifier: string,
+  nonce: string
+): boolean {
+  if (!proof || typeof proof.value !== 'string') {
+    return false;
+  }
+
+  const payload = authPayload(prover, verifier, nonce);
+
+  if (proof.method === 'hmac' && keys.sharedSecret !== undefined) {
+    const expected = createHmac('sha256', keys.sharedSecret).update(payload).digest();
+    const actual = Buffer.from(proof.value, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  if (proof.method === 'signature' && keys.publicKey !== undefined) {
+    try {
+      return verify(
+        null,
+        payload,
+        toKey(keys.publicKey, createPublicKey),
+        Buffer.from(proof.value, 'base64')
+      );
+    } catch {
+      // Malformed key or signature
+      return false;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for checkpointed, resumable federation sync
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RhizomeDB } from '../storage/instance';
+import { FederationManager } from './manager';
+import { FileCheckpointStore } from './checkpoints';
+import { FederationEvent, SyncCheckpoint } from './types';
+
+function waitForEvent(
+  manager: FederationManager,
+  type: FederationEvent['type']
+): Promise<FederationEvent> {
+  return new Promise(resolve => {
+    const unsubscribe = manager.onFederationEvent(event => {
+      if (event.type === type) {
+        unsubscribe();
+        resolve(event);
+      }
+    });
+  });
+}
+
+describe('Sync Checkpoints', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    const tmpDir = '/tmp/rhizomedb-test';
+    if (!fs.existsSync(tmpDir)) {
+      fs.mkdirSync(tmpDir, { recursive: true });
+    }
+    dir = path.join(tmpDir, `checkpoints-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep file checkpoints across instances', async () => {
+    const filePath = path.join(dir, 'checkpoints.json');
+    const checkpoint: SyncCheckpoint = {
+      timestamp: 42,
+      deltaId: 'delta-1',
+      filter: '{}',
+      updatedAt: Date.now()
+    };
+
+    const store = new FileCheckpointStore(filePath);
+    expect(await store.get('remote')).toBeUndefined();
+    await Promise.all([
+      store.set('remote', { ...checkpoint, timestamp: 41 }),
+      store.set('remote', checkpoint)
+    ]);
+
+    expect(await new FileCheckpointStore(filePath).get('remote')).toEqual(checkpoint);
+  });
+
+  it('should ignore re-delivered deltas', async () => {
+    const db = new RhizomeDB({ storage: 'memory' });
+    const published: string[] = [];
+    db.subscribe({}, delta => {
+      published.push(delta.id);
+    });
+
+    const delta = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+    await db.persistDelta(delta);
+    await db.persistDelta({ ...delta });
+    await db.transaction(tx => tx.persistDelta({ ...delta }));
+
+    expect(db.getStats().totalDeltas).toBe(1);
+    expect(published).toEqual([delta.id]);
+  });
+
+  describe('resuming over a link', () => {
+    const port = 18000 + Math.floor(Math.random() * 1000);
+    let source: RhizomeDB;
+    let server: FederationManager;
+
+    beforeEach(() => {
+      source = new RhizomeDB({ storage: 'memory', systemId: 'source' });
+      server = new FederationManager(source, { enableServer: true, serverConfig: { port } });
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    async function syncOnce(target: RhizomeDB, filePath: string): Promise<FederationEvent[]> {
+      const manager = new FederationManager(target, {
+        checkpointStore: new FileCheckpointStore(filePath)
+      });
+      const events: FederationEvent[] = [];
+      manager.onFederationEvent(event => events.push(event));
+
+      const completed = waitForEvent(manager, 'sync:completed');
+      await manager.connectToRemote(`ws://localhost:${port}/federation`, {
+        mode: 'pull',
+        initialSync: 'full'
+      });
+      await completed;
+      await manager.close();
+      return events;
+    }
+
+    it('should only request deltas after the checkpoint', async () => {
+      for (const value of ['a', 'b', 'c']) {
+        await source.persistDelta(source.createDelta('alice', [{ role: 'name', target: value }]));
+        // One delta per millisecond, so only 'c' shares the checkpoint's timestamp
+        await new Promise(resolve => setTimeout(resolve, 2));
+      }
+      const target = new RhizomeDB({ storage: 'memory', systemId: 'target' });
+      const filePath = path.join(dir, 'checkpoints.json');
+
+      const first = await syncOnce(target, filePath);
+      expect(first.some(event => event.type === 'sync:resumed')).toBe(false);
+      expect(target.getStats().totalDeltas).toBe(3);
+
+      const last = source.createDelta('alice', [{ role: 'name', target: 'd' }]);
+      await source.persistDelta(last);
+
+      const second = await syncOnce(target, filePath);
+      const resumed = second.find(event => event.type === 'sync:resumed');
+      const completed = second.find(event => event.type === 'sync:completed');
+      expect(resumed).toBeDefined();
+      // The checkpointed delta is sent again and skipped
+      expect(completed).toMatchObject({ deltasProcessed: 2 });
+      expect(target.getStats().totalDeltas).toBe(4);
+      expect((await new FileCheckpointStore(filePath).get('source'))?.deltaId).toBe(last.id);
+    });
+  });
+});
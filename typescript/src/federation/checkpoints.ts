@@ -0,0 +1,85 @@
+/**
+ * Sync checkpoint stores
+ *
+ * A federation link records how far it got through a remote's initial sync
+ * stream, so that after a disconnect it asks only for the rest.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncCheckpoint, SyncCheckpointStore } from './types';
+
+/**
+ * Checkpoints kept in memory
+ *
+ * Covers reconnects within one process (the default).
+ */
+export class MemoryCheckpointStore implements SyncCheckpointStore {
+  private checkpoints: Map<string, SyncCheckpoint> = new Map();
+
+  get(remoteSystemId: string): Promise<SyncCheckpoint | undefined> {
+    return Promise.resolve(this.checkpoints.get(remoteSystemId));
+  }
+
+  set(remoteSystemId: string, checkpoint: SyncCheckpoint): Promise<void> {
+    this.checkpoints.set(remoteSystemId, checkpoint);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Checkpoints kept in a JSON file, so links resume across restarts
+ *
+ * Each update rewrites the file through a temporary file and a rename, so a
+ * crash leaves either the old or the new checkpoints.
+ */
+export class FileCheckpointStore implements SyncCheckpointStore {
+  private checkpoints: Promise<Map<string, SyncCheckpoint>> | null = null;
+  // Writes run one at a time, in call order
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(remoteSystemId: string): Promise<SyncCheckpoint | undefined> {
+    return (await this.load()).get(remoteSystemId);
+  }
+
+  set(remoteSystemId: string, checkpoint: SyncCheckpoint): Promise<void> {
+    const write = this.writes.then(async () => {
+      const checkpoints = await this.load();
+      checkpoints.set(remoteSystemId, checkpoint);
+
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tmpPath, JSON.stringify(Object.fromEntries(checkpoints)));
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+
+    // A failed write fails its caller, not the writes queued after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private load(): Promise<Map<string, SyncCheckpoint>> {
+    // Read the file once; later reads and writes share the same map
+    if (!this.checkpoints) {
+      this.checkpoints = this.readFile();
+    }
+    return this.checkpoints;
+  }
+
+  private async readFile(): Promise<Map<string, SyncCheckpoint>> {
+    try {
+      const saved = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as Record<
+        string,
+        SyncCheckpoint
+      >;
+      return new Map(Object.entries(saved));
+    } catch (err: unknown) {
+      if ((err as { code?: string }).code !== 'ENOENT') {
+        throw err;
+      }
+      return new Map();
+    }
+  }
+}
@@ -7,23 +7,54 @@
 import WebSocket from 'ws';
 import { Delta } from '../../core/types';
 import {
+  DeadLetter,
+  FederationCapabilities,
   FederationConfig,
+  FederationCredentials,
   FederationLink,
   FederationLinkStatus,
   FederationStats,
-  ReconnectConfig
+  MessageEncoding,
+  PeerPermission,
+  ReconnectConfig,
+  SyncCheckpointStore
 } from '../types';
+import { MemoryCheckpointStore } from '../checkpoints';
+import { ReceiveBuffer, SendWindow } from '../flow-control';
 import {
   MessageType,
   ProtocolMessage,
   HelloMessage,
-  DeltaMessage,
-  PROTOCOL_VERSION
+  HelloAckMessage,
+  AuthChallengeMessage,
+  DeltaBatchMessage,
+  ReconcileSummaryMessage,
+  ReconcileDeltasMessage,
+  PROTOCOL_VERSION,
+  DEFAULT_CAPABILITIES
 } from '../protocol/messages';
-import { encodeMessage, decodeMessage } from '../protocol/codec';
+import { createNonce, createProof, verifyProof } from '../auth';
+import {
+  LocalReconcilePeer,
+  ReconcileOptions,
+  ReconcileResult,
+  reconcile
+} from '../reconciliation';
+import {
+  decodeFrame,
+  encodeFrame,
+  isEncodingSupported,
+  toFrameBuffer,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  JSON_ENCODING
+} from '../protocol/codec';
 import { verifyDelta } from '../trust';
+import { matchesDeltaFilter } from '../../queries/filter-expression';
 import { v4 as uuidv4 } from 'uuid';
 
+// How long to wait for each reconciliation reply
+const RECONCILE_TIMEOUT = 30000;
+
 /**
  * Event handlers for federation connection
  */
@@ -31,10 +62,16 @@ export interface ConnectionEventHandlers {
   onConnected?: (remoteSystemId: string) => void;
   onDisconnected?: (reason?: string) => void;
   onError?: (error: Error) => void;
-  onDeltaReceived?: (delta: Delta) => void;
+  onDeltaReceived?: (delta: Delta) => void | Promise<void>;
+  /** Deltas of one remote transaction, to be applied together */
+  onDeltasReceived?: (deltas: Delta[]) => void | Promise<void>;
   onDeltaRejected?: (deltaId: string, reason: string) => void;
+  /** Why a delta that passed the trust policy is refused, if it is */
+  checkDelta?: (delta: Delta) => string | undefined;
   onSyncStarted?: () => void;
+  onSyncResumed?: (fromTimestamp: number) => void;
   onSyncCompleted?: (deltasProcessed: number) => void;
+  onDeadLetter?: (deadLetter: DeadLetter) => void;
 }
 
 /**
@@ -50,18 +87,41 @@ export class FederationConnection implements FederationLink {
   private _status: FederationLinkStatus = 'disconnected';
   private _stats: FederationStats;
   private _lastError?: Error;
+  private _permission?: PeerPermission;
+  private _remoteCapabilities?: FederationCapabilities;
+  private _encoding: MessageEncoding = JSON_ENCODING;
+  // Whether HELLO_ACK has settled the encoding; binary frames are refused until then
+  private encodingSettled = false;
+  // Nonce sent in HELLO, for the server to prove its identity with
+  private helloNonce = '';
   private eventHandlers: ConnectionEventHandlers;
   private reconnectAttempts = 0;
   private reconnectTimer?: NodeJS.Timeout;
   private isPaused = false;
-  private pendingDeltas: Delta[] = [];
+  // Outgoing deltas, grouped as they were committed
+  private readonly outbound: SendWindow;
+  // Incoming live deltas, applied in arrival order
+  private readonly inbound: ReceiveBuffer;
   private heartbeatInterval?: NodeJS.Timeout;
+  // Messages are handled one at a time, so a checkpoint is only saved once
+  // everything before it has been applied
+  private messageQueue: Promise<void> = Promise.resolve();
+  // Reconciliation replies awaited, by session ID
+  private pendingReconciles: Map<
+    string,
+    {
+      resolve: (message: ReconcileSummaryMessage | ReconcileDeltasMessage) => void;
+      reject: (error: Error) => void;
+    }
+  > = new Map();
 
   constructor(
     public readonly localSystemId: string,
     remoteUrl: string,
     config: FederationConfig,
-    eventHandlers: ConnectionEventHandlers = {}
+    eventHandlers: ConnectionEventHandlers = {},
+    private readonly checkpoints: SyncCheckpointStore = new MemoryCheckpointStore(),
+    private readonly credentials: FederationCredentials = {}
   ) {
     this.id = uuidv4();
     this.remoteUrl = remoteUrl;
@@ -81,8 +141,37 @@ export class FederationConnection implements FederationLink {
       deltasSent: 0,
       deltasReceived: 0,
       deltasRejected: 0,
+      filterViolations: 0,
+      bytesSent: 0,
+      bytesReceived: 0,
       lastSyncTimestamp: 0
     };
+    this.outbound = new SendWindow(
+      this.config.flowControl,
+      deltas => this.transmit(deltas),
+      deadLetter => this.eventHandlers.onDeadLetter?.(deadLetter)
+    );
+    this.inbound = new ReceiveBuffer(
+      this.config.flowControl,
+      delta => this.receiveDelta(delta),
+      pause => {
+        // Don't lift a pause the user asked for
+        if (pause || !this.isPaused) {
+          const type = pause ? MessageType.PAUSE : MessageType.RESUME;
+          this.send({ type, timestamp: Date.now() });
+        }
+      },
+      (delta, reason) => {
+        this._stats.deltasRejected++;
+        this.eventHandlers.onDeltaRejected?.(delta.id, reason);
+        this.send({
+          type: MessageType.DELTA_NACK,
+          timestamp: Date.now(),
+          deltaId: delta.id,
+          reason
+        });
+      }
+    );
   }
 
   /**
@@ -99,11 +188,38 @@ export class FederationConnection implements FederationLink {
     return this._status;
   }
 
+  /**
+   * Get what the remote allows this link to do
+   */
+  get permission(): PeerPermission | undefined {
+    return this._permission;
+  }
+
+  /**
+   * Get the capabilities the remote advertised
+   */
+  get remoteCapabilities(): FederationCapabilities | undefined {
+    return this._remoteCapabilities;
+  }
+
+  /**
+   * Get the encoding this link sends with
+   */
+  get encoding(): MessageEncoding {
+    return this._encoding;
+  }
+
   /**
    * Get connection statistics
    */
   get stats(): FederationStats {
-    return { ...this._stats };
+    return {
+      ...this._stats,
+      deltasInFlight: this.outbound.inFlightCount,
+      deltasQueued: this.outbound.queuedCount,
+      deltasRetried: this.outbound.retries,
+      deadLetters: this.outbound.getDeadLetters().length
+    };
   }
 
   /**
@@ -125,11 +241,15 @@ export class FederationConnection implements FederationLink {
     this._lastError = undefined;
 
     try {
-      this.ws = new WebSocket(this.remoteUrl);
+      this.ws = new WebSocket(this.remoteUrl, {
+        maxPayload: this.config.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE
+      });
 
       // Setup WebSocket event handlers
       this.ws.on('open', () => this.handleOpen());
-      this.ws.on('message', (data: WebSocket.Data) => this.handleMessage(data));
+      this.ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+        this.messageQueue = this.messageQueue.then(() => this.handleMessage(data, isBinary));
+      });
       this.ws.on('close', (code: number, reason: Buffer) =>
         this.handleClose(code, reason.toString())
       );
@@ -169,13 +289,20 @@ export class FederationConnection implements FederationLink {
    * Handle WebSocket open event
    */
   private handleOpen(): void {
+    this.helloNonce = createNonce();
+    // Until HELLO_ACK settles the encoding
+    this._encoding = JSON_ENCODING;
+    this.encodingSettled = false;
+
     // Send HELLO message
     const hello: HelloMessage = {
       type: MessageType.HELLO,
       timestamp: Date.now(),
       systemId: this.localSystemId,
       config: this.config,
-      protocol: PROTOCOL_VERSION
+      protocol: PROTOCOL_VERSION,
+      capabilities: { ...DEFAULT_CAPABILITIES, ...this.config.capabilities },
+      nonce: this.helloNonce
     };
 
     this.send(hello);
@@ -184,13 +311,36 @@ export class FederationConnection implements FederationLink {
   /**
    * Handle incoming WebSocket message
    */
-  private async handleMessage(data: WebSocket.Data): Promise<void> {
+  private async handleMessage(data: WebSocket.RawData, isBinary: boolean): Promise<void> {
     try {
-      const message = decodeMessage(data.toString());
+      const frame = toFrameBuffer(data);
+      this._stats.bytesReceived = (this._stats.bytesReceived || 0) + frame.length;
+      const message = decodeFrame(frame, isBinary, {
+        maxMessageSize: this.config.maxMessageSize,
+        binary: this.encodingSettled
+      });
 
       switch (message.type) {
+        case MessageType.AUTH_CHALLENGE:
+          this.handleAuthChallenge(message);
+          break;
+
         case MessageType.HELLO_ACK:
+          if (!this.verifyServer(message)) {
+            this.failHandshake(new Error(`Remote failed authentication: ${message.systemId}`));
+            break;
+          }
+          if (message.encoding && !isEncodingSupported(message.encoding)) {
+            this.failHandshake(
+              new Error(`Remote chose an unsupported encoding: ${JSON.stringify(message.encoding)}`)
+            );
+            break;
+          }
+          this._encoding = message.encoding ?? JSON_ENCODING;
+          this.encodingSettled = true;
           this._remoteSystemId = message.systemId;
+          this._permission = message.permission ?? 'full';
+          this._remoteCapabilities = { ...DEFAULT_CAPABILITIES, ...message.capabilities };
           this._status = 'connected';
           this._stats.connectedAt = Date.now();
           this.reconnectAttempts = 0;
@@ -203,20 +353,35 @@ export class FederationConnection implements FederationLink {
           }
 
           // Send any pending deltas
-          await this.flushPendingDeltas();
+          this.outbound.start();
           break;
 
         case MessageType.DELTA:
-          await this.handleDeltaMessage(message);
+          this.inbound.push(message.delta);
+          break;
+
+        case MessageType.DELTA_BATCH:
+          // After the live deltas that arrived before it
+          await this.inbound.drained();
+          await this.handleDeltaBatchMessage(message);
           break;
 
         case MessageType.DELTA_ACK:
-          // Delta acknowledged by remote
+          this.outbound.acknowledge(message.deltaId);
           break;
 
         case MessageType.DELTA_NACK:
           this._stats.deltasRejected++;
           this.eventHandlers.onDeltaRejected?.(message.deltaId, message.reason);
+          this.outbound.reject(message.deltaId, message.reason);
+          break;
+
+        case MessageType.PAUSE:
+          this.outbound.pause('remote');
+          break;
+
+        case MessageType.RESUME:
+          this.outbound.resume('remote');
           break;
 
         case MessageType.SYNC_START:
@@ -228,6 +393,9 @@ export class FederationConnection implements FederationLink {
           for (const delta of message.deltas) {
             await this.handleDelta(delta);
           }
+          if (message.deltas.length > 0) {
+            await this.saveCheckpoint(message.deltas[message.deltas.length - 1]);
+          }
           if (message.isLastBatch) {
             this._status = 'connected';
           }
@@ -238,6 +406,11 @@ export class FederationConnection implements FederationLink {
           this.eventHandlers.onSyncCompleted?.(message.deltasProcessed);
           break;
 
+        case MessageType.RECONCILE_SUMMARY:
+        case MessageType.RECONCILE_DELTAS:
+          this.pendingReconciles.get(message.sessionId)?.resolve(message);
+          break;
+
         case MessageType.PING:
           this.send({ type: MessageType.PONG, timestamp: Date.now() });
           break;
@@ -250,6 +423,9 @@ export class FederationConnection implements FederationLink {
           const error = new Error(message.message);
           this._lastError = error;
           this.eventHandlers.onError?.(error);
+          if (message.code.startsWith('RECONCILE_')) {
+            this.rejectPendingReconciles(error);
+          }
           if (message.fatal) {
             this.disconnect();
           }
@@ -263,68 +439,208 @@ export class FederationConnection implements FederationLink {
   }
 
   /**
-   * Handle DELTA message from remote
+   * Answer the server's AUTH_CHALLENGE
    */
-  private async handleDeltaMessage(message: DeltaMessage): Promise<void> {
-    await this.handleDelta(message.delta);
+  private handleAuthChallenge(message: AuthChallengeMessage): void {
+    const proof = createProof(
+      message.method,
+      this.credentials,
+      this.localSystemId,
+      message.systemId,
+      message.nonce
+    );
+
+    if (!proof) {
+      this.failHandshake(
+        new Error(
+          `Remote requires ${message.method} authentication, but no credentials are configured`
+        )
+      );
+      return;
+    }
+
+    this.send({ type: MessageType.AUTH_RESPONSE, timestamp: Date.now(), proof });
+  }
+
+  /**
+   * Check the server's answer to our HELLO nonce
+   *
+   * Only required when we hold a key to check it with (a shared secret or
+   * the remote's public key).
+   */
+  private verifyServer(message: HelloAckMessage): boolean {
+    const keys = {
+      sharedSecret: this.credentials.sharedSecret,
+      publicKey: this.credentials.remotePublicKey
+    };
+    if (keys.sharedSecret === undefined && keys.publicKey === undefined) {
+      return true;
+    }
+
+    return verifyProof(message.proof, keys, message.systemId, this.localSystemId, this.helloNonce);
+  }
+
+  /**
+   * Give up on a handshake
+   */
+  private failHandshake(error: Error): void {
+    this._lastError = error;
+    this.eventHandlers.onError?.(error);
+    void this.disconnect();
+  }
+
+  /**
+   * Apply a live delta from the receive buffer
+   *
+   * Acknowledged once stored; if storing fails, no acknowledgment is sent and
+   * the remote retries.
+   */
+  private async receiveDelta(delta: Delta): Promise<void> {
+    try {
+      if (!(await this.handleDelta(delta))) {
+        return;
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this._lastError = err;
+      this.eventHandlers.onError?.(err);
+      return;
+    }
 
-    // Send acknowledgment
     this.send({
       type: MessageType.DELTA_ACK,
       timestamp: Date.now(),
-      deltaId: message.delta.id
+      deltaId: delta.id
     });
   }
 
   /**
-   * Handle a delta (verify trust policy and pass to handler)
+   * Handle DELTA_BATCH message from remote
+   *
+   * The batch is one transaction, so it is accepted or rejected as a whole.
+   */
+  private async handleDeltaBatchMessage(message: DeltaBatchMessage): Promise<void> {
+    const rejected = new Map<string, string>();
+    for (const delta of message.deltas) {
+      const reason = await this.checkReceived(delta);
+      if (reason) {
+        rejected.set(delta.id, reason);
+      }
+    }
+
+    if (rejected.size > 0) {
+      const cause = rejected.values().next().value as string;
+      for (const delta of message.deltas) {
+        const reason = rejected.get(delta.id) ?? `Transaction contains a rejected delta (${cause})`;
+
+        this._stats.deltasRejected++;
+        this.eventHandlers.onDeltaRejected?.(delta.id, reason);
+        this.send({
+          type: MessageType.DELTA_NACK,
+          timestamp: Date.now(),
+          deltaId: delta.id,
+          reason
+        });
+      }
+      return;
+    }
+
+    this._stats.deltasReceived += message.deltas.length;
+    this._stats.lastSyncTimestamp = Date.now();
+    await this.eventHandlers.onDeltasReceived?.(message.deltas);
+
+    for (const delta of message.deltas) {
+      this.send({
+        type: MessageType.DELTA_ACK,
+        timestamp: Date.now(),
+        deltaId: delta.id
+      });
+    }
+  }
+
+  /**
+   * Handle a delta (check pull filter and trust policy, and pass to handler)
+   *
+   * @returns false if the delta was rejected
    */
-  private async handleDelta(delta: Delta): Promise<void> {
-    // Verify trust policy
-    const trusted = await verifyDelta(delta, this.config.trustPolicy);
+  private async handleDelta(delta: Delta): Promise<boolean> {
+    const reason = await this.checkReceived(delta);
 
-    if (!trusted) {
+    if (reason) {
       this._stats.deltasRejected++;
-      this.eventHandlers.onDeltaRejected?.(
-        delta.id,
-        'Failed trust policy verification'
-      );
+      this.eventHandlers.onDeltaRejected?.(delta.id, reason);
 
       // Send NACK
       this.send({
         type: MessageType.DELTA_NACK,
         timestamp: Date.now(),
         deltaId: delta.id,
-        reason: 'Failed trust policy verification'
+        reason
       });
-      return;
+      return false;
     }
 
     this._stats.deltasReceived++;
     this._stats.lastSyncTimestamp = Date.now();
-    this.eventHandlers.onDeltaReceived?.(delta);
+    await this.eventHandlers.onDeltaReceived?.(delta);
+    return true;
   }
 
   /**
    * Request initial sync from remote
    */
   private async requestInitialSync(): Promise<void> {
+    let fromTimestamp = this.config.syncFromTimestamp;
+
+    // Resume where the last sync with this remote stopped. Deltas sharing
+    // the checkpoint's timestamp are sent again and ignored as known IDs.
+    const checkpoint = await this.checkpoints.get(this._remoteSystemId);
+    if (checkpoint && checkpoint.filter === this.syncFilterKey()) {
+      fromTimestamp = Math.max(fromTimestamp ?? 0, checkpoint.timestamp);
+      this.eventHandlers.onSyncResumed?.(fromTimestamp);
+    }
+
     this.send({
       type: MessageType.SYNC_REQUEST,
       timestamp: Date.now(),
       filter: this.config.pullFilter,
-      fromTimestamp: this.config.syncFromTimestamp
+      fromTimestamp
     });
   }
 
+  /**
+   * Record that the sync stream has been applied up to a delta
+   *
+   * Sync streams are sorted, and live deltas (which are not) never move the
+   * checkpoint.
+   */
+  private async saveCheckpoint(delta: Delta): Promise<void> {
+    await this.checkpoints.set(this._remoteSystemId, {
+      timestamp: delta.timestamp,
+      deltaId: delta.id,
+      filter: this.syncFilterKey(),
+      updatedAt: Date.now()
+    });
+  }
+
+  /**
+   * Key identifying the pull filter a checkpoint was taken under
+   */
+  private syncFilterKey(): string {
+    return JSON.stringify(this.config.pullFilter ?? {});
+  }
+
   /**
    * Handle WebSocket close event
    */
   private handleClose(code: number, reason: string): void {
     this.stopHeartbeat();
 
-    const wasConnected = this._status === 'connected';
+    // A sync cut off part-way reconnects too, and resumes from its checkpoint
+    const wasConnected = this._status === 'connected' || this._status === 'syncing';
     this._status = 'disconnected';
+    this.outbound.stop();
+    this.rejectPendingReconciles(new Error(`Connection closed: ${reason}`));
 
     this.eventHandlers.onDisconnected?.(reason);
 
@@ -384,12 +700,17 @@ export class FederationConnection implements FederationLink {
       return;
     }
 
-    const encoded = encodeMessage(message);
-    this.ws.send(encoded);
+    const frame = encodeFrame(message, this._encoding);
+    this.ws.send(frame);
+    this._stats.bytesSent = (this._stats.bytesSent || 0) + Buffer.byteLength(frame);
 
     if (message.type === MessageType.DELTA) {
       this._stats.deltasSent++;
-      this._stats.bytesSent = (this._stats.bytesSent || 0) + encoded.length;
+    } else if (
+      message.type === MessageType.DELTA_BATCH ||
+      message.type === MessageType.RECONCILE_DELTAS
+    ) {
+      this._stats.deltasSent += message.deltas.length;
     }
   }
 
@@ -397,30 +718,50 @@ export class FederationConnection implements FederationLink {
    * Send a delta to remote instance
    */
   async sendDelta(delta: Delta): Promise<void> {
-    if (this._status !== 'connected') {
-      // Queue delta for later
-      this.pendingDeltas.push(delta);
-      return;
-    }
+    await this.sendDeltas([delta]);
+  }
 
-    if (this.isPaused) {
-      return;
-    }
+  /**
+   * Send the deltas of one transaction, to be applied together
+   *
+   * Resolves once the deltas are queued: they go out as the send window
+   * allows, and are retried until the remote acknowledges or rejects them.
+   */
+  sendDeltas(deltas: Delta[]): Promise<void> {
+    this.outbound.enqueue(deltas);
+    return Promise.resolve();
+  }
 
-    this.send({
-      type: MessageType.DELTA,
-      timestamp: Date.now(),
-      delta
-    });
+  /**
+   * Deltas the remote rejected or never acknowledged
+   */
+  getDeadLetters(): DeadLetter[] {
+    return this.outbound.getDeadLetters();
+  }
+
+  /**
+   * Queue every dead letter again
+   */
+  retryDeadLetters(): number {
+    return this.outbound.retryDeadLetters();
   }
 
   /**
-   * Flush pending deltas
+   * Put deltas on the wire (called by the send window)
    */
-  private async flushPendingDeltas(): Promise<void> {
-    while (this.pendingDeltas.length > 0) {
-      const delta = this.pendingDeltas.shift()!;
-      await this.sendDelta(delta);
+  private transmit(deltas: Delta[]): void {
+    if (deltas.length === 1) {
+      this.send({
+        type: MessageType.DELTA,
+        timestamp: Date.now(),
+        delta: deltas[0]
+      });
+    } else {
+      this.send({
+        type: MessageType.DELTA_BATCH,
+        timestamp: Date.now(),
+        deltas
+      });
     }
   }
 
@@ -449,6 +790,7 @@ export class FederationConnection implements FederationLink {
   pause(): void {
     this.isPaused = true;
     this._status = 'paused';
+    this.outbound.pause('local');
     this.send({ type: MessageType.PAUSE, timestamp: Date.now() });
   }
 
@@ -459,7 +801,135 @@ export class FederationConnection implements FederationLink {
     this.isPaused = false;
     this._status = 'connected';
     this.send({ type: MessageType.RESUME, timestamp: Date.now() });
-    this.flushPendingDeltas();
+    this.outbound.resume('local');
+  }
+
+  /**
+   * Reconcile delta sets with the remote (anti-entropy)
+   *
+   * Compares the deltas matching the pull filter on both sides and
+   * transfers what either lacks, as far as the link's mode allows. Updates
+   * the divergence stat.
+   */
+  async reconcile(
+    local: LocalReconcilePeer,
+    options: ReconcileOptions = {}
+  ): Promise<ReconcileResult> {
+    if (this._status !== 'connected') {
+      throw new Error(`Cannot reconcile: link is ${this._status}`);
+    }
+
+    const sessionId = uuidv4();
+    const result = await reconcile(
+      local,
+      {
+        summarize: async (ranges, leafSize) => {
+          const reply = await this.requestReconcile(sessionId, {
+            type: MessageType.RECONCILE_REQUEST,
+            timestamp: Date.now(),
+            sessionId,
+            ranges,
+            filter: this.config.pullFilter,
+            leafSize
+          });
+          return reply.type === MessageType.RECONCILE_SUMMARY ? reply.ranges : [];
+        },
+        exchange: async (deltas, request) => {
+          const reply = await this.requestReconcile(sessionId, {
+            type: MessageType.RECONCILE_DELTAS,
+            timestamp: Date.now(),
+            sessionId,
+            deltas,
+            request
+          });
+          return reply.type === MessageType.RECONCILE_DELTAS
+            ? this.verifyReceived(reply.deltas)
+            : [];
+        }
+      },
+      {
+        ...options,
+        push: this.config.mode !== 'pull' && options.push !== false,
+        pull: this.config.mode !== 'push' && options.pull !== false
+      }
+    );
+
+    this._stats.divergence = result.missingLocal + result.missingRemote;
+    this._stats.lastReconciledAt = Date.now();
+    return result;
+  }
+
+  /**
+   * Send a reconciliation message and wait for the remote's reply
+   */
+  private requestReconcile(
+    sessionId: string,
+    message: ProtocolMessage
+  ): Promise<ReconcileSummaryMessage | ReconcileDeltasMessage> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingReconciles.delete(sessionId);
+        reject(new Error('Reconciliation timeout'));
+      }, RECONCILE_TIMEOUT);
+
+      this.pendingReconciles.set(sessionId, {
+        resolve: reply => {
+          clearTimeout(timeout);
+          this.pendingReconciles.delete(sessionId);
+          resolve(reply);
+        },
+        reject: error => {
+          clearTimeout(timeout);
+          this.pendingReconciles.delete(sessionId);
+          reject(error);
+        }
+      });
+      this.send(message);
+    });
+  }
+
+  /**
+   * Fail every reconciliation waiting on a reply
+   */
+  private rejectPendingReconciles(error: Error): void {
+    for (const pending of Array.from(this.pendingReconciles.values())) {
+      pending.reject(error);
+    }
+  }
+
+  /**
+   * Why a received delta is refused, if it is
+   */
+  private async checkReceived(delta: Delta): Promise<string | undefined> {
+    // The remote agreed to send only what our pull filter selects
+    if (this.config.pullFilter && !matchesDeltaFilter(delta, this.config.pullFilter)) {
+      this._stats.filterViolations = (this._stats.filterViolations || 0) + 1;
+      return 'Outside pull filter';
+    }
+
+    if (!(await verifyDelta(delta, this.config.trustPolicy))) {
+      return 'Failed trust policy verification';
+    }
+
+    return this.eventHandlers.checkDelta?.(delta);
+  }
+
+  /**
+   * Keep the reconciled deltas our pull filter and trust policy accept
+   */
+  private async verifyReceived(deltas: Delta[]): Promise<Delta[]> {
+    const trusted: Delta[] = [];
+    for (const delta of deltas) {
+      const reason = await this.checkReceived(delta);
+      if (reason) {
+        this._stats.deltasRejected++;
+        this.eventHandlers.onDeltaRejected?.(delta.id, reason);
+        continue;
+      }
+      this._stats.deltasReceived++;
+      trusted.push(delta);
+    }
+    return trusted;
   }
 
   /**
@@ -472,6 +942,7 @@ export class FederationConnection implements FederationLink {
     }
 
     this.stopHeartbeat();
+    this.outbound.stop();
 
     if (this.ws) {
       this.ws.close();
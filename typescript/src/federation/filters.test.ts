@@ -0,0 +1,171 @@
+/**
+ * Tests for push and pull filter enforcement on federation links
+ */
+
+import WebSocket, { WebSocketServer } from 'ws';
+import { RhizomeDB } from '../storage/instance';
+import { Delta, DeltaFilter } from '../core/types';
+import { FederationManager } from './manager';
+import { FederationConnection } from './client/connection';
+import { FederationEvent } from './types';
+import { MessageType, PROTOCOL_VERSION } from './protocol/messages';
+import { encodeMessage } from './protocol/codec';
+
+const tenantA: DeltaFilter = { where: { pointer: { targetId: 'tenant_a' } } };
+
+function tenantDelta(db: RhizomeDB, tenant: string, value: string): Delta {
+  return db.createDelta('alice', [
+    { role: 'tenant', target: { id: tenant, context: 'records' } },
+    { role: 'value', target: value }
+  ]);
+}
+
+function values(db: RhizomeDB): string[] {
+  return db
+    .queryDeltas({ where: { pointer: { role: 'value' } } })
+    .map(delta => delta.pointers.find(p => p.role === 'value')?.target as string)
+    .sort();
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(check()).toBe(true);
+}
+
+describe('Federation Filters', () => {
+  const port = 20000 + Math.floor(Math.random() * 1000);
+  const url = `ws://localhost:${port}/federation`;
+  let hub: RhizomeDB;
+  let spoke: RhizomeDB;
+  let server: FederationManager;
+  let client: FederationManager;
+  let events: FederationEvent[];
+
+  beforeEach(() => {
+    hub = new RhizomeDB({ storage: 'memory', systemId: 'hub' });
+    spoke = new RhizomeDB({ storage: 'memory', systemId: 'spoke' });
+    server = new FederationManager(hub, {
+      enableServer: true,
+      serverConfig: { port },
+      autoBroadcast: true
+    });
+    client = new FederationManager(spoke, { autoBroadcast: true });
+    events = [];
+    server.onFederationEvent(event => events.push(event));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should only send a spoke what its pull filter selects', async () => {
+    await hub.persistDeltas([
+      tenantDelta(hub, 'tenant_a', 'a1'),
+      tenantDelta(hub, 'tenant_b', 'b1')
+    ]);
+
+    const link = await client.connectToRemote(url, {
+      mode: 'pull',
+      initialSync: 'full',
+      pullFilter: tenantA
+    });
+    await waitFor(() => values(spoke).length === 1);
+
+    await hub.persistDelta(tenantDelta(hub, 'tenant_b', 'b2'));
+    await hub.persistDelta(tenantDelta(hub, 'tenant_a', 'a2'));
+    await waitFor(() => values(spoke).length === 2);
+
+    expect(values(spoke)).toEqual(['a1', 'a2']);
+    expect(link.stats.filterViolations).toBe(0);
+  });
+
+  it('should only push what the push filter selects', async () => {
+    await client.connectToRemote(url, {
+      mode: 'push',
+      initialSync: 'none',
+      pushFilter: tenantA
+    });
+
+    await spoke.persistDelta(tenantDelta(spoke, 'tenant_b', 'b1'));
+    await spoke.persistDelta(tenantDelta(spoke, 'tenant_a', 'a1'));
+    await waitFor(() => values(hub).length === 1);
+
+    expect(values(hub)).toEqual(['a1']);
+  });
+
+  it('should reject deltas a client sends outside its push filter', async () => {
+    const connection = new FederationConnection('spoke', url, {
+      mode: 'push',
+      pushFilter: tenantA
+    });
+    await connection.connect();
+
+    await connection.sendDelta(tenantDelta(spoke, 'tenant_b', 'b1'));
+    await waitFor(() => events.some(event => event.type === 'delta:rejected'));
+    await connection.disconnect();
+
+    expect(events.find(event => event.type === 'delta:rejected')).toMatchObject({
+      reason: 'Outside push filter'
+    });
+    expect(server.getServer()!.getClients()[0].stats.filterViolations).toBe(1);
+    expect(hub.getStats().totalDeltas).toBe(0);
+  });
+
+  describe('with a server that ignores the pull filter', () => {
+    let rogue: WebSocketServer;
+
+    beforeEach(() => {
+      rogue = new WebSocketServer({ port: port + 1000 });
+      rogue.on('connection', (ws: WebSocket) => {
+        ws.once('message', () => {
+          ws.send(
+            encodeMessage({
+              type: MessageType.HELLO_ACK,
+              timestamp: Date.now(),
+              systemId: 'rogue',
+              linkId: 'link',
+              protocol: PROTOCOL_VERSION
+            })
+          );
+          ws.send(
+            encodeMessage({
+              type: MessageType.SYNC_BATCH,
+              timestamp: Date.now(),
+              deltas: [tenantDelta(hub, 'tenant_b', 'b1'), tenantDelta(hub, 'tenant_a', 'a1')],
+              batchNumber: 0,
+              isLastBatch: true
+            })
+          );
+        });
+      });
+    });
+
+    afterEach(async () => {
+      for (const ws of rogue.clients) {
+        ws.terminate();
+      }
+      await new Promise(resolve => rogue.close(resolve));
+    });
+
+    it('should reject and count deltas outside the pull filter', async () => {
+      const clientEvents: FederationEvent[] = [];
+      client.onFederationEvent(event => clientEvents.push(event));
+
+      const link = await client.connectToRemote(`ws://localhost:${port + 1000}`, {
+        mode: 'pull',
+        initialSync: 'none',
+        pullFilter: tenantA
+      });
+      await waitFor(() => values(spoke).length === 1);
+
+      expect(values(spoke)).toEqual(['a1']);
+      expect(link.stats).toMatchObject({ deltasRejected: 1, filterViolations: 1 });
+      expect(clientEvents.find(event => event.type === 'delta:rejected')).toMatchObject({
+        reason: 'Outside pull filter'
+      });
+    });
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Tests for federation flow control
+ */
+
+import WebSocket from 'ws';
+import { RhizomeDB } from '../storage/instance';
+import { Delta } from '../core/types';
+import { FederationManager } from './manager';
+import { FederationServer } from './server/server';
+import { FederationConnection } from './client/connection';
+import { ReceiveBuffer, SendWindow } from './flow-control';
+import { MessageType, PROTOCOL_VERSION, ProtocolMessage } from './protocol/messages';
+import { FederationEvent } from './types';
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(check()).toBe(true);
+}
+
+describe('Federation Flow Control', () => {
+  const db = new RhizomeDB({ storage: 'memory', systemId: 'local' });
+
+  function deltas(count: number): Delta[] {
+    return Array.from({ length: count }, (_, i) =>
+      db.createDelta('alice', [{ role: 'value', target: i }])
+    );
+  }
+
+  describe('SendWindow', () => {
+    let sent: Delta[][];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      sent = [];
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function createWindow(config = {}): SendWindow {
+      const window = new SendWindow({ windowSize: 3, ackTimeout: 100, ...config }, batch => {
+        sent.push(batch);
+      });
+      window.start();
+      return window;
+    }
+
+    it('should keep at most a window of deltas unacknowledged', () => {
+      const window = createWindow();
+      const [a, b, c, d] = deltas(4);
+
+      window.enqueue([a]);
+      window.enqueue([b, c]);
+      window.enqueue([d]);
+      expect(sent).toEqual([[a], [b, c]]);
+      expect(window.inFlightCount).toBe(3);
+      expect(window.queuedCount).toBe(1);
+
+      window.acknowledge(a.id);
+      expect(sent).toEqual([[a], [b, c], [d]]);
+      expect(window.inFlightCount).toBe(3);
+    });
+
+    it('should retry with backoff and dead-letter what is never acknowledged', () => {
+      const window = createWindow({ maxRetries: 2, retryDelay: 50 });
+      const [a] = deltas(1);
+
+      window.enqueue([a]);
+      jest.advanceTimersByTime(100 + 49);
+      expect(sent).toHaveLength(1);
+      jest.advanceTimersByTime(1);
+      expect(sent).toHaveLength(2);
+
+      // The second retry waits twice as long
+      jest.advanceTimersByTime(100 + 99);
+      expect(sent).toHaveLength(2);
+      jest.advanceTimersByTime(1);
+      expect(sent).toHaveLength(3);
+      expect(window.retries).toBe(2);
+
+      jest.advanceTimersByTime(100);
+      expect(window.getDeadLetters()).toMatchObject([
+        { delta: a, reason: 'Not acknowledged after 3 attempts', attempts: 3 }
+      ]);
+      expect(window.inFlightCount).toBe(0);
+
+      expect(window.retryDeadLetters()).toBe(1);
+      expect(sent).toHaveLength(4);
+      expect(window.getDeadLetters()).toEqual([]);
+    });
+
+    it('should dead-letter rejected deltas and the oldest deltas of a full queue', () => {
+      const window = createWindow({ windowSize: 1, maxQueued: 2 });
+      const [a, b, c, d] = deltas(4);
+
+      window.enqueue([a]);
+      window.enqueue([b]);
+      window.enqueue([c]);
+      window.enqueue([d]);
+      window.reject(a.id, 'Peer is read-only');
+
+      expect(window.getDeadLetters().map(letter => [letter.delta, letter.reason])).toEqual([
+        [b, 'Send queue full'],
+        [a, 'Peer is read-only']
+      ]);
+      expect(sent).toEqual([[a], [c]]);
+    });
+
+    it('should hold sends while paused and requeue unacknowledged deltas when stopped', () => {
+      const window = createWindow();
+      const [a, b] = deltas(2);
+
+      window.pause('remote');
+      window.enqueue([a]);
+      expect(sent).toEqual([]);
+      // No timeouts while paused
+      jest.advanceTimersByTime(1000);
+
+      window.resume('remote');
+      expect(sent).toEqual([[a]]);
+
+      window.enqueue([b]);
+      window.stop();
+      expect(window.queuedCount).toBe(2);
+      window.start();
+      expect(sent).toEqual([[a], [b], [a], [b]]);
+    });
+  });
+
+  describe('ReceiveBuffer', () => {
+    it('should pause the sender when full and resume it once drained', async () => {
+      const signals: boolean[] = [];
+      const applied: string[] = [];
+      let release: () => void = () => undefined;
+      const blocked = new Promise<void>(resolve => {
+        release = resolve;
+      });
+
+      const buffer = new ReceiveBuffer(
+        { receiveBufferSize: 4, pauseThreshold: 75, resumeThreshold: 25 },
+        async delta => {
+          await blocked;
+          applied.push(delta.id);
+        },
+        pause => signals.push(pause),
+        () => undefined
+      );
+      const incoming = deltas(5);
+      incoming.forEach(delta => buffer.push(delta));
+      expect(signals).toEqual([true]);
+
+      release();
+      await buffer.drained();
+      expect(signals).toEqual([true, false]);
+      expect(applied).toEqual(incoming.map(delta => delta.id));
+    });
+
+    it('should reject deltas that arrive once the buffer is full', async () => {
+      const applied: string[] = [];
+      const rejected: Array<[string, string]> = [];
+      let release: () => void = () => undefined;
+      const blocked = new Promise<void>(resolve => {
+        release = resolve;
+      });
+
+      const buffer = new ReceiveBuffer(
+        { receiveBufferSize: 4 },
+        async delta => {
+          await blocked;
+          applied.push(delta.id);
+        },
+        () => undefined,
+        (delta, reason) => rejected.push([delta.id, reason])
+      );
+      // One being applied, four buffered, the rest rejected
+      const incoming = deltas(8);
+      incoming.forEach(delta => buffer.push(delta));
+      expect(rejected).toEqual(
+        incoming.slice(5).map(delta => [delta.id, 'Receive buffer full (4 deltas)'])
+      );
+
+      release();
+      await buffer.drained();
+      expect(applied).toEqual(incoming.slice(0, 5).map(delta => delta.id));
+    });
+  });
+
+  describe('over a link', () => {
+    const port = 23000 + Math.floor(Math.random() * 1000);
+    const url = `ws://localhost:${port}/federation`;
+
+    it('should deliver everything through a small window to a slow receiver', async () => {
+      const received: string[] = [];
+      const server = new FederationServer(
+        'hub',
+        { port, flowControl: { receiveBufferSize: 4 } },
+        {
+          onDeltaReceived: async (_, delta) => {
+            await new Promise(resolve => setTimeout(resolve, 2));
+            received.push(delta.id);
+          }
+        }
+      );
+      const connection = new FederationConnection('spoke', url, {
+        mode: 'push',
+        flowControl: { windowSize: 5 }
+      });
+
+      try {
+        await connection.connect();
+        const outgoing = deltas(50);
+        let maxInFlight = 0;
+        for (const delta of outgoing) {
+          await connection.sendDelta(delta);
+          maxInFlight = Math.max(maxInFlight, connection.stats.deltasInFlight ?? 0);
+        }
+        expect(connection.stats.deltasQueued).toBeGreaterThan(0);
+
+        await waitFor(() => received.length === 50);
+        await waitFor(() => connection.stats.deltasInFlight === 0);
+        expect(maxInFlight).toBe(5);
+        expect(received).toEqual(outgoing.map(delta => delta.id));
+        expect(connection.getDeadLetters()).toEqual([]);
+      } finally {
+        await connection.disconnect();
+        await server.close();
+      }
+    });
+
+    it('should NACK deltas from a sender that ignores PAUSE', async () => {
+      let release: () => void = () => undefined;
+      const blocked = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      const received: string[] = [];
+      const server = new FederationServer(
+        'hub',
+        { port, flowControl: { receiveBufferSize: 4 } },
+        {
+          onDeltaReceived: async (_, delta) => {
+            await blocked;
+            received.push(delta.id);
+          }
+        }
+      );
+
+      const ws = new WebSocket(url);
+      const replies: ProtocolMessage[] = [];
+      ws.on('message', data =>
+        replies.push(JSON.parse((data as Buffer).toString()) as ProtocolMessage)
+      );
+      try {
+        await new Promise(resolve => ws.on('open', resolve));
+        ws.send(
+          JSON.stringify({
+            type: MessageType.HELLO,
+            timestamp: Date.now(),
+            systemId: 'spoke',
+            config: { mode: 'push' },
+            protocol: PROTOCOL_VERSION
+          })
+        );
+        await waitFor(() => replies.some(reply => reply.type === MessageType.HELLO_ACK));
+
+        const outgoing = deltas(10);
+        for (const delta of outgoing) {
+          ws.send(JSON.stringify({ type: MessageType.DELTA, timestamp: Date.now(), delta }));
+        }
+        await waitFor(
+          () => replies.filter(reply => reply.type === MessageType.DELTA_NACK).length === 5
+        );
+        release();
+        await waitFor(() => received.length === 5);
+
+        expect(replies.some(reply => reply.type === MessageType.PAUSE)).toBe(true);
+        expect(
+          replies.flatMap(reply => (reply.type === MessageType.DELTA_NACK ? [reply.deltaId] : []))
+        ).toEqual(outgoing.slice(5).map(delta => delta.id));
+        expect(received).toEqual(outgoing.slice(0, 5).map(delta => delta.id));
+        expect(server.getClients()[0].stats.deltasRejected).toBe(5);
+      } finally {
+        ws.close();
+        await server.close();
+      }
+    });
+
+    it('should dead-letter deltas the remote rejects', async () => {
+      const hub = new RhizomeDB({ storage: 'memory', systemId: 'hub' });
+      const spoke = new RhizomeDB({ storage: 'memory', systemId: 'spoke' });
+      const server = new FederationManager(hub, {
+        enableServer: true,
+        serverConfig: { port, peers: [{ systemId: 'spoke', permission: 'read-only' }] }
+      });
+      const client = new FederationManager(spoke, { autoBroadcast: true });
+      const events: FederationEvent[] = [];
+      client.onFederationEvent(event => events.push(event));
+
+      try {
+        const link = await client.connectToRemote(url, { mode: 'push', initialSync: 'none' });
+        const delta = spoke.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+        await spoke.persistDelta(delta);
+        await waitFor(() => link.getDeadLetters().length === 1);
+
+        expect(link.getDeadLetters()[0]).toMatchObject({ delta, reason: 'Peer is read-only' });
+        expect(events.find(event => event.type === 'delta:dead-lettered')).toMatchObject({
+          deltaId: delta.id,
+          reason: 'Peer is read-only'
+        });
+        expect(link.stats).toMatchObject({ deltasInFlight: 0, deadLetters: 1 });
+      } finally {
+        await client.close();
+        await server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Flow control for live delta streams
+ *
+ * Senders keep a window of unacknowledged deltas: once it is full, further
+ * deltas wait in a bounded queue instead of piling up in the socket. Deltas
+ * not acknowledged in time are retransmitted with backoff, and deltas the
+ * remote rejects (or that run out of retries) land in a dead-letter list.
+ *
+ * Receivers buffer incoming deltas in a BackpressureSubscription and ask
+ * the sender to PAUSE when the buffer fills past its high-water mark, and to
+ * RESUME once it drains.
+ */
+
+import { Delta } from '../core/types';
+import {
+  BackpressureSubscription,
+  BufferStats,
+  OverflowStrategy,
+  createBackpressureSubscription
+} from '../streaming/subscription-backpressure';
+import { DeadLetter, FlowControlConfig } from './types';
+
+/**
+ * Flow control defaults
+ */
+export const DEFAULT_FLOW_CONTROL: Required<FlowControlConfig> = {
+  windowSize: 100,
+  ackTimeout: 10000,
+  maxRetries: 3,
+  retryDelay: 1000,
+  maxRetryDelay: 30000,
+  maxQueued: 10000,
+  maxDeadLetters: 1000,
+  receiveBufferSize: 100,
+  pauseThreshold: 80,
+  resumeThreshold: 20
+};
+
+/**
+ * Deltas sent together and awaiting acknowledgment
+ */
+interface InFlightBatch {
+  /** Unacknowledged deltas, by ID */
+  deltas: Map<string, Delta>;
+  attempts: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Sliding window of unacknowledged deltas
+ *
+ * A batch (one transaction) is sent whole, so a batch larger than the window
+ * waits until nothing else is in flight.
+ */
+export class SendWindow {
+  private readonly config: Required<FlowControlConfig>;
+  private queue: Delta[][] = [];
+  private queued = 0;
+  private batches: Set<InFlightBatch> = new Set();
+  private inFlight: Map<string, InFlightBatch> = new Map();
+  // Reasons sending is paused (the link's own pause, the remote's PAUSE)
+  private holds: Set<string> = new Set();
+  private open = false;
+  private deadLetters: DeadLetter[] = [];
+  private _retries = 0;
+
+  constructor(
+    config: FlowControlConfig | undefined,
+    private readonly transmit: (deltas: Delta[]) => void,
+    private readonly onDeadLetter?: (deadLetter: DeadLetter) => void
+  ) {
+    this.config = { ...DEFAULT_FLOW_CONTROL, ...config };
+  }
+
+  /** Deltas sent and not yet acknowledged */
+  get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /** Deltas waiting for room in the window */
+  get queuedCount(): number {
+    return this.queued;
+  }
+
+  /** Retransmissions after an acknowledgment timeout */
+  get retries(): number {
+    return this._retries;
+  }
+
+  get paused(): boolean {
+    return this.holds.size > 0;
+  }
+
+  /**
+   * Queue the deltas of one transaction
+   *
+   * When the queue is over its limit, the oldest queued batches are
+   * dead-lettered.
+   */
+  enqueue(deltas: Delta[]): void {
+    if (deltas.length === 0) {
+      return;
+    }
+
+    this.queue.push([...deltas]);
+    this.queued += deltas.length;
+    while (this.queued > this.config.maxQueued && this.queue.length > 0) {
+      const dropped = this.queue.shift()!;
+      this.queued -= dropped.length;
+      for (const delta of dropped) {
+        this.addDeadLetter(delta, 'Send queue full', 0);
+      }
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Start sending (the link is connected)
+   */
+  start(): void {
+    this.open = true;
+    this.drain();
+  }
+
+  /**
+   * Stop sending (the link is down)
+   *
+   * Unacknowledged deltas go back to the front of the queue; the remote
+   * ignores any it already stored when they are sent again.
+   */
+  stop(): void {
+    this.open = false;
+    const unacknowledged = Array.from(this.batches, batch => Array.from(batch.deltas.values()));
+    for (const batch of this.batches) {
+      clearTimeout(batch.timer);
+    }
+    this.batches.clear();
+    this.inFlight.clear();
+
+    this.queue.unshift(...unacknowledged.filter(deltas => deltas.length > 0));
+    this.queued += unacknowledged.reduce((count, deltas) => count + deltas.length, 0);
+  }
+
+  /**
+   * Hold sending; acknowledgment timeouts are suspended too
+   */
+  pause(reason: string): void {
+    this.holds.add(reason);
+    for (const batch of this.batches) {
+      clearTimeout(batch.timer);
+      batch.timer = undefined;
+    }
+  }
+
+  /**
+   * Release a hold, and carry on once none remain
+   */
+  resume(reason: string): void {
+    this.holds.delete(reason);
+    if (this.paused) {
+      return;
+    }
+
+    for (const batch of this.batches) {
+      if (!batch.timer) {
+        this.armTimeout(batch);
+      }
+    }
+    this.drain();
+  }
+
+  /**
+   * The remote stored a delta
+   */
+  acknowledge(deltaId: string): void {
+    this.settle(deltaId);
+  }
+
+  /**
+   * The remote refused a delta; it will not be sent again
+   */
+  reject(deltaId: string, reason: string): void {
+    const batch = this.inFlight.get(deltaId);
+    const delta = batch?.deltas.get(deltaId);
+    if (batch && delta) {
+      this.settle(deltaId);
+      this.addDeadLetter(delta, reason, batch.attempts);
+    }
+  }
+
+  /**
+   * Deltas that could not be delivered, oldest first
+   */
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Queue every dead letter again
+   *
+   * @returns The number of deltas queued
+   */
+  retryDeadLetters(): number {
+    const deadLetters = this.deadLetters.splice(0);
+    for (const deadLetter of deadLetters) {
+      this.enqueue([deadLetter.delta]);
+    }
+    return deadLetters.length;
+  }
+
+  /**
+   * Stop all timers
+   */
+  close(): void {
+    this.open = false;
+    for (const batch of this.batches) {
+      clearTimeout(batch.timer);
+    }
+  }
+
+  private drain(): void {
+    while (this.open && !this.paused && this.queue.length > 0) {
+      const next = this.queue[0];
+      if (this.inFlight.size > 0 && this.inFlight.size + next.length > this.config.windowSize) {
+        return;
+      }
+
+      this.queue.shift();
+      this.queued -= next.length;
+      const batch: InFlightBatch = {
+        deltas: new Map(next.map(delta => [delta.id, delta])),
+        attempts: 0
+      };
+      this.batches.add(batch);
+      for (const delta of next) {
+        this.inFlight.set(delta.id, batch);
+      }
+      this.send(batch);
+    }
+  }
+
+  private send(batch: InFlightBatch): void {
+    batch.attempts++;
+    this.transmit(Array.from(batch.deltas.values()));
+    this.armTimeout(batch);
+  }
+
+  private armTimeout(batch: InFlightBatch): void {
+    clearTimeout(batch.timer);
+    batch.timer = setTimeout(() => this.expire(batch), this.config.ackTimeout);
+  }
+
+  /**
+   * No acknowledgment in time: retry after a backoff, or give up
+   */
+  private expire(batch: InFlightBatch): void {
+    if (batch.attempts > this.config.maxRetries) {
+      for (const delta of Array.from(batch.deltas.values())) {
+        this.settle(delta.id);
+        this.addDeadLetter(
+          delta,
+          `Not acknowledged after ${batch.attempts} attempts`,
+          batch.attempts
+        );
+      }
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.retryDelay * Math.pow(2, batch.attempts - 1),
+      this.config.maxRetryDelay
+    );
+    batch.timer = setTimeout(() => {
+      if (this.open && !this.paused && this.batches.has(batch)) {
+        this._retries++;
+        this.send(batch);
+      }
+    }, delay);
+  }
+
+  /**
+   * Free a delta's place in the window
+   */
+  private settle(deltaId: string): void {
+    const batch = this.inFlight.get(deltaId);
+    if (!batch) {
+      return;
+    }
+
+    this.inFlight.delete(deltaId);
+    batch.deltas.delete(deltaId);
+    if (batch.deltas.size === 0) {
+      clearTimeout(batch.timer);
+      this.batches.delete(batch);
+    }
+    this.drain();
+  }
+
+  private addDeadLetter(delta: Delta, reason: string, attempts: number): void {
+    const deadLetter: DeadLetter = { delta, reason, attempts, failedAt: Date.now() };
+    this.deadLetters.push(deadLetter);
+    if (this.deadLetters.length > this.config.maxDeadLetters) {
+      this.deadLetters.shift();
+    }
+    this.onDeadLetter?.(deadLetter);
+  }
+}
+
+/**
+ * Buffer for incoming deltas that paces the sender
+ *
+ * Deltas are applied one at a time, in arrival order. The sender's window
+ * and PAUSE keep the buffer from filling; deltas that arrive once it holds
+ * `receiveBufferSize` anyway (from a sender ignoring PAUSE) are rejected.
+ */
+export class ReceiveBuffer {
+  private readonly subscription: BackpressureSubscription;
+  private readonly resumeThreshold: number;
+  private pending = 0;
+  private remotePaused = false;
+  private idle: Array<() => void> = [];
+
+  /**
+   * @param apply - Stores a delta (and acknowledges it); must not throw
+   * @param signal - Asks the sender to pause (true) or resume (false)
+   * @param reject - NACKs a delta that arrived with the buffer full
+   */
+  constructor(
+    config: FlowControlConfig | undefined,
+    private readonly apply: (delta: Delta) => Promise<void>,
+    private readonly signal: (pause: boolean) => void,
+    private readonly reject: (delta: Delta, reason: string) => void
+  ) {
+    const { receiveBufferSize, pauseThreshold, resumeThreshold } = {
+      ...DEFAULT_FLOW_CONTROL,
+      ...config
+    };
+    this.resumeThreshold = resumeThreshold;
+
+    this.subscription = createBackpressureSubscription(
+      'federation-receive',
+      {},
+      delta => this.process(delta),
+      {
+        bufferSize: receiveBufferSize,
+        overflowStrategy: OverflowStrategy.DROP_NEWEST,
+        onOverflow: delta => {
+          this.settle();
+          this.reject(delta, `Receive buffer full (${receiveBufferSize} deltas)`);
+        },
+        warningThreshold: pauseThreshold,
+        onWarning: () => {
+          if (!this.remotePaused) {
+            this.remotePaused = true;
+            this.signal(true);
+          }
+        }
+      },
+      () => undefined
+    );
+  }
+
+  /**
+   * Buffer a delta for applying
+   */
+  push(delta: Delta): void {
+    this.pending++;
+    void this.subscription.handleDelta(delta);
+  }
+
+  /**
+   * Resolve once every buffered delta has been applied
+   */
+  drained(): Promise<void> {
+    if (this.pending === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idle.push(resolve));
+  }
+
+  getStats(): BufferStats {
+    return this.subscription.getStats();
+  }
+
+  private async process(delta: Delta): Promise<void> {
+    try {
+      await this.apply(delta);
+    } finally {
+      if (this.remotePaused && this.getStats().percentFull <= this.resumeThreshold) {
+        this.remotePaused = false;
+        this.signal(false);
+      }
+      this.settle();
+    }
+  }
+
+  /**
+   * Count a pushed delta as applied or rejected
+   */
+  private settle(): void {
+    this.pending--;
+    if (this.pending === 0) {
+      for (const resolve of this.idle.splice(0)) {
+        resolve();
+      }
+    }
+  }
+}
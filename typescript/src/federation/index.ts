@@ -10,9 +10,22 @@ export * from './types';
 // Trust policies
 export * from './trust';
 
+// Sync checkpoints
+export * from './checkpoints';
+
+// Handshake authentication
+export * from './auth';
+
+// Flow control
+export * from './flow-control';
+
+// Anti-entropy reconciliation
+export * from './reconciliation';
+
 // Protocol
 export * from './protocol/messages';
 export * from './protocol/codec';
+export * from './protocol/binary';
 
 // Client connection
 export { FederationConnection } from './client/connection';
@@ -5,15 +5,26 @@
  */
 
 import { Delta, DeltaFilter } from '../core/types';
+import { compareDeltas } from '../core/hlc';
+import { matchesDeltaFilter } from '../queries/filter-expression';
 import { RhizomeDB } from '../storage/instance';
 import { FederationServer, FederationServerConfig } from './server/server';
 import { FederationConnection } from './client/connection';
+import { MemoryCheckpointStore } from './checkpoints';
+import {
+  LocalReconcilePeer,
+  ReconcileOptions,
+  ReconcileResult,
+  summarizeRanges
+} from './reconciliation';
 import {
   FederatedInstance,
   FederationConfig,
+  FederationCredentials,
   FederationLink,
   FederationEvent,
-  FederationEventHandler
+  FederationEventHandler,
+  SyncCheckpointStore
 } from './types';
 
 /**
@@ -28,6 +39,24 @@ export interface FederationManagerConfig {
 
   /** Auto-broadcast local deltas to connected instances */
   autoBroadcast?: boolean;
+
+  /**
+   * Where outgoing links record initial sync progress, so a reconnect
+   * resumes instead of starting over (default: in memory)
+   */
+  checkpointStore?: SyncCheckpointStore;
+
+  /**
+   * Reconcile every connected outgoing link this often, in milliseconds
+   * (default: never; see `reconcile`)
+   */
+  reconcileInterval?: number;
+
+  /**
+   * Keys outgoing links authenticate with, and check the remote's proof
+   * against (kept out of FederationConfig, which is sent to the remote)
+   */
+  credentials?: FederationCredentials;
 }
 
 /**
@@ -38,11 +67,16 @@ export class FederationManager implements FederatedInstance {
   private connections: Map<string, FederationConnection> = new Map();
   private eventHandlers: Set<FederationEventHandler> = new Set();
   private unsubscribe?: () => void;
+  private checkpoints: SyncCheckpointStore;
+  private reconcileTimer?: NodeJS.Timeout;
+  private reconciling: Set<string> = new Set();
 
   constructor(
     private instance: RhizomeDB,
     private config: FederationManagerConfig = {}
   ) {
+    this.checkpoints = config.checkpointStore ?? new MemoryCheckpointStore();
+
     // Initialize server if enabled
     if (config.enableServer) {
       this.initializeServer();
@@ -52,6 +86,14 @@ export class FederationManager implements FederatedInstance {
     if (config.autoBroadcast) {
       this.subscribeToLocalDeltas();
     }
+
+    // Periodic anti-entropy catches deltas that live sync and timestamp
+    // catch-up missed
+    if (config.reconcileInterval) {
+      this.reconcileTimer = setInterval(() => {
+        void this.reconcileAll();
+      }, config.reconcileInterval);
+    }
   }
 
   /**
@@ -75,15 +117,35 @@ export class FederationManager implements FederatedInstance {
             linkId: clientId
           });
         },
+        onClientRejected: (clientId, systemId, reason) => {
+          this.emitEvent({
+            type: 'link:rejected',
+            linkId: clientId,
+            remoteSystemId: systemId,
+            reason
+          });
+        },
         onDeltaReceived: async (clientId, delta) => {
           // Apply delta to local instance
-          await this.instance.persistDelta(delta);
+          await this.receiveDelta(delta);
           this.emitEvent({
             type: 'delta:received',
             linkId: clientId,
             deltaId: delta.id
           });
         },
+        onDeltasReceived: async (clientId, deltas) => {
+          // Apply the remote transaction as one local transaction
+          await this.receiveDeltas(deltas);
+          for (const delta of deltas) {
+            this.emitEvent({
+              type: 'delta:received',
+              linkId: clientId,
+              deltaId: delta.id
+            });
+          }
+        },
+        checkDelta: (clientId, delta) => this.checkDelta(delta),
         onDeltaRejected: (clientId, deltaId, reason) => {
           this.emitEvent({
             type: 'delta:rejected',
@@ -92,10 +154,24 @@ export class FederationManager implements FederatedInstance {
             reason
           });
         },
+        onDeadLetter: (clientId, deadLetter) => {
+          this.emitEvent({
+            type: 'delta:dead-lettered',
+            linkId: clientId,
+            deltaId: deadLetter.delta.id,
+            reason: deadLetter.reason
+          });
+        },
         onSyncRequested: async (clientId, filter, fromTimestamp) => {
           // Get deltas for initial sync
           return this.getInitialSyncDeltas(filter, fromTimestamp);
         },
+        onReconcileRequested: (clientId, ranges, leafSize, filter, include) => {
+          return summarizeRanges(this.instance, ranges, leafSize, filter, include);
+        },
+        onDeltasRequested: (clientId, ids) => {
+          return this.instance.getDeltas(ids);
+        },
         onError: (error) => {
           console.error('[FederationManager] Server error:', error);
         }
@@ -103,14 +179,47 @@ export class FederationManager implements FederatedInstance {
     );
   }
 
+  /**
+   * Why a delta from a remote instance is refused, if it is
+   *
+   * Advances the local clock past deltas it accepts, before they are
+   * applied, so anything we create in response (e.g. a negation) orders
+   * after them. A delta whose clock is too far ahead is refused like one
+   * failing the trust policy.
+   */
+  private checkDelta(delta: Delta): string | undefined {
+    return this.instance.observeDelta(delta) ? undefined : 'Clock too far ahead';
+  }
+
+  /**
+   * Apply a delta received from a remote instance
+   */
+  private async receiveDelta(delta: Delta): Promise<void> {
+    await this.instance.persistDelta(delta);
+  }
+
+  /**
+   * Apply the deltas of a remote transaction atomically
+   */
+  private async receiveDeltas(deltas: Delta[]): Promise<void> {
+    await this.instance.transaction((tx) => {
+      for (const delta of deltas) {
+        tx.persistDelta(delta);
+      }
+    });
+  }
+
   /**
    * Subscribe to local deltas for broadcasting
+   *
+   * Deltas committed together are sent together, so peers never apply
+   * half of a transaction.
    */
   private subscribeToLocalDeltas(): void {
-    const subscription = this.instance.subscribe({}, async (delta) => {
+    const subscription = this.instance.subscribeBatches({}, async (deltas) => {
       // Broadcast to all connected clients (server)
       if (this.server) {
-        await this.server.broadcastDelta(delta);
+        await this.server.broadcastDeltas(deltas);
       }
 
       // Send to all outgoing connections (client)
@@ -119,18 +228,25 @@ export class FederationManager implements FederatedInstance {
           connection.config.mode === 'push' ||
           connection.config.mode === 'bidirectional'
         ) {
-          // Apply push filter if present
-          if (connection.config.pushFilter) {
-            // TODO: Implement filter matching
-            // For now, send all
+          // Apply the push filter, and don't echo a remote's own deltas
+          // back to it
+          const outgoing = deltas.filter(
+            (delta) =>
+              delta.system !== connection.remoteSystemId &&
+              this.matchesPushFilter(connection, delta)
+          );
+          if (outgoing.length === 0) {
+            continue;
           }
 
-          await connection.sendDelta(delta);
-          this.emitEvent({
-            type: 'delta:sent',
-            linkId: connection.id,
-            deltaId: delta.id
-          });
+          await connection.sendDeltas(outgoing);
+          for (const delta of outgoing) {
+            this.emitEvent({
+              type: 'delta:sent',
+              linkId: connection.id,
+              deltaId: delta.id
+            });
+          }
         }
       }
     });
@@ -139,6 +255,17 @@ export class FederationManager implements FederatedInstance {
     this.unsubscribe = () => subscription.unsubscribe();
   }
 
+  /**
+   * Whether a local delta may be sent over an outgoing link
+   */
+  private matchesPushFilter(
+    connection: FederationConnection,
+    delta: Delta
+  ): boolean {
+    const filter = connection.config.pushFilter;
+    return !filter || matchesDeltaFilter(delta, filter);
+  }
+
   /**
    * Get deltas for initial sync
    */
@@ -157,12 +284,90 @@ export class FederationManager implements FederatedInstance {
       deltas.push(delta);
     }
 
-    // Sort by timestamp (oldest first)
-    deltas.sort((a, b) => a.timestamp - b.timestamp);
+    // Oldest first, in causal (HLC) order
+    deltas.sort(compareDeltas);
 
     return deltas;
   }
 
+  /**
+   * The local side of a reconciliation over a link
+   */
+  private localReconcilePeer(connection: FederationConnection): LocalReconcilePeer {
+    const linkId = connection.id;
+    return {
+      summarize: (ranges, leafSize) =>
+        summarizeRanges(this.instance, ranges, leafSize, connection.config.pullFilter),
+      getDeltas: async (ids) =>
+        (await this.instance.getDeltas(ids)).filter((delta) =>
+          this.matchesPushFilter(connection, delta)
+        ),
+      apply: async (deltas) => {
+        for (const delta of deltas) {
+          await this.receiveDelta(delta);
+          this.emitEvent({
+            type: 'delta:received',
+            linkId,
+            deltaId: delta.id
+          });
+        }
+      }
+    };
+  }
+
+  /**
+   * Reconcile delta sets with the remote of an outgoing link
+   *
+   * Finds and transfers deltas either side lacks, whatever their
+   * timestamps. Runs on demand, and periodically with `reconcileInterval`.
+   */
+  async reconcile(
+    linkId: string,
+    options?: ReconcileOptions
+  ): Promise<ReconcileResult> {
+    const connection = this.connections.get(linkId);
+    if (!connection) {
+      throw new Error(`Federation link not found: ${linkId}`);
+    }
+
+    this.reconciling.add(linkId);
+    try {
+      const result = await connection.reconcile(
+        this.localReconcilePeer(connection),
+        options
+      );
+      this.emitEvent({
+        type: 'reconcile:completed',
+        linkId,
+        missingLocal: result.missingLocal,
+        missingRemote: result.missingRemote
+      });
+      return result;
+    } finally {
+      this.reconciling.delete(linkId);
+    }
+  }
+
+  /**
+   * Reconcile every connected outgoing link not already reconciling
+   */
+  private async reconcileAll(): Promise<void> {
+    for (const connection of this.connections.values()) {
+      if (connection.status !== 'connected') continue;
+      if (this.reconciling.has(connection.id)) continue;
+
+      try {
+        await this.reconcile(connection.id);
+      } catch (error) {
+        this.emitEvent({
+          type: 'link:error',
+          linkId: connection.id,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      }
+    }
+  }
+
   /**
    * Connect to a remote instance
    */
@@ -206,13 +411,25 @@ export class FederationManager implements FederatedInstance {
         },
         onDeltaReceived: async (delta) => {
           // Apply delta to local instance
-          await this.instance.persistDelta(delta);
+          await this.receiveDelta(delta);
           this.emitEvent({
             type: 'delta:received',
             linkId: connection.id,
             deltaId: delta.id
           });
         },
+        onDeltasReceived: async (deltas) => {
+          // Apply the remote transaction as one local transaction
+          await this.receiveDeltas(deltas);
+          for (const delta of deltas) {
+            this.emitEvent({
+              type: 'delta:received',
+              linkId: connection.id,
+              deltaId: delta.id
+            });
+          }
+        },
+        checkDelta: (delta) => this.checkDelta(delta),
         onDeltaRejected: (deltaId, reason) => {
           this.emitEvent({
             type: 'delta:rejected',
@@ -221,12 +438,27 @@ export class FederationManager implements FederatedInstance {
             reason
           });
         },
+        onDeadLetter: (deadLetter) => {
+          this.emitEvent({
+            type: 'delta:dead-lettered',
+            linkId: connection.id,
+            deltaId: deadLetter.delta.id,
+            reason: deadLetter.reason
+          });
+        },
         onSyncStarted: () => {
           this.emitEvent({
             type: 'sync:started',
             linkId: connection.id
           });
         },
+        onSyncResumed: (fromTimestamp) => {
+          this.emitEvent({
+            type: 'sync:resumed',
+            linkId: connection.id,
+            fromTimestamp
+          });
+        },
         onSyncCompleted: (deltasProcessed) => {
           this.emitEvent({
             type: 'sync:completed',
@@ -234,7 +466,9 @@ export class FederationManager implements FederatedInstance {
             deltasProcessed
           });
         }
-      }
+      },
+      this.checkpoints,
+      this.config.credentials
     );
 
     // Connect to remote
@@ -320,6 +554,11 @@ export class FederationManager implements FederatedInstance {
       this.unsubscribe();
     }
 
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = undefined;
+    }
+
     // Disconnect all client connections
     await Promise.all(
       Array.from(this.connections.values()).map((conn) => conn.disconnect())
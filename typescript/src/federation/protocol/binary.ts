@@ -0,0 +1,463 @@
+/**
+ * Compact binary message codec
+ *
+ * Deltas dominate federation traffic, and in JSON most of their bytes are
+ * repeated keys and strings: every delta spells out its author, system and
+ * pointer roles. The binary codec writes the rest of a message as JSON and
+ * its deltas in a compact form:
+ *
+ * - Strings (authors, systems, roles, reference IDs and contexts, string
+ *   values) are interned: the first occurrence is written out, later ones
+ *   are a varint index
+ * - Timestamps are zigzag varints of the difference from the previous delta
+ * - UUID delta IDs are 16 bytes, and base64 signatures their raw bytes
+ *
+ * Deltas that don't fit the compact form (odd timestamps, unusual pointer
+ * targets) are written as JSON, so every delta round-trips.
+ */
+
+import { Delta, Pointer } from '../../core/types';
+import type { MessageCodec } from './codec';
+import { ProtocolMessage } from './messages';
+
+// Delta flags
+const HAS_HLC = 0x01;
+const HAS_SIGNATURE = 0x02;
+const SIGNATURE_BYTES = 0x04;
+const UUID_ID = 0x08;
+const HAS_EXTRA = 0x10;
+const RAW_JSON = 0x80;
+
+// Pointer target kinds
+enum TargetKind {
+  STRING = 0,
+  NUMBER = 1,
+  TRUE = 2,
+  FALSE = 3,
+  REFERENCE = 4,
+  CONTEXT_REFERENCE = 5
+}
+
+// Which message field holds deltas
+enum DeltaField {
+  NONE = 0,
+  DELTA = 1,
+  DELTAS = 2
+}
+
+const DELTA_KEYS = new Set(['id', 'timestamp', 'author', 'system', 'pointers', 'hlc', 'signature']);
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Growable output buffer
+ */
+class ByteWriter {
+  private buffer = Buffer.allocUnsafe(1024);
+  private length = 0;
+  private interned: Map<string, number> = new Map();
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  /** Unsigned integer up to 2^53, 7 bits per byte */
+  varint(value: number): void {
+    this.reserve(8);
+    while (value >= 0x80) {
+      this.buffer[this.length++] = value % 0x80 | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  /** Signed integer, zigzag-encoded so small magnitudes stay short */
+  signed(value: number): void {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  double(value: number): void {
+    this.reserve(8);
+    this.buffer.writeDoubleLE(value, this.length);
+    this.length += 8;
+  }
+
+  bytes(value: Buffer): void {
+    this.varint(value.length);
+    this.raw(value);
+  }
+
+  raw(value: Buffer): void {
+    this.reserve(value.length);
+    value.copy(this.buffer, this.length);
+    this.length += value.length;
+  }
+
+  string(value: string): void {
+    this.bytes(Buffer.from(value, 'utf8'));
+  }
+
+  /** 0 and the string on first use, index + 1 after */
+  intern(value: string): void {
+    const index = this.interned.get(value);
+    if (index !== undefined) {
+      this.varint(index + 1);
+      return;
+    }
+    this.interned.set(value, this.interned.size);
+    this.varint(0);
+    this.string(value);
+  }
+
+  finish(): Buffer {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  private reserve(bytes: number): void {
+    if (this.length + bytes <= this.buffer.length) return;
+    const next = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + bytes));
+    this.buffer.copy(next, 0, 0, this.length);
+    this.buffer = next;
+  }
+}
+
+/**
+ * Input buffer matching ByteWriter
+ */
+class ByteReader {
+  private offset = 0;
+  private interned: string[] = [];
+
+  constructor(private readonly buffer: Buffer) {}
+
+  byte(): number {
+    this.need(1);
+    return this.buffer[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new Error('Varint too long');
+      }
+    }
+  }
+
+  signed(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  double(): number {
+    this.need(8);
+    const value = this.buffer.readDoubleLE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(): Buffer {
+    return this.raw(this.varint());
+  }
+
+  raw(length: number): Buffer {
+    this.need(length);
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  string(): string {
+    return this.bytes().toString('utf8');
+  }
+
+  intern(): string {
+    const index = this.varint();
+    if (index === 0) {
+      const value = this.string();
+      this.interned.push(value);
+      return value;
+    }
+    if (index > this.interned.length) {
+      throw new Error(`Unknown string index: ${index - 1}`);
+    }
+    return this.interned[index - 1];
+  }
+
+  get done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+
+  private need(bytes: number): void {
+    if (this.offset + bytes > this.buffer.length) {
+      throw new Error('Truncated binary message');
+    }
+  }
+}
+
+function isTimestamp(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 0;
+}
+
+function isCompactPointer(pointer: Pointer): boolean {
+  if (typeof pointer !== 'object' || pointer === null || typeof pointer.role !== 'string') {
+    return false;
+  }
+  if (Object.keys(pointer).some(key => key !== 'role' && key !== 'target')) {
+    return false;
+  }
+
+  const target: unknown = pointer.target;
+  if (['string', 'number', 'boolean'].includes(typeof target)) {
+    return true;
+  }
+  if (typeof target !== 'object' || target === null) {
+    return false;
+  }
+
+  const reference = target as Record<string, unknown>;
+  return (
+    typeof reference.id === 'string' &&
+    (reference.context === undefined || typeof reference.context === 'string') &&
+    Object.keys(reference).every(key => key === 'id' || key === 'context')
+  );
+}
+
+/**
+ * Whether a delta can be written in the compact form
+ */
+function isCompact(delta: Delta): boolean {
+  return (
+    typeof delta.id === 'string' &&
+    isTimestamp(delta.timestamp) &&
+    typeof delta.author === 'string' &&
+    typeof delta.system === 'string' &&
+    Array.isArray(delta.pointers) &&
+    delta.pointers.every(isCompactPointer) &&
+    (delta.hlc === undefined ||
+      (isTimestamp(delta.hlc.physical) && isTimestamp(delta.hlc.logical))) &&
+    (delta.signature === undefined || typeof delta.signature === 'string')
+  );
+}
+
+function writePointer(writer: ByteWriter, pointer: Pointer): void {
+  writer.intern(pointer.role);
+  const target = pointer.target;
+
+  if (typeof target === 'string') {
+    writer.byte(TargetKind.STRING);
+    writer.intern(target);
+  } else if (typeof target === 'number') {
+    writer.byte(TargetKind.NUMBER);
+    writer.double(target);
+  } else if (typeof target === 'boolean') {
+    writer.byte(target ? TargetKind.TRUE : TargetKind.FALSE);
+  } else if (target.context === undefined) {
+    writer.byte(TargetKind.REFERENCE);
+    writer.intern(target.id);
+  } else {
+    writer.byte(TargetKind.CONTEXT_REFERENCE);
+    writer.intern(target.id);
+    writer.intern(target.context);
+  }
+}
+
+function readPointer(reader: ByteReader): Pointer {
+  const role = reader.intern();
+  const kind = reader.byte() as TargetKind;
+
+  switch (kind) {
+    case TargetKind.STRING:
+      return { role, target: reader.intern() };
+    case TargetKind.NUMBER:
+      return { role, target: reader.double() };
+    case TargetKind.TRUE:
+      return { role, target: true };
+    case TargetKind.FALSE:
+      return { role, target: false };
+    case TargetKind.REFERENCE:
+      return { role, target: { id: reader.intern() } };
+    case TargetKind.CONTEXT_REFERENCE:
+      return { role, target: { id: reader.intern(), context: reader.intern() } };
+    default:
+      throw new Error(`Unknown pointer target kind: ${String(kind)}`);
+  }
+}
+
+/**
+ * Write deltas, each timestamp relative to the one before
+ */
+function writeDeltas(writer: ByteWriter, deltas: Delta[]): void {
+  writer.varint(deltas.length);
+  let previous = 0;
+
+  for (const delta of deltas) {
+    if (!isCompact(delta)) {
+      writer.byte(RAW_JSON);
+      writer.string(JSON.stringify(delta));
+      continue;
+    }
+
+    const extra = Object.fromEntries(
+      Object.entries(delta).filter(([key, value]) => !DELTA_KEYS.has(key) && value !== undefined)
+    );
+    const signature =
+      delta.signature !== undefined ? Buffer.from(delta.signature, 'base64') : undefined;
+    const signatureBytes = signature?.toString('base64') === delta.signature;
+
+    let flags = 0;
+    if (delta.hlc) flags |= HAS_HLC;
+    if (signature) flags |= signatureBytes ? HAS_SIGNATURE | SIGNATURE_BYTES : HAS_SIGNATURE;
+    if (UUID_PATTERN.test(delta.id)) flags |= UUID_ID;
+    if (Object.keys(extra).length > 0) flags |= HAS_EXTRA;
+    writer.byte(flags);
+
+    if (flags & UUID_ID) {
+      writer.raw(Buffer.from(delta.id.replace(/-/g, ''), 'hex'));
+    } else {
+      writer.string(delta.id);
+    }
+    writer.signed(delta.timestamp - previous);
+    previous = delta.timestamp;
+    writer.intern(delta.author);
+    writer.intern(delta.system);
+
+    writer.varint(delta.pointers.length);
+    for (const pointer of delta.pointers) {
+      writePointer(writer, pointer);
+    }
+
+    if (delta.hlc) {
+      writer.signed(delta.hlc.physical - delta.timestamp);
+      writer.varint(delta.hlc.logical);
+    }
+    if (signature && signatureBytes) {
+      writer.bytes(signature);
+    } else if (delta.signature !== undefined) {
+      writer.string(delta.signature);
+    }
+    if (flags & HAS_EXTRA) {
+      writer.string(JSON.stringify(extra));
+    }
+  }
+}
+
+function readDeltas(reader: ByteReader): Delta[] {
+  const count = reader.varint();
+  const deltas: Delta[] = [];
+  let previous = 0;
+
+  for (let i = 0; i < count; i++) {
+    const flags = reader.byte();
+    if (flags & RAW_JSON) {
+      deltas.push(JSON.parse(reader.string()) as Delta);
+      continue;
+    }
+
+    let id: string;
+    if (flags & UUID_ID) {
+      const hex = reader.raw(16).toString('hex');
+      id = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    } else {
+      id = reader.string();
+    }
+    const timestamp = previous + reader.signed();
+    previous = timestamp;
+    const author = reader.intern();
+    const system = reader.intern();
+
+    const pointers: Pointer[] = [];
+    const pointerCount = reader.varint();
+    for (let j = 0; j < pointerCount; j++) {
+      pointers.push(readPointer(reader));
+    }
+
+    const delta: Delta = { id, timestamp, author, system, pointers };
+    if (flags & HAS_HLC) {
+      delta.hlc = { physical: timestamp + reader.signed(), logical: reader.varint() };
+    }
+    if (flags & HAS_SIGNATURE) {
+      delta.signature =
+        flags & SIGNATURE_BYTES ? reader.bytes().toString('base64') : reader.string();
+    }
+    if (flags & HAS_EXTRA) {
+      Object.assign(delta, JSON.parse(reader.string()));
+    }
+    deltas.push(delta);
+  }
+
+  return deltas;
+}
+
+/**
+ * Encode deltas in the compact binary form
+ */
+export function encodeDeltas(deltas: Delta[]): Buffer {
+  const writer = new ByteWriter();
+  writeDeltas(writer, deltas);
+  return writer.finish();
+}
+
+/**
+ * Decode deltas written by `encodeDeltas`
+ */
+export function decodeDeltas(data: Buffer): Delta[] {
+  const reader = new ByteReader(data);
+  const deltas = readDeltas(reader);
+  if (!reader.done) {
+    throw new Error('Trailing bytes after deltas');
+  }
+  return deltas;
+}
+
+/**
+ * Binary codec: a JSON envelope, then the message's deltas in compact form
+ */
+export const binaryCodec: MessageCodec = {
+  name: 'binary',
+
+  encode(message: ProtocolMessage): Buffer {
+    const { delta, deltas, ...envelope } = message as ProtocolMessage & {
+      delta?: Delta;
+      deltas?: Delta[];
+    };
+    const writer = new ByteWriter();
+    writer.string(JSON.stringify(envelope));
+
+    if (Array.isArray(deltas)) {
+      writer.byte(DeltaField.DELTAS);
+      writeDeltas(writer, deltas);
+    } else if (delta !== undefined) {
+      writer.byte(DeltaField.DELTA);
+      writeDeltas(writer, [delta]);
+    } else {
+      writer.byte(DeltaField.NONE);
+    }
+
+    return writer.finish();
+  },
+
+  decode(data: Buffer): ProtocolMessage {
+    const reader = new ByteReader(data);
+    const message = JSON.parse(reader.string()) as Record<string, unknown>;
+
+    const field = reader.byte() as DeltaField;
+    if (field === DeltaField.DELTAS) {
+      message.deltas = readDeltas(reader);
+    } else if (field === DeltaField.DELTA) {
+      message.delta = readDeltas(reader)[0];
+    } else if (field !== DeltaField.NONE) {
+      throw new Error(`Unknown delta field: ${String(field)}`);
+    }
+
+    if (!reader.done) {
+      throw new Error('Trailing bytes after message');
+    }
+    return message as unknown as ProtocolMessage;
+  }
+};
@@ -0,0 +1,246 @@
+/**
+ * Tests for federation message codecs
+ */
+
+import * as zlib from 'zlib';
+import WebSocket from 'ws';
+import { RhizomeDB } from '../../storage/instance';
+import { generateSigningKeyPair } from '../../core/signing';
+import { Delta } from '../../core/types';
+import { FederationManager } from '../manager';
+import { FederationCapabilities, FederationEvent } from '../types';
+import { decodeDeltas, encodeDeltas } from './binary';
+import {
+  DEFAULT_MAX_MESSAGE_SIZE,
+  decodeFrame,
+  encodeFrame,
+  negotiateEncoding,
+  registerCodec
+} from './codec';
+import { DEFAULT_CAPABILITIES, MessageType, SyncBatchMessage } from './messages';
+
+function movieDeltas(db: RhizomeDB, count: number): Delta[] {
+  return Array.from({ length: count }, (_, i) =>
+    db.createDelta('curator', [
+      { role: 'movie', target: { id: `movie_${i}`, context: 'title' } },
+      { role: 'title', target: `Movie ${i}` },
+      { role: 'year', target: 1950 + (i % 70) }
+    ])
+  );
+}
+
+function syncBatch(deltas: Delta[]): SyncBatchMessage {
+  return {
+    type: MessageType.SYNC_BATCH,
+    timestamp: Date.now(),
+    deltas,
+    batchNumber: 0,
+    isLastBatch: true
+  };
+}
+
+/**
+ * A small deflated JSON frame that inflates past the default maximum message size
+ */
+function compressionBomb(): Buffer {
+  const json = Buffer.alloc(DEFAULT_MAX_MESSAGE_SIZE + 1, ' ');
+  return Buffer.concat([Buffer.from([1, 4]), Buffer.from('json'), zlib.deflateRawSync(json)]);
+}
+
+function decode(frame: string | Buffer): ReturnType<typeof decodeFrame> {
+  return typeof frame === 'string'
+    ? decodeFrame(Buffer.from(frame), false)
+    : decodeFrame(frame, true);
+}
+
+describe('Federation Codecs', () => {
+  let db: RhizomeDB;
+
+  beforeEach(() => {
+    db = new RhizomeDB({ storage: 'memory', systemId: 'source', clock: 'hlc' });
+  });
+
+  it('should round-trip deltas through the binary encoding', () => {
+    const keys = generateSigningKeyPair();
+    const deltas: Delta[] = [
+      db.createSignedDelta(
+        'alice',
+        [
+          { role: 'friend', target: { id: 'bob' } },
+          { role: 'active', target: true },
+          { role: 'score', target: -1.5 }
+        ],
+        keys.privateKey
+      ),
+      { ...db.createDelta('alice', [{ role: 'note', target: '' }]), id: 'not-a-uuid' },
+      // Doesn't fit the compact form
+      { id: 'odd', timestamp: 1.5, author: 'alice', system: 'x', pointers: [] },
+      { ...db.createDelta('bob', [{ role: 'flag', target: false }]), signature: 'not base64!' }
+    ];
+
+    const message = syncBatch(deltas);
+
+    expect(decodeDeltas(encodeDeltas(deltas))).toEqual(deltas);
+    expect(decode(encodeFrame(message, { codec: 'binary' }))).toEqual(message);
+  });
+
+  it('should be smaller than JSON, and smaller still compressed', () => {
+    const message = syncBatch(movieDeltas(db, 100));
+
+    const json = Buffer.byteLength(encodeFrame(message));
+    const binary = Buffer.byteLength(encodeFrame(message, { codec: 'binary' }));
+    const deflated = encodeFrame(message, { codec: 'binary', compression: 'deflate' });
+    const brotli = encodeFrame(message, { codec: 'json', compression: 'brotli' });
+
+    expect(binary).toBeLessThan(json / 2);
+    expect(deflated.length).toBeLessThan(binary);
+    expect(brotli.length).toBeLessThan(json / 4);
+    expect(decode(deflated)).toEqual(message);
+    expect(decode(brotli)).toEqual(message);
+  });
+
+  it('should leave small messages uncompressed and as text when JSON', () => {
+    const ping = { type: MessageType.PING, timestamp: Date.now() } as const;
+
+    expect(typeof encodeFrame(ping, { codec: 'json', compression: 'deflate' })).toBe('string');
+    expect(decode(encodeFrame(ping, { codec: 'binary', compression: 'brotli' }))).toEqual(ping);
+  });
+
+  it('should reject frames with an unknown codec', () => {
+    const frame = Buffer.concat([Buffer.from([0, 4]), Buffer.from('nope'), Buffer.from('{}')]);
+
+    expect(() => decodeFrame(frame, true)).toThrow('Unknown codec: nope');
+  });
+
+  it('should refuse frames that exceed the maximum message size', () => {
+    const bomb = compressionBomb();
+    expect(bomb.length).toBeLessThan(64 * 1024);
+
+    expect(() => decodeFrame(bomb, true)).toThrow(
+      `Decompressed payload exceeds ${DEFAULT_MAX_MESSAGE_SIZE} bytes`
+    );
+
+    // The frame fits, but not once decompressed
+    const message = syncBatch(movieDeltas(db, 50));
+    const frame = encodeFrame(message, { codec: 'binary', compression: 'brotli' }) as Buffer;
+    const maxMessageSize = frame.length;
+    expect(() => decodeFrame(frame, true, { maxMessageSize })).toThrow(
+      `Decompressed payload exceeds ${maxMessageSize} bytes`
+    );
+    expect(() =>
+      decodeFrame(Buffer.from(JSON.stringify(message)), false, { maxMessageSize })
+    ).toThrow(`Frame exceeds ${maxMessageSize} bytes`);
+    expect(decodeFrame(frame, true, { maxMessageSize: 1024 * 1024 })).toEqual(message);
+  });
+
+  it('should refuse binary frames before an encoding is settled', () => {
+    const ping = { type: MessageType.PING, timestamp: Date.now() } as const;
+    const frame = encodeFrame(ping, { codec: 'binary' }) as Buffer;
+
+    expect(() => decodeFrame(frame, true, { binary: false })).toThrow(
+      'Binary frame before an encoding was settled'
+    );
+    expect(decodeFrame(Buffer.from(encodeFrame(ping) as string), false, { binary: false })).toEqual(
+      ping
+    );
+  });
+
+  it("should negotiate the client's preferred encoding the server supports", () => {
+    const server: FederationCapabilities = { ...DEFAULT_CAPABILITIES, compression: ['deflate'] };
+
+    expect(
+      negotiateEncoding(
+        { codecs: ['msgpack', 'binary'], compression: ['brotli', 'deflate'] },
+        server
+      )
+    ).toEqual({ codec: 'binary', compression: 'deflate' });
+    expect(negotiateEncoding(undefined, server)).toEqual({ codec: 'json' });
+  });
+
+  it('should use registered codecs', () => {
+    registerCodec({
+      name: 'reversed-json',
+      encode: message => Buffer.from(JSON.stringify(message)).reverse(),
+      decode: data => JSON.parse(Buffer.from(data).reverse().toString()) as SyncBatchMessage
+    });
+    const message = syncBatch(movieDeltas(db, 2));
+
+    expect(decode(encodeFrame(message, { codec: 'reversed-json' }))).toEqual(message);
+    expect(
+      negotiateEncoding(
+        { codecs: ['reversed-json'] },
+        { ...DEFAULT_CAPABILITIES, codecs: ['json'] }
+      )
+    ).toEqual({ codec: 'json' });
+  });
+
+  describe('over a link', () => {
+    const port = 22000 + Math.floor(Math.random() * 1000);
+    let server: FederationManager;
+
+    beforeEach(async () => {
+      server = new FederationManager(db, { enableServer: true, serverConfig: { port } });
+      await db.persistDeltas(movieDeltas(db, 300));
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    async function sync(
+      capabilities?: Partial<FederationCapabilities>
+    ): Promise<{ encoding: unknown; bytesReceived?: number }> {
+      const target = new RhizomeDB({ storage: 'memory', systemId: 'target' });
+      const client = new FederationManager(target);
+      const completed = new Promise<FederationEvent>(resolve => {
+        client.onFederationEvent(event => {
+          if (event.type === 'sync:completed') resolve(event);
+        });
+      });
+
+      const link = await client.connectToRemote(`ws://localhost:${port}/federation`, {
+        mode: 'pull',
+        initialSync: 'full',
+        capabilities
+      });
+      await completed;
+      const [remote] = server.getServer()!.getClients();
+      await client.close();
+
+      expect(target.getStats().totalDeltas).toBe(300);
+      // Every frame the server sent is counted once at each end
+      expect(link.stats.bytesReceived).toBe(remote.stats.bytesSent);
+      return { encoding: link.encoding, bytesReceived: link.stats.bytesReceived };
+    }
+
+    it('should drop clients that send compressed frames before the handshake', async () => {
+      const ws = new WebSocket(`ws://localhost:${port}/federation`);
+      const replies: string[] = [];
+      ws.on('message', data => replies.push((data as Buffer).toString()));
+      const closed = new Promise<void>(resolve => ws.on('close', () => resolve()));
+      await new Promise(resolve => ws.on('open', resolve));
+
+      ws.send(compressionBomb());
+      await closed;
+
+      expect(replies.map(reply => JSON.parse(reply) as Record<string, unknown>)).toMatchObject([
+        {
+          type: MessageType.ERROR,
+          code: 'MESSAGE_ERROR',
+          message: 'Failed to decode message: Binary frame before an encoding was settled',
+          fatal: true
+        }
+      ]);
+    });
+
+    it('should sync with the negotiated encoding and count bytes', async () => {
+      const compact = await sync();
+      const json = await sync({ codecs: ['json'], compression: [] });
+
+      expect(compact.encoding).toEqual({ codec: 'binary', compression: 'deflate' });
+      expect(json.encoding).toEqual({ codec: 'json' });
+      expect(compact.bytesReceived).toBeGreaterThan(0);
+      expect(compact.bytesReceived).toBeLessThan(json.bytesReceived! / 4);
+    });
+  });
+});
@@ -2,33 +2,266 @@
  * Protocol Message Codec
  *
  * Encoding/decoding of federation protocol messages.
+ *
+ * Messages travel as WebSocket frames. Text frames are plain JSON, which
+ * every peer understands and which carries the handshake. Once HELLO_ACK has
+ * settled an encoding, a link may send binary frames instead:
+ *
+ *   [compression id][codec name length][codec name][payload]
+ *
+ * Frames name their own codec and compression, so either side can decode
+ * whatever arrives, whichever encoding it chose to send with. Binary frames
+ * are refused until then, and no frame may exceed the receiver's maximum
+ * message size, compressed or not.
  */
 
+import * as zlib from 'zlib';
+import { FederationCapabilities, MessageEncoding } from '../types';
 import { ProtocolMessage } from './messages';
+import { binaryCodec } from './binary';
 
 /**
- * Encode a protocol message to JSON string
+ * Turns messages into bytes and back
+ *
+ * Register custom codecs with `registerCodec` on both peers and list them
+ * in `capabilities.codecs`.
  */
-export function encodeMessage(message: ProtocolMessage): string {
-  return JSON.stringify(message);
+export interface MessageCodec {
+  /** Name advertised in capabilities and written in frames */
+  readonly name: string;
+
+  encode(message: ProtocolMessage): Buffer;
+  decode(data: Buffer): ProtocolMessage;
 }
 
 /**
- * Decode a JSON string to protocol message
+ * Encoding every link starts with
  */
-export function decodeMessage(data: string): ProtocolMessage {
+export const JSON_ENCODING: MessageEncoding = { codec: 'json' };
+
+/**
+ * Payloads smaller than this are sent uncompressed
+ */
+export const COMPRESSION_THRESHOLD = 512;
+
+/**
+ * Largest message accepted by default, in bytes (after decompression)
+ */
+export const DEFAULT_MAX_MESSAGE_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Limits on frames accepted by `decodeFrame`
+ */
+export interface DecodeOptions {
+  /**
+   * Largest frame, and largest decompressed payload, in bytes
+   * (default: DEFAULT_MAX_MESSAGE_SIZE)
+   */
+  maxMessageSize?: number;
+
+  /** Accept binary frames; false until HELLO_ACK settles an encoding (default: true) */
+  binary?: boolean;
+}
+
+/**
+ * JSON codec, the same text as `encodeMessage`
+ */
+export const jsonCodec: MessageCodec = {
+  name: 'json',
+
+  encode(message: ProtocolMessage): Buffer {
+    return Buffer.from(JSON.stringify(message), 'utf8');
+  },
+
+  decode(data: Buffer): ProtocolMessage {
+    return JSON.parse(data.toString('utf8')) as ProtocolMessage;
+  }
+};
+
+const codecs: Map<string, MessageCodec> = new Map([
+  [jsonCodec.name, jsonCodec],
+  [binaryCodec.name, binaryCodec]
+]);
+
+interface Compressor {
+  id: number;
+  compress(data: Buffer): Buffer;
+  /** Throws ERR_BUFFER_TOO_LARGE if the output would exceed `maxOutputLength` */
+  decompress(data: Buffer, maxOutputLength: number): Buffer;
+}
+
+const compressors: Record<string, Compressor> = {
+  deflate: {
+    id: 1,
+    compress: data => zlib.deflateRawSync(data),
+    decompress: (data, maxOutputLength) => zlib.inflateRawSync(data, { maxOutputLength })
+  },
+  brotli: {
+    id: 2,
+    compress: data =>
+      zlib.brotliCompressSync(data, {
+        params: {
+          // The default quality (11) is too slow for per-message use
+          [zlib.constants.BROTLI_PARAM_QUALITY]: 5,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length
+        }
+      }),
+    decompress: (data, maxOutputLength) => zlib.brotliDecompressSync(data, { maxOutputLength })
+  }
+};
+
+/**
+ * Make a codec available for negotiation and decoding
+ */
+export function registerCodec(codec: MessageCodec): void {
+  if (codec.name === jsonCodec.name) {
+    throw new Error('The json codec cannot be replaced');
+  }
+  codecs.set(codec.name, codec);
+}
+
+/**
+ * Whether this process can send and receive with an encoding
+ */
+export function isEncodingSupported(encoding: MessageEncoding): boolean {
+  return (
+    codecs.has(encoding.codec) &&
+    (encoding.compression === undefined || encoding.compression in compressors)
+  );
+}
+
+/**
+ * Pick the encoding for a link: the client's most preferred codec and
+ * compression that the server also supports
+ *
+ * Clients that advertise nothing get JSON.
+ */
+export function negotiateEncoding(
+  offered: Partial<FederationCapabilities> | undefined,
+  supported: FederationCapabilities
+): MessageEncoding {
+  const codec = (offered?.codecs ?? []).find(
+    name => supported.codecs.includes(name) && codecs.has(name)
+  );
+  const compression = (offered?.compression ?? []).find(
+    name => supported.compression.includes(name) && name in compressors
+  );
+
+  return {
+    codec: codec ?? JSON_ENCODING.codec,
+    ...(compression !== undefined && { compression })
+  };
+}
+
+/**
+ * Encode a message as a WebSocket frame
+ *
+ * Uncompressed JSON goes out as a text frame, everything else as binary.
+ */
+export function encodeFrame(
+  message: ProtocolMessage,
+  encoding: MessageEncoding = JSON_ENCODING
+): string | Buffer {
+  const codec = codecs.get(encoding.codec);
+  if (!codec) {
+    throw new Error(`Unknown codec: ${encoding.codec}`);
+  }
+
+  let payload = codec.encode(message);
+  let compressionId = 0;
+  const compressor = encoding.compression ? compressors[encoding.compression] : undefined;
+  if (compressor && payload.length >= COMPRESSION_THRESHOLD) {
+    payload = compressor.compress(payload);
+    compressionId = compressor.id;
+  }
+
+  if (codec === jsonCodec && compressionId === 0) {
+    return payload.toString('utf8');
+  }
+
+  const name = Buffer.from(codec.name, 'utf8');
+  return Buffer.concat([Buffer.from([compressionId, name.length]), name, payload]);
+}
+
+/**
+ * Gather a received WebSocket message into one buffer
+ */
+export function toFrameBuffer(data: Buffer | ArrayBuffer | Buffer[]): Buffer {
+  if (Array.isArray(data)) {
+    return Buffer.concat(data);
+  }
+  return Buffer.isBuffer(data) ? data : Buffer.from(data);
+}
+
+/**
+ * Decode a WebSocket frame made by `encodeFrame` (or plain JSON text)
+ */
+export function decodeFrame(
+  frame: Buffer,
+  isBinary: boolean,
+  options: DecodeOptions = {}
+): ProtocolMessage {
+  const maxMessageSize = options.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+  if (frame.length > maxMessageSize) {
+    throw new Error(`Failed to decode message: Frame exceeds ${maxMessageSize} bytes`);
+  }
+
+  if (!isBinary) {
+    return decodeMessage(frame.toString('utf8'));
+  }
+
   try {
-    const parsed = JSON.parse(data);
+    if (options.binary === false) {
+      throw new Error('Binary frame before an encoding was settled');
+    }
+
+    if (frame.length < 2 || frame.length < 2 + frame[1]) {
+      throw new Error('Truncated frame header');
+    }
 
-    if (!parsed.type) {
-      throw new Error('Message missing type field');
+    const name = frame.subarray(2, 2 + frame[1]).toString('utf8');
+    const codec = codecs.get(name);
+    if (!codec) {
+      throw new Error(`Unknown codec: ${name}`);
     }
 
-    if (!parsed.timestamp) {
-      throw new Error('Message missing timestamp field');
+    let payload = frame.subarray(2 + frame[1]);
+    if (frame[0] !== 0) {
+      const compressor = Object.values(compressors).find(candidate => candidate.id === frame[0]);
+      if (!compressor) {
+        throw new Error(`Unknown compression: ${frame[0]}`);
+      }
+      try {
+        payload = compressor.decompress(payload, maxMessageSize);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(`Decompressed payload exceeds ${maxMessageSize} bytes`);
+        }
+        throw error;
+      }
     }
 
-    return parsed as ProtocolMessage;
+    return checkMessage(codec.decode(payload));
+  } catch (error) {
+    throw new Error(
+      `Failed to decode message: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Encode a protocol message to JSON string
+ */
+export function encodeMessage(message: ProtocolMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Decode a JSON string to protocol message
+ */
+export function decodeMessage(data: string): ProtocolMessage {
+  try {
+    return checkMessage(JSON.parse(data) as ProtocolMessage);
   } catch (error) {
     throw new Error(
       `Failed to decode message: ${error instanceof Error ? error.message : String(error)}`
@@ -36,6 +269,21 @@ export function decodeMessage(data: string): ProtocolMessage {
   }
 }
 
+/**
+ * Check a decoded message has its required fields
+ */
+function checkMessage(parsed: ProtocolMessage): ProtocolMessage {
+  if (!parsed.type) {
+    throw new Error('Message missing type field');
+  }
+
+  if (!parsed.timestamp) {
+    throw new Error('Message missing timestamp field');
+  }
+
+  return parsed;
+}
+
 /**
  * Validate a protocol message structure
  */
@@ -5,7 +5,12 @@
  */
 
 import { Delta, DeltaFilter } from '../../core/types';
-import { FederationConfig } from '../types';
+import {
+  FederationCapabilities,
+  FederationConfig,
+  MessageEncoding,
+  PeerPermission
+} from '../types';
 
 /**
  * Message type discriminator
@@ -14,9 +19,12 @@ export enum MessageType {
   // Connection handshake
   HELLO = 'hello',
   HELLO_ACK = 'hello_ack',
+  AUTH_CHALLENGE = 'auth_challenge',
+  AUTH_RESPONSE = 'auth_response',
 
   // Delta synchronization
   DELTA = 'delta',
+  DELTA_BATCH = 'delta_batch',
   DELTA_ACK = 'delta_ack',
   DELTA_NACK = 'delta_nack',
 
@@ -26,6 +34,11 @@ export enum MessageType {
   SYNC_BATCH = 'sync_batch',
   SYNC_COMPLETE = 'sync_complete',
 
+  // Anti-entropy reconciliation
+  RECONCILE_REQUEST = 'reconcile_request',
+  RECONCILE_SUMMARY = 'reconcile_summary',
+  RECONCILE_DELTAS = 'reconcile_deltas',
+
   // Control messages
   PAUSE = 'pause',
   RESUME = 'resume',
@@ -52,6 +65,40 @@ export interface HelloMessage extends BaseMessage {
   systemId: string;
   config: FederationConfig;
   protocol: string; // Protocol version
+  capabilities?: FederationCapabilities;
+  /** Nonce for the server to prove its identity with in HELLO_ACK */
+  nonce?: string;
+}
+
+/**
+ * How a proof of identity was made
+ */
+export type AuthMethod = 'hmac' | 'signature';
+
+/**
+ * Answer to a nonce: an HMAC (hex) or Ed25519 signature (base64)
+ */
+export interface AuthProof {
+  method: AuthMethod;
+  value: string;
+}
+
+/**
+ * AUTH_CHALLENGE - Server asks the client to prove its identity
+ */
+export interface AuthChallengeMessage extends BaseMessage {
+  type: MessageType.AUTH_CHALLENGE;
+  systemId: string; // Server's system ID
+  method: AuthMethod;
+  nonce: string;
+}
+
+/**
+ * AUTH_RESPONSE - Client's answer to AUTH_CHALLENGE
+ */
+export interface AuthResponseMessage extends BaseMessage {
+  type: MessageType.AUTH_RESPONSE;
+  proof: AuthProof;
 }
 
 /**
@@ -62,6 +109,12 @@ export interface HelloAckMessage extends BaseMessage {
   systemId: string;
   linkId: string; // Unique ID for this federation link
   protocol: string;
+  permission?: PeerPermission;
+  capabilities?: FederationCapabilities;
+  /** Server's answer to the HELLO nonce */
+  proof?: AuthProof;
+  /** Encoding both sides send with from here on (JSON if absent) */
+  encoding?: MessageEncoding;
 }
 
 /**
@@ -72,6 +125,16 @@ export interface DeltaMessage extends BaseMessage {
   delta: Delta;
 }
 
+/**
+ * DELTA_BATCH - Send the deltas of one transaction, to be applied together
+ *
+ * Each delta is acknowledged with its own DELTA_ACK or DELTA_NACK.
+ */
+export interface DeltaBatchMessage extends BaseMessage {
+  type: MessageType.DELTA_BATCH;
+  deltas: Delta[];
+}
+
 /**
  * DELTA_ACK - Acknowledge delta receipt
  */
@@ -125,6 +188,67 @@ export interface SyncCompleteMessage extends BaseMessage {
   deltasProcessed: number;
 }
 
+/**
+ * Half-open span of delta timestamps, [start, end)
+ */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Summary of the delta IDs one peer holds in a time range
+ */
+export interface RangeSummary extends TimeRange {
+  /** Number of deltas in the range */
+  count: number;
+
+  /** SHA-256 (hex) of the range's sorted delta IDs */
+  hash: string;
+
+  /** Earliest and latest delta timestamps (absent when empty) */
+  first?: number;
+  last?: number;
+
+  /** The delta IDs, when the range is small enough to list */
+  ids?: string[];
+}
+
+/**
+ * RECONCILE_REQUEST - Ask for summaries of time ranges
+ */
+export interface ReconcileRequestMessage extends BaseMessage {
+  type: MessageType.RECONCILE_REQUEST;
+  sessionId: string;
+  ranges: TimeRange[];
+  filter?: DeltaFilter;
+  /** List IDs for ranges holding at most this many deltas */
+  leafSize: number;
+}
+
+/**
+ * RECONCILE_SUMMARY - Summaries of the requested ranges, in request order
+ */
+export interface ReconcileSummaryMessage extends BaseMessage {
+  type: MessageType.RECONCILE_SUMMARY;
+  sessionId: string;
+  ranges: RangeSummary[];
+}
+
+/**
+ * RECONCILE_DELTAS - Deltas the receiver lacks, and IDs of deltas the
+ * sender lacks
+ *
+ * Answered with a RECONCILE_DELTAS carrying the requested deltas (and no
+ * request).
+ */
+export interface ReconcileDeltasMessage extends BaseMessage {
+  type: MessageType.RECONCILE_DELTAS;
+  sessionId: string;
+  deltas: Delta[];
+  request: string[];
+}
+
 /**
  * PAUSE - Pause delta streaming
  */
@@ -169,13 +293,19 @@ export interface ErrorMessage extends BaseMessage {
 export type ProtocolMessage =
   | HelloMessage
   | HelloAckMessage
+  | AuthChallengeMessage
+  | AuthResponseMessage
   | DeltaMessage
+  | DeltaBatchMessage
   | DeltaAckMessage
   | DeltaNackMessage
   | SyncRequestMessage
   | SyncStartMessage
   | SyncBatchMessage
   | SyncCompleteMessage
+  | ReconcileRequestMessage
+  | ReconcileSummaryMessage
+  | ReconcileDeltasMessage
   | PauseMessage
   | ResumeMessage
   | PingMessage
@@ -191,3 +321,22 @@ export const PROTOCOL_VERSION = 'rhizomedb-federation-v1';
  * Default batch size for initial sync
  */
 export const DEFAULT_SYNC_BATCH_SIZE = 100;
+
+/**
+ * Capabilities advertised when not configured
+ */
+export const DEFAULT_CAPABILITIES: FederationCapabilities = {
+  codecs: ['binary', 'json'],
+  compression: ['deflate', 'brotli'],
+  maxBatchSize: DEFAULT_SYNC_BATCH_SIZE
+};
+
+/**
+ * Default number of subranges a mismatched range is split into
+ */
+export const DEFAULT_RECONCILE_BRANCHES = 16;
+
+/**
+ * Default largest range whose delta IDs are listed rather than split
+ */
+export const DEFAULT_RECONCILE_LEAF_SIZE = 64;
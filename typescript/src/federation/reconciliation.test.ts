@@ -0,0 +1,181 @@
+/**
+ * Tests for anti-entropy reconciliation
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { Delta } from '../core/types';
+import { FederationManager } from './manager';
+import { FederationServerConfig } from './server/server';
+import { createAuthorTrustPolicy } from './trust';
+import {
+  LocalReconcilePeer,
+  RemoteReconcilePeer,
+  hashIds,
+  reconcile,
+  summarizeRanges
+} from './reconciliation';
+
+function peer(db: RhizomeDB): LocalReconcilePeer & RemoteReconcilePeer {
+  return {
+    summarize: (ranges, leafSize) => summarizeRanges(db, ranges, leafSize),
+    getDeltas: ids => db.getDeltas(ids),
+    apply: deltas => db.persistDeltas(deltas),
+    exchange: async (deltas, request) => {
+      await db.persistDeltas(deltas);
+      return db.getDeltas(request);
+    }
+  };
+}
+
+function nameAt(db: RhizomeDB, value: string, timestamp: number): Delta {
+  return { ...db.createDelta('alice', [{ role: 'name', target: value }]), timestamp };
+}
+
+function ids(db: RhizomeDB): string[] {
+  return db
+    .queryDeltas({ includeNegated: true })
+    .map(delta => delta.id)
+    .sort();
+}
+
+describe('Anti-Entropy Reconciliation', () => {
+  let local: RhizomeDB;
+  let remote: RhizomeDB;
+
+  beforeEach(() => {
+    local = new RhizomeDB({ storage: 'memory', systemId: 'local' });
+    remote = new RhizomeDB({ storage: 'memory', systemId: 'remote' });
+  });
+
+  it('should summarize ranges, listing small ones', async () => {
+    const deltas = [nameAt(local, 'a', 100), nameAt(local, 'b', 150), nameAt(local, 'c', 300)];
+    await local.persistDeltas(deltas);
+
+    const [small, large] = await summarizeRanges(
+      local,
+      [
+        { start: 200, end: 400 },
+        { start: 0, end: 200 }
+      ],
+      1
+    );
+
+    expect(small).toMatchObject({ count: 1, first: 300, last: 300, ids: [deltas[2].id] });
+    expect(large).toMatchObject({ count: 2, first: 100, last: 150 });
+    expect(large.ids).toBeUndefined();
+    expect(large.hash).toBe(hashIds([deltas[1].id, deltas[0].id]));
+  });
+
+  it('should find deltas missed by timestamp catch-up in both directions', async () => {
+    const shared = [nameAt(local, 'shared', 5000)];
+    await local.persistDeltas(shared);
+    await remote.persistDeltas(shared);
+
+    // Authored with a skewed clock, so older than anything a checkpoint would ask for
+    await remote.persistDelta(nameAt(remote, 'late', 10));
+    await local.persistDelta(nameAt(local, 'offline', 6000));
+
+    const result = await reconcile(peer(local), peer(remote));
+
+    expect(result).toMatchObject({ missingLocal: 1, missingRemote: 1, sent: 1, received: 1 });
+    expect(ids(local)).toEqual(ids(remote));
+  });
+
+  it('should drill into mismatched ranges and transfer only the difference', async () => {
+    const common: Delta[] = [];
+    for (let i = 0; i < 500; i++) {
+      common.push(nameAt(local, `common-${i}`, 1000 + i * 7));
+    }
+    await local.persistDeltas(common);
+    await remote.persistDeltas(common);
+    await remote.persistDeltas([nameAt(remote, 'x', 1500), nameAt(remote, 'y', 4200)]);
+    await local.persistDelta(local.negateDelta('alice', common[10].id));
+
+    const result = await reconcile(peer(local), peer(remote), { leafSize: 8, branches: 4 });
+
+    expect(result).toMatchObject({ missingLocal: 2, missingRemote: 1 });
+    expect(result.rounds).toBeGreaterThan(2);
+    expect(ids(local)).toEqual(ids(remote));
+    expect(remote.queryDeltas({ ids: [common[10].id] })).toEqual([]);
+
+    const again = await reconcile(peer(local), peer(remote));
+    expect(again).toMatchObject({ missingLocal: 0, missingRemote: 0, rounds: 1 });
+  });
+
+  it('should only count what the mode does not transfer', async () => {
+    await remote.persistDelta(nameAt(remote, 'theirs', 100));
+    await local.persistDelta(nameAt(local, 'ours', 200));
+
+    const result = await reconcile(peer(local), peer(remote), { push: false });
+
+    expect(result).toMatchObject({ missingLocal: 1, missingRemote: 1, sent: 0, received: 1 });
+    expect(remote.getStats().totalDeltas).toBe(1);
+    expect(local.getStats().totalDeltas).toBe(2);
+  });
+
+  describe('over a link', () => {
+    const port = 19000 + Math.floor(Math.random() * 1000);
+    let server: FederationManager;
+    let client: FederationManager;
+
+    function startServer(serverConfig: Omit<FederationServerConfig, 'port'> = {}): void {
+      server = new FederationManager(remote, {
+        enableServer: true,
+        serverConfig: { port, ...serverConfig }
+      });
+    }
+
+    beforeEach(() => {
+      client = new FederationManager(local);
+    });
+
+    afterEach(async () => {
+      await client.close();
+      await server.close();
+    });
+
+    it('should reconcile on demand and report divergence', async () => {
+      startServer();
+      await remote.persistDelta(nameAt(remote, 'theirs', 100));
+      await local.persistDelta(nameAt(local, 'ours', 200));
+      const link = await client.connectToRemote(`ws://localhost:${port}/federation`, {
+        mode: 'bidirectional',
+        initialSync: 'none'
+      });
+
+      const result = await client.reconcile(link.id);
+
+      expect(result).toMatchObject({ missingLocal: 1, missingRemote: 1 });
+      expect(ids(local)).toEqual(ids(remote));
+      expect(link.stats).toMatchObject({ divergence: 2 });
+      expect(link.stats.lastReconciledAt).toBeDefined();
+    });
+
+    it('should not list deltas the server refuses to send', async () => {
+      startServer({ trustPolicy: createAuthorTrustPolicy(['alice']) });
+      await remote.persistDelta(remote.createDelta('mallory', [{ role: 'name', target: 'x' }]));
+      const link = await client.connectToRemote(`ws://localhost:${port}/federation`, {
+        mode: 'bidirectional',
+        initialSync: 'none'
+      });
+
+      const first = await client.reconcile(link.id);
+      const second = await client.reconcile(link.id);
+
+      expect(first).toMatchObject({ missingLocal: 0, missingRemote: 0 });
+      expect(second).toMatchObject({ missingLocal: 0, missingRemote: 0 });
+      expect(link.stats).toMatchObject({ divergence: 0 });
+    });
+
+    it('should refuse to summarize for a push-only peer', async () => {
+      startServer({ peers: [{ systemId: 'local', permission: 'push-only' }] });
+      await remote.persistDelta(nameAt(remote, 'theirs', 100));
+      const link = await client.connectToRemote(`ws://localhost:${port}/federation`, {
+        mode: 'push',
+        initialSync: 'none'
+      });
+
+      await expect(client.reconcile(link.id)).rejects.toThrow('Peer is push-only');
+    });
+  });
+});
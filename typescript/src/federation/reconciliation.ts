@@ -0,0 +1,269 @@
+/**
+ * Anti-entropy reconciliation
+ *
+ * Timestamp-based catch-up misses deltas authored with skewed clocks or
+ * received out of order. Reconciliation compares the peers' delta-ID sets
+ * instead: time is cut into ranges, each summarized by a count and a hash of
+ * its sorted IDs. Matching ranges are skipped, mismatched ranges are split
+ * and compared again until they are small enough to list their IDs, and only
+ * the deltas one side lacks are transferred.
+ */
+
+import { createHash } from 'crypto';
+import { Delta, DeltaFilter, DeltaStore } from '../core/types';
+import { sortCausally } from '../core/causality';
+import {
+  DEFAULT_RECONCILE_BRANCHES,
+  DEFAULT_RECONCILE_LEAF_SIZE,
+  RangeSummary,
+  TimeRange
+} from './protocol/messages';
+
+/**
+ * One side of a reconciliation
+ */
+export interface ReconcilePeer {
+  /**
+   * Summarize each range, listing IDs where a range holds at most
+   * `leafSize` deltas or spans a single millisecond
+   */
+  summarize(ranges: TimeRange[], leafSize: number): Promise<RangeSummary[]>;
+}
+
+/**
+ * The local side, which stores what it receives
+ */
+export interface LocalReconcilePeer extends ReconcilePeer {
+  getDeltas(ids: string[]): Promise<Delta[]>;
+  apply(deltas: Delta[]): Promise<void>;
+}
+
+/**
+ * The remote side
+ */
+export interface RemoteReconcilePeer extends ReconcilePeer {
+  /** Send deltas the remote lacks; resolves with the requested deltas */
+  exchange(deltas: Delta[], request: string[]): Promise<Delta[]>;
+}
+
+/**
+ * Reconciliation options
+ */
+export interface ReconcileOptions {
+  /** Subranges per mismatched range (default: 16) */
+  branches?: number;
+
+  /** Largest range listed by ID rather than split (default: 64) */
+  leafSize?: number;
+
+  /** Send deltas the remote lacks (default: true) */
+  push?: boolean;
+
+  /** Fetch deltas we lack (default: true) */
+  pull?: boolean;
+}
+
+/**
+ * Outcome of a reconciliation
+ */
+export interface ReconcileResult {
+  /** Deltas the remote held that we lacked */
+  missingLocal: number;
+
+  /** Deltas we held that the remote lacked */
+  missingRemote: number;
+
+  /** Deltas sent to the remote */
+  sent: number;
+
+  /** Deltas received and applied */
+  received: number;
+
+  /** Summary round trips */
+  rounds: number;
+}
+
+// The first range compared covers every timestamp
+const FULL_RANGE: TimeRange = { start: 0, end: Number.MAX_SAFE_INTEGER };
+
+/**
+ * Hash a set of delta IDs
+ */
+export function hashIds(ids: string[]): string {
+  return createHash('sha256')
+    .update([...ids].sort().join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Summarize the deltas a store holds in each range
+ *
+ * Negated deltas count too: they are part of what a peer should hold. The
+ * store is scanned once for all the ranges.
+ *
+ * @param include - Whether a delta may be offered to the peer; deltas it
+ * refuses are left out, so the peer never asks for them
+ */
+export async function summarizeRanges(
+  store: DeltaStore,
+  ranges: TimeRange[],
+  leafSize: number,
+  filter: DeltaFilter = {},
+  include?: (delta: Delta) => boolean | Promise<boolean>
+): Promise<RangeSummary[]> {
+  if (ranges.length === 0) {
+    return [];
+  }
+
+  const order = ranges.map((_, index) => index).sort((a, b) => ranges[a].start - ranges[b].start);
+  const ids: string[][] = ranges.map(() => []);
+  const first: Array<number | undefined> = [];
+  const last: Array<number | undefined> = [];
+
+  const start = ranges[order[0]].start;
+  const end = Math.max(...ranges.map(range => range.end));
+  for await (const delta of store.scanDeltas({
+    ...filter,
+    includeNegated: true,
+    timestampRange: { start, end: end - 1 }
+  })) {
+    const index = findRange(ranges, order, delta.timestamp);
+    if (index < 0 || (include && !(await include(delta)))) continue;
+
+    ids[index].push(delta.id);
+    first[index] = Math.min(first[index] ?? delta.timestamp, delta.timestamp);
+    last[index] = Math.max(last[index] ?? delta.timestamp, delta.timestamp);
+  }
+
+  return ranges.map((range, index) => {
+    const summary: RangeSummary = {
+      ...range,
+      count: ids[index].length,
+      hash: hashIds(ids[index]),
+      first: first[index],
+      last: last[index]
+    };
+    if (summary.count <= leafSize || range.end - range.start <= 1) {
+      summary.ids = ids[index];
+    }
+    return summary;
+  });
+}
+
+/**
+ * Find the range holding a timestamp, given range indexes sorted by start
+ */
+function findRange(ranges: TimeRange[], order: number[], timestamp: number): number {
+  let low = 0;
+  let high = order.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const range = ranges[order[mid]];
+    if (timestamp < range.start) {
+      high = mid - 1;
+    } else if (timestamp >= range.end) {
+      low = mid + 1;
+    } else {
+      return order[mid];
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a mismatched range into subranges
+ *
+ * Only the span holding deltas on either side is split, so sparse ranges
+ * (like the first, which covers all time) narrow quickly.
+ */
+function splitRange(ours: RangeSummary, theirs: RangeSummary, branches: number): TimeRange[] {
+  const start = Math.max(ours.start, Math.min(ours.first ?? Infinity, theirs.first ?? Infinity));
+  const end = Math.min(ours.end, Math.max(ours.last ?? -Infinity, theirs.last ?? -Infinity) + 1);
+  const width = Math.ceil((end - start) / branches);
+
+  const children: TimeRange[] = [];
+  for (let childStart = start; childStart < end; childStart += width) {
+    children.push({ start: childStart, end: Math.min(childStart + width, end) });
+  }
+  return children;
+}
+
+/**
+ * Bring two peers' delta sets together
+ *
+ * Each round compares the summaries of the current ranges, transfers the
+ * deltas missing from listed ranges, and splits the rest.
+ */
+export async function reconcile(
+  local: LocalReconcilePeer,
+  remote: RemoteReconcilePeer,
+  options: ReconcileOptions = {}
+): Promise<ReconcileResult> {
+  const branches = options.branches ?? DEFAULT_RECONCILE_BRANCHES;
+  const leafSize = options.leafSize ?? DEFAULT_RECONCILE_LEAF_SIZE;
+  const result: ReconcileResult = {
+    missingLocal: 0,
+    missingRemote: 0,
+    sent: 0,
+    received: 0,
+    rounds: 0
+  };
+
+  let ranges: TimeRange[] = [FULL_RANGE];
+  while (ranges.length > 0) {
+    result.rounds++;
+    const [ours, theirs] = await Promise.all([
+      local.summarize(ranges, leafSize),
+      remote.summarize(ranges, leafSize)
+    ]);
+
+    const next: TimeRange[] = [];
+    const leaves: Array<{ ours: RangeSummary; theirs: string[] }> = [];
+    ranges.forEach((_, index) => {
+      if (ours[index].hash === theirs[index].hash) return;
+
+      const theirIds = theirs[index].ids;
+      if (theirIds) {
+        leaves.push({ ours: ours[index], theirs: theirIds });
+      } else {
+        next.push(...splitRange(ours[index], theirs[index], branches));
+      }
+    });
+
+    // The remote listed these ranges; list ours where we hold more
+    const unlisted = leaves.filter(leaf => !leaf.ours.ids);
+    const listed = await local.summarize(
+      unlisted.map(leaf => ({ start: leaf.ours.start, end: leaf.ours.end })),
+      Infinity
+    );
+    unlisted.forEach((leaf, index) => {
+      leaf.ours = listed[index];
+    });
+
+    const offered: string[] = [];
+    const wanted: string[] = [];
+    for (const leaf of leaves) {
+      const ourIds = new Set(leaf.ours.ids);
+      const theirIds = new Set(leaf.theirs);
+      offered.push(...(leaf.ours.ids ?? []).filter(id => !theirIds.has(id)));
+      wanted.push(...leaf.theirs.filter(id => !ourIds.has(id)));
+    }
+    result.missingLocal += wanted.length;
+    result.missingRemote += offered.length;
+
+    const send = options.push !== false ? sortCausally(await local.getDeltas(offered)) : [];
+    const request = options.pull !== false ? wanted : [];
+    if (send.length > 0 || request.length > 0) {
+      const received = await remote.exchange(send, request);
+      result.sent += send.length;
+      if (received.length > 0) {
+        await local.apply(sortCausally(received));
+        result.received += received.length;
+      }
+    }
+
+    ranges = next;
+  }
+
+  return result;
+}
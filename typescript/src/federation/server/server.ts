@@ -11,13 +11,38 @@ import {
   MessageType,
   ProtocolMessage,
   HelloMessage,
-  DeltaMessage,
+  AuthMethod,
+  AuthResponseMessage,
+  DeltaBatchMessage,
+  ReconcileRequestMessage,
+  ReconcileDeltasMessage,
+  RangeSummary,
+  TimeRange,
   PROTOCOL_VERSION,
-  DEFAULT_SYNC_BATCH_SIZE
+  DEFAULT_CAPABILITIES
 } from '../protocol/messages';
-import { encodeMessage, decodeMessage } from '../protocol/codec';
+import {
+  decodeFrame,
+  encodeFrame,
+  negotiateEncoding,
+  toFrameBuffer,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  JSON_ENCODING
+} from '../protocol/codec';
 import { verifyDelta } from '../trust';
-import { TrustPolicy } from '../types';
+import { ReceiveBuffer, SendWindow } from '../flow-control';
+import { createNonce, createProof, verifyProof } from '../auth';
+import { matchesDeltaFilter, parseDeltaFilter } from '../../queries/filter-expression';
+import {
+  DeadLetter,
+  FederationCapabilities,
+  FederationCredentials,
+  FederationPeer,
+  FlowControlConfig,
+  MessageEncoding,
+  PeerPermission,
+  TrustPolicy
+} from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -37,24 +62,73 @@ interface ConnectedClient {
     deltasSent: number;
     deltasReceived: number;
     deltasRejected: number;
+    /** Deltas the client sent outside its push filter */
+    filterViolations: number;
+    bytesSent: number;
+    bytesReceived: number;
     connectedAt: number;
   };
-  isPaused: boolean;
+  /** Deltas broadcast to the client, awaiting acknowledgment */
+  outbound: SendWindow;
+  /** Live deltas from the client, applied in arrival order */
+  inbound: ReceiveBuffer;
+  /** Whether the handshake (including any challenge) has completed */
+  authenticated: boolean;
+  permission: PeerPermission;
+  capabilities: FederationCapabilities;
+  /** Encoding messages to the client are sent with */
+  encoding: MessageEncoding;
+  /** Outstanding AUTH_CHALLENGE */
+  challenge?: {
+    method: AuthMethod;
+    nonce: string;
+    hello: HelloMessage;
+    peer?: FederationPeer;
+  };
 }
 
+// Messages a client may send before its handshake completes
+const HANDSHAKE_MESSAGES = new Set<MessageType>([
+  MessageType.HELLO,
+  MessageType.AUTH_RESPONSE,
+  MessageType.PING,
+  MessageType.PONG
+]);
+
 /**
  * Event handlers for federation server
  */
 export interface FederationServerEventHandlers {
   onClientConnected?: (clientId: string, systemId: string) => void;
   onClientDisconnected?: (clientId: string) => void;
-  onDeltaReceived?: (clientId: string, delta: Delta) => void;
+  /** A client failed the handshake (unknown system or bad proof) */
+  onClientRejected?: (clientId: string, systemId: string, reason: string) => void;
+  onDeltaReceived?: (clientId: string, delta: Delta) => void | Promise<void>;
+  /** Deltas of one remote transaction, to be applied together */
+  onDeltasReceived?: (clientId: string, deltas: Delta[]) => void | Promise<void>;
   onDeltaRejected?: (clientId: string, deltaId: string, reason: string) => void;
+  /** Why a delta that passed the trust policy is refused, if it is */
+  checkDelta?: (clientId: string, delta: Delta) => string | undefined;
   onSyncRequested?: (
     clientId: string,
     filter?: DeltaFilter,
     fromTimestamp?: number
   ) => Promise<Delta[]>;
+  /**
+   * Summarize local deltas for a client's reconciliation, leaving out those
+   * `include` refuses (the ones the client may not be sent)
+   */
+  onReconcileRequested?: (
+    clientId: string,
+    ranges: TimeRange[],
+    leafSize: number,
+    filter: DeltaFilter | undefined,
+    include: (delta: Delta) => Promise<boolean>
+  ) => Promise<RangeSummary[]>;
+  /** Look up deltas a client found missing during reconciliation */
+  onDeltasRequested?: (clientId: string, ids: string[]) => Promise<Delta[]>;
+  /** A broadcast delta the client rejected or never acknowledged */
+  onDeadLetter?: (clientId: string, deadLetter: DeadLetter) => void;
   onError?: (error: Error) => void;
 }
 
@@ -76,6 +150,27 @@ export interface FederationServerConfig {
 
   /** Maximum number of concurrent connections */
   maxConnections?: number;
+
+  /** Largest message accepted from a client, in bytes (default: DEFAULT_MAX_MESSAGE_SIZE) */
+  maxMessageSize?: number;
+
+  /**
+   * Systems allowed to connect, with their permissions and keys
+   * (default: any system, with full permission)
+   */
+  peers?: FederationPeer[];
+
+  /**
+   * This server's credentials. `sharedSecret` challenges peers that have no
+   * key of their own; `privateKey` signs the server's proof to clients.
+   */
+  credentials?: FederationCredentials;
+
+  /** Capabilities to advertise (defaults fill the rest) */
+  capabilities?: Partial<FederationCapabilities>;
+
+  /** Send window, retries and receive buffer for each client */
+  flowControl?: FlowControlConfig;
 }
 
 /**
@@ -86,6 +181,8 @@ export class FederationServer {
   private clients: Map<string, ConnectedClient> = new Map();
   private eventHandlers: FederationServerEventHandlers;
   private config: Required<FederationServerConfig>;
+  private peers?: Map<string, FederationPeer>;
+  private capabilities: FederationCapabilities;
 
   constructor(
     private readonly systemId: string,
@@ -98,19 +195,26 @@ export class FederationServer {
       port: config.port || 8080,
       path: config.path || '/federation',
       trustPolicy: config.trustPolicy,
-      maxConnections: config.maxConnections || 1000
+      maxConnections: config.maxConnections || 1000,
+      maxMessageSize: config.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE,
+      credentials: config.credentials || {},
+      flowControl: config.flowControl
     } as Required<FederationServerConfig>;
+    this.peers = config.peers && new Map(config.peers.map(peer => [peer.systemId, peer]));
+    this.capabilities = { ...DEFAULT_CAPABILITIES, ...config.capabilities };
 
     // Create WebSocket server
     if (this.config.server) {
       this.wss = new WebSocketServer({
         server: this.config.server,
-        path: this.config.path
+        path: this.config.path,
+        maxPayload: this.config.maxMessageSize
       });
     } else {
       this.wss = new WebSocketServer({
         port: this.config.port,
-        path: this.config.path
+        path: this.config.path,
+        maxPayload: this.config.maxMessageSize
       });
     }
 
@@ -131,14 +235,14 @@ export class FederationServer {
     const clientId = uuidv4();
 
     // Setup connection handlers
-    ws.on('message', (data: WebSocket.Data) =>
-      this.handleMessage(clientId, data)
+    ws.on('message', (data: WebSocket.RawData, isBinary: boolean) =>
+      this.handleMessage(clientId, data, isBinary)
     );
     ws.on('close', () => this.handleDisconnect(clientId));
     ws.on('error', (error: Error) => this.handleClientError(clientId, error));
 
     // Store temporary client info (will be updated on HELLO)
-    this.clients.set(clientId, {
+    const client: ConnectedClient = {
       id: clientId,
       systemId: '',
       ws,
@@ -147,10 +251,41 @@ export class FederationServer {
         deltasSent: 0,
         deltasReceived: 0,
         deltasRejected: 0,
+        filterViolations: 0,
+        bytesSent: 0,
+        bytesReceived: 0,
         connectedAt: Date.now()
       },
-      isPaused: false
-    });
+      outbound: new SendWindow(
+        this.config.flowControl,
+        deltas => this.transmit(client, deltas),
+        deadLetter => this.eventHandlers.onDeadLetter?.(clientId, deadLetter)
+      ),
+      inbound: new ReceiveBuffer(
+        this.config.flowControl,
+        delta => this.receiveDelta(client, delta),
+        pause =>
+          this.send(client, {
+            type: pause ? MessageType.PAUSE : MessageType.RESUME,
+            timestamp: Date.now()
+          }),
+        (delta, reason) => {
+          client.stats.deltasRejected++;
+          this.eventHandlers.onDeltaRejected?.(clientId, delta.id, reason);
+          this.send(client, {
+            type: MessageType.DELTA_NACK,
+            timestamp: Date.now(),
+            deltaId: delta.id,
+            reason
+          });
+        }
+      ),
+      authenticated: false,
+      permission: 'full',
+      capabilities: DEFAULT_CAPABILITIES,
+      encoding: JSON_ENCODING
+    };
+    this.clients.set(clientId, client);
   }
 
   /**
@@ -158,33 +293,71 @@ export class FederationServer {
    */
   private async handleMessage(
     clientId: string,
-    data: WebSocket.Data
+    data: WebSocket.RawData,
+    isBinary: boolean
   ): Promise<void> {
     const client = this.clients.get(clientId);
     if (!client) return;
 
     try {
-      const message = decodeMessage(data.toString());
+      const frame = toFrameBuffer(data);
+      client.stats.bytesReceived += frame.length;
+      // Until HELLO_ACK, only JSON text is accepted
+      const message = decodeFrame(frame, isBinary, {
+        maxMessageSize: this.config.maxMessageSize,
+        binary: client.authenticated
+      });
+
+      if (!client.authenticated && !HANDSHAKE_MESSAGES.has(message.type)) {
+        this.rejectClient(client, client.systemId, 'UNAUTHORIZED', 'Handshake not completed');
+        return;
+      }
 
       switch (message.type) {
         case MessageType.HELLO:
           await this.handleHello(client, message);
           break;
 
+        case MessageType.AUTH_RESPONSE:
+          this.handleAuthResponse(client, message);
+          break;
+
         case MessageType.DELTA:
-          await this.handleDelta(client, message);
+          client.inbound.push(message.delta);
+          break;
+
+        case MessageType.DELTA_BATCH:
+          // After the live deltas that arrived before it
+          await client.inbound.drained();
+          await this.handleDeltaBatch(client, message);
+          break;
+
+        case MessageType.DELTA_ACK:
+          client.outbound.acknowledge(message.deltaId);
+          break;
+
+        case MessageType.DELTA_NACK:
+          client.outbound.reject(message.deltaId, message.reason);
           break;
 
         case MessageType.SYNC_REQUEST:
           await this.handleSyncRequest(client, message);
           break;
 
+        case MessageType.RECONCILE_REQUEST:
+          await this.handleReconcileRequest(client, message);
+          break;
+
+        case MessageType.RECONCILE_DELTAS:
+          await this.handleReconcileDeltas(client, message);
+          break;
+
         case MessageType.PAUSE:
-          client.isPaused = true;
+          client.outbound.pause('remote');
           break;
 
         case MessageType.RESUME:
-          client.isPaused = false;
+          client.outbound.resume('remote');
           break;
 
         case MessageType.PING:
@@ -200,7 +373,8 @@ export class FederationServer {
       }
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
-      this.sendError(client, 'MESSAGE_ERROR', err.message);
+      // A client that can't get through the handshake is dropped
+      this.sendError(client, 'MESSAGE_ERROR', err.message, !client.authenticated);
       this.eventHandlers.onError?.(err);
     }
   }
@@ -208,10 +382,12 @@ export class FederationServer {
   /**
    * Handle HELLO message from client
    */
-  private async handleHello(
-    client: ConnectedClient,
-    message: HelloMessage
-  ): Promise<void> {
+  private async handleHello(client: ConnectedClient, message: HelloMessage): Promise<void> {
+    if (client.authenticated || client.challenge) {
+      this.sendError(client, 'HANDSHAKE_IN_PROGRESS', 'HELLO already received');
+      return;
+    }
+
     // Verify protocol version
     if (message.protocol !== PROTOCOL_VERSION) {
       this.sendError(
@@ -223,14 +399,129 @@ export class FederationServer {
       return;
     }
 
+    // With an allow-list, only listed systems may connect
+    const peer = this.peers?.get(message.systemId);
+    if (this.peers && !peer) {
+      this.rejectClient(
+        client,
+        message.systemId,
+        'UNKNOWN_PEER',
+        `System not allowed: ${message.systemId}`
+      );
+      return;
+    }
+
+    const method = this.challengeMethod(peer);
+    if (method) {
+      const nonce = createNonce();
+      client.challenge = { method, nonce, hello: message, peer };
+      this.send(client, {
+        type: MessageType.AUTH_CHALLENGE,
+        timestamp: Date.now(),
+        systemId: this.systemId,
+        method,
+        nonce
+      });
+      return;
+    }
+
+    this.completeHandshake(client, message, peer);
+  }
+
+  /**
+   * How a peer must prove its identity, if it must
+   */
+  private challengeMethod(peer?: FederationPeer): AuthMethod | undefined {
+    if (peer?.publicKey !== undefined) {
+      return 'signature';
+    }
+    if (this.peerSecret(peer) !== undefined) {
+      return 'hmac';
+    }
+    return undefined;
+  }
+
+  private peerSecret(peer?: FederationPeer): string | undefined {
+    return peer?.sharedSecret ?? this.config.credentials.sharedSecret;
+  }
+
+  /**
+   * Handle AUTH_RESPONSE message from client
+   */
+  private handleAuthResponse(client: ConnectedClient, message: AuthResponseMessage): void {
+    const challenge = client.challenge;
+    if (!challenge) {
+      this.rejectClient(client, client.systemId, 'UNAUTHORIZED', 'No challenge outstanding');
+      return;
+    }
+    client.challenge = undefined;
+
+    const keys =
+      challenge.method === 'signature'
+        ? { publicKey: challenge.peer?.publicKey }
+        : { sharedSecret: this.peerSecret(challenge.peer) };
+    if (
+      message.proof?.method !== challenge.method ||
+      !verifyProof(message.proof, keys, challenge.hello.systemId, this.systemId, challenge.nonce)
+    ) {
+      this.rejectClient(client, challenge.hello.systemId, 'AUTH_FAILED', 'Authentication failed');
+      return;
+    }
+
+    this.completeHandshake(client, challenge.hello, challenge.peer);
+  }
+
+  /**
+   * Accept an (authenticated) client and send HELLO_ACK
+   */
+  private completeHandshake(
+    client: ConnectedClient,
+    message: HelloMessage,
+    peer?: FederationPeer
+  ): void {
+    // Filters arrive as JSON, so only their declarative parts survive
+    let pushFilter: DeltaFilter | undefined;
+    let pullFilter: DeltaFilter | undefined;
+    try {
+      pushFilter = message.config.pushFilter && parseDeltaFilter(message.config.pushFilter);
+      pullFilter = message.config.pullFilter && parseDeltaFilter(message.config.pullFilter);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.sendError(client, 'INVALID_FILTER', err.message, true);
+      return;
+    }
+
     // Update client info
     client.systemId = message.systemId;
     client.config = {
-      pushFilter: message.config.pushFilter,
-      pullFilter: message.config.pullFilter,
+      pushFilter,
+      pullFilter,
       trustPolicy: message.config.trustPolicy,
       mode: message.config.mode
     };
+    client.permission = peer?.permission ?? 'full';
+    client.capabilities = { ...DEFAULT_CAPABILITIES, ...message.capabilities };
+    client.authenticated = true;
+    const encoding = negotiateEncoding(message.capabilities, this.capabilities);
+
+    // Answer the client's nonce, preferring the secret it may share with us
+    const proof =
+      message.nonce === undefined
+        ? undefined
+        : (createProof(
+            'hmac',
+            { sharedSecret: this.peerSecret(peer) },
+            this.systemId,
+            message.systemId,
+            message.nonce
+          ) ??
+          createProof(
+            'signature',
+            this.config.credentials,
+            this.systemId,
+            message.systemId,
+            message.nonce
+          ));
 
     // Send HELLO_ACK
     this.send(client, {
@@ -238,46 +529,71 @@ export class FederationServer {
       timestamp: Date.now(),
       systemId: this.systemId,
       linkId: client.id,
-      protocol: PROTOCOL_VERSION
+      protocol: PROTOCOL_VERSION,
+      permission: client.permission,
+      capabilities: this.capabilities,
+      proof,
+      encoding
     });
 
+    // HELLO_ACK itself goes out as JSON; the client switches on reading it
+    client.encoding = encoding;
+    client.outbound.start();
+
     this.eventHandlers.onClientConnected?.(client.id, client.systemId);
   }
 
   /**
-   * Handle DELTA message from client
+   * Refuse a client during the handshake and close its connection
    */
-  private async handleDelta(
+  private rejectClient(
     client: ConnectedClient,
-    message: DeltaMessage
-  ): Promise<void> {
-    const delta = message.delta;
+    systemId: string,
+    code: string,
+    reason: string
+  ): void {
+    this.sendError(client, code, reason, true);
+    this.eventHandlers.onClientRejected?.(client.id, systemId, reason);
+    client.ws.close(1008, reason);
+  }
 
-    // Verify trust policy
-    const trusted = await verifyDelta(
-      delta,
-      client.config.trustPolicy || this.config.trustPolicy
-    );
+  /**
+   * Apply a live delta from the client's receive buffer
+   *
+   * Acknowledged once stored; if storing fails, no acknowledgment is sent and
+   * the client retries.
+   */
+  private async receiveDelta(client: ConnectedClient, delta: Delta): Promise<void> {
+    try {
+      await this.handleDelta(client, delta);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.sendError(client, 'MESSAGE_ERROR', err.message);
+      this.eventHandlers.onError?.(err);
+    }
+  }
 
-    if (!trusted) {
+  /**
+   * Handle a DELTA from the client
+   */
+  private async handleDelta(client: ConnectedClient, delta: Delta): Promise<void> {
+    const reason = await this.checkIncoming(client, delta);
+
+    if (reason) {
       client.stats.deltasRejected++;
-      this.eventHandlers.onDeltaRejected?.(
-        client.id,
-        delta.id,
-        'Failed trust policy verification'
-      );
+      this.eventHandlers.onDeltaRejected?.(client.id, delta.id, reason);
 
       this.send(client, {
         type: MessageType.DELTA_NACK,
         timestamp: Date.now(),
         deltaId: delta.id,
-        reason: 'Failed trust policy verification'
+        reason
       });
       return;
     }
 
     client.stats.deltasReceived++;
-    this.eventHandlers.onDeltaReceived?.(client.id, delta);
+    await this.eventHandlers.onDeltaReceived?.(client.id, delta);
 
     // Send acknowledgment
     this.send(client, {
@@ -287,39 +603,106 @@ export class FederationServer {
     });
   }
 
+  /**
+   * Handle DELTA_BATCH message from client
+   *
+   * The batch is one transaction, so it is accepted or rejected as a whole.
+   */
+  private async handleDeltaBatch(
+    client: ConnectedClient,
+    message: DeltaBatchMessage
+  ): Promise<void> {
+    const rejected = new Map<string, string>();
+    for (const delta of message.deltas) {
+      const reason = await this.checkIncoming(client, delta);
+      if (reason) {
+        rejected.set(delta.id, reason);
+      }
+    }
+
+    if (rejected.size > 0) {
+      const cause = rejected.values().next().value as string;
+      for (const delta of message.deltas) {
+        const reason = rejected.get(delta.id) ?? `Transaction contains a rejected delta (${cause})`;
+
+        client.stats.deltasRejected++;
+        this.eventHandlers.onDeltaRejected?.(client.id, delta.id, reason);
+        this.send(client, {
+          type: MessageType.DELTA_NACK,
+          timestamp: Date.now(),
+          deltaId: delta.id,
+          reason
+        });
+      }
+      return;
+    }
+
+    client.stats.deltasReceived += message.deltas.length;
+    await this.eventHandlers.onDeltasReceived?.(client.id, message.deltas);
+
+    for (const delta of message.deltas) {
+      this.send(client, {
+        type: MessageType.DELTA_ACK,
+        timestamp: Date.now(),
+        deltaId: delta.id
+      });
+    }
+  }
+
   /**
    * Handle SYNC_REQUEST message from client
    */
   private async handleSyncRequest(
     client: ConnectedClient,
-    message: { type: MessageType.SYNC_REQUEST; timestamp: number; filter?: DeltaFilter; fromTimestamp?: number }
+    message: {
+      type: MessageType.SYNC_REQUEST;
+      timestamp: number;
+      filter?: DeltaFilter;
+      fromTimestamp?: number;
+    }
   ): Promise<void> {
     if (!this.eventHandlers.onSyncRequested) {
       this.sendError(client, 'SYNC_NOT_SUPPORTED', 'Sync not supported');
       return;
     }
+    if (client.permission === 'push-only') {
+      this.sendError(client, 'FORBIDDEN', 'Peer is push-only');
+      return;
+    }
 
     try {
       // Get deltas from handler
-      const deltas = await this.eventHandlers.onSyncRequested(
+      const requested = await this.eventHandlers.onSyncRequested(
         client.id,
-        message.filter,
+        message.filter && parseDeltaFilter(message.filter),
         message.fromTimestamp
       );
 
+      // The request's filter may be wider than the one agreed in HELLO
+      const pullFilter = client.config.pullFilter;
+      const deltas = pullFilter
+        ? requested.filter(delta => matchesDeltaFilter(delta, pullFilter))
+        : requested;
+
+      // Neither side's batch limit may be exceeded
+      const batchSize = Math.max(
+        1,
+        Math.min(this.capabilities.maxBatchSize, client.capabilities.maxBatchSize)
+      );
+
       // Send SYNC_START
       this.send(client, {
         type: MessageType.SYNC_START,
         timestamp: Date.now(),
         totalDeltas: deltas.length,
-        batchSize: DEFAULT_SYNC_BATCH_SIZE
+        batchSize
       });
 
       // Send deltas in batches
-      for (let i = 0; i < deltas.length; i += DEFAULT_SYNC_BATCH_SIZE) {
-        const batch = deltas.slice(i, i + DEFAULT_SYNC_BATCH_SIZE);
-        const batchNumber = Math.floor(i / DEFAULT_SYNC_BATCH_SIZE);
-        const isLastBatch = i + DEFAULT_SYNC_BATCH_SIZE >= deltas.length;
+      for (let i = 0; i < deltas.length; i += batchSize) {
+        const batch = deltas.slice(i, i + batchSize);
+        const batchNumber = Math.floor(i / batchSize);
+        const isLastBatch = i + batchSize >= deltas.length;
 
         this.send(client, {
           type: MessageType.SYNC_BATCH,
@@ -344,12 +727,135 @@ export class FederationServer {
     }
   }
 
+  /**
+   * Handle RECONCILE_REQUEST message from client
+   */
+  private async handleReconcileRequest(
+    client: ConnectedClient,
+    message: ReconcileRequestMessage
+  ): Promise<void> {
+    if (!this.eventHandlers.onReconcileRequested) {
+      this.sendError(client, 'RECONCILE_NOT_SUPPORTED', 'Reconciliation not supported');
+      return;
+    }
+    if (client.permission === 'push-only') {
+      this.sendError(client, 'RECONCILE_FORBIDDEN', 'Peer is push-only');
+      return;
+    }
+
+    try {
+      // Summarize only what RECONCILE_DELTAS would send, or refused deltas
+      // would show up as a difference on every reconciliation
+      const ranges = await this.eventHandlers.onReconcileRequested(
+        client.id,
+        message.ranges,
+        message.leafSize,
+        message.filter && parseDeltaFilter(message.filter),
+        delta => this.isOutgoing(client, delta)
+      );
+
+      this.send(client, {
+        type: MessageType.RECONCILE_SUMMARY,
+        timestamp: Date.now(),
+        sessionId: message.sessionId,
+        ranges
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.sendError(client, 'RECONCILE_ERROR', err.message);
+    }
+  }
+
+  /**
+   * Handle RECONCILE_DELTAS message from client
+   *
+   * Stores the deltas the client found we lack, then answers with the deltas
+   * it found it lacks.
+   */
+  private async handleReconcileDeltas(
+    client: ConnectedClient,
+    message: ReconcileDeltasMessage
+  ): Promise<void> {
+    // Reconciled deltas are not transactions, so each is checked on its own
+    for (const delta of message.deltas) {
+      const reason = await this.checkIncoming(client, delta);
+      if (reason) {
+        client.stats.deltasRejected++;
+        this.eventHandlers.onDeltaRejected?.(client.id, delta.id, reason);
+        continue;
+      }
+
+      client.stats.deltasReceived++;
+      await this.eventHandlers.onDeltaReceived?.(client.id, delta);
+    }
+
+    const deltas: Delta[] = [];
+    if (
+      message.request.length > 0 &&
+      client.config.mode !== 'push' &&
+      this.eventHandlers.onDeltasRequested
+    ) {
+      const requested = await this.eventHandlers.onDeltasRequested(client.id, message.request);
+      for (const delta of requested) {
+        if (await this.isOutgoing(client, delta)) {
+          deltas.push(delta);
+        }
+      }
+    }
+
+    client.stats.deltasSent += deltas.length;
+    this.send(client, {
+      type: MessageType.RECONCILE_DELTAS,
+      timestamp: Date.now(),
+      sessionId: message.sessionId,
+      deltas,
+      request: []
+    });
+  }
+
+  /**
+   * Why a delta from a client is refused, if it is
+   */
+  private async checkIncoming(client: ConnectedClient, delta: Delta): Promise<string | undefined> {
+    if (client.permission === 'read-only') {
+      return 'Peer is read-only';
+    }
+
+    // The client agreed to send only what its push filter selects
+    if (client.config.pushFilter && !matchesDeltaFilter(delta, client.config.pushFilter)) {
+      client.stats.filterViolations++;
+      return 'Outside push filter';
+    }
+
+    // Verify against the server's own policy. The client's trust policy only
+    // governs what the client accepts, so it must never relax ours.
+    if (!(await verifyDelta(delta, this.config.trustPolicy))) {
+      return 'Failed trust policy verification';
+    }
+
+    return this.eventHandlers.checkDelta?.(client.id, delta);
+  }
+
+  /**
+   * Whether a delta may be sent to a client (pull filter and trust policy)
+   */
+  private async isOutgoing(client: ConnectedClient, delta: Delta): Promise<boolean> {
+    if (client.permission === 'push-only') {
+      return false;
+    }
+    if (client.config.pullFilter && !matchesDeltaFilter(delta, client.config.pullFilter)) {
+      return false;
+    }
+    return verifyDelta(delta, client.config.trustPolicy || this.config.trustPolicy);
+  }
+
   /**
    * Handle client disconnect
    */
   private handleDisconnect(clientId: string): void {
     const client = this.clients.get(clientId);
     if (client) {
+      client.outbound.close();
       this.eventHandlers.onClientDisconnected?.(clientId);
       this.clients.delete(clientId);
     }
@@ -377,19 +883,15 @@ export class FederationServer {
       return;
     }
 
-    const encoded = encodeMessage(message);
-    client.ws.send(encoded);
+    const frame = encodeFrame(message, client.encoding);
+    client.ws.send(frame);
+    client.stats.bytesSent += Buffer.byteLength(frame);
   }
 
   /**
    * Send an error message to a client
    */
-  private sendError(
-    client: ConnectedClient,
-    code: string,
-    message: string,
-    fatal = false
-  ): void {
+  private sendError(client: ConnectedClient, code: string, message: string, fatal = false): void {
     this.send(client, {
       type: MessageType.ERROR,
       timestamp: Date.now(),
@@ -407,40 +909,59 @@ export class FederationServer {
    * Broadcast a delta to all connected clients
    */
   async broadcastDelta(delta: Delta, excludeClientId?: string): Promise<void> {
+    await this.broadcastDeltas([delta], excludeClientId);
+  }
+
+  /**
+   * Broadcast the deltas of one transaction to all connected clients
+   *
+   * Each client receives the deltas its trust policy accepts in a single
+   * message (DELTA_BATCH for more than one).
+   */
+  async broadcastDeltas(deltas: Delta[], excludeClientId?: string): Promise<void> {
     for (const [clientId, client] of this.clients.entries()) {
       if (clientId === excludeClientId) continue;
-      if (client.isPaused) continue;
-      if (!client.systemId) continue; // Not yet authenticated
+      if (!client.authenticated) continue;
 
       // Check if client should receive this delta based on mode
       if (client.config.mode === 'push') {
         continue; // Push mode = client sends only
       }
 
-      // Apply pull filter if present
-      if (client.config.pullFilter) {
-        // TODO: Implement filter matching
-        // For now, send to all
+      // Apply the pull filter and trust policy, and don't echo a client's
+      // own deltas back to it
+      const trusted: Delta[] = [];
+      for (const delta of deltas) {
+        if (delta.system === client.systemId) continue;
+        if (await this.isOutgoing(client, delta)) {
+          trusted.push(delta);
+        }
       }
 
-      // Verify trust policy
-      const trusted = await verifyDelta(
-        delta,
-        client.config.trustPolicy || this.config.trustPolicy
-      );
-
-      if (!trusted) {
-        continue;
-      }
+      // Sent as the client's window allows
+      client.outbound.enqueue(trusted);
+    }
+  }
 
+  /**
+   * Put deltas for a client on the wire (called by its send window)
+   */
+  private transmit(client: ConnectedClient, deltas: Delta[]): void {
+    if (deltas.length === 1) {
       this.send(client, {
         type: MessageType.DELTA,
         timestamp: Date.now(),
-        delta
+        delta: deltas[0]
+      });
+    } else {
+      this.send(client, {
+        type: MessageType.DELTA_BATCH,
+        timestamp: Date.now(),
+        deltas
       });
-
-      client.stats.deltasSent++;
     }
+
+    client.stats.deltasSent += deltas.length;
   }
 
   /**
@@ -449,12 +970,25 @@ export class FederationServer {
   getClients(): Array<{
     id: string;
     systemId: string;
-    stats: ConnectedClient['stats'];
+    permission: PeerPermission;
+    stats: ConnectedClient['stats'] & {
+      deltasInFlight: number;
+      deltasQueued: number;
+      deltasRetried: number;
+    };
+    deadLetters: DeadLetter[];
   }> {
-    return Array.from(this.clients.values()).map((client) => ({
+    return Array.from(this.clients.values()).map(client => ({
       id: client.id,
       systemId: client.systemId,
-      stats: client.stats
+      permission: client.permission,
+      stats: {
+        ...client.stats,
+        deltasInFlight: client.outbound.inFlightCount,
+        deltasQueued: client.outbound.queuedCount,
+        deltasRetried: client.outbound.retries
+      },
+      deadLetters: client.outbound.getDeadLetters()
     }));
   }
 
@@ -471,13 +1005,14 @@ export class FederationServer {
   async close(): Promise<void> {
     // Close all client connections
     for (const client of this.clients.values()) {
+      client.outbound.close();
       client.ws.close();
     }
     this.clients.clear();
 
     // Close WebSocket server
     return new Promise<void>((resolve, reject) => {
-      this.wss.close((err) => {
+      this.wss.close(err => {
         if (err) reject(err);
         else resolve();
       });
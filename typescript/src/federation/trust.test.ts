@@ -0,0 +1,70 @@
+/**
+ * Tests for federation trust policies
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { generateSigningKeyPair, KeyRegistry } from '../core/signing';
+import { verifyDelta, createSignatureTrustPolicy, createAuthorTrustPolicy } from './trust';
+
+describe('Trust Policies', () => {
+  let db: RhizomeDB;
+
+  beforeEach(() => {
+    db = new RhizomeDB({ storage: 'memory' });
+  });
+
+  it('should apply author allow-lists', async () => {
+    const policy = createAuthorTrustPolicy(['alice']);
+
+    expect(await verifyDelta(db.createDelta('alice', []), policy)).toBe(true);
+    expect(await verifyDelta(db.createDelta('bob', []), policy)).toBe(false);
+  });
+
+  describe('createSignatureTrustPolicy', () => {
+    const alice = generateSigningKeyPair();
+    const mallory = generateSigningKeyPair();
+    const registry = new KeyRegistry();
+    registry.register('alice', alice.publicKey);
+
+    it('should accept deltas signed by the registered author key', async () => {
+      const policy = createSignatureTrustPolicy(registry);
+      const delta = db.createSignedDelta(
+        'alice',
+        [{ role: 'name', target: 'Alice' }],
+        alice.privateKey
+      );
+
+      expect(await verifyDelta(delta, policy)).toBe(true);
+    });
+
+    it('should reject forged and tampered deltas', async () => {
+      const policy = createSignatureTrustPolicy(registry);
+      const forged = db.createSignedDelta('alice', [], mallory.privateKey);
+      const signed = db.createSignedDelta(
+        'alice',
+        [{ role: 'name', target: 'Alice' }],
+        alice.privateKey
+      );
+      const tampered = { ...signed, pointers: [{ role: 'name', target: 'Mallory' }] };
+
+      expect(await verifyDelta(forged, policy)).toBe(false);
+      expect(await verifyDelta(tampered, policy)).toBe(false);
+    });
+
+    it('should reject deltas from unknown authors', async () => {
+      const policy = createSignatureTrustPolicy(registry);
+      const delta = db.createSignedDelta('mallory', [], mallory.privateKey);
+
+      expect(await verifyDelta(delta, policy)).toBe(false);
+    });
+
+    it('should only accept unsigned deltas from unregistered authors when allowed', async () => {
+      const strict = createSignatureTrustPolicy(registry);
+      const lenient = createSignatureTrustPolicy(registry, { allowUnsigned: true });
+
+      expect(await verifyDelta(db.createDelta('bob', []), strict)).toBe(false);
+      expect(await verifyDelta(db.createDelta('bob', []), lenient)).toBe(true);
+      expect(await verifyDelta(db.createDelta('alice', []), lenient)).toBe(false);
+    });
+  });
+});
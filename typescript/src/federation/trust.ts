@@ -5,6 +5,7 @@
  */
 
 import { Delta } from '../core/types';
+import { KeyRegistry } from '../core/signing';
 import { TrustPolicy } from './types';
 
 /**
@@ -14,10 +15,7 @@ import { TrustPolicy } from './types';
  * @param policy The trust policy to apply
  * @returns Promise resolving to true if delta is trusted, false otherwise
  */
-export async function verifyDelta(
-  delta: Delta,
-  policy?: TrustPolicy
-): Promise<boolean> {
+export async function verifyDelta(delta: Delta, policy?: TrustPolicy): Promise<boolean> {
   // No policy means trust everything
   if (!policy) {
     return true;
@@ -78,6 +76,31 @@ export function createCustomTrustPolicy(
   return { verify };
 }
 
+/**
+ * Create a trust policy that only accepts deltas signed by their author
+ *
+ * The delta's `author` is looked up in the key registry and its signature is
+ * verified against the canonical serialization, so forged authors and
+ * tampered content are both rejected.
+ *
+ * @param registry Registry mapping author IDs to Ed25519 public keys
+ * @param options.allowUnsigned Accept unsigned deltas from authors without a registered key (default: false)
+ */
+export function createSignatureTrustPolicy(
+  registry: KeyRegistry,
+  options: { allowUnsigned?: boolean } = {}
+): TrustPolicy {
+  return {
+    verify: (delta: Delta) => {
+      if (!delta.signature) {
+        // Never accept unsigned deltas claiming an author with a registered key
+        return options.allowUnsigned === true && !registry.has(delta.author);
+      }
+      return registry.verify(delta);
+    }
+  };
+}
+
 /**
  * Combine multiple trust policies (delta must pass ALL policies)
  */
@@ -5,15 +5,21 @@
  */
 
 import { Delta, DeltaFilter } from '../core/types';
+import { SigningKey } from '../core/signing';
 
 /**
  * Federation configuration for connecting instances
  */
 export interface FederationConfig {
-  /** Which deltas to send to remote instance */
+  /**
+   * Which deltas to send to remote instance
+   *
+   * Filters are exchanged as JSON, so use `where` rather than `predicate`
+   * for anything the remote side needs to see.
+   */
   pushFilter?: DeltaFilter;
 
-  /** Which deltas to accept from remote instance */
+  /** Which deltas to accept from remote instance (same serialization rules) */
   pullFilter?: DeltaFilter;
 
   /** Trust policy for verifying deltas */
@@ -30,6 +36,81 @@ export interface FederationConfig {
 
   /** Reconnection settings */
   reconnect?: ReconnectConfig;
+
+  /** Capabilities to advertise (defaults fill the rest) */
+  capabilities?: Partial<FederationCapabilities>;
+
+  /** Send window, retries and receive buffer */
+  flowControl?: FlowControlConfig;
+
+  /** Largest message accepted from the remote, in bytes (default: DEFAULT_MAX_MESSAGE_SIZE) */
+  maxMessageSize?: number;
+}
+
+/**
+ * What a peer supports, advertised in HELLO and HELLO_ACK
+ */
+export interface FederationCapabilities {
+  /** Message codecs, most preferred first */
+  codecs: string[];
+
+  /** Compression algorithms, most preferred first */
+  compression: string[];
+
+  /** Most deltas the peer accepts in one message */
+  maxBatchSize: number;
+}
+
+/**
+ * How a link's messages are encoded, settled in HELLO_ACK
+ */
+export interface MessageEncoding {
+  /** Codec name (see `registerCodec`) */
+  codec: string;
+
+  /** Compression algorithm, if any */
+  compression?: string;
+}
+
+/**
+ * What a remote system may do over its link
+ *
+ * - 'read-only': receive deltas, but not push them
+ * - 'push-only': push deltas, but receive none
+ * - 'full': both
+ */
+export type PeerPermission = 'read-only' | 'push-only' | 'full';
+
+/**
+ * A system's own handshake credentials
+ *
+ * Never part of FederationConfig, which is sent to the remote.
+ */
+export interface FederationCredentials {
+  /** Shared secret for HMAC challenges */
+  sharedSecret?: string;
+
+  /** Ed25519 private key for signature challenges */
+  privateKey?: SigningKey;
+
+  /** The remote's public key, to verify its signed proof */
+  remotePublicKey?: SigningKey;
+}
+
+/**
+ * A remote system allowed to connect to a server
+ */
+export interface FederationPeer {
+  systemId: string;
+
+  /** Default: 'full' */
+  permission?: PeerPermission;
+
+  /** Secret the peer answers HMAC challenges with */
+  sharedSecret?: string;
+
+  /** Public key the peer signs challenges with (takes precedence) */
+  publicKey?: SigningKey;
 }
 
 /**
@@ -52,6 +133,56 @@ export interface ReconnectConfig {
   backoffMultiplier?: number;
 }
 
+/**
+ * Flow control for live deltas
+ */
+export interface FlowControlConfig {
+  /** Most unacknowledged deltas in flight (default: 100) */
+  windowSize?: number;
+
+  /** Milliseconds to wait for DELTA_ACK before retrying (default: 10000) */
+  ackTimeout?: number;
+
+  /** Retransmissions before a delta is dead-lettered (default: 3) */
+  maxRetries?: number;
+
+  /** Delay before the first retransmission, doubling after (default: 1000) */
+  retryDelay?: number;
+
+  /** Longest delay between retransmissions (default: 30000) */
+  maxRetryDelay?: number;
+
+  /** Most deltas waiting for the window; older ones are dead-lettered (default: 10000) */
+  maxQueued?: number;
+
+  /** Dead letters kept, oldest dropped first (default: 1000) */
+  maxDeadLetters?: number;
+
+  /** Most incoming deltas buffered; any more are NACKed (default: 100) */
+  receiveBufferSize?: number;
+
+  /** Receive buffer percentage at which the sender is paused (default: 80) */
+  pauseThreshold?: number;
+
+  /** Receive buffer percentage at which the sender is resumed (default: 20) */
+  resumeThreshold?: number;
+}
+
+/**
+ * A delta that could not be delivered
+ */
+export interface DeadLetter {
+  delta: Delta;
+
+  /** The remote's NACK reason, or why sending gave up */
+  reason: string;
+
+  /** Times the delta was sent */
+  attempts: number;
+
+  failedAt: number;
+}
+
 /**
  * Trust policy for delta verification
  */
@@ -87,9 +218,12 @@ export interface FederationStats {
   /** Number of deltas received from remote */
   deltasReceived: number;
 
-  /** Number of deltas rejected by trust policy */
+  /** Number of deltas rejected by trust policy or filter */
   deltasRejected: number;
 
+  /** Deltas the remote sent outside the agreed filter */
+  filterViolations?: number;
+
   /** Timestamp of last successful sync */
   lastSyncTimestamp: number;
 
@@ -101,6 +235,55 @@ export interface FederationStats {
 
   /** Total bytes received */
   bytesReceived?: number;
+
+  /** Deltas the last reconciliation found missing on either side */
+  divergence?: number;
+
+  /** Timestamp of the last completed reconciliation */
+  lastReconciledAt?: number;
+
+  /** Deltas sent and awaiting acknowledgment */
+  deltasInFlight?: number;
+
+  /** Deltas waiting for room in the send window */
+  deltasQueued?: number;
+
+  /** Retransmissions after an acknowledgment timeout */
+  deltasRetried?: number;
+
+  /** Deltas currently in the dead-letter list */
+  deadLetters?: number;
+}
+
+/**
+ * Position reached in a remote's initial sync stream
+ *
+ * Sync streams are ordered by `compareDeltas`, so every delta at or before
+ * the checkpoint has been applied locally.
+ */
+export interface SyncCheckpoint {
+  /** Timestamp of the last applied delta */
+  timestamp: number;
+
+  /** ID of the last applied delta */
+  deltaId: string;
+
+  /**
+   * Pull filter the stream was requested with (JSON), since a checkpoint
+   * says nothing about deltas another filter would have matched
+   */
+  filter: string;
+
+  /** When the checkpoint was taken */
+  updatedAt: number;
+}
+
+/**
+ * Storage for sync checkpoints, keyed by remote system ID
+ */
+export interface SyncCheckpointStore {
+  get(remoteSystemId: string): Promise<SyncCheckpoint | undefined>;
+  set(remoteSystemId: string, checkpoint: SyncCheckpoint): Promise<void>;
 }
 
 /**
@@ -128,6 +311,15 @@ export interface FederationLink {
   /** Last error (if status is 'error') */
   readonly lastError?: Error;
 
+  /** What the remote allows this link to do (known once connected) */
+  readonly permission?: PeerPermission;
+
+  /** Capabilities the remote advertised (known once connected) */
+  readonly remoteCapabilities?: FederationCapabilities;
+
+  /** Encoding the link sends with (known once connected) */
+  readonly encoding?: MessageEncoding;
+
   /** Pause delta synchronization */
   pause(): void;
 
@@ -139,6 +331,12 @@ export interface FederationLink {
 
   /** Send a delta to remote instance */
   sendDelta(delta: Delta): Promise<void>;
+
+  /** Deltas the remote rejected or never acknowledged */
+  getDeadLetters(): DeadLetter[];
+
+  /** Queue every dead letter again; returns how many */
+  retryDeadLetters(): number;
 }
 
 /**
@@ -149,13 +347,22 @@ export type FederationEvent =
   | { type: 'link:connected'; linkId: string; remoteSystemId: string }
   | { type: 'link:disconnected'; linkId: string; reason?: string }
   | { type: 'link:error'; linkId: string; error: Error }
+  | { type: 'link:rejected'; linkId: string; remoteSystemId: string; reason: string }
   | { type: 'link:paused'; linkId: string }
   | { type: 'link:resumed'; linkId: string }
   | { type: 'delta:sent'; linkId: string; deltaId: string }
   | { type: 'delta:received'; linkId: string; deltaId: string }
   | { type: 'delta:rejected'; linkId: string; deltaId: string; reason: string }
+  | { type: 'delta:dead-lettered'; linkId: string; deltaId: string; reason: string }
   | { type: 'sync:started'; linkId: string }
-  | { type: 'sync:completed'; linkId: string; deltasProcessed: number };
+  | { type: 'sync:resumed'; linkId: string; fromTimestamp: number }
+  | { type: 'sync:completed'; linkId: string; deltasProcessed: number }
+  | {
+      type: 'reconcile:completed';
+      linkId: string;
+      missingLocal: number;
+      missingRemote: number;
+    };
 
 /**
  * Federation event handler
@@ -172,10 +379,7 @@ export interface FederatedInstance {
    * @param config Federation configuration
    * @returns Federation link
    */
-  connectToRemote(
-    remoteUrl: string,
-    config: FederationConfig
-  ): Promise<FederationLink>;
+  connectToRemote(remoteUrl: string, config: FederationConfig): Promise<FederationLink>;
 
   /**
    * Get all active federation links
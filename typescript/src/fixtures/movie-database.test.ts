@@ -145,6 +145,24 @@ describe('Movie Database', () => {
       expect(movieIds.has('movie_star_wars_i')).toBe(true);
     });
 
+    it('should find all movies from the 1990s as HyperViews', () => {
+      const movies = db.findHyperViews(
+        movieSchemas.movie,
+        { year: { between: [1990, 1999] } },
+        { orderBy: { property: 'year' } }
+      );
+
+      const years = movies.map(movie => {
+        const yearDelta = (movie.year as Delta[])[0];
+        return yearDelta.pointers.find(p => p.role === 'year')?.target as number;
+      });
+
+      expect(movies.map(m => m.id)).toContain('movie_matrix');
+      expect(movies.map(m => m.id)).toContain('movie_star_wars_i');
+      expect(years.every(year => year >= 1990 && year <= 1999)).toBe(true);
+      expect(years).toEqual([...years].sort((a, b) => a - b));
+    });
+
     it('should find all Star Wars original trilogy cast members', () => {
       // Query for roles related to Star Wars movies
       const swRoles = db.queryDeltas({
@@ -844,14 +862,16 @@ describe('Movie Database', () => {
         mutation {
           createDelta(
             author: "admin"
-            pointers: "[{\\"role\\":\\"test\\",\\"target\\":\\"testvalue\\"}]"
-          )
+            pointers: [{ role: "test", target: { value: "testvalue" } }]
+          ) {
+            id
+          }
         }
       `;
 
       const createResult = await graphql({ schema: gqlSchema, source: createMutation });
       expect(createResult.errors).toBeUndefined();
-      const deltaId = createResult.data?.createDelta;
+      const deltaId = (createResult.data?.createDelta as { id: string }).id;
 
       // Negate it
       const negateMutation = `
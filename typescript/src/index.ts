@@ -9,6 +9,10 @@
 // ============================================================================
 export * from './core/types';
 export * from './core/validation';
+export * from './core/canonical';
+export * from './core/signing';
+export * from './core/hlc';
+export * from './core/causality';
 
 // ============================================================================
 // Storage - Storage implementations and indexing
@@ -16,11 +20,16 @@ export * from './core/validation';
 export { RhizomeDB } from './storage/instance';
 export { LevelDBStore } from './storage/leveldb-store';
 export * from './storage/delta-indexes';
+export * from './storage/storage-adapters';
+export * from './storage/transaction';
+export * from './storage/write-ahead-log';
+export * from './storage/archive';
 
 // ============================================================================
 // Schemas - Schema functionality
 // ============================================================================
 export * from './schemas/hyperview';
+export * from './schemas/hyperview-loader';
 export * from './schemas/schema-validator';
 export * from './schemas/schema-versioning';
 
@@ -30,6 +39,9 @@ export * from './schemas/schema-versioning';
 export * from './queries/view-resolver';
 export * from './queries/time-travel';
 export * from './queries/negation';
+export * from './queries/filter-expression';
+export * from './queries/hyperview-query';
+export * from './queries/query-pipeline';
 
 // ============================================================================
 // Streaming - Subscription and backpressure
@@ -40,6 +52,8 @@ export * from './streaming/subscription-backpressure';
 // Integrations - External API integrations
 // ============================================================================
 export * from './integrations/graphql';
+export * from './integrations/graphql-connections';
+export * from './integrations/graphql-server';
 
 // ============================================================================
 // Default export
@@ -0,0 +1,458 @@
+/**
+ * Relay connections for generated GraphQL list queries
+ *
+ * Each HyperSchema gets an `all<Name>s` query returning a `<Name>Connection`.
+ * Candidates come from `findCandidateIds` and are filtered by a `<Name>Where`
+ * input derived from the schema's transform rules, ordered by `<Name>OrderBy`,
+ * and paged forward with `first` / `after`.
+ *
+ * Cursors are keyset positions (sort property, sort value and object ID), not
+ * offsets, so a page boundary stays put when objects are added before it.
+ * Ordered by ID, a page with `first` only loads the views it needs, and
+ * `totalCount` loads the rest only when it is asked for.
+ */
+
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLEnumValueConfigMap,
+  GraphQLFieldConfig,
+  GraphQLInputFieldConfigMap,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLLeafType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLResolveInfo,
+  GraphQLString,
+  isLeafType
+} from 'graphql';
+import { RhizomeDB } from '../storage/instance';
+import { HyperViewLoader } from '../schemas/hyperview-loader';
+import {
+  HyperSchema,
+  HyperView,
+  HyperViewConstraints,
+  HyperViewOrder,
+  PropertyConstraint,
+  isPrimitiveHyperSchema
+} from '../core/types';
+import { ValidationError } from '../core/validation';
+import {
+  HyperViewSortKey,
+  compareSortKeys,
+  getSortKey,
+  isEmptyHyperView,
+  matchesHyperViewConstraints,
+  selectHyperViews,
+  sortCandidateIds
+} from '../queries/hyperview-query';
+
+/**
+ * Types shared by every connection in one GraphQL schema
+ */
+export interface ConnectionTypes {
+  pageInfo: GraphQLObjectType;
+  orderDirection: GraphQLEnumType;
+  /** `<Scalar>Filter` inputs, by scalar name */
+  filters: Map<string, GraphQLInputObjectType>;
+  /** `<Name>Where` inputs, by HyperSchema ID */
+  wheres: Map<string, GraphQLInputObjectType>;
+}
+
+/**
+ * A `<Name>Where` argument
+ */
+export type WhereInput = Record<string, Record<string, unknown> | null> | null;
+
+/**
+ * Arguments of a generated list query
+ */
+interface ConnectionArgs {
+  where?: WhereInput;
+  orderBy?: { field: string; direction: 'asc' | 'desc' } | null;
+  first?: number | null;
+  after?: string | null;
+}
+
+/**
+ * A page of a connection, as returned by the list query resolver
+ */
+export interface Connection<T> {
+  edges: Array<{ node: T; cursor: string }>;
+  nodes: T[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+  /** Resolved when queried, if counting needs views the page didn't */
+  totalCount: number | (() => Promise<number>);
+}
+
+/**
+ * The views on one page of a connection
+ */
+interface ViewPage {
+  views: HyperView[];
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  totalCount: number | (() => Promise<number>);
+}
+
+const COMPARISON_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
+/**
+ * Create the shared connection types for a GraphQL schema
+ */
+export function createConnectionTypes(): ConnectionTypes {
+  return {
+    pageInfo: new GraphQLObjectType({
+      name: 'PageInfo',
+      fields: {
+        hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+        hasPreviousPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+        startCursor: { type: GraphQLString },
+        endCursor: { type: GraphQLString }
+      }
+    }),
+    orderDirection: new GraphQLEnumType({
+      name: 'OrderDirection',
+      values: {
+        ASC: { value: 'asc' },
+        DESC: { value: 'desc' }
+      }
+    }),
+    filters: new Map(),
+    wheres: new Map()
+  };
+}
+
+/**
+ * Get (or create) the filter input for a scalar
+ *
+ * Booleans only support equality; other scalars also get ordering operators.
+ */
+function getFilterType(types: ConnectionTypes, scalar: GraphQLLeafType): GraphQLInputObjectType {
+  const existing = types.filters.get(scalar.name);
+  if (existing) {
+    return existing;
+  }
+
+  const fields: GraphQLInputFieldConfigMap = {
+    eq: { type: scalar },
+    ne: { type: scalar },
+    in: { type: new GraphQLList(new GraphQLNonNull(scalar)) },
+    exists: { type: GraphQLBoolean }
+  };
+  if (scalar !== GraphQLBoolean) {
+    for (const operator of COMPARISON_OPERATORS) {
+      fields[operator] = { type: scalar };
+    }
+  }
+
+  const filterType = new GraphQLInputObjectType({ name: `${scalar.name}Filter`, fields });
+  types.filters.set(scalar.name, filterType);
+  return filterType;
+}
+
+/**
+ * Work out which properties of a HyperSchema can be filtered and sorted on
+ *
+ * Primitive properties filter and sort by their own scalar type. References
+ * filter by the referenced object's ID but can't be sorted on.
+ */
+function getListableProperties(
+  hyperSchema: HyperSchema,
+  allSchemas: Map<string, HyperSchema>
+): { scalars: Map<string, GraphQLLeafType>; references: string[] } {
+  const scalars = new Map<string, GraphQLLeafType>([['id', GraphQLString]]);
+  const references: string[] = [];
+
+  for (const [role, rule] of Object.entries(hyperSchema.transform)) {
+    if (typeof rule.schema !== 'string' && isPrimitiveHyperSchema(rule.schema)) {
+      const type = rule.schema.graphQLType;
+      scalars.set(role, type && isLeafType(type) ? type : GraphQLString);
+    } else {
+      const referencedSchemaId = typeof rule.schema === 'string' ? rule.schema : rule.schema.id;
+      if (allSchemas.has(referencedSchemaId)) {
+        references.push(role);
+      }
+    }
+  }
+
+  return { scalars, references };
+}
+
+/**
+ * Get (or create) the `<Name>Where` input for a HyperSchema
+ */
+export function getWhereType(
+  hyperSchema: HyperSchema,
+  allSchemas: Map<string, HyperSchema>,
+  types: ConnectionTypes
+): GraphQLInputObjectType {
+  const existing = types.wheres.get(hyperSchema.id);
+  if (existing) {
+    return existing;
+  }
+
+  const { scalars, references } = getListableProperties(hyperSchema, allSchemas);
+  const fields: GraphQLInputFieldConfigMap = {};
+  for (const [property, scalar] of scalars) {
+    fields[property] = { type: getFilterType(types, scalar) };
+  }
+  for (const property of references) {
+    fields[property] = { type: getFilterType(types, GraphQLString) };
+  }
+
+  const whereType = new GraphQLInputObjectType({ name: `${hyperSchema.name}Where`, fields });
+  types.wheres.set(hyperSchema.id, whereType);
+  return whereType;
+}
+
+/**
+ * Convert a `where` argument to HyperView constraints
+ *
+ * Operators left out (or given as null) don't constrain anything.
+ */
+export function toConstraints(where: WhereInput | undefined): HyperViewConstraints {
+  const constraints: HyperViewConstraints = {};
+
+  for (const [property, filter] of Object.entries(where ?? {})) {
+    if (!filter) continue;
+
+    const constraint: Record<string, unknown> = {};
+    for (const [operator, value] of Object.entries(filter)) {
+      if (value !== null && value !== undefined) {
+        constraint[operator] = value;
+      }
+    }
+    if (Object.keys(constraint).length > 0) {
+      constraints[property] = constraint as PropertyConstraint;
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Encode a sort key as an opaque cursor
+ */
+export function encodeCursor(key: HyperViewSortKey, order: HyperViewOrder): string {
+  return Buffer.from(JSON.stringify({ p: order.property, v: key.value, id: key.id })).toString(
+    'base64'
+  );
+}
+
+/**
+ * Decode a cursor for an ordering
+ *
+ * @throws ValidationError if the cursor is malformed or from another ordering
+ */
+export function decodeCursor(cursor: string, order: HyperViewOrder): HyperViewSortKey {
+  let decoded: { p?: unknown; v?: unknown; id?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64').toString()) as typeof decoded;
+  } catch {
+    throw new ValidationError(`Invalid cursor: ${cursor}`);
+  }
+
+  const { p, v, id } = decoded ?? {};
+  if (typeof id !== 'string' || !['string', 'number', 'boolean', 'undefined'].includes(typeof v)) {
+    throw new ValidationError(`Invalid cursor: ${cursor}`);
+  }
+  if (p !== order.property) {
+    throw new ValidationError(`Cursor is for a different orderBy: ${cursor}`);
+  }
+
+  return { id, value: v as HyperViewSortKey['value'] };
+}
+
+/**
+ * Create the `all<Name>s` list query for a HyperSchema
+ *
+ * Matching objects are built through the request's HyperView loader.
+ *
+ * @param getLoader - Finds the HyperView loader for the request
+ * @param toNode - Turns a matching HyperView into the node's resolved value
+ */
+export function createConnectionField(
+  hyperSchema: HyperSchema,
+  nodeType: GraphQLObjectType,
+  db: RhizomeDB,
+  allSchemas: Map<string, HyperSchema>,
+  types: ConnectionTypes,
+  getLoader: (context: unknown, info: GraphQLResolveInfo) => HyperViewLoader,
+  toNode: (hyperView: HyperView) => unknown
+): GraphQLFieldConfig<unknown, unknown, ConnectionArgs> {
+  const { name } = hyperSchema;
+  const { scalars } = getListableProperties(hyperSchema, allSchemas);
+
+  const orderFields: GraphQLEnumValueConfigMap = {};
+  for (const property of scalars.keys()) {
+    orderFields[property] = { value: property };
+  }
+
+  const edgeType = new GraphQLObjectType({
+    name: `${name}Edge`,
+    fields: {
+      node: { type: new GraphQLNonNull(nodeType) },
+      cursor: { type: new GraphQLNonNull(GraphQLString) }
+    }
+  });
+
+  const connectionType = new GraphQLObjectType({
+    name: `${name}Connection`,
+    fields: {
+      edges: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(edgeType))) },
+      nodes: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(nodeType))) },
+      pageInfo: { type: new GraphQLNonNull(types.pageInfo) },
+      totalCount: { type: new GraphQLNonNull(GraphQLInt) }
+    }
+  });
+
+  const orderByType = new GraphQLInputObjectType({
+    name: `${name}OrderBy`,
+    fields: {
+      field: {
+        type: new GraphQLNonNull(
+          new GraphQLEnumType({ name: `${name}OrderField`, values: orderFields })
+        )
+      },
+      direction: { type: types.orderDirection, defaultValue: 'asc' }
+    }
+  });
+
+  return {
+    type: new GraphQLNonNull(connectionType),
+    args: {
+      where: { type: getWhereType(hyperSchema, allSchemas, types) },
+      orderBy: { type: orderByType },
+      first: { type: GraphQLInt },
+      after: { type: GraphQLString }
+    },
+    resolve: async (
+      _source,
+      { where, orderBy, first, after },
+      context,
+      info
+    ): Promise<Connection<unknown>> => {
+      if (first !== null && first !== undefined && first < 0) {
+        throw new ValidationError('first must not be negative');
+      }
+
+      const order: HyperViewOrder = orderBy
+        ? { property: orderBy.field, direction: orderBy.direction }
+        : { property: 'id' };
+      const constraints = toConstraints(where);
+      const candidateIds = db.findCandidateIds(hyperSchema, constraints);
+      const position = after ? decodeCursor(after, order) : undefined;
+      const load = (ids: string[]) => getLoader(context, info).loadMany(ids, hyperSchema);
+
+      const sortedIds =
+        first === null || first === undefined ? null : sortCandidateIds(candidateIds, order);
+      const page = sortedIds
+        ? await loadPageById(sortedIds, load, constraints, order, first!, position)
+        : selectPage(
+            selectHyperViews(await load(Array.from(candidateIds)), constraints, { orderBy: order }),
+            order,
+            first,
+            position
+          );
+
+      const edges = page.views.map(view => ({
+        node: toNode(view),
+        cursor: encodeCursor(getSortKey(view, order), order)
+      }));
+
+      return {
+        edges,
+        nodes: edges.map(edge => edge.node),
+        pageInfo: {
+          hasNextPage: page.hasNextPage,
+          hasPreviousPage: page.hasPreviousPage,
+          startCursor: edges.length > 0 ? edges[0].cursor : null,
+          endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null
+        },
+        totalCount: page.totalCount
+      };
+    }
+  };
+}
+
+/**
+ * Take a page from every matching view, in order
+ */
+function selectPage(
+  views: HyperView[],
+  order: HyperViewOrder,
+  first: number | null | undefined,
+  position?: HyperViewSortKey
+): ViewPage {
+  let start = 0;
+  if (position) {
+    start = views.findIndex(view => compareSortKeys(getSortKey(view, order), position, order) > 0);
+    if (start === -1) {
+      start = views.length;
+    }
+  }
+  const end =
+    first === null || first === undefined ? views.length : Math.min(views.length, start + first);
+
+  return {
+    views: views.slice(start, end),
+    hasNextPage: end < views.length,
+    hasPreviousPage: start > 0,
+    totalCount: views.length
+  };
+}
+
+/**
+ * Load a page of views ordered by ID, a chunk of candidates at a time
+ *
+ * Loads candidates after the cursor until `first` views match (and one more,
+ * for `hasNextPage`), and candidates before it until one matches.
+ */
+async function loadPageById(
+  sortedIds: string[],
+  load: (ids: string[]) => Promise<HyperView[]>,
+  constraints: HyperViewConstraints,
+  order: HyperViewOrder,
+  first: number,
+  position?: HyperViewSortKey
+): Promise<ViewPage> {
+  const matches = (view: HyperView) =>
+    !isEmptyHyperView(view) && matchesHyperViewConstraints(view, constraints);
+
+  let start = 0;
+  if (position) {
+    start = sortedIds.findIndex(id => compareSortKeys({ id, value: id }, position, order) > 0);
+    if (start === -1) {
+      start = sortedIds.length;
+    }
+  }
+
+  const views: HyperView[] = [];
+  for (let next = start; views.length <= first && next < sortedIds.length; ) {
+    const ids = sortedIds.slice(next, next + first + 1 - views.length);
+    next += ids.length;
+    views.push(...(await load(ids)).filter(matches));
+  }
+
+  let hasPreviousPage = false;
+  for (let next = start; !hasPreviousPage && next > 0; ) {
+    const ids = sortedIds.slice(Math.max(0, next - first - 1), next);
+    next -= ids.length;
+    hasPreviousPage = (await load(ids)).some(matches);
+  }
+
+  return {
+    views: views.slice(0, first),
+    hasNextPage: views.length > first,
+    hasPreviousPage,
+    totalCount: async () => (await load(sortedIds)).filter(matches).length
+  };
+}
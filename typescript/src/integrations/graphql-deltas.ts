@@ -0,0 +1,326 @@
+/**
+ * GraphQL types for raw deltas
+ *
+ * Mirrors `Delta`, `Pointer`, `Reference` and `DeltaFilter` from core/types,
+ * so clients get type checking and introspection instead of JSON strings.
+ * Pointer targets are a `PointerTarget` union of `Reference` and
+ * `PrimitiveValue`; primitives travel as the `Primitive` scalar.
+ */
+
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFieldConfigMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLString,
+  GraphQLUnionType,
+  Kind
+} from 'graphql';
+import { RhizomeDB } from '../storage/instance';
+import { Delta, DeltaFilter, Pointer, Primitive } from '../core/types';
+import { ValidationError, isReference } from '../core/validation';
+import { parseDeltaFilter } from '../queries/filter-expression';
+
+/**
+ * Most deltas `deltas(filter:)` returns, and its default `limit`
+ */
+export const MAX_DELTAS_LIMIT = 1000;
+
+/**
+ * Delta types for one GraphQL schema
+ */
+export interface DeltaTypes {
+  delta: GraphQLObjectType;
+  pointerInput: GraphQLInputObjectType;
+  deltaFilterInput: GraphQLInputObjectType;
+}
+
+/**
+ * Pointer as received through `PointerInput`
+ */
+export interface PointerInputValue {
+  role: string;
+  target: { id?: string | null; context?: string | null; value?: Primitive | null };
+}
+
+function toPrimitive(value: unknown): Primitive {
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  throw new GraphQLError(`Primitive must be a string, number or boolean: ${String(value)}`);
+}
+
+/**
+ * A string, number or boolean, as in a delta's primitive pointer targets
+ */
+export const GraphQLPrimitive = new GraphQLScalarType({
+  name: 'Primitive',
+  description: 'A string, number or boolean',
+  serialize: toPrimitive,
+  parseValue: toPrimitive,
+  parseLiteral: ast => {
+    switch (ast.kind) {
+      case Kind.STRING:
+        return ast.value;
+      case Kind.INT:
+      case Kind.FLOAT:
+        return Number(ast.value);
+      case Kind.BOOLEAN:
+        return ast.value;
+      default:
+        throw new GraphQLError('Primitive must be a string, number or boolean literal');
+    }
+  }
+});
+
+/**
+ * Create the delta types for a GraphQL schema
+ */
+export function createDeltaTypes(): DeltaTypes {
+  const reference = new GraphQLObjectType({
+    name: 'Reference',
+    fields: {
+      id: { type: new GraphQLNonNull(GraphQLID) },
+      context: { type: GraphQLString }
+    }
+  });
+
+  const primitiveValue = new GraphQLObjectType({
+    name: 'PrimitiveValue',
+    fields: {
+      value: { type: new GraphQLNonNull(GraphQLPrimitive) }
+    }
+  });
+
+  const pointerTarget = new GraphQLUnionType({
+    name: 'PointerTarget',
+    types: [reference, primitiveValue],
+    resolveType: (target: object) => ('value' in target ? 'PrimitiveValue' : 'Reference')
+  });
+
+  const pointer = new GraphQLObjectType<Pointer>({
+    name: 'Pointer',
+    fields: {
+      role: { type: new GraphQLNonNull(GraphQLString) },
+      target: {
+        type: new GraphQLNonNull(pointerTarget),
+        // Primitives are wrapped; expanded HyperViews are shown as references
+        resolve: ({ target }) =>
+          isReference(target) ? { id: target.id, context: target.context } : { value: target }
+      }
+    }
+  });
+
+  const delta = new GraphQLObjectType<Delta>({
+    name: 'Delta',
+    fields: {
+      id: { type: new GraphQLNonNull(GraphQLID) },
+      timestamp: { type: new GraphQLNonNull(GraphQLFloat) },
+      author: { type: new GraphQLNonNull(GraphQLString) },
+      system: { type: new GraphQLNonNull(GraphQLString) },
+      pointers: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(pointer))) },
+      hlc: {
+        type: new GraphQLObjectType({
+          name: 'HLCTimestamp',
+          fields: {
+            physical: { type: new GraphQLNonNull(GraphQLFloat) },
+            logical: { type: new GraphQLNonNull(GraphQLInt) }
+          }
+        })
+      },
+      signature: { type: GraphQLString }
+    }
+  });
+
+  const pointerInput = new GraphQLInputObjectType({
+    name: 'PointerInput',
+    fields: {
+      role: { type: new GraphQLNonNull(GraphQLString) },
+      target: {
+        type: new GraphQLNonNull(
+          new GraphQLInputObjectType({
+            name: 'PointerTargetInput',
+            description: 'Either a reference (`id`, optional `context`) or a primitive `value`',
+            fields: {
+              id: { type: GraphQLID },
+              context: { type: GraphQLString },
+              value: { type: GraphQLPrimitive }
+            }
+          })
+        )
+      }
+    }
+  });
+
+  const comparisonInput = new GraphQLInputObjectType({
+    name: 'ComparisonInput',
+    fields: {
+      eq: { type: GraphQLPrimitive },
+      ne: { type: GraphQLPrimitive },
+      gt: { type: GraphQLPrimitive },
+      gte: { type: GraphQLPrimitive },
+      lt: { type: GraphQLPrimitive },
+      lte: { type: GraphQLPrimitive },
+      in: { type: new GraphQLList(new GraphQLNonNull(GraphQLPrimitive)) }
+    }
+  });
+
+  const expressionInput: GraphQLInputObjectType = new GraphQLInputObjectType({
+    name: 'DeltaFilterExpressionInput',
+    description: 'Exactly one of `and`, `or`, `not`, `field` (with `is`) or `pointer`',
+    fields: () => ({
+      and: { type: new GraphQLList(new GraphQLNonNull(expressionInput)) },
+      or: { type: new GraphQLList(new GraphQLNonNull(expressionInput)) },
+      not: { type: expressionInput },
+      field: {
+        type: new GraphQLEnumType({
+          name: 'DeltaField',
+          values: { id: {}, author: {}, system: {}, timestamp: {} }
+        })
+      },
+      is: { type: comparisonInput },
+      pointer: {
+        type: new GraphQLInputObjectType({
+          name: 'PointerMatchInput',
+          fields: {
+            role: { type: comparisonInput },
+            targetId: { type: comparisonInput },
+            context: { type: comparisonInput },
+            value: { type: comparisonInput }
+          }
+        })
+      }
+    })
+  });
+
+  const deltaFilterInput = new GraphQLInputObjectType({
+    name: 'DeltaFilterInput',
+    fields: {
+      ids: { type: new GraphQLList(new GraphQLNonNull(GraphQLID)) },
+      targetIds: { type: new GraphQLList(new GraphQLNonNull(GraphQLID)) },
+      targetContexts: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)) },
+      authors: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)) },
+      systems: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)) },
+      timestampRange: {
+        type: new GraphQLInputObjectType({
+          name: 'TimestampRangeInput',
+          fields: {
+            start: { type: GraphQLFloat },
+            end: { type: GraphQLFloat }
+          }
+        })
+      },
+      includeNegated: { type: GraphQLBoolean },
+      where: { type: expressionInput }
+    }
+  });
+
+  return { delta, pointerInput, deltaFilterInput };
+}
+
+/**
+ * Copy GraphQL input into plain objects, dropping fields given as null
+ */
+function withoutNulls(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutNulls);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field !== null && field !== undefined) {
+      copy[key] = withoutNulls(field);
+    }
+  }
+  return copy;
+}
+
+/**
+ * Convert a `DeltaFilterInput` argument to a DeltaFilter
+ *
+ * @throws ValidationError if the filter (or its `where` expression) is malformed
+ */
+export function toDeltaFilter(input: unknown): DeltaFilter {
+  return input === null || input === undefined ? {} : parseDeltaFilter(withoutNulls(input));
+}
+
+/**
+ * Convert a `PointerInput` argument to a Pointer
+ *
+ * @throws ValidationError unless the target is either a reference or a value
+ */
+export function toPointer({ role, target }: PointerInputValue): Pointer {
+  const { id, context, value } = target;
+
+  if (value !== null && value !== undefined) {
+    if ((id !== null && id !== undefined) || (context !== null && context !== undefined)) {
+      throw new ValidationError(`Pointer ${role} target can't be both a value and a reference`);
+    }
+    return { role, target: value };
+  }
+
+  if (id === null || id === undefined) {
+    throw new ValidationError(`Pointer ${role} target needs an id or a value`);
+  }
+  return { role, target: context === null || context === undefined ? { id } : { id, context } };
+}
+
+/**
+ * Create the `delta(id:)` and `deltas(filter:, limit:)` root queries
+ */
+export function createDeltaQueryFields(
+  db: RhizomeDB,
+  types: DeltaTypes
+): GraphQLFieldConfigMap<unknown, unknown> {
+  return {
+    delta: {
+      type: types.delta,
+      args: {
+        id: { type: new GraphQLNonNull(GraphQLID) }
+      },
+      resolve: async (_source, { id }: { id: string }) => {
+        const [delta] = await db.getDeltas([id]);
+        return delta ?? null;
+      }
+    },
+
+    deltas: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(types.delta))),
+      args: {
+        filter: { type: types.deltaFilterInput },
+        limit: { type: new GraphQLNonNull(GraphQLInt), defaultValue: MAX_DELTAS_LIMIT }
+      },
+      resolve: async (_source, { filter, limit }: { filter?: unknown; limit: number }) => {
+        if (limit < 0 || limit > MAX_DELTAS_LIMIT) {
+          throw new ValidationError(`limit must be between 0 and ${MAX_DELTAS_LIMIT}`);
+        }
+
+        // Stop scanning once the limit is reached
+        const deltas: Delta[] = [];
+        if (limit > 0) {
+          for await (const delta of db.scanDeltas(toDeltaFilter(filter))) {
+            deltas.push(delta);
+            if (deltas.length >= limit) {
+              break;
+            }
+          }
+        }
+        return deltas;
+      }
+    }
+  };
+}
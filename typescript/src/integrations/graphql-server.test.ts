@@ -0,0 +1,247 @@
+/**
+ * Tests for the hot-swapping GraphQL server
+ */
+
+import WebSocket from 'ws';
+import { GraphQLString } from 'graphql';
+import { RhizomeDB } from '../storage/instance';
+import { createTerminalSchemaAsDeltas } from '../schemas/schemas-as-deltas';
+import {
+  GRAPHQL_WS_PROTOCOL,
+  GraphQLServer,
+  GraphQLServerConfig,
+  GraphQLServerEventHandlers
+} from './graphql-server';
+
+interface Response {
+  status: number;
+  body: {
+    data?: Record<string, unknown> | null;
+    errors?: Array<{ message: string }>;
+    extensions?: { schemaVersion?: number };
+  };
+}
+
+describe('GraphQLServer', () => {
+  let db: RhizomeDB;
+  let server: GraphQLServer;
+  let url: string;
+
+  async function startServer(
+    config: Partial<GraphQLServerConfig> = {},
+    eventHandlers: GraphQLServerEventHandlers = {}
+  ): Promise<void> {
+    server = new GraphQLServer(
+      { db, port: 0, enableSubscriptions: true, ...config },
+      eventHandlers
+    );
+    await server.start();
+    url = `localhost:${server.port}/graphql`;
+  }
+
+  beforeEach(() => {
+    db = new RhizomeDB({ storage: 'memory' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  async function post(query: string): Promise<Response> {
+    const response = await fetch(`http://${url}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query })
+    });
+    return { status: response.status, body: (await response.json()) as Response['body'] };
+  }
+
+  it('should swap in schemas as they are defined by deltas', async () => {
+    const swaps: number[] = [];
+    await startServer({}, { onSchemaSwapped: version => swaps.push(version) });
+
+    const before = await post('{ __type(name: "Person") { name } }');
+    expect(before.body).toEqual({ data: { __type: null }, extensions: { schemaVersion: 1 } });
+
+    await createTerminalSchemaAsDeltas(db, 'person', 'Person');
+    await server.reload();
+
+    const after = await post('{ Person(id: "person_alice") { id } }');
+    expect(after.body.data).toEqual({ Person: { id: 'person_alice' } });
+    expect(after.body.extensions?.schemaVersion).toBe(server.schemaVersion);
+    expect(swaps[swaps.length - 1]).toBe(server.schemaVersion);
+    expect(server.schemaVersion).toBeGreaterThan(1);
+
+    // Deltas that don't define schemas leave the schema alone
+    const version = server.schemaVersion;
+    await db.persistDelta(
+      db.createDelta('alice', [{ role: 'named', target: { id: 'person_alice', context: 'name' } }])
+    );
+    await server.reload();
+    expect(server.schemaVersion).toBe(version);
+  });
+
+  it('should finish in-flight requests on the schema they started with', async () => {
+    let release: () => void = () => undefined;
+    let started: () => void = () => undefined;
+    const gate = new Promise<string>(resolve => {
+      release = () => resolve('done');
+    });
+    const running = new Promise<void>(resolve => {
+      started = resolve;
+    });
+    await startServer({
+      customResolvers: {
+        slow: {
+          type: GraphQLString,
+          resolve: () => {
+            started();
+            return gate;
+          }
+        }
+      }
+    });
+
+    const slow = post('{ slow }');
+    await running;
+
+    await createTerminalSchemaAsDeltas(db, 'person', 'Person');
+    let swapped = false;
+    const reload = server.reload().then(() => {
+      swapped = true;
+    });
+
+    const during = await post('{ Person(id: "person_alice") { id } }');
+    expect(during.body.extensions?.schemaVersion).toBeGreaterThan(1);
+    expect(swapped).toBe(false);
+
+    release();
+    expect((await slow).body).toEqual({ data: { slow: 'done' }, extensions: { schemaVersion: 1 } });
+    await reload;
+    expect(swapped).toBe(true);
+  });
+
+  it('should reject malformed requests and operations HTTP cannot run', async () => {
+    await startServer();
+
+    const invalid = await post('{ nope }');
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors?.[0].message).toBe('Cannot query field "nope" on type "Query".');
+
+    const subscription = await post('subscription { deltaCreated { id } }');
+    expect(subscription.status).toBe(400);
+    expect(subscription.body.errors?.[0].message).toBe("Can't run a subscription here");
+
+    const mutation = await fetch(
+      `http://${url}?query=${encodeURIComponent('mutation { negateDelta(author: "a", targetDeltaId: "x") }')}`
+    );
+    expect(mutation.status).toBe(400);
+
+    const query = await fetch(`http://${url}?query=${encodeURIComponent('{ __typename }')}`);
+    expect(await query.json()).toEqual({
+      data: { __typename: 'Query' },
+      extensions: { schemaVersion: 1 }
+    });
+  });
+
+  it('should reject request bodies that are not JSON objects or are too large', async () => {
+    const errors: Error[] = [];
+    await startServer({ maxBodySize: 1024 }, { onError: error => errors.push(error) });
+
+    for (const body of ['null', '5', '"x"', '[]', '{']) {
+      const response = await fetch(`http://${url}`, { method: 'POST', body });
+      expect(response.status).toBe(400);
+    }
+
+    const tooLarge = await fetch(`http://${url}`, {
+      method: 'POST',
+      body: JSON.stringify({ query: `{ __typename ${' '.repeat(2048)}}` })
+    });
+    expect(tooLarge.status).toBe(413);
+    expect(await tooLarge.json()).toEqual({ errors: [{ message: 'Request body too large' }] });
+
+    expect((await post('{ __typename }')).body.data).toEqual({ __typename: 'Query' });
+    expect(errors).toEqual([]);
+  });
+
+  describe('over WebSocket', () => {
+    async function connect() {
+      const ws = new WebSocket(`ws://${url}`, GRAPHQL_WS_PROTOCOL);
+      const messages: Array<Record<string, unknown>> = [];
+      const waiting: Array<(message: Record<string, unknown>) => void> = [];
+      ws.on('message', data => {
+        const message = JSON.parse((data as Buffer).toString()) as Record<string, unknown>;
+        const next = waiting.shift();
+        if (next) next(message);
+        else messages.push(message);
+      });
+      const closed = new Promise<number>(resolve => ws.on('close', code => resolve(code)));
+      await new Promise(resolve => ws.on('open', resolve));
+
+      return {
+        ws,
+        closed,
+        send: (message: Record<string, unknown>) => ws.send(JSON.stringify(message)),
+        next: () =>
+          messages.length > 0
+            ? Promise.resolve(messages.shift()!)
+            : new Promise<Record<string, unknown>>(resolve => waiting.push(resolve))
+      };
+    }
+
+    it('should run queries and subscriptions over graphql-transport-ws', async () => {
+      await startServer();
+      const client = await connect();
+
+      client.send({ type: 'connection_init' });
+      expect(await client.next()).toEqual({ type: 'connection_ack' });
+
+      client.send({ id: '1', type: 'subscribe', payload: { query: '{ __typename }' } });
+      expect(await client.next()).toEqual({
+        id: '1',
+        type: 'next',
+        payload: { data: { __typename: 'Query' }, extensions: { schemaVersion: 1 } }
+      });
+      expect(await client.next()).toEqual({ id: '1', type: 'complete' });
+
+      client.send({
+        id: '2',
+        type: 'subscribe',
+        payload: { query: 'subscription { deltaCreated { author } }' }
+      });
+      client.send({ type: 'ping' });
+      expect(await client.next()).toEqual({ type: 'pong' });
+
+      await db.persistDelta(db.createDelta('alice', [{ role: 'flag', target: true }]));
+      expect(await client.next()).toEqual({
+        id: '2',
+        type: 'next',
+        payload: { data: { deltaCreated: { author: 'alice' } }, extensions: { schemaVersion: 1 } }
+      });
+      client.send({ id: '2', type: 'complete' });
+
+      client.send({ id: '3', type: 'subscribe', payload: { query: '{ nope }' } });
+      expect(await client.next()).toMatchObject({
+        id: '3',
+        type: 'error',
+        payload: [{ message: 'Cannot query field "nope" on type "Query".' }]
+      });
+
+      client.ws.close();
+      await client.closed;
+    });
+
+    it('should close connections that break the protocol', async () => {
+      await startServer();
+
+      const early = await connect();
+      early.send({ id: '1', type: 'subscribe', payload: { query: '{ __typename }' } });
+      expect(await early.closed).toBe(4401);
+
+      const twice = await connect();
+      twice.send({ type: 'connection_init' });
+      twice.send({ type: 'connection_init' });
+      expect(await twice.closed).toBe(4429);
+    });
+  });
+});
@@ -0,0 +1,655 @@
+/**
+ * GraphQL server with hot-swapped schemas
+ *
+ * Serves the GraphQL schema generated from a RhizomeDB's HyperSchemas over
+ * HTTP (`GET` or `POST` on `path`) and WebSocket (the graphql-transport-ws
+ * protocol, on the same path). Schema-defining deltas are watched: when a
+ * commit adds or changes a schema, the executable schema is regenerated and
+ * swapped in at once. Requests already running finish on the schema they
+ * started with, and the swap completes once they have drained.
+ *
+ * Every result carries the version of the schema it ran against in
+ * `extensions.schemaVersion`.
+ */
+
+import { IncomingMessage, Server as HTTPServer, ServerResponse, createServer } from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  ExecutionArgs,
+  ExecutionResult,
+  GraphQLError,
+  GraphQLSchema,
+  OperationTypeNode,
+  execute,
+  getOperationAST,
+  parse,
+  subscribe,
+  validate
+} from 'graphql';
+import { Delta, HyperSchema, Subscription } from '../core/types';
+import { getNegatedTargetIds } from '../queries/negation';
+import { isSchemaDelta } from '../schemas/schemas-as-deltas';
+import { GraphQLConfig, createDynamicGraphQLSchema } from './graphql';
+
+/** WebSocket subprotocol spoken on the GraphQL endpoint */
+export const GRAPHQL_WS_PROTOCOL = 'graphql-transport-ws';
+
+/**
+ * GraphQL server configuration
+ */
+export interface GraphQLServerConfig extends Omit<GraphQLConfig, 'schemas'> {
+  /** HyperSchemas defined in code, merged over those defined as deltas */
+  schemas?: Map<string, HyperSchema>;
+
+  /**
+   * HTTP server to attach the WebSocket endpoint to. Its requests for
+   * `path` should be passed to `handleRequest`.
+   */
+  server?: HTTPServer;
+
+  /** Port to listen on (if no HTTP server provided; 0 picks a free port) */
+  port?: number;
+
+  /** Path of the GraphQL endpoint */
+  path?: string;
+
+  /** Longest to wait for requests on a replaced schema to finish (ms) */
+  drainTimeout?: number;
+
+  /** Largest HTTP request body or WebSocket message, in bytes (default: 1 MiB) */
+  maxBodySize?: number;
+}
+
+/**
+ * Event handlers for the GraphQL server
+ */
+export interface GraphQLServerEventHandlers {
+  /** A regenerated schema was swapped in */
+  onSchemaSwapped?: (version: number) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A GraphQL request, as sent over HTTP or in a `subscribe` message
+ */
+interface GraphQLRequest {
+  query?: unknown;
+  variables?: unknown;
+  operationName?: unknown;
+}
+
+/**
+ * A GraphQL request ready to run, or why it can't
+ */
+type PreparedRequest =
+  | { args: ExecutionArgs; operation?: OperationTypeNode }
+  | { errors: readonly GraphQLError[] };
+
+/**
+ * One executable schema and the requests running against it
+ */
+interface SchemaGeneration {
+  schema: GraphQLSchema;
+  version: number;
+  inFlight: number;
+  /** Called when the last in-flight request finishes */
+  onDrained?: () => void;
+}
+
+/**
+ * A graphql-transport-ws connection
+ */
+interface WebSocketConnection {
+  ws: WebSocket;
+  acknowledged: boolean;
+  /** Running operations by ID (null until a subscription's stream starts) */
+  operations: Map<string, AsyncGenerator<ExecutionResult> | null>;
+}
+
+/**
+ * Client messages of the graphql-transport-ws protocol
+ */
+type ClientMessage =
+  | { type: 'connection_init'; payload?: unknown }
+  | { type: 'ping' | 'pong'; payload?: unknown }
+  | { type: 'subscribe'; id: string; payload: GraphQLRequest }
+  | { type: 'complete'; id: string };
+
+function parseClientMessage(data: WebSocket.RawData): ClientMessage | undefined {
+  let message: unknown;
+  try {
+    const text = Array.isArray(data)
+      ? Buffer.concat(data).toString()
+      : Buffer.isBuffer(data)
+        ? data.toString()
+        : Buffer.from(data).toString();
+    message = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (typeof message !== 'object' || message === null) {
+    return undefined;
+  }
+
+  const { type, id, payload } = message as Record<string, unknown>;
+  switch (type) {
+    case 'connection_init':
+    case 'ping':
+    case 'pong':
+      return message as ClientMessage;
+    case 'subscribe':
+      return typeof id === 'string' && typeof payload === 'object' && payload !== null
+        ? (message as ClientMessage)
+        : undefined;
+    case 'complete':
+      return typeof id === 'string' ? (message as ClientMessage) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Read a request body, or undefined once it is larger than `maxSize` bytes
+ */
+function readBody(request: IncomingMessage, maxSize: number): Promise<string | undefined> {
+  if (Number(request.headers['content-length']) > maxSize) {
+    return Promise.resolve(undefined);
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        // The rest is discarded; the connection closes after the response
+        resolve(undefined);
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * GraphQL HTTP and WebSocket server for a RhizomeDB
+ */
+export class GraphQLServer {
+  private dynamicSchema: ReturnType<typeof createDynamicGraphQLSchema>;
+  private current: SchemaGeneration;
+  private httpServer: HTTPServer;
+  private ownsServer: boolean;
+  private wss: WebSocketServer;
+  private connections: Set<WebSocketConnection> = new Set();
+  private subscription?: Subscription;
+  /** The running reload, and the one queued behind it */
+  private reloading: Promise<unknown> = Promise.resolve();
+  private queuedReload?: Promise<boolean>;
+  private config: Required<
+    Pick<GraphQLServerConfig, 'port' | 'path' | 'drainTimeout' | 'maxBodySize'>
+  >;
+
+  constructor(
+    private readonly graphQLConfig: GraphQLServerConfig,
+    private readonly eventHandlers: GraphQLServerEventHandlers = {}
+  ) {
+    this.config = {
+      port: graphQLConfig.port ?? 4000,
+      path: graphQLConfig.path || '/graphql',
+      drainTimeout: graphQLConfig.drainTimeout ?? 30000,
+      maxBodySize: graphQLConfig.maxBodySize ?? 1024 * 1024
+    };
+
+    this.dynamicSchema = createDynamicGraphQLSchema(graphQLConfig);
+    this.current = { schema: this.dynamicSchema.getSchema(), version: 1, inFlight: 0 };
+
+    this.ownsServer = !graphQLConfig.server;
+    this.httpServer =
+      graphQLConfig.server ??
+      createServer((request, response) => void this.handleRequest(request, response));
+
+    this.wss = new WebSocketServer({
+      server: this.httpServer,
+      path: this.config.path,
+      maxPayload: this.config.maxBodySize,
+      handleProtocols: protocols =>
+        protocols.has(GRAPHQL_WS_PROTOCOL) ? GRAPHQL_WS_PROTOCOL : false
+    });
+    this.wss.on('connection', (ws: WebSocket) => this.handleConnection(ws));
+    this.wss.on('error', (error: Error) => this.eventHandlers.onError?.(error));
+  }
+
+  /**
+   * Version of the schema new requests run against (starts at 1)
+   */
+  get schemaVersion(): number {
+    return this.current.version;
+  }
+
+  /**
+   * Port the server listens on, once started
+   */
+  get port(): number | undefined {
+    const address = this.httpServer.address();
+    return typeof address === 'object' && address !== null ? address.port : undefined;
+  }
+
+  /**
+   * The schema new requests run against
+   */
+  getSchema(): GraphQLSchema {
+    return this.current.schema;
+  }
+
+  /**
+   * Watch schema-defining deltas, and listen if the server owns its HTTP server
+   */
+  async start(): Promise<void> {
+    this.subscription = this.graphQLConfig.db.subscribeBatches({}, deltas => {
+      void this.handleCommit(deltas);
+    });
+
+    if (this.ownsServer && !this.httpServer.listening) {
+      await new Promise<void>((resolve, reject) => {
+        this.httpServer.once('error', reject);
+        this.httpServer.listen(this.config.port, () => {
+          this.httpServer.off('error', reject);
+          resolve();
+        });
+      });
+    }
+  }
+
+  /**
+   * Regenerate the schema and swap it in if any HyperSchema changed
+   *
+   * Reloads run one at a time, and a reload requested while another runs
+   * covers every request made meanwhile. Resolves once requests on the
+   * replaced schema have drained (or `drainTimeout` passed).
+   *
+   * @returns Whether a new schema was swapped in
+   */
+  reload(): Promise<boolean> {
+    if (!this.queuedReload) {
+      const reload = this.reloading.then(() => {
+        this.queuedReload = undefined;
+        return this.swapSchema();
+      });
+      this.queuedReload = reload;
+      this.reloading = reload.catch(() => undefined);
+    }
+    return this.queuedReload;
+  }
+
+  /**
+   * Handle a GraphQL request over HTTP
+   *
+   * `GET` runs queries; `POST` also runs mutations. Subscriptions need the
+   * WebSocket endpoint.
+   */
+  async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      if (url.pathname !== this.config.path) {
+        this.respond(response, 404, { errors: [{ message: 'Not found' }] });
+        return;
+      }
+
+      let graphQLRequest: GraphQLRequest;
+      if (request.method === 'GET') {
+        const variables = url.searchParams.get('variables');
+        graphQLRequest = {
+          query: url.searchParams.get('query') ?? undefined,
+          variables: variables ? (JSON.parse(variables) as unknown) : undefined,
+          operationName: url.searchParams.get('operationName') ?? undefined
+        };
+      } else if (request.method === 'POST') {
+        const body = await readBody(request, this.config.maxBodySize);
+        if (body === undefined) {
+          response.setHeader('Connection', 'close');
+          this.respond(response, 413, { errors: [{ message: 'Request body too large' }] });
+          return;
+        }
+
+        const parsed = JSON.parse(body) as unknown;
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          this.respond(response, 400, { errors: [{ message: 'Request must be a JSON object' }] });
+          return;
+        }
+        graphQLRequest = parsed as GraphQLRequest;
+      } else {
+        response.setHeader('Allow', 'GET, POST');
+        this.respond(response, 405, { errors: [{ message: 'Method not allowed' }] });
+        return;
+      }
+
+      const allowed =
+        request.method === 'GET'
+          ? [OperationTypeNode.QUERY]
+          : [OperationTypeNode.QUERY, OperationTypeNode.MUTATION];
+
+      await this.run(async generation => {
+        const prepared = this.prepare(generation, graphQLRequest, allowed);
+        if ('errors' in prepared) {
+          this.respond(response, 400, withVersion(prepared, generation));
+        } else {
+          this.respond(response, 200, withVersion(await execute(prepared.args), generation));
+        }
+      });
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        this.respond(response, 400, { errors: [{ message: 'Request must be JSON' }] });
+      } else {
+        this.eventHandlers.onError?.(error as Error);
+        this.respond(response, 500, { errors: [{ message: 'Internal server error' }] });
+      }
+    }
+  }
+
+  /**
+   * Stop watching schemas, close WebSocket connections and wait for
+   * in-flight requests
+   */
+  async close(): Promise<void> {
+    this.subscription?.unsubscribe();
+
+    for (const connection of this.connections) {
+      connection.ws.close(1001, 'Server closing');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.wss.close(err => (err ? reject(err) : resolve()));
+    });
+    await this.drain(this.current);
+
+    if (this.ownsServer && this.httpServer.listening) {
+      await new Promise<void>((resolve, reject) => {
+        this.httpServer.close(err => (err ? reject(err) : resolve()));
+      });
+    }
+  }
+
+  /**
+   * Reload when a commit touches a schema-defining delta, including by
+   * negating one
+   */
+  private async handleCommit(deltas: Delta[]): Promise<void> {
+    try {
+      let touchesSchemas = deltas.some(isSchemaDelta);
+      if (!touchesSchemas) {
+        const negatedIds = deltas.flatMap(getNegatedTargetIds);
+        if (negatedIds.length > 0) {
+          const negated = await this.graphQLConfig.db.getDeltas(negatedIds);
+          touchesSchemas = negated.some(isSchemaDelta);
+        }
+      }
+
+      if (touchesSchemas) {
+        await this.reload();
+      }
+    } catch (error) {
+      this.eventHandlers.onError?.(error as Error);
+    }
+  }
+
+  private async swapSchema(): Promise<boolean> {
+    const { changed, schema } = this.dynamicSchema.regenerate();
+    if (!changed) {
+      return false;
+    }
+
+    const previous = this.current;
+    this.current = { schema, version: previous.version + 1, inFlight: 0 };
+    this.eventHandlers.onSchemaSwapped?.(this.current.version);
+
+    await this.drain(previous);
+    return true;
+  }
+
+  /**
+   * Wait until a schema's in-flight requests finish, or `drainTimeout` passes
+   */
+  private drain(generation: SchemaGeneration): Promise<void> {
+    if (generation.inFlight === 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      const timeout = setTimeout(resolve, this.config.drainTimeout);
+      generation.onDrained = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Run a request against the current schema, counting it as in flight
+   */
+  private async run<T>(work: (generation: SchemaGeneration) => Promise<T>): Promise<T> {
+    const generation = this.current;
+    generation.inFlight++;
+
+    try {
+      return await work(generation);
+    } finally {
+      generation.inFlight--;
+      if (generation.inFlight === 0) {
+        generation.onDrained?.();
+      }
+    }
+  }
+
+  /**
+   * Parse and validate a request against a schema
+   *
+   * @param allowed - Operation types the transport may run
+   */
+  private prepare(
+    generation: SchemaGeneration,
+    { query, variables, operationName }: GraphQLRequest,
+    allowed: OperationTypeNode[]
+  ): PreparedRequest {
+    if (typeof query !== 'string') {
+      return { errors: [new GraphQLError('query must be a string')] };
+    }
+    if (
+      variables !== undefined &&
+      variables !== null &&
+      (typeof variables !== 'object' || Array.isArray(variables))
+    ) {
+      return { errors: [new GraphQLError('variables must be an object')] };
+    }
+    if (
+      operationName !== undefined &&
+      operationName !== null &&
+      typeof operationName !== 'string'
+    ) {
+      return { errors: [new GraphQLError('operationName must be a string')] };
+    }
+
+    let document;
+    try {
+      document = parse(query);
+    } catch (error) {
+      return { errors: [error as GraphQLError] };
+    }
+
+    const errors = validate(generation.schema, document);
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const operation = getOperationAST(document, operationName)?.operation;
+    if (operation && !allowed.includes(operation)) {
+      return { errors: [new GraphQLError(`Can't run a ${operation} here`)] };
+    }
+
+    return {
+      args: {
+        schema: generation.schema,
+        document,
+        variableValues: variables as Record<string, unknown> | null | undefined,
+        operationName,
+        // Each request gets its own HyperView loader
+        contextValue: {}
+      },
+      operation
+    };
+  }
+
+  private respond(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  // =========================================================================
+  // graphql-transport-ws
+  // =========================================================================
+
+  private handleConnection(ws: WebSocket): void {
+    if (ws.protocol !== GRAPHQL_WS_PROTOCOL) {
+      ws.close(4406, 'Subprotocol not acceptable');
+      return;
+    }
+
+    const connection: WebSocketConnection = { ws, acknowledged: false, operations: new Map() };
+    this.connections.add(connection);
+
+    ws.on('message', (data: WebSocket.RawData) => this.handleMessage(connection, data));
+    ws.on('error', (error: Error) => this.eventHandlers.onError?.(error));
+    ws.on('close', () => {
+      this.connections.delete(connection);
+      for (const stream of connection.operations.values()) {
+        void stream?.return(undefined);
+      }
+      connection.operations.clear();
+    });
+  }
+
+  private handleMessage(connection: WebSocketConnection, data: WebSocket.RawData): void {
+    const message = parseClientMessage(data);
+    if (!message) {
+      connection.ws.close(4400, 'Invalid message');
+      return;
+    }
+
+    switch (message.type) {
+      case 'connection_init':
+        if (connection.acknowledged) {
+          connection.ws.close(4429, 'Too many initialisation requests');
+          return;
+        }
+        connection.acknowledged = true;
+        this.send(connection, { type: 'connection_ack' });
+        break;
+
+      case 'ping':
+        this.send(connection, { type: 'pong' });
+        break;
+
+      case 'pong':
+        break;
+
+      case 'subscribe':
+        if (!connection.acknowledged) {
+          connection.ws.close(4401, 'Unauthorized');
+          return;
+        }
+        if (connection.operations.has(message.id)) {
+          connection.ws.close(4409, `Subscriber for ${message.id} already exists`);
+          return;
+        }
+        connection.operations.set(message.id, null);
+        void this.runOperation(connection, message.id, message.payload);
+        break;
+
+      case 'complete': {
+        const stream = connection.operations.get(message.id);
+        connection.operations.delete(message.id);
+        void stream?.return(undefined);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Run a `subscribe` message's operation, sending its results until it ends
+   * or the client completes it
+   *
+   * Subscriptions stay on the schema they started on; only setting them up
+   * counts as in flight.
+   */
+  private async runOperation(
+    connection: WebSocketConnection,
+    id: string,
+    request: GraphQLRequest
+  ): Promise<void> {
+    try {
+      const { result, generation } = await this.run(async generation => {
+        const prepared = this.prepare(generation, request, Object.values(OperationTypeNode));
+        if ('errors' in prepared) {
+          return { result: prepared, generation };
+        }
+        return {
+          result:
+            prepared.operation === OperationTypeNode.SUBSCRIPTION
+              ? await subscribe(prepared.args)
+              : await execute(prepared.args),
+          generation
+        };
+      });
+
+      if (Symbol.asyncIterator in result) {
+        if (!connection.operations.has(id)) {
+          // Completed by the client while starting
+          await result.return(undefined);
+          return;
+        }
+        connection.operations.set(id, result);
+        for await (const event of result) {
+          if (!connection.operations.has(id)) {
+            break;
+          }
+          this.send(connection, { id, type: 'next', payload: withVersion(event, generation) });
+        }
+      } else if (!('data' in result) && result.errors) {
+        if (connection.operations.delete(id)) {
+          this.send(connection, { id, type: 'error', payload: result.errors });
+        }
+        return;
+      } else if (connection.operations.has(id)) {
+        this.send(connection, { id, type: 'next', payload: withVersion(result, generation) });
+      }
+
+      // The client needs no complete for operations it completed itself
+      if (connection.operations.delete(id)) {
+        this.send(connection, { id, type: 'complete' });
+      }
+    } catch (error) {
+      this.eventHandlers.onError?.(error as Error);
+      if (connection.operations.delete(id)) {
+        this.send(connection, {
+          id,
+          type: 'error',
+          payload: [new GraphQLError('Internal server error')]
+        });
+      }
+    }
+  }
+
+  private send(connection: WebSocketConnection, message: Record<string, unknown>): void {
+    if (connection.ws.readyState === WebSocket.OPEN) {
+      connection.ws.send(JSON.stringify(message));
+    }
+  }
+}
+
+/**
+ * Add the schema version a result ran against to its extensions
+ */
+function withVersion(result: ExecutionResult, generation: SchemaGeneration): ExecutionResult {
+  return { ...result, extensions: { ...result.extensions, schemaVersion: generation.version } };
+}
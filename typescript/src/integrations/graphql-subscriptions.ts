@@ -0,0 +1,282 @@
+/**
+ * Change subscriptions for generated GraphQL types
+ *
+ * Each HyperSchema gets `<Name>Changed(id:)` and `<Name>sChanged(where:)`
+ * subscriptions. They push an object's re-resolved value whenever a committed
+ * delta is selected by its HyperSchema, or by the schema of an object nested
+ * in it through the transform rules. A negation counts as a change wherever
+ * the delta it negates was selected.
+ *
+ * The nested `(objectId, schema)` pairs an object depends on are collected
+ * again after every push, so references added or removed later are watched.
+ */
+
+import { GraphQLFieldConfigMap, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { RhizomeDB } from '../storage/instance';
+import { HyperViewLoader } from '../schemas/hyperview-loader';
+import {
+  Delta,
+  HyperSchema,
+  HyperView,
+  HyperViewConstraints,
+  isPrimitiveHyperSchema
+} from '../core/types';
+import { isDomainNodeReference } from '../core/validation';
+import { getNegatedTargetIds } from '../queries/negation';
+import {
+  isEmptyHyperView,
+  matchesHyperViewConstraints,
+  selectHyperViews
+} from '../queries/hyperview-query';
+import { ConnectionTypes, WhereInput, getWhereType, toConstraints } from './graphql-connections';
+
+/**
+ * The schemas each object in a view is built with, by object ID
+ */
+type Dependencies = Map<string, HyperSchema[]>;
+
+/**
+ * Which objects a change subscription watches
+ */
+type WatchTarget = { ids: string[] } | { constraints: HyperViewConstraints };
+
+// The loader of the subscription each pushed payload came from
+const payloadLoaders = new WeakMap<object, HyperViewLoader>();
+
+/**
+ * Get the loader that built a change subscription's payload
+ *
+ * It is kept up to date with every commit, so the payload's nested objects
+ * can be resolved through it instead of a new loader reading every delta.
+ */
+export function getPayloadLoader(payload: unknown): HyperViewLoader | undefined {
+  return typeof payload === 'object' && payload !== null ? payloadLoaders.get(payload) : undefined;
+}
+
+/**
+ * Collect the objects an object's view depends on: itself, and every object
+ * nested in it through the schema's transform rules
+ */
+async function collectDependencies(
+  loader: HyperViewLoader,
+  objectId: string,
+  hyperSchema: HyperSchema,
+  allSchemas: Map<string, HyperSchema>
+): Promise<Dependencies> {
+  const dependencies: Dependencies = new Map();
+
+  const visit = async (id: string, schema: HyperSchema): Promise<void> => {
+    const schemas = dependencies.get(id) ?? [];
+    if (schemas.includes(schema)) {
+      return;
+    }
+    dependencies.set(id, [...schemas, schema]);
+
+    const view = await loader.load(id, schema);
+    const nested: Promise<void>[] = [];
+    for (const [key, value] of Object.entries(view)) {
+      if (key === 'id' || key === '_metadata' || !Array.isArray(value)) {
+        continue;
+      }
+
+      for (const delta of value) {
+        for (const pointer of delta.pointers) {
+          const rule = schema.transform[pointer.role];
+          if (!rule || !isDomainNodeReference(pointer.target) || pointer.target.id === id) {
+            continue;
+          }
+
+          const nestedSchema =
+            typeof rule.schema === 'string' ? allSchemas.get(rule.schema) : rule.schema;
+          if (nestedSchema && !isPrimitiveHyperSchema(nestedSchema)) {
+            nested.push(visit(pointer.target.id, nestedSchema));
+          }
+        }
+      }
+    }
+    await Promise.all(nested);
+  };
+
+  await visit(objectId, hyperSchema);
+  return dependencies;
+}
+
+/**
+ * Add the deltas a commit negates (and those they negate, for double
+ * negation) to the commit's own deltas
+ */
+async function withNegatedDeltas(db: RhizomeDB, deltas: Delta[]): Promise<Delta[]> {
+  const all = [...deltas];
+  const seen = new Set(deltas.map(delta => delta.id));
+
+  for (let i = 0; i < all.length; i++) {
+    const targetIds = getNegatedTargetIds(all[i]).filter(id => !seen.has(id));
+    if (targetIds.length > 0) {
+      targetIds.forEach(id => seen.add(id));
+      all.push(...(await db.getDeltas(targetIds)));
+    }
+  }
+
+  return all;
+}
+
+/**
+ * Check whether any of the deltas is selected for any dependency
+ */
+function isAffected(dependencies: Dependencies, deltas: Delta[]): boolean {
+  for (const [id, schemas] of dependencies) {
+    for (const schema of schemas) {
+      if (deltas.some(delta => schema.select(id, delta) !== false)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Yield the HyperView of each watched object whenever a commit changes it
+ *
+ * Objects watched by constraints are only pushed while they match; objects
+ * start matching through the deltas that reference them.
+ */
+async function* watchHyperViews(
+  db: RhizomeDB,
+  loader: HyperViewLoader,
+  hyperSchema: HyperSchema,
+  allSchemas: Map<string, HyperSchema>,
+  target: WatchTarget
+): AsyncGenerator<HyperView> {
+  const commits: Delta[][] = [];
+  let resolveNext: (() => void) | null = null;
+
+  // Subscribe before reading, so commits made meanwhile aren't missed
+  const subscription = db.subscribeBatches({}, deltas => {
+    commits.push(deltas);
+    if (resolveNext) {
+      resolveNext();
+      resolveNext = null;
+    }
+  });
+
+  try {
+    const watched = new Map<string, Dependencies>();
+
+    if ('ids' in target) {
+      for (const id of target.ids) {
+        watched.set(id, await collectDependencies(loader, id, hyperSchema, allSchemas));
+      }
+    } else {
+      const candidates = await loader.loadMany(
+        Array.from(db.findCandidateIds(hyperSchema, target.constraints)),
+        hyperSchema
+      );
+      for (const view of selectHyperViews(candidates, target.constraints)) {
+        watched.set(view.id, await collectDependencies(loader, view.id, hyperSchema, allSchemas));
+      }
+    }
+
+    while (true) {
+      if (commits.length === 0) {
+        await new Promise<void>(resolve => {
+          resolveNext = resolve;
+        });
+      }
+
+      // Only the views the commit can change are rebuilt
+      const deltas = await withNegatedDeltas(db, commits.shift()!);
+      loader.refresh(deltas);
+      const changed = new Set<string>();
+
+      for (const [id, dependencies] of watched) {
+        if (isAffected(dependencies, deltas)) {
+          changed.add(id);
+        }
+      }
+
+      if ('constraints' in target) {
+        for (const delta of deltas) {
+          for (const { target: pointerTarget } of delta.pointers) {
+            if (
+              isDomainNodeReference(pointerTarget) &&
+              hyperSchema.select(pointerTarget.id, delta) !== false
+            ) {
+              changed.add(pointerTarget.id);
+            }
+          }
+        }
+      }
+
+      if (changed.size === 0) {
+        continue;
+      }
+
+      const views = await loader.loadMany(Array.from(changed), hyperSchema);
+
+      for (const view of views) {
+        if (
+          'constraints' in target &&
+          (isEmptyHyperView(view) || !matchesHyperViewConstraints(view, target.constraints))
+        ) {
+          watched.delete(view.id);
+          continue;
+        }
+
+        watched.set(view.id, await collectDependencies(loader, view.id, hyperSchema, allSchemas));
+        yield view;
+      }
+    }
+  } finally {
+    subscription.unsubscribe();
+  }
+}
+
+/**
+ * Create the `<Name>Changed(id:)` and `<Name>sChanged(where:)` subscriptions
+ * for a HyperSchema
+ *
+ * Nothing is pushed on subscribing; query the current state first.
+ *
+ * @param toNode - Turns a changed HyperView into the node's resolved value
+ */
+export function createChangeSubscriptionFields(
+  hyperSchema: HyperSchema,
+  nodeType: GraphQLObjectType,
+  db: RhizomeDB,
+  allSchemas: Map<string, HyperSchema>,
+  types: ConnectionTypes,
+  toNode: (hyperView: HyperView) => unknown
+): GraphQLFieldConfigMap<unknown, unknown> {
+  const { name } = hyperSchema;
+  const objectField = `${name}Changed`;
+  const listField = `${name}sChanged`;
+
+  // One loader per subscription, refreshed with each commit
+  async function* push(field: string, target: WatchTarget): AsyncGenerator<unknown> {
+    const loader = db.createHyperViewLoader();
+    for await (const view of watchHyperViews(db, loader, hyperSchema, allSchemas, target)) {
+      const payload = { [field]: toNode(view) };
+      payloadLoaders.set(payload, loader);
+      yield payload;
+    }
+  }
+
+  return {
+    [objectField]: {
+      type: new GraphQLNonNull(nodeType),
+      args: {
+        id: { type: new GraphQLNonNull(GraphQLString) }
+      },
+      subscribe: (_source, { id }: { id: string }) => push(objectField, { ids: [id] })
+    },
+
+    [listField]: {
+      type: new GraphQLNonNull(nodeType),
+      args: {
+        where: { type: getWhereType(hyperSchema, allSchemas, types) }
+      },
+      subscribe: (_source, { where }: { where?: WhereInput }) =>
+        push(listField, { constraints: toConstraints(where) })
+    }
+  };
+}
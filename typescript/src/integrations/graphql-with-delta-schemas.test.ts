@@ -14,7 +14,8 @@ import { graphql } from 'graphql';
 import { createGraphQLSchemaFromDeltas, createDynamicGraphQLSchema } from './graphql';
 import {
   createTerminalSchemaAsDeltas,
-  addTransformationRule
+  addTransformationRule,
+  addPrimitiveField
 } from '../schemas/schemas-as-deltas';
 
 describe('GraphQL with Delta-Defined Schemas', () => {
@@ -28,6 +29,8 @@ describe('GraphQL with Delta-Defined Schemas', () => {
     it('should create GraphQL schema from delta-defined HyperSchemas', async () => {
       // Step 1: Define a Person schema as deltas
       await createTerminalSchemaAsDeltas(db, 'person_schema', 'Person');
+      await addPrimitiveField(db, 'person_schema', 'name', 'string');
+      await addPrimitiveField(db, 'person_schema', 'age', 'integer');
 
       // Step 2: Create some person data
       const aliceId = 'person_alice';
@@ -79,9 +82,12 @@ describe('GraphQL with Delta-Defined Schemas', () => {
 
       // Create Address schema
       await createTerminalSchemaAsDeltas(db, 'address_schema', 'Address');
+      await addPrimitiveField(db, 'address_schema', 'street', 'string');
+      await addPrimitiveField(db, 'address_schema', 'city', 'string');
 
       // Create Company schema with transformation to Address
       await createTerminalSchemaAsDeltas(db, 'company_schema', 'Company');
+      await addPrimitiveField(db, 'company_schema', 'name', 'string');
       await addTransformationRule(db, 'company_schema', 'address', 'address_schema');
 
       // Create data
@@ -139,11 +145,13 @@ describe('GraphQL with Delta-Defined Schemas', () => {
       expect(result.data?.Company).toMatchObject({
         id: companyId,
         name: 'Acme Corp',
-        address: {
-          id: addressId,
-          street: '123 Main St',
-          city: 'San Francisco'
-        }
+        address: [
+          {
+            id: addressId,
+            street: '123 Main St',
+            city: 'San Francisco'
+          }
+        ]
       });
     });
   });
@@ -152,6 +160,7 @@ describe('GraphQL with Delta-Defined Schemas', () => {
     it('should detect schema changes and regenerate GraphQL schema', async () => {
       // Create initial schema
       await createTerminalSchemaAsDeltas(db, 'product_schema', 'Product');
+      await addPrimitiveField(db, 'product_schema', 'name', 'string');
 
       // Create dynamic GraphQL schema manager
       const dynamicSchema = createDynamicGraphQLSchema({ db });
@@ -183,6 +192,7 @@ describe('GraphQL with Delta-Defined Schemas', () => {
 
       // Evolve schema: add transformation for manufacturer
       await createTerminalSchemaAsDeltas(db, 'manufacturer_schema', 'Manufacturer');
+      await addPrimitiveField(db, 'manufacturer_schema', 'name', 'string');
       await addTransformationRule(db, 'product_schema', 'manufacturer', 'manufacturer_schema');
 
       // Check for changes
@@ -227,10 +237,12 @@ describe('GraphQL with Delta-Defined Schemas', () => {
       expect(result.data?.Product).toMatchObject({
         id: productId,
         name: 'Widget',
-        manufacturer: {
-          id: mfgId,
-          name: 'Acme Manufacturing'
-        }
+        manufacturer: [
+          {
+            id: mfgId,
+            name: 'Acme Manufacturing'
+          }
+        ]
       });
     });
 
@@ -289,6 +301,9 @@ describe('GraphQL with Delta-Defined Schemas', () => {
       await createTerminalSchemaAsDeltas(db, 'book_schema', 'Book');
       await createTerminalSchemaAsDeltas(db, 'author_schema', 'Author');
       await createTerminalSchemaAsDeltas(db, 'publisher_schema', 'Publisher');
+      await addPrimitiveField(db, 'book_schema', 'title', 'string');
+      await addPrimitiveField(db, 'author_schema', 'name', 'string');
+      await addPrimitiveField(db, 'publisher_schema', 'name', 'string');
 
       // Add transformations
       await addTransformationRule(db, 'book_schema', 'author', 'author_schema');
@@ -368,8 +383,8 @@ describe('GraphQL with Delta-Defined Schemas', () => {
       expect(result.data?.Book).toMatchObject({
         id: bookId,
         title: 'Foundation',
-        author: { id: authorId, name: 'Isaac Asimov' },
-        publisher: { id: publisherId, name: 'Gnome Press' }
+        author: [{ id: authorId, name: 'Isaac Asimov' }],
+        publisher: [{ id: publisherId, name: 'Gnome Press' }]
       });
       expect(result.data?.Author).toMatchObject({
         id: authorId,
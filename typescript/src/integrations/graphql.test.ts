@@ -10,10 +10,11 @@
 /* eslint-disable @typescript-eslint/require-await */
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
-import { graphql } from 'graphql';
+import { execute, graphql, parse, subscribe } from 'graphql';
 import { RhizomeDB } from '../storage/instance';
 import { createStandardSchema } from '../schemas/hyperview';
 import { createGraphQLSchema } from './graphql';
+import { MAX_DELTAS_LIMIT } from './graphql-deltas';
 import { HyperSchema, PrimitiveSchemas } from '../core/types';
 
 // Helper to create Person schema with common primitive fields
@@ -241,6 +242,508 @@ describe('GraphQL Integration', () => {
     });
   });
 
+  describe('List Queries', () => {
+    let gqlSchema: ReturnType<typeof createGraphQLSchema>;
+
+    beforeEach(async () => {
+      const personSchema = createPersonSchema({
+        age: {
+          schema: PrimitiveSchemas.Integer,
+          when: p => PrimitiveSchemas.Integer.validate(p.target)
+        }
+      });
+      schemas.set('person', personSchema);
+      db.registerSchema(personSchema);
+
+      const people: Array<[string, string, number]> = [
+        ['person_alice', 'Alice', 34],
+        ['person_bob', 'Bob', 27],
+        ['person_carol', 'Carol', 41],
+        ['person_dave', 'Dave', 19],
+        ['person_erin', 'Erin', 27]
+      ];
+      for (const [id, name, age] of people) {
+        await db.persistDeltas([
+          db.createDelta('system', [
+            { role: 'named', target: { id, context: 'name' } },
+            { role: 'name', target: name }
+          ]),
+          db.createDelta('system', [
+            { role: 'aged', target: { id, context: 'age' } },
+            { role: 'age', target: age }
+          ])
+        ]);
+      }
+
+      gqlSchema = createGraphQLSchema({ db, schemas });
+    });
+
+    interface PersonPage {
+      edges: Array<{ cursor: string; node: { id: string; name: string; age: number } }>;
+      pageInfo: {
+        hasNextPage: boolean;
+        hasPreviousPage: boolean;
+        startCursor: string | null;
+        endCursor: string | null;
+      };
+      totalCount: number;
+    }
+
+    async function listPeople(args: string): Promise<PersonPage> {
+      const result = await graphql({
+        schema: gqlSchema,
+        source: `
+          query {
+            allPersons(${args}) {
+              edges { cursor node { id name age } }
+              pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+              totalCount
+            }
+          }
+        `
+      });
+
+      expect(result.errors).toBeUndefined();
+      return (result.data as any).allPersons as PersonPage;
+    }
+
+    it('should page through objects with first and after', async () => {
+      const first = await listPeople('first: 2');
+
+      expect(first.edges.map(edge => edge.node.name)).toEqual(['Alice', 'Bob']);
+      expect(first.totalCount).toBe(5);
+      expect(first.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+      expect(first.pageInfo.endCursor).toBe(first.edges[1].cursor);
+
+      const second = await listPeople(`first: 2, after: "${first.pageInfo.endCursor}"`);
+      expect(second.edges.map(edge => edge.node.name)).toEqual(['Carol', 'Dave']);
+
+      const last = await listPeople(`first: 2, after: "${second.pageInfo.endCursor}"`);
+      expect(last.edges.map(edge => edge.node.name)).toEqual(['Erin']);
+      expect(last.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+    });
+
+    it('should filter with where and order by a resolved field', async () => {
+      const page = await listPeople(
+        'where: { age: { gte: 20, lt: 40 } }, orderBy: { field: age, direction: DESC }'
+      );
+
+      expect(page.totalCount).toBe(3);
+      // Equal ages are ordered by ID
+      expect(page.edges.map(edge => [edge.node.name, edge.node.age])).toEqual([
+        ['Alice', 34],
+        ['Bob', 27],
+        ['Erin', 27]
+      ]);
+
+      const named = await listPeople('where: { name: { in: ["Bob", "Dave"] } }');
+      expect(named.edges.map(edge => edge.node.id)).toEqual(['person_bob', 'person_dave']);
+    });
+
+    it('should keep its place when objects are added before the cursor', async () => {
+      const first = await listPeople('first: 2, orderBy: { field: age }');
+      expect(first.edges.map(edge => edge.node.name)).toEqual(['Dave', 'Bob']);
+
+      await db.persistDelta(
+        db.createDelta('system', [
+          { role: 'aged', target: { id: 'person_zoe', context: 'age' } },
+          { role: 'age', target: 5 }
+        ])
+      );
+
+      const next = await listPeople(
+        `first: 2, after: "${first.pageInfo.endCursor}", orderBy: { field: age }`
+      );
+      expect(next.edges.map(edge => edge.node.name)).toEqual(['Erin', 'Alice']);
+      expect(next.totalCount).toBe(6);
+    });
+
+    it('should reject cursors from another ordering', async () => {
+      const first = await listPeople('first: 1');
+
+      const result = await graphql({
+        schema: gqlSchema,
+        source: `query { allPersons(after: "${first.pageInfo.endCursor}", orderBy: { field: age }) { totalCount } }`
+      });
+
+      expect(result.errors?.[0].message).toMatch('Cursor is for a different orderBy');
+    });
+  });
+
+  describe('Batching', () => {
+    let gqlSchema: ReturnType<typeof createGraphQLSchema>;
+
+    beforeEach(async () => {
+      const personSchema = createPersonSchema();
+      const postSchema = createPostSchema('post', 'Post', {
+        author: {
+          schema: personSchema,
+          when: p => typeof p.target === 'object' && 'id' in p.target
+        }
+      });
+      schemas.set('person', personSchema);
+      schemas.set('post', postSchema);
+
+      for (let i = 0; i < 3; i++) {
+        await db.persistDelta(
+          db.createDelta('system', [
+            { role: 'named', target: { id: `person_${i}`, context: 'name' } },
+            { role: 'name', target: `Author ${i}` }
+          ])
+        );
+      }
+      for (let i = 0; i < 20; i++) {
+        await db.persistDeltas([
+          db.createDelta('system', [
+            { role: 'post', target: { id: `post_${i}`, context: 'title' } },
+            { role: 'title', target: `Post ${i}` }
+          ]),
+          db.createDelta('system', [
+            { role: 'post', target: { id: `post_${i}`, context: 'author' } },
+            { role: 'author', target: { id: `person_${i % 3}`, context: 'posts' } }
+          ])
+        ]);
+      }
+
+      gqlSchema = createGraphQLSchema({ db, schemas });
+    });
+
+    async function run(source: string): Promise<{ data: any; loader: any }> {
+      const createLoader = jest.spyOn(db, 'createHyperViewLoader');
+      const applyHyperSchema = jest.spyOn(db, 'applyHyperSchema');
+
+      const result = await graphql({ schema: gqlSchema, source, contextValue: {} });
+
+      expect(result.errors).toBeUndefined();
+      expect(applyHyperSchema).not.toHaveBeenCalled();
+      expect(createLoader).toHaveBeenCalledTimes(1);
+      return { data: result.data, loader: createLoader.mock.results[0].value };
+    }
+
+    it('should build each referenced object once, in one batch per level', async () => {
+      const { data, loader } = await run(
+        'query { allPosts { nodes { title author { id name } } } }'
+      );
+
+      expect(data.allPosts.nodes).toHaveLength(20);
+      // Ordered by ID: post_0, post_1, post_10, ...
+      expect(data.allPosts.nodes[4]).toEqual({
+        title: 'Post 12',
+        author: [{ id: 'person_0', name: 'Author 0' }]
+      });
+      expect(loader.stats).toEqual({ batches: 2, constructed: 23 });
+    });
+
+    it('should only build referenced objects the query selects', async () => {
+      const { loader } = await run('query { allPosts { nodes { title } } }');
+
+      expect(loader.stats).toEqual({ batches: 1, constructed: 20 });
+    });
+
+    it('should give each execution of a cached document its own loader', async () => {
+      const document = parse('query { Person(id: "person_9") { name } }');
+
+      const before = await execute({ schema: gqlSchema, document });
+      expect(before.data).toEqual({ Person: { name: null } });
+
+      await db.persistDelta(
+        db.createDelta('system', [
+          { role: 'named', target: { id: 'person_9', context: 'name' } },
+          { role: 'name', target: 'Carol' }
+        ])
+      );
+
+      const after = await execute({ schema: gqlSchema, document });
+      expect(after.data).toEqual({ Person: { name: 'Carol' } });
+    });
+
+    it('should only build the objects a page needs', async () => {
+      const { data, loader } = await run('query { allPosts(first: 3) { nodes { title } } }');
+
+      expect(data.allPosts.nodes).toEqual([
+        { title: 'Post 0' },
+        { title: 'Post 1' },
+        { title: 'Post 10' }
+      ]);
+      // One more than the page, for hasNextPage
+      expect(loader.stats).toEqual({ batches: 1, constructed: 4 });
+    });
+
+    it('should only build every object when totalCount is selected', async () => {
+      const { data, loader } = await run('query { allPosts(first: 3) { totalCount } }');
+
+      expect(data.allPosts.totalCount).toBe(20);
+      expect(loader.stats.constructed).toBe(20);
+    });
+  });
+
+  describe('Deltas', () => {
+    it('should query deltas by ID and by filter', async () => {
+      const named = db.createDelta('alice', [
+        { role: 'named', target: { id: 'person_alice', context: 'name' } },
+        { role: 'name', target: 'Alice' }
+      ]);
+      const aged = db.createDelta('bob', [
+        { role: 'aged', target: { id: 'person_alice', context: 'age' } },
+        { role: 'age', target: 34 }
+      ]);
+      await db.persistDeltas([named, aged]);
+      const gqlSchema = createGraphQLSchema({ db, schemas });
+
+      const result = await graphql({
+        schema: gqlSchema,
+        source: `
+          query {
+            delta(id: "${aged.id}") {
+              timestamp
+              pointers { target { ... on PrimitiveValue { value } } }
+            }
+            byAuthor: deltas(filter: { authors: ["alice"] }) { id }
+            byValue: deltas(
+              filter: { targetIds: ["person_alice"], where: { pointer: { value: { gt: 30 } } } }
+            ) { id author }
+            missing: delta(id: "nope") { id }
+          }
+        `
+      });
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data).toEqual({
+        delta: {
+          timestamp: aged.timestamp,
+          pointers: [{ target: {} }, { target: { value: 34 } }]
+        },
+        byAuthor: [{ id: named.id }],
+        byValue: [{ id: aged.id, author: 'bob' }],
+        missing: null
+      });
+    });
+
+    it('should cap the number of deltas returned', async () => {
+      const gqlSchema = createGraphQLSchema({ db, schemas });
+      await db.persistDeltas(
+        Array.from({ length: MAX_DELTAS_LIMIT + 1 }, (_, i) =>
+          db.createDelta('carol', [{ role: 'count', target: i }])
+        )
+      );
+
+      const result = await graphql({
+        schema: gqlSchema,
+        source: `
+          query {
+            capped: deltas(filter: { authors: ["carol"] }) { id }
+            limited: deltas(filter: { authors: ["carol"] }, limit: 2) { id }
+          }
+        `
+      });
+      const tooMany = await graphql({
+        schema: gqlSchema,
+        source: `query { deltas(limit: ${MAX_DELTAS_LIMIT + 1}) { id } }`
+      });
+
+      expect(result.errors).toBeUndefined();
+      expect(result.data?.capped).toHaveLength(MAX_DELTAS_LIMIT);
+      expect(result.data?.limited).toHaveLength(2);
+      expect(tooMany.errors?.[0].message).toBe(`limit must be between 0 and ${MAX_DELTAS_LIMIT}`);
+    });
+
+    it('should reject malformed filter expressions', async () => {
+      const gqlSchema = createGraphQLSchema({ db, schemas });
+
+      const result = await graphql({
+        schema: gqlSchema,
+        source: `query { deltas(filter: { where: { not: { field: author } } }) { id } }`
+      });
+
+      expect(result.errors?.[0].message).toBe('where.not.is is required');
+    });
+
+    it('should publish typed deltas to subscribers', async () => {
+      const gqlSchema = createGraphQLSchema({ db, schemas, enableSubscriptions: true });
+
+      const stream = (await subscribe({
+        schema: gqlSchema,
+        document: parse(`
+          subscription {
+            deltaCreated(filter: { authors: ["alice"] }) {
+              author
+              pointers { role target { ... on PrimitiveValue { value } } }
+            }
+          }
+        `)
+      })) as AsyncIterableIterator<any>;
+
+      const next = stream.next();
+      await db.persistDelta(db.createDelta('bob', [{ role: 'flag', target: false }]));
+      await db.persistDelta(db.createDelta('alice', [{ role: 'flag', target: true }]));
+
+      expect((await next).value.data).toEqual({
+        deltaCreated: { author: 'alice', pointers: [{ role: 'flag', target: { value: true } }] }
+      });
+      await stream.return?.();
+    });
+  });
+
+  describe('Change Subscriptions', () => {
+    let gqlSchema: ReturnType<typeof createGraphQLSchema>;
+    let adaNamed: string;
+
+    beforeEach(async () => {
+      const personSchema = createPersonSchema();
+      schemas.set('person', personSchema);
+      schemas.set(
+        'post',
+        createPostSchema('post', 'Post', {
+          author: {
+            schema: personSchema,
+            when: p => typeof p.target === 'object' && 'id' in p.target
+          }
+        })
+      );
+
+      const named = db.createDelta('system', [
+        { role: 'named', target: { id: 'person_ada', context: 'name' } },
+        { role: 'name', target: 'Ada' }
+      ]);
+      adaNamed = named.id;
+      await db.persistDeltas([
+        named,
+        db.createDelta('system', [
+          { role: 'named', target: { id: 'person_grace', context: 'name' } },
+          { role: 'name', target: 'Grace' }
+        ]),
+        db.createDelta('system', [
+          { role: 'post', target: { id: 'post_1', context: 'title' } },
+          { role: 'title', target: 'Hello' }
+        ]),
+        db.createDelta('system', [
+          { role: 'post', target: { id: 'post_1', context: 'author' } },
+          { role: 'author', target: { id: 'person_ada', context: 'posts' } }
+        ]),
+        db.createDelta('system', [
+          { role: 'post', target: { id: 'post_2', context: 'title' } },
+          { role: 'title', target: 'Other' }
+        ])
+      ]);
+
+      gqlSchema = createGraphQLSchema({ db, schemas, enableSubscriptions: true });
+    });
+
+    async function watch(source: string): Promise<AsyncIterableIterator<any>> {
+      return (await subscribe({
+        schema: gqlSchema,
+        document: parse(source),
+        contextValue: {}
+      })) as AsyncIterableIterator<any>;
+    }
+
+    function setProperty(objectId: string, property: string, target: any): Promise<void> {
+      return db.persistDelta(
+        db.createDelta('system', [
+          { role: 'post', target: { id: objectId, context: property } },
+          { role: property, target }
+        ])
+      );
+    }
+
+    it('should push an object when a nested object changes or a delta is negated', async () => {
+      const stream = await watch(
+        'subscription { PostChanged(id: "post_1") { title content author { name } } }'
+      );
+
+      const first = stream.next();
+      await setProperty('post_2', 'content', 'Unrelated');
+      await db.persistDelta(db.negateDelta('system', adaNamed, 'Anonymous'));
+      expect((await first).value.data).toEqual({
+        PostChanged: { title: 'Hello', content: null, author: [{ name: null }] }
+      });
+
+      const second = stream.next();
+      await setProperty('post_1', 'content', 'Body');
+      expect((await second).value.data).toEqual({
+        PostChanged: { title: 'Hello', content: 'Body', author: [{ name: null }] }
+      });
+      await stream.return?.();
+    });
+
+    it('should watch objects referenced after subscribing', async () => {
+      const stream = await watch(
+        'subscription { PostChanged(id: "post_2") { content author { name } } }'
+      );
+
+      const first = stream.next();
+      await setProperty('post_2', 'author', { id: 'person_grace', context: 'posts' });
+      expect((await first).value.data).toEqual({
+        PostChanged: { content: null, author: [{ name: 'Grace' }] }
+      });
+
+      // Selected by the person schema, though it has no age field
+      const second = stream.next();
+      await db.persistDelta(
+        db.createDelta('system', [
+          { role: 'aged', target: { id: 'person_grace', context: 'age' } },
+          { role: 'age', target: 85 }
+        ])
+      );
+      expect((await second).value.data).toEqual({
+        PostChanged: { content: null, author: [{ name: 'Grace' }] }
+      });
+
+      const third = stream.next();
+      await db.persistDelta(db.negateDelta('system', adaNamed, 'Anonymous'));
+      await setProperty('post_2', 'content', 'Compilers');
+      expect((await third).value.data).toEqual({
+        PostChanged: { content: 'Compilers', author: [{ name: 'Grace' }] }
+      });
+      await stream.return?.();
+    });
+
+    it('should build views for each commit without re-reading every delta', async () => {
+      const createLoader = jest.spyOn(db, 'createHyperViewLoader');
+      const getAll = jest.spyOn(db['storage'], 'getAll');
+      const stream = await watch(
+        'subscription { PostChanged(id: "post_1") { content author { name } } }'
+      );
+
+      const first = stream.next();
+      await setProperty('post_1', 'content', 'One');
+      expect((await first).value.data).toEqual({
+        PostChanged: { content: 'One', author: [{ name: 'Ada' }] }
+      });
+      const reads = getAll.mock.calls.length;
+
+      const second = stream.next();
+      await setProperty('post_2', 'content', 'Unrelated');
+      await setProperty('post_1', 'author', { id: 'person_grace', context: 'posts' });
+      expect((await second).value.data).toEqual({
+        PostChanged: { content: 'One', author: [{ name: 'Ada' }, { name: 'Grace' }] }
+      });
+
+      expect(createLoader).toHaveBeenCalledTimes(1);
+      expect(getAll.mock.calls.length).toBe(reads);
+      await stream.return?.();
+    });
+
+    it('should push objects while they match the where filter', async () => {
+      const stream = await watch(
+        'subscription { PostsChanged(where: { title: { eq: "Draft" } }) { id content } }'
+      );
+
+      const first = stream.next();
+      await setProperty('post_1', 'content', 'Not a draft');
+      await setProperty('post_3', 'title', 'Draft');
+      expect((await first).value.data).toEqual({ PostsChanged: { id: 'post_3', content: null } });
+
+      const second = stream.next();
+      await setProperty('post_2', 'content', 'Still not a draft');
+      await setProperty('post_3', 'content', 'Work in progress');
+      expect((await second).value.data).toEqual({
+        PostsChanged: { id: 'post_3', content: 'Work in progress' }
+      });
+      await stream.return?.();
+    });
+  });
+
   describe('Mutations', () => {
     it('should create deltas via mutation', async () => {
       const personSchema = createPersonSchema();
@@ -257,16 +760,48 @@ describe('GraphQL Integration', () => {
         mutation {
           createDelta(
             author: "alice"
-            pointers: "[{\\"role\\":\\"test\\",\\"target\\":\\"value\\"}]"
-          )
+            pointers: [
+              { role: "named", target: { id: "person_alice", context: "name" } }
+              { role: "name", target: { value: "Alice" } }
+            ]
+          ) {
+            id
+            author
+            pointers {
+              role
+              target {
+                ... on Reference { id context }
+                ... on PrimitiveValue { value }
+              }
+            }
+          }
         }
       `;
 
       const result = await graphql({ schema: gqlSchema, source: mutation });
 
       expect(result.errors).toBeUndefined();
-      expect(result.data?.createDelta).toBeDefined();
-      expect(typeof result.data?.createDelta).toBe('string'); // Delta ID
+      const created = (result.data as any).createDelta;
+      expect(created.author).toBe('alice');
+      expect(created.pointers).toEqual([
+        { role: 'named', target: { id: 'person_alice', context: 'name' } },
+        { role: 'name', target: { value: 'Alice' } }
+      ]);
+      expect((await db.getDeltas([created.id]))[0].pointers[1].target).toBe('Alice');
+    });
+
+    it('should reject pointers that are both a reference and a value', async () => {
+      const gqlSchema = createGraphQLSchema({ db, schemas, enableMutations: true });
+
+      const result = await graphql({
+        schema: gqlSchema,
+        source: `mutation { createDelta(author: "alice", pointers: [{ role: "x", target: { id: "a", value: 1 } }]) { id } }`
+      });
+
+      expect(result.errors?.[0].message).toBe(
+        "Pointer x target can't be both a value and a reference"
+      );
+      expect(db.getStats().totalDeltas).toBe(0);
     });
 
     it('should create typed objects via mutation', async () => {
@@ -334,6 +869,37 @@ describe('GraphQL Integration', () => {
       expect(result.errors).toBeUndefined();
       expect(result.data?.negateDelta).toBeDefined();
     });
+
+    it('should commit each update mutation as one transaction', async () => {
+      const postSchema = createPostSchema('post', 'Post');
+      schemas.set('post', postSchema);
+      db.registerSchema(postSchema);
+
+      const gqlSchema = createGraphQLSchema({
+        db,
+        schemas,
+        enableMutations: true
+      });
+
+      await graphql({
+        schema: gqlSchema,
+        source: `mutation { createPost(id: "post_1", author: "alice", input: { title: "Draft", content: "Hi" }) { id } }`
+      });
+
+      const batches: number[] = [];
+      db.subscribeBatches({}, deltas => {
+        batches.push(deltas.length);
+      });
+
+      const result = await graphql({
+        schema: gqlSchema,
+        source: `mutation { updatePost(id: "post_1", author: "alice", input: { title: "Final", content: "Hello" }) { id } }`
+      });
+
+      expect(result.errors).toBeUndefined();
+      // Two negations and two new values, published together
+      expect(batches).toEqual([4]);
+    });
   });
 
   describe('Full Stack Integration', () => {
@@ -22,20 +22,40 @@ import {
   GraphQLFieldConfig,
   GraphQLFieldConfigMap,
   GraphQLInputObjectType,
-  GraphQLInputFieldConfigMap
+  GraphQLInputFieldConfigMap,
+  GraphQLResolveInfo,
+  OperationTypeNode
 } from 'graphql';
 import { RhizomeDB } from '../storage/instance';
+import { HyperViewLoader } from '../schemas/hyperview-loader';
+import { getAllSchemaIds } from '../schemas/schemas-as-deltas';
 import {
   HyperSchema,
   HyperView,
   Delta,
   Pointer,
+  DeltaTransaction,
   ViewSchema,
   ResolutionStrategy,
   PrimitiveHyperSchema,
   isPrimitiveHyperSchema
 } from '../core/types';
 import { isDomainNodeReference } from '../core/validation';
+import { compareDeltas } from '../core/hlc';
+import {
+  ConnectionTypes,
+  createConnectionField,
+  createConnectionTypes
+} from './graphql-connections';
+import {
+  DeltaTypes,
+  PointerInputValue,
+  createDeltaQueryFields,
+  createDeltaTypes,
+  toDeltaFilter,
+  toPointer
+} from './graphql-deltas';
+import { createChangeSubscriptionFields, getPayloadLoader } from './graphql-subscriptions';
 
 /**
  * Configuration for GraphQL schema generation
@@ -60,25 +80,79 @@ export interface GraphQLConfig {
   enableSubscriptions?: boolean;
 }
 
+/**
+ * Finds the HyperView loader for the GraphQL request a resolver runs in
+ */
+type LoaderLookup = (context: unknown, info: GraphQLResolveInfo) => HyperViewLoader;
+
+/**
+ * Give each GraphQL request its own HyperView loader
+ *
+ * Requests are told apart by their context object, or by their coerced
+ * variable values (a new object for every execution) when they have none.
+ * Each subscription event shares its subscription's context, so events are
+ * told apart by their payload; change subscription events reuse the loader
+ * that built them.
+ */
+function createLoaderLookup(db: RhizomeDB): LoaderLookup {
+  const loaders = new WeakMap<object, HyperViewLoader>();
+
+  return (context, info) => {
+    let key: object =
+      typeof context === 'object' && context !== null ? context : info.variableValues;
+    if (
+      info.operation.operation === OperationTypeNode.SUBSCRIPTION &&
+      typeof info.rootValue === 'object'
+    ) {
+      const shared = getPayloadLoader(info.rootValue);
+      if (shared) {
+        return shared;
+      }
+      key = info.rootValue ?? key;
+    }
+    let loader = loaders.get(key);
+    if (!loader) {
+      loader = db.createHyperViewLoader();
+      loaders.set(key, loader);
+    }
+    return loader;
+  };
+}
+
 /**
  * Create a GraphQL schema from HyperSchemas
+ *
+ * Objects are built through a per-request HyperViewLoader, so sibling
+ * objects are constructed in one batch, and referenced objects are only
+ * built when a query selects them.
  */
 export function createGraphQLSchema(config: GraphQLConfig): GraphQLSchema {
-  const { db, schemas, viewSchemas = new Map(), customResolvers = {} } = config;
+  const { db, schemas, viewSchemas = new Map<string, ViewSchema>(), customResolvers = {} } = config;
+  const getLoader = createLoaderLookup(db);
+  const deltaTypes = createDeltaTypes();
 
   // Build GraphQL types from HyperSchemas
   const typeCache = new Map<string, GraphQLObjectType>();
 
   for (const [schemaId, hyperSchema] of schemas) {
-    const graphqlType = hyperSchemaToGraphQLType(hyperSchema, db, schemas, viewSchemas, typeCache);
+    const graphqlType = hyperSchemaToGraphQLType(
+      hyperSchema,
+      getLoader,
+      schemas,
+      viewSchemas,
+      typeCache
+    );
     typeCache.set(schemaId, graphqlType);
   }
 
   // Build Query type
   const queryFields: GraphQLFieldConfigMap<any, any> = {
+    ...createDeltaQueryFields(db, deltaTypes),
     ...customResolvers
   };
 
+  const connectionTypes = createConnectionTypes();
+
   // Add a query for each schema
   for (const [schemaId, hyperSchema] of schemas) {
     const graphqlType = typeCache.get(schemaId)!;
@@ -87,8 +161,8 @@ export function createGraphQLSchema(config: GraphQLConfig): GraphQLSchema {
       args: {
         id: { type: new GraphQLNonNull(GraphQLString) }
       },
-      resolve: (_source, { id }) => {
-        return resolveObject(id, hyperSchema, db, viewSchemas.get(schemaId));
+      resolve: (_source, { id }, context, info) => {
+        return resolveObject(getLoader(context, info), id, hyperSchema, viewSchemas.get(schemaId));
       }
     };
 
@@ -98,12 +172,25 @@ export function createGraphQLSchema(config: GraphQLConfig): GraphQLSchema {
       args: {
         ids: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)) }
       },
-      resolve: (_source, { ids }) => {
+      resolve: (_source, { ids }, context, info) => {
+        const loader = getLoader(context, info);
         return ids.map((id: string) =>
-          resolveObject(id, hyperSchema, db, viewSchemas.get(schemaId))
+          resolveObject(loader, id, hyperSchema, viewSchemas.get(schemaId))
         );
       }
     };
+
+    // Add a filtered, ordered and paginated list query
+    const viewSchema: ViewSchema | undefined = viewSchemas.get(schemaId);
+    queryFields[`all${hyperSchema.name}s`] = createConnectionField(
+      hyperSchema,
+      graphqlType,
+      db,
+      schemas,
+      connectionTypes,
+      getLoader,
+      hyperView => (viewSchema ? resolveView(hyperView, viewSchema) : hyperView)
+    );
   }
 
   const queryType = new GraphQLObjectType({
@@ -114,13 +201,20 @@ export function createGraphQLSchema(config: GraphQLConfig): GraphQLSchema {
   // Build Mutation type (if enabled)
   let mutationType: GraphQLObjectType | undefined;
   if (config.enableMutations) {
-    mutationType = createMutationType(db, schemas, typeCache);
+    mutationType = createMutationType(db, schemas, typeCache, getLoader, deltaTypes);
   }
 
   // Build Subscription type (if enabled)
   let subscriptionType: GraphQLObjectType | undefined;
   if (config.enableSubscriptions) {
-    subscriptionType = createSubscriptionType(db, schemas, typeCache);
+    subscriptionType = createSubscriptionType(
+      db,
+      schemas,
+      viewSchemas,
+      typeCache,
+      connectionTypes,
+      deltaTypes
+    );
   }
 
   return new GraphQLSchema({
@@ -135,7 +229,7 @@ export function createGraphQLSchema(config: GraphQLConfig): GraphQLSchema {
  */
 function hyperSchemaToGraphQLType(
   hyperSchema: HyperSchema,
-  db: RhizomeDB,
+  getLoader: LoaderLookup,
   allSchemas: Map<string, HyperSchema>,
   viewSchemas: Map<string, ViewSchema>,
   typeCache: Map<string, GraphQLObjectType>
@@ -191,7 +285,7 @@ function hyperSchemaToGraphQLType(
         if (referencedSchema) {
           const nestedType = hyperSchemaToGraphQLType(
             referencedSchema,
-            db,
+            getLoader,
             allSchemas,
             viewSchemas,
             typeCache
@@ -200,7 +294,7 @@ function hyperSchemaToGraphQLType(
           fieldMap[role] = {
             // Domain references can have multiple values, so use GraphQLList
             type: new GraphQLList(nestedType),
-            resolve: source => {
+            resolve: (source, _args, context, info) => {
               // Source should have this property from HyperView
               const property = source[role];
               if (!property || !Array.isArray(property)) return [];
@@ -208,17 +302,20 @@ function hyperSchemaToGraphQLType(
               const deltas = property as Delta[];
               if (deltas.length === 0) return [];
 
-              // Extract all nested objects from deltas' pointers
-              const targets = deltas
+              // Extract the referenced object IDs from deltas' pointers
+              const ids = deltas
                 .map(delta => {
                   const pointer = delta.pointers.find(
                     p => p.role === role && isDomainNodeReference(p.target)
                   );
                   return pointer?.target;
                 })
-                .filter(target => target !== undefined && target !== null);
+                .filter(target => target !== undefined && target !== null)
+                .map(target => (target as { id: string }).id);
 
-              return targets;
+              // Built only now that the query selects them, in one batch with
+              // the same field of sibling objects
+              return getLoader(context, info).loadMany(ids, referencedSchema);
             }
           };
         }
@@ -240,14 +337,14 @@ function hyperSchemaToGraphQLType(
 /**
  * Resolve an object by ID using HyperSchema
  */
-function resolveObject(
+async function resolveObject(
+  loader: HyperViewLoader,
   id: string,
   hyperSchema: HyperSchema,
-  db: RhizomeDB,
   viewSchema?: ViewSchema
-): any {
+): Promise<any> {
   // Apply HyperSchema to get HyperView
-  const hyperView = db.applyHyperSchema(id, hyperSchema);
+  const hyperView = await loader.load(id, hyperSchema);
 
   // If we have a ViewSchema, resolve to View
   if (viewSchema) {
@@ -302,11 +399,7 @@ function createInputType(
 
   for (const delta of sampleDeltas.slice(0, 100)) {
     for (const pointer of delta.pointers) {
-      if (
-        !isDomainNodeReference(pointer.target) &&
-        pointer.role &&
-        pointer.role !== 'id'
-      ) {
+      if (!isDomainNodeReference(pointer.target) && pointer.role && pointer.role !== 'id') {
         if (!discoveredFields.has(pointer.role)) {
           discoveredFields.set(pointer.role, pointer.target);
         }
@@ -345,14 +438,15 @@ function createInputType(
 }
 
 /**
- * Find and negate existing deltas for a property on an object
+ * Find existing deltas for a property on an object and stage their negation
  */
-async function negateExistingProperty(
+function negateExistingProperty(
   db: RhizomeDB,
+  tx: DeltaTransaction,
   author: string,
   objectId: string,
   propertyName: string
-): Promise<void> {
+): void {
   // Query for existing deltas with this property
   const existingDeltas = db.queryDeltas({
     targetIds: [objectId],
@@ -368,8 +462,7 @@ async function negateExistingProperty(
 
   // Negate each existing delta
   for (const delta of existingDeltas) {
-    const negation = db.negateDelta(author, delta.id, `Overwriting ${propertyName}`);
-    await db.persistDelta(negation);
+    tx.negateDelta(author, delta.id, `Overwriting ${propertyName}`);
   }
 }
 
@@ -379,20 +472,23 @@ async function negateExistingProperty(
 function createMutationType(
   db: RhizomeDB,
   schemas: Map<string, HyperSchema>,
-  typeCache: Map<string, GraphQLObjectType>
+  typeCache: Map<string, GraphQLObjectType>,
+  getLoader: LoaderLookup,
+  deltaTypes: DeltaTypes
 ): GraphQLObjectType {
   const fields: GraphQLFieldConfigMap<any, any> = {
     createDelta: {
-      type: GraphQLString, // Returns delta ID
+      type: new GraphQLNonNull(deltaTypes.delta),
       args: {
         author: { type: new GraphQLNonNull(GraphQLString) },
-        pointers: { type: new GraphQLNonNull(GraphQLString) } // JSON string
+        pointers: {
+          type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(deltaTypes.pointerInput)))
+        }
       },
       resolve: async (_source, { author, pointers }) => {
-        const parsedPointers = JSON.parse(pointers) as Pointer[];
-        const delta = db.createDelta(author, parsedPointers);
+        const delta = db.createDelta(author, (pointers as PointerInputValue[]).map(toPointer));
         await db.persistDelta(delta);
-        return delta.id;
+        return delta;
       }
     },
 
@@ -427,30 +523,33 @@ function createMutationType(
         author: { type: new GraphQLNonNull(GraphQLString) },
         input: { type: new GraphQLNonNull(inputType) } // Proper input type!
       },
-      resolve: async (_source, { id, author, input }) => {
+      resolve: async (_source, { id, author, input }, context, info) => {
         const objectId = id || db.createDelta(author, []).id; // Use delta ID as object ID
 
-        // Create deltas for each property
-        for (const [key, value] of Object.entries(input)) {
-          if (value === null || value === undefined) continue;
-
-          const pointers: Pointer[] = [
-            {
-              role: key.replace(/^_/, ''), // Remove leading underscore if any
-              target: { id: objectId, context: key }
-            },
-            {
-              role: key,
-              target: value as any
-            }
-          ];
+        // Create deltas for each property, committed together
+        await db.transaction(tx => {
+          for (const [key, value] of Object.entries(input)) {
+            if (value === null || value === undefined) continue;
+
+            const pointers: Pointer[] = [
+              {
+                role: key.replace(/^_/, ''), // Remove leading underscore if any
+                target: { id: objectId, context: key }
+              },
+              {
+                role: key,
+                target: value as any
+              }
+            ];
 
-          const delta = db.createDelta(author, pointers);
-          await db.persistDelta(delta);
-        }
+            tx.createDelta(author, pointers);
+          }
+        });
 
-        // Return the created object
-        return resolveObject(objectId, hyperSchema, db);
+        // Return the created object, seeing the new deltas
+        const loader = getLoader(context, info);
+        loader.clear();
+        return resolveObject(loader, objectId, hyperSchema);
       }
     };
 
@@ -462,32 +561,36 @@ function createMutationType(
         author: { type: new GraphQLNonNull(GraphQLString) },
         input: { type: new GraphQLNonNull(inputType) }
       },
-      resolve: async (_source, { id, author, input }) => {
-        // For each property being updated, negate existing values first
-        for (const [key, value] of Object.entries(input)) {
-          if (value === null || value === undefined) continue;
-
-          // Negate existing property deltas
-          await negateExistingProperty(db, author, id, key);
-
-          // Create new delta with new value
-          const pointers: Pointer[] = [
-            {
-              role: key.replace(/^_/, ''),
-              target: { id, context: key }
-            },
-            {
-              role: key,
-              target: value as any
-            }
-          ];
+      resolve: async (_source, { id, author, input }, context, info) => {
+        // For each property being updated, negate existing values first;
+        // negations and new values are committed together
+        await db.transaction(tx => {
+          for (const [key, value] of Object.entries(input)) {
+            if (value === null || value === undefined) continue;
+
+            // Negate existing property deltas
+            negateExistingProperty(db, tx, author, id, key);
+
+            // Create new delta with new value
+            const pointers: Pointer[] = [
+              {
+                role: key.replace(/^_/, ''),
+                target: { id, context: key }
+              },
+              {
+                role: key,
+                target: value as any
+              }
+            ];
 
-          const delta = db.createDelta(author, pointers);
-          await db.persistDelta(delta);
-        }
+            tx.createDelta(author, pointers);
+          }
+        });
 
-        // Return the updated object
-        return resolveObject(id, hyperSchema, db);
+        // Return the updated object, seeing the new deltas
+        const loader = getLoader(context, info);
+        loader.clear();
+        return resolveObject(loader, id, hyperSchema);
       }
     };
   }
@@ -500,33 +603,45 @@ function createMutationType(
 
 /**
  * Create Subscription type
+ *
+ * Besides `deltaCreated`, each schema gets change subscriptions that push
+ * re-resolved objects (see graphql-subscriptions).
  */
 function createSubscriptionType(
   db: RhizomeDB,
   schemas: Map<string, HyperSchema>,
-  typeCache: Map<string, GraphQLObjectType>
+  viewSchemas: Map<string, ViewSchema>,
+  typeCache: Map<string, GraphQLObjectType>,
+  connectionTypes: ConnectionTypes,
+  deltaTypes: DeltaTypes
 ): GraphQLObjectType {
-  const DeltaType = new GraphQLObjectType({
-    name: 'Delta',
-    fields: {
-      id: { type: new GraphQLNonNull(GraphQLString) },
-      timestamp: { type: new GraphQLNonNull(GraphQLInt) },
-      author: { type: new GraphQLNonNull(GraphQLString) },
-      system: { type: new GraphQLNonNull(GraphQLString) },
-      pointers: { type: new GraphQLNonNull(GraphQLString) } // JSON string
-    }
-  });
+  const changeFields: GraphQLFieldConfigMap<any, any> = {};
+  for (const [schemaId, hyperSchema] of schemas) {
+    const viewSchema: ViewSchema | undefined = viewSchemas.get(schemaId);
+    Object.assign(
+      changeFields,
+      createChangeSubscriptionFields(
+        hyperSchema,
+        typeCache.get(schemaId)!,
+        db,
+        schemas,
+        connectionTypes,
+        hyperView => (viewSchema ? resolveView(hyperView, viewSchema) : hyperView)
+      )
+    );
+  }
 
   return new GraphQLObjectType({
     name: 'Subscription',
     fields: {
+      ...changeFields,
       deltaCreated: {
-        type: DeltaType,
+        type: new GraphQLNonNull(deltaTypes.delta),
         args: {
-          filter: { type: GraphQLString } // JSON filter
+          filter: { type: deltaTypes.deltaFilterInput }
         },
         subscribe: async function* (_source, { filter }) {
-          const parsedFilter = filter ? JSON.parse(filter) : {};
+          const parsedFilter = toDeltaFilter(filter);
 
           // Create an async generator that yields deltas
           const deltaQueue: Delta[] = [];
@@ -553,12 +668,7 @@ function createSubscriptionType(
                 });
               }
 
-              yield {
-                deltaCreated: {
-                  ...delta,
-                  pointers: JSON.stringify(delta.pointers)
-                }
-              };
+              yield { deltaCreated: delta };
             }
           } finally {
             subscription.unsubscribe();
@@ -575,7 +685,7 @@ function createSubscriptionType(
 function createSimpleViewSchema(fields: string[]): ViewSchema {
   const mostRecent: ResolutionStrategy = deltas => {
     if (deltas.length === 0) return null;
-    return deltas.sort((a, b) => b.timestamp - a.timestamp)[0];
+    return deltas.sort((a, b) => compareDeltas(b, a))[0];
   };
 
   const properties: ViewSchema['properties'] = {};
@@ -635,7 +745,8 @@ export function createGraphQLSchemaFromDeltas(
  * Watch for schema changes and regenerate GraphQL schema
  *
  * Returns a function that can be called to check if schemas have changed
- * and regenerate the GraphQL schema if needed.
+ * and regenerate the GraphQL schema if needed. Schema IDs are looked up on
+ * every check, so schemas defined after creation are picked up too.
  *
  * @param config - GraphQL config
  * @returns Object with current schema and regenerate function
@@ -648,42 +759,23 @@ export function createDynamicGraphQLSchema(
   checkForChanges: () => boolean;
 } {
   let currentSchema = createGraphQLSchemaFromDeltas(config);
-  const schemaVersions = new Map<string, string>();
-
-  // Track current versions
-  const allSchemaIds = config.db.loadAllSchemasFromDeltas().map(s => s.id);
-  for (const schemaId of allSchemaIds) {
-    const snapshot = config.db.getSchemaSnapshot(schemaId);
-    if (snapshot) {
-      schemaVersions.set(schemaId, snapshot.version);
-    }
-  }
 
   return {
     getSchema: () => currentSchema,
 
     checkForChanges: () => {
       // Check if any schema has changed
-      for (const schemaId of allSchemaIds) {
-        if (config.db.hasSchemaChanged(schemaId)) {
-          return true;
-        }
-      }
-      return false;
+      return getAllSchemaIds(config.db).some(schemaId => config.db.hasSchemaChanged(schemaId));
     },
 
     regenerate: () => {
       // Check for changes
       let hasChanges = false;
 
-      for (const schemaId of allSchemaIds) {
+      for (const schemaId of getAllSchemaIds(config.db)) {
         if (config.db.hasSchemaChanged(schemaId)) {
           hasChanges = true;
           config.db.reloadSchemaIfChanged(schemaId);
-          const snapshot = config.db.getSchemaSnapshot(schemaId);
-          if (snapshot) {
-            schemaVersions.set(schemaId, snapshot.version);
-          }
         }
       }
 
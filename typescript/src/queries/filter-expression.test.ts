@@ -0,0 +1,244 @@
+/**
+ * Tests for declarative delta filter expressions
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { DeltaIndexes } from '../storage/delta-indexes';
+import { Delta, DeltaFilterExpression } from '../core/types';
+import { ValidationError } from '../core/validation';
+import {
+  compileFilterExpression,
+  matchesComparison,
+  matchesDeltaFilter,
+  matchesFilterExpression,
+  parseDeltaFilter,
+  validateFilterExpression
+} from './filter-expression';
+
+describe('Filter Expressions', () => {
+  let db: RhizomeDB;
+  let nameDelta: Delta;
+  let ageDelta: Delta;
+  let friendDelta: Delta;
+
+  beforeEach(async () => {
+    db = new RhizomeDB({ storage: 'memory' });
+
+    nameDelta = db.createDelta('alice', [
+      { role: 'person', target: { id: 'user_1', context: 'name' } },
+      { role: 'name', target: 'Alice' }
+    ]);
+    ageDelta = db.createDelta('bob', [
+      { role: 'person', target: { id: 'user_1', context: 'age' } },
+      { role: 'age', target: 30 }
+    ]);
+    friendDelta = db.createDelta('alice', [
+      { role: 'person', target: { id: 'user_1', context: 'friends' } },
+      { role: 'friend', target: { id: 'user_2' } }
+    ]);
+
+    await db.persistDelta(nameDelta);
+    await db.persistDelta(ageDelta);
+    await db.persistDelta(friendDelta);
+  });
+
+  describe('Comparisons', () => {
+    it('should treat a bare primitive as equality', () => {
+      expect(matchesComparison('a', 'a')).toBe(true);
+      expect(matchesComparison('a', 'b')).toBe(false);
+    });
+
+    it('should require every operator to hold', () => {
+      expect(matchesComparison(5, { gt: 1, lte: 5 })).toBe(true);
+      expect(matchesComparison(5, { gt: 1, lt: 5 })).toBe(false);
+      expect(matchesComparison('b', { in: ['a', 'b'], ne: 'c' })).toBe(true);
+    });
+
+    it('should not order values of different types', () => {
+      expect(matchesComparison('10', { gt: 5 })).toBe(false);
+      expect(matchesComparison(true, { gte: 0 })).toBe(false);
+    });
+
+    it('should never match undefined values', () => {
+      expect(matchesComparison(undefined, { ne: 'x' })).toBe(false);
+    });
+  });
+
+  describe('Evaluation', () => {
+    it('should match delta fields', () => {
+      const expr: DeltaFilterExpression = { field: 'author', is: 'alice' };
+      expect(matchesFilterExpression(nameDelta, expr)).toBe(true);
+      expect(matchesFilterExpression(ageDelta, expr)).toBe(false);
+    });
+
+    it('should match pointers by role and primitive value', () => {
+      const expr: DeltaFilterExpression = { pointer: { role: 'age', value: { gte: 18 } } };
+      expect(matchesFilterExpression(ageDelta, expr)).toBe(true);
+      expect(matchesFilterExpression(nameDelta, expr)).toBe(false);
+    });
+
+    it('should require all pointer conditions to hold on the same pointer', () => {
+      const expr: DeltaFilterExpression = { pointer: { role: 'friend', context: 'friends' } };
+      expect(matchesFilterExpression(friendDelta, expr)).toBe(false);
+    });
+
+    it('should combine expressions with and/or/not', () => {
+      const expr: DeltaFilterExpression = {
+        and: [
+          {
+            or: [
+              { field: 'author', is: 'alice' },
+              { field: 'author', is: 'bob' }
+            ]
+          },
+          { not: { pointer: { context: 'friends' } } }
+        ]
+      };
+
+      const matched = [nameDelta, ageDelta, friendDelta].filter(compileFilterExpression(expr));
+      expect(matched).toEqual([nameDelta, ageDelta]);
+    });
+
+    it('should survive JSON round-trips', () => {
+      const expr: DeltaFilterExpression = {
+        pointer: { targetId: 'user_1', context: { in: ['name', 'age'] } }
+      };
+      const restored = JSON.parse(JSON.stringify(expr)) as unknown;
+
+      const matched = [nameDelta, ageDelta, friendDelta].filter(compileFilterExpression(restored));
+      expect(matched).toEqual([nameDelta, ageDelta]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject unknown operators and fields', () => {
+      expect(() => validateFilterExpression({ xor: [] })).toThrow(ValidationError);
+      expect(() => validateFilterExpression({ field: 'pointers', is: 'x' })).toThrow(
+        ValidationError
+      );
+      expect(() => validateFilterExpression({ field: 'author', is: { like: 'a%' } })).toThrow(
+        /unknown comparison operator/
+      );
+    });
+
+    it('should reject nodes with more than one operator', () => {
+      expect(() =>
+        validateFilterExpression({ not: { field: 'id', is: 'x' }, field: 'id', is: 'x' })
+      ).toThrow(ValidationError);
+    });
+
+    it('should report the path of nested errors', () => {
+      expect(() => validateFilterExpression({ and: [{ pointer: { bogus: 1 } }] })).toThrow(
+        'where.and[0].pointer has unknown key: bogus'
+      );
+    });
+  });
+
+  describe('parseDeltaFilter', () => {
+    it('should parse JSON filters with expressions', () => {
+      const filter = parseDeltaFilter(
+        JSON.stringify({ authors: ['alice'], where: { pointer: { role: 'name' } } })
+      );
+
+      expect(filter).toEqual({ authors: ['alice'], where: { pointer: { role: 'name' } } });
+    });
+
+    it('should drop keys that cannot be honoured', () => {
+      expect(parseDeltaFilter({ predicate: 'x', unknown: true })).toEqual({});
+    });
+
+    it('should reject malformed filters', () => {
+      expect(() => parseDeltaFilter('{not json')).toThrow(ValidationError);
+      expect(() => parseDeltaFilter({ authors: 'alice' })).toThrow(ValidationError);
+      expect(() => parseDeltaFilter({ where: { and: 'x' } })).toThrow(ValidationError);
+    });
+  });
+
+  describe('matchesDeltaFilter', () => {
+    it('should agree with queryDeltas for single deltas', () => {
+      const filters = [
+        { authors: ['alice'] },
+        { targetIds: ['user_2'] },
+        { targetContexts: ['name', 'age'] },
+        { authors: ['alice'], where: { pointer: { role: 'friend' } } },
+        { timestampRange: { end: nameDelta.timestamp - 1 } },
+        { predicate: (delta: Delta) => delta.id === ageDelta.id }
+      ];
+
+      for (const filter of filters) {
+        const matching = [nameDelta, ageDelta, friendDelta]
+          .filter(delta => matchesDeltaFilter(delta, filter))
+          .map(delta => delta.id);
+        expect(matching.sort()).toEqual(
+          db
+            .queryDeltas(filter)
+            .map(delta => delta.id)
+            .sort()
+        );
+      }
+    });
+  });
+
+  describe('Queries', () => {
+    it('should filter queryDeltas by expression', () => {
+      const results = db.queryDeltas({
+        where: { pointer: { targetId: 'user_1', context: { ne: 'friends' } } }
+      });
+
+      expect(results.map(d => d.id).sort()).toEqual([nameDelta.id, ageDelta.id].sort());
+    });
+
+    it('should filter subscriptions by expression', async () => {
+      const received: Delta[] = [];
+      const subscription = db.subscribe({ where: { field: 'author', is: 'carol' } }, delta => {
+        received.push(delta);
+      });
+
+      await db.persistDelta(db.createDelta('alice', [{ role: 'x', target: 1 }]));
+      await db.persistDelta(db.createDelta('carol', [{ role: 'x', target: 2 }]));
+
+      expect(received).toHaveLength(1);
+      expect(received[0].author).toBe('carol');
+
+      subscription.unsubscribe();
+    });
+  });
+
+  describe('Index planning', () => {
+    let indexes: DeltaIndexes;
+
+    beforeEach(() => {
+      indexes = new DeltaIndexes();
+      for (const delta of [nameDelta, ageDelta, friendDelta]) {
+        indexes.addDelta(delta);
+      }
+    });
+
+    it('should narrow candidates using indexed fields', () => {
+      const ids = indexes.queryDeltaIds({
+        where: { and: [{ field: 'author', is: 'alice' }, { pointer: { context: 'name' } }] }
+      });
+
+      expect(ids).toEqual(new Set([nameDelta.id]));
+    });
+
+    it('should union candidates for or when every branch is indexed', () => {
+      const ids = indexes.queryDeltaIds({
+        where: { or: [{ pointer: { context: 'age' } }, { pointer: { targetId: 'user_2' } }] }
+      });
+
+      expect(ids).toEqual(new Set([ageDelta.id, friendDelta.id]));
+    });
+
+    it('should fall back to a scan when the expression is not indexable', () => {
+      expect(indexes.queryDeltaIds({ where: { not: { field: 'author', is: 'alice' } } })).toBe(
+        null
+      );
+      expect(
+        indexes.queryDeltaIds({
+          where: { or: [{ field: 'author', is: 'alice' }, { pointer: { role: 'age' } }] }
+        })
+      ).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,452 @@
+/**
+ * Declarative delta filter expressions
+ *
+ * A DeltaFilterExpression is a JSON-serializable alternative to
+ * DeltaFilter.predicate. Expressions can be sent over the wire, stored, and
+ * inspected by the indexes for query planning, then compiled to a predicate
+ * for the final match.
+ */
+
+import {
+  Delta,
+  DeltaFilter,
+  DeltaFilterExpression,
+  Pointer,
+  PointerMatch,
+  Primitive,
+  PrimitiveComparison
+} from '../core/types';
+import {
+  ValidationError,
+  isDomainNodeReference,
+  isPrimitive,
+  isReference
+} from '../core/validation';
+
+const FILTER_FIELDS = ['id', 'author', 'system', 'timestamp'];
+const COMPARISON_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'];
+const POINTER_MATCH_KEYS = ['role', 'targetId', 'context', 'value'];
+const EXPRESSION_KEYS = ['and', 'or', 'not', 'field', 'pointer'];
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function isComparison(value: unknown): value is PrimitiveComparison {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOrdered(actual: Primitive, bound: number | string): boolean {
+  return typeof actual === typeof bound && typeof actual !== 'boolean';
+}
+
+/**
+ * Check a value against a primitive or a comparison
+ *
+ * A bare primitive is shorthand for `{ eq: value }`. Undefined values (e.g.
+ * the context of a Reference that has none) never match.
+ */
+export function matchesComparison(
+  actual: Primitive | undefined,
+  condition: Primitive | PrimitiveComparison
+): boolean {
+  if (actual === undefined) {
+    return false;
+  }
+
+  if (!isComparison(condition)) {
+    return actual === condition;
+  }
+
+  if (condition.eq !== undefined && actual !== condition.eq) return false;
+  if (condition.ne !== undefined && actual === condition.ne) return false;
+  if (condition.in !== undefined && !condition.in.includes(actual)) return false;
+
+  if (condition.gt !== undefined && !(isOrdered(actual, condition.gt) && actual > condition.gt)) {
+    return false;
+  }
+  if (
+    condition.gte !== undefined &&
+    !(isOrdered(actual, condition.gte) && actual >= condition.gte)
+  ) {
+    return false;
+  }
+  if (condition.lt !== undefined && !(isOrdered(actual, condition.lt) && actual < condition.lt)) {
+    return false;
+  }
+  if (
+    condition.lte !== undefined &&
+    !(isOrdered(actual, condition.lte) && actual <= condition.lte)
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+function matchesPointer(pointer: Pointer, match: PointerMatch): boolean {
+  if (match.role !== undefined && !matchesComparison(pointer.role, match.role)) {
+    return false;
+  }
+
+  if (match.targetId !== undefined || match.context !== undefined) {
+    if (!isReference(pointer.target)) {
+      return false;
+    }
+    if (match.targetId !== undefined && !matchesComparison(pointer.target.id, match.targetId)) {
+      return false;
+    }
+    if (match.context !== undefined && !matchesComparison(pointer.target.context, match.context)) {
+      return false;
+    }
+  }
+
+  if (match.value !== undefined) {
+    if (isReference(pointer.target)) {
+      return false;
+    }
+    return matchesComparison(pointer.target, match.value);
+  }
+
+  return true;
+}
+
+/**
+ * Evaluate a filter expression against a delta
+ *
+ * Assumes the expression is well-formed; use compileFilterExpression for
+ * expressions from untrusted input.
+ */
+export function matchesFilterExpression(delta: Delta, expression: DeltaFilterExpression): boolean {
+  if ('and' in expression) {
+    return expression.and.every(child => matchesFilterExpression(delta, child));
+  }
+
+  if ('or' in expression) {
+    return expression.or.some(child => matchesFilterExpression(delta, child));
+  }
+
+  if ('not' in expression) {
+    return !matchesFilterExpression(delta, expression.not);
+  }
+
+  if ('field' in expression) {
+    return matchesComparison(delta[expression.field], expression.is);
+  }
+
+  return delta.pointers.some(pointer => matchesPointer(pointer, expression.pointer));
+}
+
+/**
+ * Check a single delta against a DeltaFilter
+ *
+ * Covers every field that depends only on the delta itself; `includeNegated`
+ * needs a store and is ignored.
+ */
+export function matchesDeltaFilter(delta: Delta, filter: DeltaFilter): boolean {
+  if (filter.ids && !filter.ids.includes(delta.id)) {
+    return false;
+  }
+
+  if (filter.authors && !filter.authors.includes(delta.author)) {
+    return false;
+  }
+
+  if (filter.systems && !filter.systems.includes(delta.system)) {
+    return false;
+  }
+
+  if (filter.timestampRange) {
+    const { start, end } = filter.timestampRange;
+    if (start !== undefined && delta.timestamp < start) {
+      return false;
+    }
+    if (end !== undefined && delta.timestamp > end) {
+      return false;
+    }
+  }
+
+  if (
+    filter.targetIds &&
+    !delta.pointers.some(
+      p => isDomainNodeReference(p.target) && filter.targetIds!.includes(p.target.id)
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    filter.targetContexts &&
+    !delta.pointers.some(
+      p =>
+        isReference(p.target) &&
+        p.target.context !== undefined &&
+        filter.targetContexts!.includes(p.target.context)
+    )
+  ) {
+    return false;
+  }
+
+  if (filter.where && !matchesFilterExpression(delta, filter.where)) {
+    return false;
+  }
+
+  if (filter.predicate && !filter.predicate(delta)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate a filter expression and compile it to a predicate
+ *
+ * @throws ValidationError if the expression is malformed
+ */
+export function compileFilterExpression(expression: unknown): (delta: Delta) => boolean {
+  validateFilterExpression(expression);
+  return (delta: Delta) => matchesFilterExpression(delta, expression);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateComparison(value: unknown, path: string): void {
+  if (isPrimitive(value)) {
+    return;
+  }
+
+  if (!isComparison(value)) {
+    throw new ValidationError(`${path} must be a primitive or a comparison object`);
+  }
+
+  const operators = Object.keys(value);
+  if (operators.length === 0) {
+    throw new ValidationError(`${path} must specify at least one comparison operator`);
+  }
+
+  for (const operator of operators) {
+    const operand = (value as Record<string, unknown>)[operator];
+
+    if (!COMPARISON_OPERATORS.includes(operator)) {
+      throw new ValidationError(`${path} has unknown comparison operator: ${operator}`);
+    }
+
+    if (operator === 'in') {
+      if (!Array.isArray(operand) || !operand.every(isPrimitive)) {
+        throw new ValidationError(`${path}.in must be an array of primitives`);
+      }
+    } else if (operator === 'eq' || operator === 'ne') {
+      if (!isPrimitive(operand)) {
+        throw new ValidationError(`${path}.${operator} must be a primitive`);
+      }
+    } else if (typeof operand !== 'number' && typeof operand !== 'string') {
+      throw new ValidationError(`${path}.${operator} must be a number or string`);
+    }
+  }
+}
+
+function validatePointerMatch(value: unknown, path: string): void {
+  if (!isComparison(value)) {
+    throw new ValidationError(`${path} must be an object`);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!POINTER_MATCH_KEYS.includes(key)) {
+      throw new ValidationError(`${path} has unknown key: ${key}`);
+    }
+    validateComparison((value as Record<string, unknown>)[key], `${path}.${key}`);
+  }
+}
+
+/**
+ * Validate that a value is a well-formed DeltaFilterExpression
+ *
+ * @param expression - The value to validate (typically parsed JSON)
+ * @param path - Location used in error messages
+ * @throws ValidationError if the expression is malformed
+ */
+export function validateFilterExpression(
+  expression: unknown,
+  path: string = 'where'
+): asserts expression is DeltaFilterExpression {
+  if (!isComparison(expression)) {
+    throw new ValidationError(`${path} must be an object`);
+  }
+
+  const node = expression as Record<string, unknown>;
+  const operators = Object.keys(node).filter(key => EXPRESSION_KEYS.includes(key));
+
+  if (operators.length !== 1) {
+    throw new ValidationError(`${path} must have exactly one of: ${EXPRESSION_KEYS.join(', ')}`);
+  }
+
+  switch (operators[0]) {
+    case 'and':
+    case 'or': {
+      const children = node[operators[0]];
+      if (!Array.isArray(children)) {
+        throw new ValidationError(`${path}.${operators[0]} must be an array`);
+      }
+      children.forEach((child, i) =>
+        validateFilterExpression(child, `${path}.${operators[0]}[${i}]`)
+      );
+      break;
+    }
+
+    case 'not':
+      validateFilterExpression(node.not, `${path}.not`);
+      break;
+
+    case 'field':
+      if (typeof node.field !== 'string' || !FILTER_FIELDS.includes(node.field)) {
+        throw new ValidationError(`${path}.field must be one of: ${FILTER_FIELDS.join(', ')}`);
+      }
+      if (node.is === undefined) {
+        throw new ValidationError(`${path}.is is required`);
+      }
+      validateComparison(node.is, `${path}.is`);
+      break;
+
+    case 'pointer':
+      validatePointerMatch(node.pointer, `${path}.pointer`);
+      break;
+  }
+}
+
+// ============================================================================
+// Wire format
+// ============================================================================
+
+function validateStringArray(value: unknown, name: string): void {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new ValidationError(`${name} must be an array of strings`);
+  }
+}
+
+/**
+ * Parse a DeltaFilter received as JSON (or already-parsed JSON)
+ *
+ * Validates every field, including the `where` expression. Unknown keys and
+ * `predicate` are dropped, since functions cannot cross the wire.
+ *
+ * @throws ValidationError if the filter is malformed
+ */
+export function parseDeltaFilter(input: unknown): DeltaFilter {
+  let raw: unknown = input;
+
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new ValidationError('Delta filter is not valid JSON');
+    }
+  }
+
+  if (!isComparison(raw)) {
+    throw new ValidationError('Delta filter must be an object');
+  }
+
+  const source = raw as Record<string, unknown>;
+  const filter: DeltaFilter = {};
+
+  for (const key of ['ids', 'targetIds', 'targetContexts', 'authors', 'systems'] as const) {
+    if (source[key] !== undefined) {
+      validateStringArray(source[key], key);
+      filter[key] = source[key] as string[];
+    }
+  }
+
+  if (source.timestampRange !== undefined) {
+    const range = source.timestampRange as Record<string, unknown>;
+    if (
+      !isComparison(range) ||
+      (range.start !== undefined && typeof range.start !== 'number') ||
+      (range.end !== undefined && typeof range.end !== 'number')
+    ) {
+      throw new ValidationError('timestampRange must be { start?: number, end?: number }');
+    }
+    filter.timestampRange = range as DeltaFilter['timestampRange'];
+  }
+
+  if (source.includeNegated !== undefined) {
+    if (typeof source.includeNegated !== 'boolean') {
+      throw new ValidationError('includeNegated must be a boolean');
+    }
+    filter.includeNegated = source.includeNegated;
+  }
+
+  if (source.where !== undefined) {
+    validateFilterExpression(source.where);
+    filter.where = source.where;
+  }
+
+  return filter;
+}
+
+// ============================================================================
+// Index planning helpers
+// ============================================================================
+
+/**
+ * Get the finite set of values a condition can match, if it has one
+ *
+ * @returns The allowed values (from a bare primitive, `eq` or `in`), or null
+ * if the condition is open-ended
+ */
+export function getComparisonValues(
+  condition: Primitive | PrimitiveComparison | undefined
+): Primitive[] | null {
+  if (condition === undefined) {
+    return null;
+  }
+
+  if (!isComparison(condition)) {
+    return [condition];
+  }
+
+  if (condition.eq !== undefined) {
+    return [condition.eq];
+  }
+
+  if (condition.in !== undefined) {
+    return condition.in;
+  }
+
+  return null;
+}
+
+/**
+ * Get the inclusive numeric range a condition is confined to, if any
+ *
+ * Exclusive bounds are widened to inclusive ones, so the result is a superset
+ * of the matching values.
+ */
+export function getComparisonRange(
+  condition: Primitive | PrimitiveComparison
+): { start?: number; end?: number } | null {
+  if (typeof condition === 'number') {
+    return { start: condition, end: condition };
+  }
+
+  if (!isComparison(condition)) {
+    return null;
+  }
+
+  const range: { start?: number; end?: number } = {};
+
+  for (const bound of [condition.eq, condition.gt, condition.gte]) {
+    if (typeof bound === 'number') {
+      range.start = range.start === undefined ? bound : Math.max(range.start, bound);
+    }
+  }
+
+  for (const bound of [condition.eq, condition.lt, condition.lte]) {
+    if (typeof bound === 'number') {
+      range.end = range.end === undefined ? bound : Math.min(range.end, bound);
+    }
+  }
+
+  return range.start === undefined && range.end === undefined ? null : range;
+}
@@ -0,0 +1,233 @@
+/**
+ * Tests for multi-root HyperView queries
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { LevelDBStore } from '../storage/leveldb-store';
+import { Delta, HyperSchema, HyperView, Pointer } from '../core/types';
+import { createStandardSchema } from '../schemas/hyperview';
+import { matchesPropertyConstraint, resolvePropertyValue, sortHyperViews } from './hyperview-query';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const personSchema: HyperSchema = createStandardSchema('person_schema', 'Person');
+const movieSchema: HyperSchema = createStandardSchema('movie_schema', 'Movie', {
+  director: { schema: 'person_schema' }
+});
+
+const movies = [
+  { id: 'movie_matrix', title: 'The Matrix', year: 1999, director: 'person_lana' },
+  { id: 'movie_speed', title: 'Speed', year: 1994, director: 'person_jan' },
+  { id: 'movie_point_break', title: 'Point Break', year: 1991, director: 'person_kathryn' },
+  { id: 'movie_john_wick', title: 'John Wick', year: 2014, director: 'person_chad' },
+  { id: 'movie_untitled', title: 'Untitled', director: 'person_lana' }
+];
+
+function movieDeltaPointers(): Pointer[][] {
+  const pointers: Pointer[][] = [];
+
+  for (const movie of movies) {
+    pointers.push([
+      { role: 'movie', target: { id: movie.id, context: 'title' } },
+      { role: 'title', target: movie.title }
+    ]);
+    if (movie.year !== undefined) {
+      pointers.push([
+        { role: 'released', target: { id: movie.id, context: 'year' } },
+        { role: 'year', target: movie.year }
+      ]);
+    }
+    pointers.push([
+      { role: 'directed', target: { id: movie.id, context: 'director' } },
+      { role: 'director', target: { id: movie.director, context: 'directed' } }
+    ]);
+  }
+
+  pointers.push([
+    { role: 'person', target: { id: 'person_lana', context: 'name' } },
+    { role: 'name', target: 'Lana Wachowski' }
+  ]);
+
+  return pointers;
+}
+
+describe('Multi-root HyperView Queries', () => {
+  describe('Constraint evaluation', () => {
+    it('should treat primitives as equality and between as inclusive', () => {
+      expect(matchesPropertyConstraint('a', 'a')).toBe(true);
+      expect(matchesPropertyConstraint(1990, { between: [1990, 1999] })).toBe(true);
+      expect(matchesPropertyConstraint(2000, { between: [1990, 1999] })).toBe(false);
+    });
+
+    it('should support exists', () => {
+      expect(matchesPropertyConstraint(undefined, { exists: false })).toBe(true);
+      expect(matchesPropertyConstraint(5, { exists: false })).toBe(false);
+      expect(matchesPropertyConstraint(5, { exists: true, gt: 1 })).toBe(true);
+    });
+
+    it('should resolve properties from the most recent delta', () => {
+      const hyperView: HyperView = {
+        id: 'm1',
+        year: [
+          {
+            id: 'd1',
+            timestamp: 1,
+            author: 'a',
+            system: 's',
+            pointers: [{ role: 'year', target: 1998 }]
+          },
+          {
+            id: 'd2',
+            timestamp: 2,
+            author: 'a',
+            system: 's',
+            pointers: [{ role: 'year', target: 1999 }]
+          }
+        ]
+      };
+
+      expect(resolvePropertyValue(hyperView, 'year')).toBe(1999);
+      expect(resolvePropertyValue(hyperView, 'title')).toBeUndefined();
+      expect(resolvePropertyValue(hyperView, 'id')).toBe('m1');
+    });
+
+    it('should sort missing values last in either direction', () => {
+      const views: HyperView[] = [{ id: 'b' }, { id: 'a' }];
+      expect(sortHyperViews(views, { property: 'year', direction: 'desc' }).map(v => v.id)).toEqual(
+        ['a', 'b']
+      );
+    });
+  });
+
+  describe('RhizomeDB', () => {
+    let db: RhizomeDB;
+
+    beforeEach(async () => {
+      db = new RhizomeDB({ storage: 'memory' });
+      db.registerSchema(personSchema);
+
+      for (const pointers of movieDeltaPointers()) {
+        await db.persistDelta(db.createDelta('seed', pointers));
+      }
+    });
+
+    it('should find all objects matching a range constraint', () => {
+      const views = db.findHyperViews(movieSchema, { year: { between: [1990, 1999] } });
+
+      expect(views.map(v => v.id)).toEqual(['movie_matrix', 'movie_point_break', 'movie_speed']);
+    });
+
+    it('should match references by ID', () => {
+      const views = db.findHyperViews(movieSchema, { director: 'person_lana' });
+
+      expect(views.map(v => v.id)).toEqual(['movie_matrix', 'movie_untitled']);
+      const [directorDelta] = views[0].director as Delta[];
+      expect((directorDelta.pointers[1].target as HyperView).name).toBeDefined();
+    });
+
+    it('should combine constraints', () => {
+      const views = db.findHyperViews(movieSchema, {
+        director: 'person_lana',
+        year: { exists: false }
+      });
+
+      expect(views.map(v => v.id)).toEqual(['movie_untitled']);
+    });
+
+    it('should order and paginate results', () => {
+      const order = { property: 'year', direction: 'desc' as const };
+
+      const firstPage = db.findHyperViews(movieSchema, {}, { orderBy: order, limit: 2 });
+      const secondPage = db.findHyperViews(
+        movieSchema,
+        {},
+        { orderBy: order, offset: 2, limit: 2 }
+      );
+
+      expect(firstPage.map(v => v.id)).toEqual(['movie_john_wick', 'movie_matrix']);
+      expect(secondPage.map(v => v.id)).toEqual(['movie_speed', 'movie_point_break']);
+    });
+
+    it('should restrict to explicit IDs', () => {
+      const views = db.findHyperViews(movieSchema, {
+        id: { in: ['movie_speed', 'movie_john_wick', 'movie_missing'] }
+      });
+
+      expect(views.map(v => v.id)).toEqual(['movie_john_wick', 'movie_speed']);
+    });
+
+    it('should not return negated properties', async () => {
+      const speedYear = db
+        .queryDeltas({ targetIds: ['movie_speed'], targetContexts: ['year'] })
+        .map(d => d.id)[0];
+      await db.persistDelta(db.negateDelta('seed', speedYear));
+
+      const views = db.findHyperViews(movieSchema, { year: { lt: 2000 } });
+
+      expect(views.map(v => v.id)).toEqual(['movie_matrix', 'movie_point_break']);
+    });
+
+    it('should only build views for candidates whose values could match', () => {
+      const build = jest.spyOn(db, 'applyHyperSchema');
+
+      const views = db.findHyperViews(movieSchema, { year: { gt: 2000 } });
+
+      expect(views.map(v => v.id)).toEqual(['movie_john_wick']);
+      expect(build.mock.calls.map(([id]) => id)).toEqual(['movie_john_wick']);
+    });
+
+    it('should build ID-ordered pages only until they are full', () => {
+      const build = jest.spyOn(db, 'applyHyperSchema');
+
+      const views = db.findHyperViews(movieSchema, {}, { offset: 1, limit: 2 });
+
+      expect(views.map(v => v.id)).toEqual(['movie_matrix', 'movie_point_break']);
+      expect(build.mock.calls.map(([id]) => id)).toEqual([
+        'movie_john_wick',
+        'movie_matrix',
+        'movie_point_break'
+      ]);
+    });
+
+    it('should find nothing without constraints for a schema with no transform rules', () => {
+      const bareSchema = createStandardSchema('bare_movie_schema', 'Movie');
+
+      expect(db.findHyperViews(bareSchema, {})).toEqual([]);
+      expect(db.findHyperViews(bareSchema, { year: 1994 }).map(v => v.id)).toEqual(['movie_speed']);
+    });
+  });
+
+  describe('LevelDBStore', () => {
+    let db: LevelDBStore;
+    let dbPath: string;
+
+    beforeEach(async () => {
+      const tmpDir = '/tmp/rhizomedb-test';
+      if (!fs.existsSync(tmpDir)) {
+        fs.mkdirSync(tmpDir, { recursive: true });
+      }
+      dbPath = path.join(tmpDir, `test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      db = new LevelDBStore({ systemId: 'test-system', storage: 'leveldb', dbPath });
+      await db.applyHyperSchema('_register_person', personSchema);
+
+      await db.persistDeltas(
+        movieDeltaPointers().map(pointers => db.createDelta('seed', pointers))
+      );
+    });
+
+    afterEach(async () => {
+      await db.close();
+      fs.rmSync(dbPath, { recursive: true, force: true });
+    });
+
+    it('should find, order and paginate matching HyperViews', async () => {
+      const views = await db.findHyperViews(
+        movieSchema,
+        { year: { gte: 1990 } },
+        { orderBy: { property: 'year' }, limit: 3 }
+      );
+
+      expect(views.map(v => v.id)).toEqual(['movie_point_break', 'movie_speed', 'movie_matrix']);
+    });
+  });
+});
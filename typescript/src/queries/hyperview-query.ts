@@ -0,0 +1,379 @@
+/**
+ * Multi-root HyperView queries
+ *
+ * Finds every object whose HyperView satisfies a set of property
+ * constraints: `HyperView(Schema, { property: constraint })` → HyperView[].
+ *
+ * Candidate roots are found through the target-context convention: a
+ * property `p` of object `o` is asserted by deltas pointing at
+ * `{ id: o, context: p }`. The storage layer supplies that lookup; this
+ * module plans which contexts to use and evaluates the constraints. Queries
+ * without constraints find objects through the contexts named in the
+ * schema's `transform`, so a schema with no transform rules matches nothing.
+ */
+
+import {
+  Delta,
+  FindHyperViewsOptions,
+  HyperSchema,
+  HyperView,
+  HyperViewConstraints,
+  HyperViewOrder,
+  Primitive,
+  PropertyConstraint
+} from '../core/types';
+import { isReference } from '../core/validation';
+import { compareDeltas } from '../core/hlc';
+import { getComparisonValues, matchesComparison } from './filter-expression';
+
+/**
+ * Resolved value of a HyperView property
+ *
+ * Primitive targets resolve to themselves; references and nested HyperViews
+ * resolve to the referenced object's ID.
+ */
+export type PropertyValue = Primitive | undefined;
+
+/**
+ * Collect the IDs of objects that have a property in the given context
+ *
+ * @param deltas - Deltas to search (typically from a target-context index)
+ * @param context - The property (target context) name
+ */
+export function collectContextTargetIds(deltas: Iterable<Delta>, context: string): Set<string> {
+  const ids = new Set<string>();
+
+  for (const delta of deltas) {
+    for (const pointer of delta.pointers) {
+      if (isReference(pointer.target) && pointer.target.context === context) {
+        ids.add(pointer.target.id);
+      }
+    }
+  }
+
+  return ids;
+}
+
+function requiresValue(constraint: PropertyConstraint): boolean {
+  return typeof constraint !== 'object' || constraint.exists !== false;
+}
+
+/**
+ * Collect the IDs of objects with a delta in a context that could satisfy a
+ * constraint
+ *
+ * A view resolves the property from the latest of those deltas it selects,
+ * so objects none of whose deltas match can't match either.
+ */
+function collectMatchingTargetIds(
+  deltas: Iterable<Delta>,
+  context: string,
+  constraint: PropertyConstraint
+): Set<string> {
+  const ids = new Set<string>();
+
+  for (const delta of deltas) {
+    for (const pointer of delta.pointers) {
+      if (
+        isReference(pointer.target) &&
+        pointer.target.context === context &&
+        !ids.has(pointer.target.id) &&
+        matchesPropertyConstraint(resolveDeltaValue(delta, context, pointer.target.id), constraint)
+      ) {
+        ids.add(pointer.target.id);
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Work out the candidate root IDs for a query
+ *
+ * Every constraint except `{ exists: false }` requires the property to be
+ * present, so its context narrows the candidates to objects with a delta
+ * there whose value could match. An `id` constraint with `eq`/`in` names the
+ * candidates directly. Unconstrained queries fall back to objects having any
+ * of the schema's transformed properties, so they find nothing for a schema
+ * without transform rules.
+ *
+ * @param schema - The HyperSchema being queried
+ * @param constraints - Property constraints
+ * @param getDeltasByContext - Storage lookup: deltas pointing at an object in a context
+ */
+export function findCandidateRootIds(
+  schema: HyperSchema,
+  constraints: HyperViewConstraints,
+  getDeltasByContext: (context: string) => Iterable<Delta>
+): Set<string> {
+  let candidates: Set<string> | null = null;
+
+  const narrow = (ids: Iterable<string>): void => {
+    const next = new Set<string>();
+    for (const id of ids) {
+      if (candidates === null || candidates.has(id)) {
+        next.add(id);
+      }
+    }
+    candidates = next;
+  };
+
+  const idConstraint = constraints.id;
+  if (idConstraint !== undefined && typeof idConstraint !== 'object') {
+    narrow([String(idConstraint)]);
+  } else if (idConstraint !== undefined) {
+    const ids = getComparisonValues(idConstraint);
+    if (ids) {
+      narrow(ids.map(String));
+    }
+  }
+
+  for (const [property, constraint] of Object.entries(constraints)) {
+    if (property !== 'id' && requiresValue(constraint)) {
+      narrow(collectMatchingTargetIds(getDeltasByContext(property), property, constraint));
+    }
+  }
+
+  if (candidates !== null) {
+    return candidates;
+  }
+
+  const all = new Set<string>();
+  for (const property of Object.keys(schema.transform)) {
+    for (const id of collectContextTargetIds(getDeltasByContext(property), property)) {
+      all.add(id);
+    }
+  }
+  return all;
+}
+
+/**
+ * Resolve a HyperView property to a single value
+ *
+ * Uses the most recent delta in the property. Within it, the pointer whose
+ * role matches the property name carries the value; failing that, the first
+ * pointer that doesn't point back at the root object.
+ */
+export function resolvePropertyValue(hyperView: HyperView, property: string): PropertyValue {
+  if (property === 'id') {
+    return hyperView.id;
+  }
+
+  const deltas = hyperView[property];
+  if (!Array.isArray(deltas) || deltas.length === 0) {
+    return undefined;
+  }
+
+  let latest = deltas[0];
+  for (const delta of deltas) {
+    if (compareDeltas(delta, latest) > 0) {
+      latest = delta;
+    }
+  }
+
+  return resolveDeltaValue(latest, property, hyperView.id);
+}
+
+/**
+ * Resolve the value one delta gives an object's property
+ */
+function resolveDeltaValue(delta: Delta, property: string, rootId: string): PropertyValue {
+  const pointer =
+    delta.pointers.find(p => p.role === property) ||
+    delta.pointers.find(p => !(isReference(p.target) && p.target.id === rootId));
+
+  if (!pointer) {
+    return undefined;
+  }
+
+  const target: unknown = pointer.target;
+  if (typeof target === 'object' && target !== null) {
+    return (target as { id: string }).id;
+  }
+  return target as Primitive;
+}
+
+/**
+ * Check a resolved value against a property constraint
+ */
+export function matchesPropertyConstraint(
+  value: PropertyValue,
+  constraint: PropertyConstraint
+): boolean {
+  if (typeof constraint !== 'object') {
+    return value === constraint;
+  }
+
+  const { between, exists, ...comparison } = constraint;
+
+  if (exists !== undefined && exists !== (value !== undefined)) {
+    return false;
+  }
+
+  if (between !== undefined && !matchesComparison(value, { gte: between[0], lte: between[1] })) {
+    return false;
+  }
+
+  if (Object.keys(comparison).length > 0 && !matchesComparison(value, comparison)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check a HyperView against all constraints
+ */
+export function matchesHyperViewConstraints(
+  hyperView: HyperView,
+  constraints: HyperViewConstraints
+): boolean {
+  return Object.entries(constraints).every(([property, constraint]) =>
+    matchesPropertyConstraint(resolvePropertyValue(hyperView, property), constraint)
+  );
+}
+
+function compareValues(a: Primitive, b: Primitive): number {
+  if (typeof a === typeof b) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  // Mixed types group by type name so the order is still total
+  return typeof a < typeof b ? -1 : 1;
+}
+
+/**
+ * A HyperView's position in an ordering: its resolved sort value and ID
+ */
+export interface HyperViewSortKey {
+  id: string;
+  value: PropertyValue;
+}
+
+/**
+ * Get the sort key of a HyperView for an ordering
+ */
+export function getSortKey(view: HyperView, order?: HyperViewOrder): HyperViewSortKey {
+  return { id: view.id, value: resolvePropertyValue(view, order?.property ?? 'id') };
+}
+
+/**
+ * Compare two sort keys in an ordering
+ *
+ * Missing values sort last regardless of direction. Ties are ordered by ID,
+ * so the order is total and pagination is stable.
+ */
+export function compareSortKeys(
+  a: HyperViewSortKey,
+  b: HyperViewSortKey,
+  order?: HyperViewOrder
+): number {
+  const sign = order?.direction === 'desc' ? -1 : 1;
+
+  if (a.value !== undefined && b.value !== undefined) {
+    const byValue = sign * compareValues(a.value, b.value);
+    if (byValue !== 0) return byValue;
+  } else if (a.value !== b.value) {
+    return a.value === undefined ? 1 : -1;
+  }
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Sort HyperViews by a property's resolved value
+ */
+export function sortHyperViews(views: HyperView[], order?: HyperViewOrder): HyperView[] {
+  const keyed = views.map(view => ({ view, key: getSortKey(view, order) }));
+
+  keyed.sort((a, b) => compareSortKeys(a.key, b.key, order));
+
+  return keyed.map(({ view }) => view);
+}
+
+/**
+ * Check whether a HyperView has any properties beyond its ID
+ */
+export function isEmptyHyperView(hyperView: HyperView): boolean {
+  return Object.keys(hyperView).every(key => key === 'id' || key === '_metadata');
+}
+
+/**
+ * Order candidate root IDs as their views would be ordered, if that needs
+ * no views (the order is by ID)
+ *
+ * @returns The sorted IDs, or null if the order is by another property
+ */
+export function sortCandidateIds(ids: Iterable<string>, order?: HyperViewOrder): string[] | null {
+  if ((order?.property ?? 'id') !== 'id') {
+    return null;
+  }
+
+  return Array.from(ids).sort((a, b) =>
+    compareSortKeys({ id: a, value: a }, { id: b, value: b }, order)
+  );
+}
+
+/**
+ * Build the HyperViews of candidate roots, then filter, order and paginate
+ * them as `selectHyperViews` does
+ *
+ * With a limit and an order by ID, views are built in order only until the
+ * page is full.
+ *
+ * @param build - Builds the HyperView of one candidate
+ */
+export function buildHyperViews(
+  candidateIds: Iterable<string>,
+  build: (id: string) => HyperView,
+  constraints: HyperViewConstraints,
+  options: FindHyperViewsOptions = {}
+): HyperView[] {
+  const sorted =
+    options.limit !== undefined ? sortCandidateIds(candidateIds, options.orderBy) : null;
+  if (!sorted) {
+    return selectHyperViews(Array.from(candidateIds, build), constraints, options);
+  }
+
+  const page: HyperView[] = [];
+  let skip = options.offset ?? 0;
+  for (const id of sorted) {
+    if (page.length >= options.limit!) {
+      break;
+    }
+
+    const view = build(id);
+    if (isEmptyHyperView(view) || !matchesHyperViewConstraints(view, constraints)) {
+      continue;
+    }
+    if (skip > 0) {
+      skip--;
+    } else {
+      page.push(view);
+    }
+  }
+  return page;
+}
+
+/**
+ * Filter, order and paginate constructed HyperViews
+ *
+ * Empty views (candidates the schema selected nothing for) are dropped.
+ */
+export function selectHyperViews(
+  views: HyperView[],
+  constraints: HyperViewConstraints,
+  options: FindHyperViewsOptions = {}
+): HyperView[] {
+  const matching = views.filter(
+    view => !isEmptyHyperView(view) && matchesHyperViewConstraints(view, constraints)
+  );
+
+  const sorted = sortHyperViews(matching, options.orderBy);
+  const offset = options.offset ?? 0;
+
+  return options.limit !== undefined
+    ? sorted.slice(offset, offset + options.limit)
+    : sorted.slice(offset);
+}
@@ -10,6 +10,7 @@
 
 import { Delta } from '../core/types';
 import { isDomainNodeReference } from '../core/validation';
+import { compareDeltas } from '../core/hlc';
 
 /**
  * Represents the negation state of a delta
@@ -31,6 +32,24 @@ export interface NegationState {
   wasDoubleNegated: boolean;
 }
 
+/**
+ * Get the IDs of the deltas a delta negates
+ *
+ * @param delta - The delta to inspect
+ * @returns IDs targeted by `negates` pointers (empty if not a negation)
+ */
+export function getNegatedTargetIds(delta: Delta): string[] {
+  const targetIds: string[] = [];
+
+  for (const pointer of delta.pointers) {
+    if (pointer.role === 'negates' && isDomainNodeReference(pointer.target)) {
+      targetIds.push(pointer.target.id);
+    }
+  }
+
+  return targetIds;
+}
+
 /**
  * Calculate negation states for all deltas
  *
@@ -103,7 +122,7 @@ export function calculateNegationStates(
         }
 
         // This is an un-negated negation
-        if (!effectiveNegation || negDelta.timestamp > effectiveNegation.timestamp) {
+        if (!effectiveNegation || compareDeltas(negDelta, effectiveNegation) > 0) {
           effectiveNegation = negDelta;
         }
       }
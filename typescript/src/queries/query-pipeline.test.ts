@@ -0,0 +1,109 @@
+/**
+ * Tests for composable query pipelines
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import {
+  movieSchemas,
+  seedMovieDatabase,
+  matrixMovies,
+  matrixRoles,
+  expandedMovies,
+  expandedRoles
+} from '../fixtures/movie-database.fixture';
+import { QueryPipeline } from './query-pipeline';
+import { createSimpleViewSchema, mostRecent } from './view-resolver';
+
+const personViewSchema = createSimpleViewSchema({
+  name: { source: 'name', role: 'name', strategy: mostRecent }
+});
+
+describe('Query Pipelines', () => {
+  let db: RhizomeDB;
+
+  beforeAll(async () => {
+    db = new RhizomeDB({ systemId: 'movie-db', storage: 'memory' });
+    for (const schema of Object.values(movieSchemas)) {
+      db.registerSchema(schema);
+    }
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await seedMovieDatabase(db);
+    jest.restoreAllMocks();
+  });
+
+  it('should find all directors of 90s movies starring Keanu Reeves', () => {
+    const movies = [...matrixMovies, ...expandedMovies];
+    const expected = new Set(
+      [...matrixRoles, ...expandedRoles]
+        .filter(role => role.actor === 'person_reeves_keanu')
+        .map(role => movies.find(movie => movie.id === role.movie)!)
+        .filter(movie => movie.year >= 1990 && movie.year <= 1999)
+        .map(movie => movie.director)
+    );
+
+    const directors = db
+      .query(movieSchemas.person, { name: 'Keanu Reeves' })
+      .traverse('performed_by')
+      .traverse('movie')
+      .applySchema(movieSchemas.movie)
+      .filter({ year: { between: [1990, 1999] } })
+      .traverse('director')
+      .applySchema(movieSchemas.person)
+      .collect(personViewSchema);
+
+    expect(expected.size).toBeGreaterThan(1);
+    expect(new Set(directors.map(d => d.id))).toEqual(expected);
+    expect(directors.map(d => String(d.name))).toContain('Lana Wachowski');
+  });
+
+  it('should traverse references in both directions', () => {
+    // Forward: movie → director
+    expect(QueryPipeline.from(db, ['movie_matrix']).traverse('director').ids()).toEqual([
+      'person_wachowski_lana'
+    ]);
+
+    // Backward: movie → roles that appear in it → actors
+    const cast = QueryPipeline.from(db, ['movie_matrix'])
+      .traverse('appears_in')
+      .traverse('actor')
+      .ids();
+
+    expect(cast).toContain('person_reeves_keanu');
+    expect(cast).not.toContain('movie_matrix');
+  });
+
+  it('should filter with a predicate', () => {
+    const withoutSpeed = QueryPipeline.from(db, ['movie_matrix', 'movie_speed', 'movie_john_wick'])
+      .applySchema(movieSchemas.movie)
+      .filter(hyperView => hyperView.id !== 'movie_speed')
+      .ids();
+
+    expect(withoutSpeed).toEqual(['movie_matrix', 'movie_john_wick']);
+  });
+
+  it('should be lazy and reusable', () => {
+    const keanu = db.query(movieSchemas.person, { name: 'Keanu Reeves' });
+    const roles = keanu.traverse('performed_by');
+
+    expect(keanu.ids()).toEqual(['person_reeves_keanu']);
+    expect(roles.ids().length).toBeGreaterThan(3);
+    expect(keanu.ids()).toEqual(['person_reeves_keanu']);
+  });
+
+  it('should require a schema before filtering', () => {
+    const pipeline = QueryPipeline.from(db, ['movie_matrix'])
+      .traverse('director')
+      .filter({ name: 'Lana Wachowski' });
+
+    expect(() => pipeline.ids()).toThrow('filter() requires applySchema()');
+  });
+
+  it('should drop objects the schema selects nothing for', () => {
+    const views = QueryPipeline.from(db, ['movie_matrix', 'nonexistent'])
+      .applySchema(movieSchemas.movie)
+      .hyperViews();
+
+    expect(views.map(v => v.id)).toEqual(['movie_matrix']);
+  });
+});
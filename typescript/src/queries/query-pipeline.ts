@@ -0,0 +1,227 @@
+/**
+ * Composable query pipelines over HyperViews
+ *
+ * A pipeline starts from a set of root objects and composes steps that each
+ * map one set of objects to the next:
+ *
+ *   db.query(personSchema, { name: 'Keanu Reeves' })
+ *     .traverse('performed_by')                       // Keanu → his roles
+ *     .traverse('movie')                              // roles → movies
+ *     .applySchema(movieSchema)
+ *     .filter({ year: { between: [1990, 1999] } })
+ *     .traverse('director')                           // movies → directors
+ *     .applySchema(personSchema)
+ *     .collect(personViewSchema);
+ *
+ * Pipelines are immutable and lazy: each step returns a new pipeline, and
+ * nothing touches the database until a terminal operation (`ids`,
+ * `hyperViews`, `collect`) runs.
+ */
+
+import {
+  Delta,
+  DeltaFilter,
+  HyperSchema,
+  HyperView,
+  HyperViewConstraints,
+  View,
+  ViewSchema
+} from '../core/types';
+import { isReference } from '../core/validation';
+import { isEmptyHyperView, matchesHyperViewConstraints } from './hyperview-query';
+import { ViewResolver, defaultResolver } from './view-resolver';
+
+/**
+ * What a pipeline needs from the database
+ */
+export interface QueryPipelineSource {
+  queryDeltas(filter: DeltaFilter): Delta[];
+  applyHyperSchema(objectId: string, schema: HyperSchema): HyperView;
+  findHyperViews(schema: HyperSchema, constraints?: HyperViewConstraints): HyperView[];
+}
+
+type PipelineStep =
+  | { kind: 'find'; schema: HyperSchema; constraints: HyperViewConstraints }
+  | { kind: 'traverse'; role: string }
+  | { kind: 'applySchema'; schema: HyperSchema }
+  | { kind: 'filter'; predicate: (hyperView: HyperView) => boolean };
+
+/**
+ * Intermediate result: the current objects, and their HyperViews once a
+ * schema has been applied
+ */
+interface PipelineState {
+  ids: string[];
+  hyperViews?: HyperView[];
+}
+
+/**
+ * Fluent, lazily-evaluated query over the delta graph
+ */
+export class QueryPipeline {
+  constructor(
+    private source: QueryPipelineSource,
+    private roots: string[],
+    private steps: PipelineStep[] = []
+  ) {}
+
+  /**
+   * Start a pipeline from known object IDs
+   */
+  static from(source: QueryPipelineSource, ids: Iterable<string>): QueryPipeline {
+    return new QueryPipeline(source, Array.from(new Set(ids)));
+  }
+
+  /**
+   * Start a pipeline from every object matching property constraints
+   *
+   * The roots' HyperViews are kept, so `filter` can follow directly.
+   */
+  static find(
+    source: QueryPipelineSource,
+    schema: HyperSchema,
+    constraints: HyperViewConstraints = {}
+  ): QueryPipeline {
+    return new QueryPipeline(source, [], [{ kind: 'find', schema, constraints }]);
+  }
+
+  /**
+   * Follow Reference pointers with the given role to the next set of objects
+   *
+   * For each current object, looks at every (non-negated) delta that
+   * references it and collects the other objects those deltas reference in
+   * `role`. This works in either direction: from a movie, `traverse('director')`
+   * reaches its director; from a person, `traverse('performed_by')` reaches
+   * the roles they played.
+   *
+   * Any applied schema is dropped, since the next hop is a different kind of
+   * object.
+   */
+  traverse(role: string): QueryPipeline {
+    return this.then({ kind: 'traverse', role });
+  }
+
+  /**
+   * Construct HyperViews for the current objects
+   *
+   * Objects the schema selects nothing for are dropped.
+   */
+  applySchema(schema: HyperSchema): QueryPipeline {
+    return this.then({ kind: 'applySchema', schema });
+  }
+
+  /**
+   * Keep objects whose HyperViews satisfy property constraints or a predicate
+   *
+   * @throws Error at evaluation time if no schema has been applied
+   */
+  filter(condition: HyperViewConstraints | ((hyperView: HyperView) => boolean)): QueryPipeline {
+    const predicate =
+      typeof condition === 'function'
+        ? condition
+        : (hyperView: HyperView) => matchesHyperViewConstraints(hyperView, condition);
+
+    return this.then({ kind: 'filter', predicate });
+  }
+
+  /**
+   * Run the pipeline and return the resulting object IDs
+   */
+  ids(): string[] {
+    return this.run().ids;
+  }
+
+  /**
+   * Run the pipeline and return HyperViews of the resulting objects
+   *
+   * @throws Error if no schema has been applied since the last traversal
+   */
+  hyperViews(): HyperView[] {
+    const state = this.run();
+    if (!state.hyperViews) {
+      throw new Error('hyperViews() requires applySchema() after the last traverse()');
+    }
+    return state.hyperViews;
+  }
+
+  /**
+   * Run the pipeline and resolve the resulting HyperViews into Views
+   *
+   * @param viewSchema - How to resolve each HyperView
+   * @param resolver - ViewResolver to use (defaults to the shared instance)
+   */
+  collect(viewSchema: ViewSchema, resolver: ViewResolver = defaultResolver): View[] {
+    return this.hyperViews().map(hyperView => resolver.resolveView(hyperView, viewSchema));
+  }
+
+  private then(step: PipelineStep): QueryPipeline {
+    return new QueryPipeline(this.source, this.roots, [...this.steps, step]);
+  }
+
+  private run(): PipelineState {
+    let state: PipelineState = { ids: this.roots };
+
+    for (const step of this.steps) {
+      switch (step.kind) {
+        case 'find': {
+          const hyperViews = this.source.findHyperViews(step.schema, step.constraints);
+          state = { ids: hyperViews.map(hyperView => hyperView.id), hyperViews };
+          break;
+        }
+
+        case 'traverse':
+          state = { ids: this.traverseIds(state.ids, step.role) };
+          break;
+
+        case 'applySchema': {
+          const hyperViews = state.ids
+            .map(id => this.source.applyHyperSchema(id, step.schema))
+            .filter(hyperView => !isEmptyHyperView(hyperView));
+          state = { ids: hyperViews.map(hyperView => hyperView.id), hyperViews };
+          break;
+        }
+
+        case 'filter': {
+          if (!state.hyperViews) {
+            throw new Error('filter() requires applySchema() after the last traverse()');
+          }
+          const hyperViews = state.hyperViews.filter(step.predicate);
+          state = { ids: hyperViews.map(hyperView => hyperView.id), hyperViews };
+          break;
+        }
+      }
+    }
+
+    return state;
+  }
+
+  private traverseIds(ids: string[], role: string): string[] {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const current = new Set(ids);
+    const next = new Set<string>();
+
+    // One indexed query for the whole hop rather than one per object
+    for (const delta of this.source.queryDeltas({ targetIds: ids })) {
+      const referenced = delta.pointers
+        .map(pointer => (isReference(pointer.target) ? pointer.target.id : undefined))
+        .filter((id): id is string => id !== undefined && current.has(id));
+
+      for (const pointer of delta.pointers) {
+        if (pointer.role !== role || !isReference(pointer.target)) {
+          continue;
+        }
+
+        // The hop must start from some other current object than its target
+        const targetId = pointer.target.id;
+        if (referenced.some(id => id !== targetId)) {
+          next.add(targetId);
+        }
+      }
+    }
+
+    return Array.from(next);
+  }
+}
@@ -12,6 +12,7 @@
 import { RhizomeDB } from '../storage/instance';
 import { HyperSchema, HyperView, Delta, DeltaFilter } from '../core/types';
 import { constructHyperView } from '../schemas/hyperview';
+import { compareDeltas } from '../core/hlc';
 
 /**
  * Time-travel query options
@@ -169,9 +170,7 @@ export class TimeTravelDB {
       targetContexts: [property]
     });
 
-    return deltas
-      .map(delta => ({ timestamp: delta.timestamp, delta }))
-      .sort((a, b) => a.timestamp - b.timestamp);
+    return deltas.sort(compareDeltas).map(delta => ({ timestamp: delta.timestamp, delta }));
   }
 
   /**
@@ -232,7 +231,7 @@ export class TimeTravelDB {
     if (deltas.length === 0) return null;
 
     return deltas.reduce((earliest, current) =>
-      current.timestamp < earliest.timestamp ? current : earliest
+      compareDeltas(current, earliest) < 0 ? current : earliest
     );
   }
 
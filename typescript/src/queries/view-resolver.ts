@@ -18,25 +18,26 @@ import {
   Pointer
 } from '../core/types';
 import { isDomainNodeReference } from '../core/validation';
+import { compareDeltas } from '../core/hlc';
 
 // ============================================================================
 // Resolution Strategies
 // ============================================================================
 
 /**
- * Take the most recent delta (highest timestamp)
+ * Take the most recent delta (latest in (HLC, system, id) order)
  */
 export const mostRecent: ResolutionStrategy = (deltas: Delta[]) => {
   if (deltas.length === 0) return null;
-  return deltas.sort((a, b) => b.timestamp - a.timestamp)[0];
+  return deltas.sort((a, b) => compareDeltas(b, a))[0];
 };
 
 /**
- * Take the first write (lowest timestamp)
+ * Take the first write (earliest in (HLC, system, id) order)
  */
 export const firstWrite: ResolutionStrategy = (deltas: Delta[]) => {
   if (deltas.length === 0) return null;
-  return deltas.sort((a, b) => a.timestamp - b.timestamp)[0];
+  return deltas.sort(compareDeltas)[0];
 };
 
 /**
@@ -378,14 +379,8 @@ export function createSimpleViewSchema(
  * Create a ViewSchema for an object with reference fields
  */
 export function createViewSchemaWithReferences(
-  primitiveFields: Record<
-    string,
-    { source: string; role: string; strategy: ResolutionStrategy }
-  >,
-  referenceFields: Record<
-    string,
-    { source: string; role: string; strategy: ResolutionStrategy }
-  >
+  primitiveFields: Record<string, { source: string; role: string; strategy: ResolutionStrategy }>,
+  referenceFields: Record<string, { source: string; role: string; strategy: ResolutionStrategy }>
 ): ViewSchema {
   const properties: ViewSchema['properties'] = {};
 
@@ -0,0 +1,139 @@
+/**
+ * Tests for batched HyperView loading
+ */
+
+import { RhizomeDB } from '../storage/instance';
+import { HyperSchema, PrimitiveSchemas } from '../core/types';
+import { createStandardSchema } from './hyperview';
+import { HyperViewLoader } from './hyperview-loader';
+
+describe('HyperViewLoader', () => {
+  let db: RhizomeDB;
+  let personSchema: HyperSchema;
+  let movieSchema: HyperSchema;
+
+  beforeEach(async () => {
+    db = new RhizomeDB({ storage: 'memory' });
+    personSchema = createStandardSchema('person', 'Person', {
+      name: { schema: PrimitiveSchemas.String }
+    });
+    movieSchema = createStandardSchema('movie', 'Movie', {
+      title: { schema: PrimitiveSchemas.String },
+      director: { schema: personSchema }
+    });
+
+    await db.persistDeltas([
+      db.createDelta('curator', [
+        { role: 'named', target: { id: 'person_lana', context: 'name' } },
+        { role: 'name', target: 'Lana Wachowski' }
+      ]),
+      db.createDelta('curator', [
+        { role: 'movie', target: { id: 'movie_matrix', context: 'title' } },
+        { role: 'title', target: 'The Matrix' }
+      ]),
+      db.createDelta('curator', [
+        { role: 'movie', target: { id: 'movie_matrix', context: 'director' } },
+        { role: 'director', target: { id: 'person_lana', context: 'directed' } }
+      ])
+    ]);
+  });
+
+  function createLoader(): { loader: HyperViewLoader; reads: () => number } {
+    let reads = 0;
+    const loader = new HyperViewLoader(() => {
+      reads++;
+      return db.queryDeltas({ includeNegated: true });
+    });
+    return { loader, reads: () => reads };
+  }
+
+  it('should build loads from the same tick in one batch and cache them', async () => {
+    const { loader, reads } = createLoader();
+
+    const [movie, person] = await Promise.all([
+      loader.load('movie_matrix', movieSchema),
+      loader.load('person_lana', personSchema),
+      loader.load('movie_matrix', movieSchema)
+    ]);
+    const again = await loader.load('person_lana', personSchema);
+
+    expect(again).toBe(person);
+    expect(loader.stats).toEqual({ batches: 1, constructed: 2 });
+    expect(reads()).toBe(1);
+    expect(person).toEqual(db.applyHyperSchema('person_lana', personSchema));
+    expect(Object.keys(movie).sort()).toEqual(['director', 'id', 'title']);
+  });
+
+  it('should leave references unexpanded', async () => {
+    const { loader } = createLoader();
+
+    const movie = await loader.load('movie_matrix', movieSchema);
+    const [directed] = movie.director as Array<{ pointers: Array<{ target: unknown }> }>;
+
+    expect(directed.pointers[1].target).toEqual({ id: 'person_lana', context: 'directed' });
+    expect(loader.stats.constructed).toBe(1);
+  });
+
+  it('should skip negated deltas and support custom selection', async () => {
+    const [title] = db.queryDeltas({ targetContexts: ['title'] });
+    await db.persistDelta(db.negateDelta('curator', title.id, 'Wrong movie'));
+    const everything: HyperSchema = { ...movieSchema, id: 'all', select: () => ['all'] };
+    const { loader } = createLoader();
+
+    const [movie, all] = await Promise.all([
+      loader.load('movie_matrix', movieSchema),
+      loader.load('anything', everything)
+    ]);
+
+    expect(movie.title).toBeUndefined();
+    // The negation itself is not negated
+    expect(all.all).toHaveLength(3);
+  });
+
+  it('should re-read deltas after being cleared', async () => {
+    const { loader, reads } = createLoader();
+    await loader.load('person_lana', personSchema);
+
+    await db.persistDelta(
+      db.createDelta('curator', [
+        { role: 'named', target: { id: 'person_lana', context: 'name' } },
+        { role: 'name', target: 'Lana' }
+      ])
+    );
+    expect((await loader.load('person_lana', personSchema)).name).toHaveLength(1);
+
+    loader.clear();
+    expect((await loader.load('person_lana', personSchema)).name).toHaveLength(2);
+    expect(reads()).toBe(2);
+  });
+
+  it('should only rebuild the views new deltas change when refreshed', async () => {
+    const { loader, reads } = createLoader();
+    const [lana, matrix] = await Promise.all([
+      loader.load('person_lana', personSchema),
+      loader.load('movie_matrix', movieSchema)
+    ]);
+
+    const renamed = db.createDelta('curator', [
+      { role: 'named', target: { id: 'person_lana', context: 'name' } },
+      { role: 'name', target: 'Lana' }
+    ]);
+    const [title] = db.queryDeltas({ targetContexts: ['title'] });
+    const negation = db.negateDelta('curator', title.id);
+    await db.persistDeltas([renamed, negation]);
+    loader.refresh([renamed, negation, title]);
+
+    const [lanaAfter, matrixAfter] = await Promise.all([
+      loader.load('person_lana', personSchema),
+      loader.load('movie_matrix', movieSchema)
+    ]);
+
+    expect(lanaAfter).not.toBe(lana);
+    expect(lanaAfter.name).toHaveLength(2);
+    expect(matrixAfter).not.toBe(matrix);
+    expect(matrixAfter.title).toBeUndefined();
+    expect(await loader.load('movie_matrix', movieSchema)).toBe(matrixAfter);
+    expect(reads()).toBe(1);
+    expect(loader.stats.constructed).toBe(4);
+  });
+});
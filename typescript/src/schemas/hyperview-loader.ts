@@ -0,0 +1,256 @@
+/**
+ * Batched, cached HyperView construction
+ *
+ * Building HyperViews one at a time rescans every delta per object, and
+ * constructHyperView rescans again for each nested reference. A loader lives
+ * for one unit of work (such as a GraphQL request): it reads the deltas and
+ * computes negations once, collects `(objectId, schema)` requests made in the
+ * same tick into one batch, and caches every view it builds. A long-lived
+ * loader (such as a change subscription's) can `refresh` with each commit
+ * instead of reading everything again.
+ *
+ * Views are shallow: references stay unexpanded, and callers load the
+ * referenced objects through the same loader only when they need them.
+ */
+
+import { Delta, HyperSchema, HyperView } from '../core/types';
+import { isDomainNodeReference, isReference } from '../core/validation';
+import { constructShallowHyperView, findNegations, selectByTargetContext } from './hyperview';
+
+/**
+ * Options for a HyperViewLoader
+ */
+export interface HyperViewLoaderOptions {
+  /** Build views as of this timestamp (default: when the deltas are read) */
+  queryTimestamp?: number;
+}
+
+/**
+ * Counters for a HyperViewLoader
+ */
+export interface HyperViewLoaderStats {
+  /** Batches dispatched */
+  batches: number;
+
+  /** HyperViews constructed (cache misses) */
+  constructed: number;
+}
+
+/**
+ * Deltas and derived data shared by every view in a loader
+ */
+interface Snapshot {
+  /** Every delta (dropped by `refresh`, and read again when next needed) */
+  deltas?: Delta[];
+  negations: Set<string>;
+  queryTimestamp: number;
+  /** Deltas by the IDs they reference, built on first use */
+  referencing?: Map<string, Delta[]>;
+}
+
+interface PendingLoad {
+  objectId: string;
+  schema: HyperSchema;
+  resolve: (view: HyperView) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Loader that batches and caches HyperView construction
+ */
+export class HyperViewLoader {
+  private cache: Map<string, Map<string, Promise<HyperView>>> = new Map();
+  private schemas: Map<string, HyperSchema> = new Map();
+  private pending: PendingLoad[] = [];
+  private snapshot?: Snapshot;
+  private _stats: HyperViewLoaderStats = { batches: 0, constructed: 0 };
+
+  /**
+   * @param getDeltas - Reads every delta; called once per snapshot (and
+   * again after `refresh` only for schemas that need a full scan)
+   */
+  constructor(
+    private readonly getDeltas: () => Delta[],
+    private readonly options: HyperViewLoaderOptions = {}
+  ) {}
+
+  get stats(): HyperViewLoaderStats {
+    return { ...this._stats };
+  }
+
+  /**
+   * Load an object's HyperView
+   *
+   * Loads requested in the same tick are built together.
+   */
+  load(objectId: string, schema: HyperSchema): Promise<HyperView> {
+    let views = this.cache.get(schema.id);
+    if (!views) {
+      views = new Map();
+      this.cache.set(schema.id, views);
+      this.schemas.set(schema.id, schema);
+    }
+
+    const cached = views.get(objectId);
+    if (cached) {
+      return cached;
+    }
+
+    const view = new Promise<HyperView>((resolve, reject) => {
+      if (this.pending.length === 0) {
+        // Wait for the current tick's loads, like DataLoader
+        void Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+      }
+      this.pending.push({ objectId, schema, resolve, reject });
+    });
+    views.set(objectId, view);
+    return view;
+  }
+
+  /**
+   * Load several objects' HyperViews with one schema
+   */
+  loadMany(objectIds: string[], schema: HyperSchema): Promise<HyperView[]> {
+    return Promise.all(objectIds.map(id => this.load(id, schema)));
+  }
+
+  /**
+   * Forget cached views and re-read the deltas on the next load
+   *
+   * Call after writing deltas that later loads should see.
+   */
+  clear(): void {
+    this.cache.clear();
+    this.schemas.clear();
+    this.snapshot = undefined;
+  }
+
+  /**
+   * Catch up with newly committed deltas without re-reading every delta
+   *
+   * Cheaper than `clear()` when few deltas were written: negations and the
+   * reference index are extended with the new deltas, and only the cached
+   * views they can change are forgotten (those of the objects they
+   * reference, and every view of a schema that doesn't select by target
+   * context). Include the deltas a new negation negates, so the views
+   * holding them are rebuilt.
+   */
+  refresh(deltas: Delta[]): void {
+    const snapshot = this.snapshot;
+    if (!snapshot) {
+      return;
+    }
+
+    snapshot.deltas = undefined;
+    snapshot.queryTimestamp = this.options.queryTimestamp ?? Date.now();
+
+    const touched = new Set<string>();
+    for (const delta of deltas) {
+      for (const pointer of delta.pointers) {
+        if (!isReference(pointer.target)) {
+          continue;
+        }
+        if (
+          pointer.role === 'negates' &&
+          isDomainNodeReference(pointer.target) &&
+          delta.timestamp <= snapshot.queryTimestamp
+        ) {
+          snapshot.negations.add(pointer.target.id);
+        }
+
+        touched.add(pointer.target.id);
+        const referencing = snapshot.referencing?.get(pointer.target.id);
+        if (!referencing) {
+          snapshot.referencing?.set(pointer.target.id, [delta]);
+        } else if (!referencing.includes(delta)) {
+          referencing.push(delta);
+        }
+      }
+    }
+
+    for (const [schemaId, views] of this.cache) {
+      if (this.schemas.get(schemaId)?.select !== selectByTargetContext) {
+        this.cache.delete(schemaId);
+        continue;
+      }
+      for (const id of touched) {
+        views.delete(id);
+      }
+    }
+  }
+
+  private dispatch(): void {
+    const batch = this.pending.splice(0);
+    this._stats.batches++;
+
+    try {
+      const snapshot = this.getSnapshot();
+      for (const { objectId, schema, resolve } of batch) {
+        this._stats.constructed++;
+        resolve(
+          constructShallowHyperView(
+            objectId,
+            schema,
+            this.getCandidates(snapshot, objectId, schema),
+            snapshot.negations,
+            snapshot.queryTimestamp
+          )
+        );
+      }
+    } catch (error) {
+      for (const { reject } of batch) {
+        reject(error);
+      }
+    }
+  }
+
+  private getSnapshot(): Snapshot {
+    if (!this.snapshot) {
+      const deltas = this.getDeltas();
+      const queryTimestamp = this.options.queryTimestamp ?? Date.now();
+      this.snapshot = { deltas, negations: findNegations(deltas, queryTimestamp), queryTimestamp };
+    }
+    return this.snapshot;
+  }
+
+  private getAllDeltas(snapshot: Snapshot): Delta[] {
+    if (!snapshot.deltas) {
+      snapshot.deltas = this.getDeltas();
+    }
+    return snapshot.deltas;
+  }
+
+  /**
+   * Deltas a schema may select for an object
+   *
+   * selectByTargetContext only selects deltas that reference the object, so
+   * standard schemas are served from an index instead of a full scan.
+   */
+  private getCandidates(snapshot: Snapshot, objectId: string, schema: HyperSchema): Delta[] {
+    if (schema.select !== selectByTargetContext) {
+      return this.getAllDeltas(snapshot);
+    }
+
+    if (!snapshot.referencing) {
+      snapshot.referencing = new Map();
+      for (const delta of this.getAllDeltas(snapshot)) {
+        const ids = new Set<string>();
+        for (const pointer of delta.pointers) {
+          if (isReference(pointer.target)) {
+            ids.add(pointer.target.id);
+          }
+        }
+        for (const id of ids) {
+          const deltas = snapshot.referencing.get(id);
+          if (deltas) {
+            deltas.push(delta);
+          } else {
+            snapshot.referencing.set(id, [delta]);
+          }
+        }
+      }
+    }
+
+    return snapshot.referencing.get(objectId) ?? [];
+  }
+}
@@ -107,6 +107,71 @@ export function findNegations(allDeltas: Delta[], queryTimestamp: number): Set<s
   return negations;
 }
 
+/**
+ * Transform a delta's pointers according to a schema's transformation rules
+ *
+ * Reference targets with a matching rule are expanded into nested HyperViews.
+ *
+ * @param objectId - The domain object ID the delta is being organized under
+ * @param schema - The HyperSchema whose transformation rules apply
+ * @param delta - The delta to transform
+ * @param allDeltas - All available deltas (used to construct nested HyperViews)
+ * @param schemaRegistry - Registry for resolving schema references
+ * @param queryTimestamp - Timestamp for time-travel queries (defaults to now)
+ * @returns A copy of the delta with transformed pointers
+ */
+export function transformDelta(
+  objectId: string,
+  schema: HyperSchema,
+  delta: Delta,
+  allDeltas: Delta[],
+  schemaRegistry: SchemaRegistry,
+  queryTimestamp: number = Date.now()
+): Delta {
+  return {
+    ...delta,
+    pointers: delta.pointers.map(pointer => {
+      const rule = schema.transform[pointer.role];
+
+      // No transformation rule, or rule doesn't apply
+      if (!rule || (rule.when && !rule.when(pointer, delta))) {
+        return pointer;
+      }
+
+      // Don't transform primitives
+      if (!isDomainNodeReference(pointer.target)) {
+        return pointer;
+      }
+
+      // Don't transform if the schema is a PrimitiveHyperSchema (primitives don't nest)
+      if (typeof rule.schema !== 'string' && isPrimitiveHyperSchema(rule.schema)) {
+        return pointer;
+      }
+
+      // Don't transform if target is the same as current object (avoid infinite recursion)
+      if (pointer.target.id === objectId) {
+        return pointer;
+      }
+
+      // Recursively construct nested HyperView
+      const nestedSchema = schemaRegistry.resolve(rule.schema);
+      const nestedHyperView = constructHyperView(
+        pointer.target.id,
+        nestedSchema,
+        allDeltas,
+        schemaRegistry,
+        queryTimestamp
+      );
+
+      // Replace target with HyperView
+      return {
+        ...pointer,
+        target: nestedHyperView as any // Type system limitation - target becomes HyperView
+      };
+    })
+  };
+}
+
 /**
  * Construct a HyperView from deltas
  *
@@ -153,61 +218,129 @@ export function constructHyperView(
     const properties = result === true ? ['_default'] : result;
 
     // Step 3: Transform pointers according to transformation rules
-    const transformedDelta: Delta = {
-      ...delta,
-      pointers: delta.pointers.map(pointer => {
-        const rule = schema.transform[pointer.role];
-
-        // No transformation rule, or rule doesn't apply
-        if (!rule || (rule.when && !rule.when(pointer, delta))) {
-          return pointer;
-        }
+    const transformedDelta = transformDelta(
+      objectId,
+      schema,
+      delta,
+      allDeltas,
+      schemaRegistry,
+      queryTimestamp
+    );
 
-        // Don't transform primitives
-        if (!isDomainNodeReference(pointer.target)) {
-          return pointer;
-        }
+    // Step 4: Add transformed delta to appropriate properties
+    for (const property of properties) {
+      if (!hyperView[property]) {
+        hyperView[property] = [];
+      }
+      (hyperView[property] as Delta[]).push(transformedDelta);
+    }
+  }
 
-        // Don't transform if the schema is a PrimitiveHyperSchema (primitives don't nest)
-        if (typeof rule.schema !== 'string' && isPrimitiveHyperSchema(rule.schema)) {
-          return pointer;
-        }
+  return hyperView;
+}
 
-        // Don't transform if target is the same as current object (avoid infinite recursion)
-        if (pointer.target.id === objectId) {
-          return pointer;
-        }
+/**
+ * Construct a HyperView without expanding references into nested HyperViews
+ *
+ * Selects and organizes deltas like constructHyperView, but leaves pointer
+ * targets as they are. For callers that compute negations once and build
+ * nested objects only when needed (see HyperViewLoader).
+ *
+ * @param objectId - The domain object ID to construct a view for
+ * @param schema - The HyperSchema defining how to construct the view
+ * @param candidates - Deltas the schema may select (all deltas, or a subset known to cover them)
+ * @param negations - IDs of negated deltas (from findNegations)
+ * @param queryTimestamp - Timestamp for time-travel queries (defaults to now)
+ * @returns The constructed HyperView, with references unexpanded
+ */
+export function constructShallowHyperView(
+  objectId: string,
+  schema: HyperSchema,
+  candidates: Iterable<Delta>,
+  negations: Set<string>,
+  queryTimestamp: number = Date.now()
+): HyperView {
+  const hyperView: HyperView = { id: objectId };
 
-        // Recursively construct nested HyperView
-        const nestedSchema = schemaRegistry.resolve(rule.schema);
-        const nestedHyperView = constructHyperView(
-          pointer.target.id,
-          nestedSchema,
-          allDeltas,
-          schemaRegistry,
-          queryTimestamp
-        );
-
-        // Replace target with HyperView
-        return {
-          ...pointer,
-          target: nestedHyperView as any // Type system limitation - target becomes HyperView
-        };
-      })
-    };
+  for (const delta of candidates) {
+    if (negations.has(delta.id) || delta.timestamp > queryTimestamp) {
+      continue;
+    }
 
-    // Step 4: Add transformed delta to appropriate properties
-    for (const property of properties) {
+    const result = schema.select(objectId, delta);
+    if (result === false) {
+      continue;
+    }
+
+    for (const property of result === true ? ['_default'] : result) {
       if (!hyperView[property]) {
         hyperView[property] = [];
       }
-      (hyperView[property] as Delta[]).push(transformedDelta);
+      (hyperView[property] as Delta[]).push(delta);
     }
   }
 
   return hyperView;
 }
 
+/**
+ * Collect the IDs of all objects embedded as nested HyperViews
+ *
+ * Walks the HyperView using the same transformation rules that built it, so
+ * the result covers every nesting level. Used to work out which materialized
+ * views go stale when a nested object changes.
+ *
+ * @param hyperView - The HyperView to walk
+ * @param schema - The HyperSchema used to construct the HyperView
+ * @param schemaRegistry - Registry for resolving schema references
+ * @returns Set of nested object IDs (excluding the root)
+ */
+export function collectNestedObjectIds(
+  hyperView: HyperView,
+  schema: HyperSchema,
+  schemaRegistry: SchemaRegistry
+): Set<string> {
+  const nestedIds = new Set<string>();
+
+  const walk = (view: HyperView, viewSchema: HyperSchema): void => {
+    for (const key of Object.keys(view)) {
+      const value = view[key];
+      if (key === 'id' || key === '_metadata' || !Array.isArray(value)) {
+        continue;
+      }
+
+      for (const delta of value) {
+        for (const pointer of delta.pointers) {
+          const rule = viewSchema.transform[pointer.role];
+          if (!rule || !isDomainNodeReference(pointer.target)) {
+            continue;
+          }
+
+          if (typeof rule.schema !== 'string' && isPrimitiveHyperSchema(rule.schema)) {
+            continue;
+          }
+
+          const nestedId = pointer.target.id;
+          if (nestedId === view.id || nestedIds.has(nestedId)) {
+            continue;
+          }
+
+          nestedIds.add(nestedId);
+
+          const nestedSchema =
+            typeof rule.schema === 'string' ? schemaRegistry.get(rule.schema) : rule.schema;
+          if (nestedSchema) {
+            walk(pointer.target as HyperView, nestedSchema);
+          }
+        }
+      }
+    }
+  };
+
+  walk(hyperView, schema);
+  return nestedIds;
+}
+
 /**
  * Create a simple selection function that selects by Reference context
  *
@@ -218,11 +351,7 @@ export function selectByTargetContext(objectId: string, delta: Delta): boolean |
   const properties: string[] = [];
 
   for (const pointer of delta.pointers) {
-    if (
-      isReference(pointer.target) &&
-      pointer.target.id === objectId &&
-      pointer.target.context
-    ) {
+    if (isReference(pointer.target) && pointer.target.id === objectId && pointer.target.context) {
       properties.push(pointer.target.context);
     }
   }
@@ -11,7 +11,7 @@
 
 import { RhizomeDB } from '../storage/instance';
 import { createStandardSchema } from './hyperview';
-import { PrimitiveSchemas } from '../core/types';
+import { Delta, PrimitiveSchemas } from '../core/types';
 
 describe('MaterializedHyperView Schema Tracking', () => {
   let db: RhizomeDB;
@@ -190,3 +190,139 @@ describe('MaterializedHyperView Schema Tracking', () => {
     expect(view._metadata.schemaId).toBe('person_schema');
   });
 });
+
+describe('Incremental MaterializedHyperView Maintenance', () => {
+  let db: RhizomeDB;
+
+  beforeEach(() => {
+    db = new RhizomeDB({ storage: 'memory', enableIndexing: true });
+  });
+
+  it('should patch cached views in place when a selected delta is persisted', async () => {
+    const personId = 'person_grace';
+    const schema = createStandardSchema('person_schema', 'Person');
+
+    await db.persistDelta(
+      db.createDelta('user', [
+        { role: 'named', target: { id: personId, context: 'name' } },
+        { role: 'name', target: 'Grace' }
+      ])
+    );
+
+    const view = db.materializeHyperView(personId, schema);
+    const ageDelta = db.createDelta('user', [
+      { role: 'person', target: { id: personId, context: 'age' } },
+      { role: 'age', target: 85 }
+    ]);
+    await db.persistDelta(ageDelta);
+
+    const cached = db.getHyperView(personId, 'person_schema');
+    expect(cached).toBe(view);
+    expect(view._metadata.deltaCount).toBe(2);
+    expect((view.age as Delta[]).map(d => d.id)).toEqual([ageDelta.id]);
+  });
+
+  it('should leave views untouched when the schema does not select the delta', async () => {
+    const schema = createStandardSchema('person_schema', 'Person');
+    await db.persistDelta(
+      db.createDelta('user', [
+        { role: 'named', target: { id: 'person_heidi', context: 'name' } },
+        { role: 'name', target: 'Heidi' }
+      ])
+    );
+
+    const view = db.materializeHyperView('person_heidi', schema);
+    const lastUpdated = view._metadata.lastUpdated;
+
+    await db.persistDelta(
+      db.createDelta('user', [
+        { role: 'named', target: { id: 'person_ivan', context: 'name' } },
+        { role: 'name', target: 'Ivan' }
+      ])
+    );
+
+    expect(view._metadata.deltaCount).toBe(1);
+    expect(view._metadata.lastUpdated).toBe(lastUpdated);
+  });
+
+  it('should retract negated deltas from cached views', async () => {
+    const personId = 'person_judy';
+    const schema = createStandardSchema('person_schema', 'Person');
+
+    const nameDelta = db.createDelta('user', [
+      { role: 'named', target: { id: personId, context: 'name' } },
+      { role: 'name', target: 'Judy' }
+    ]);
+    await db.persistDelta(nameDelta);
+
+    const view = db.materializeHyperView(personId, schema);
+    expect(view._metadata.deltaCount).toBe(1);
+
+    await db.persistDelta(db.negateDelta('user', nameDelta.id, 'typo'));
+
+    expect(view.name).toBeUndefined();
+    expect(view._metadata.deltaCount).toBe(0);
+  });
+
+  it('should invalidate views that embed a changed object, transitively', async () => {
+    const personSchema = createStandardSchema('person_schema', 'Person');
+    const postSchema = createStandardSchema('post_schema', 'Post', {
+      author: { schema: 'person_schema' }
+    });
+    const blogSchema = createStandardSchema('blog_schema', 'Blog', {
+      post: { schema: 'post_schema' }
+    });
+    db.registerSchema(personSchema);
+    db.registerSchema(postSchema);
+    db.registerSchema(blogSchema);
+
+    await db.persistDelta(
+      db.createDelta('user', [
+        { role: 'post', target: { id: 'post_1', context: 'author' } },
+        { role: 'author', target: { id: 'person_ken', context: 'posts' } }
+      ])
+    );
+    await db.persistDelta(
+      db.createDelta('user', [
+        { role: 'blog', target: { id: 'blog_1', context: 'posts' } },
+        { role: 'post', target: { id: 'post_1', context: 'blog' } }
+      ])
+    );
+
+    db.materializeHyperView('post_1', postSchema);
+    db.materializeHyperView('blog_1', blogSchema);
+    db.materializeHyperView('person_ken', personSchema);
+
+    // Renaming the author touches person_ken, which post_1 and blog_1 embed
+    await db.persistDelta(
+      db.createDelta('user', [
+        { role: 'named', target: { id: 'person_ken', context: 'name' } },
+        { role: 'name', target: 'Ken' }
+      ])
+    );
+
+    expect(db.getHyperView('post_1', 'post_schema')).toBeNull();
+    expect(db.getHyperView('blog_1', 'blog_schema')).toBeNull();
+    expect(db.getHyperView('person_ken', 'person_schema')?._metadata.deltaCount).toBe(2);
+
+    const rebuilt = db.getOrRebuildHyperView('post_1', postSchema);
+    const author = (rebuilt.author as Delta[])[0].pointers.find(p => p.role === 'author');
+    expect((author!.target as any).name).toHaveLength(1);
+  });
+
+  it('should not double-apply a delta already in the view', async () => {
+    const personId = 'person_leo';
+    const schema = createStandardSchema('person_schema', 'Person');
+    const view = db.materializeHyperView(personId, schema);
+
+    const delta = db.createDelta('user', [
+      { role: 'named', target: { id: personId, context: 'name' } },
+      { role: 'name', target: 'Leo' }
+    ]);
+    await db.persistDelta(delta);
+    db.updateHyperView(view, delta);
+
+    expect(view._metadata.deltaCount).toBe(1);
+    expect(view.name).toHaveLength(1);
+  });
+});
@@ -9,6 +9,8 @@ import {
   Delta,
   HyperSchema,
   HyperView,
+  PrimitiveHyperSchema,
+  PrimitiveSchemas,
   SelectionFunction,
   TransformationRules,
   TransformationRule
@@ -37,6 +39,17 @@ export function registerSelectionPattern(patternId: string, selector: SelectionF
   BUILT_IN_SELECTORS[patternId] = selector;
 }
 
+/**
+ * Primitive schemas a schema-as-delta can apply, by their `type`
+ */
+export const PRIMITIVE_SCHEMAS_BY_TYPE: Record<string, PrimitiveHyperSchema> = {
+  [PrimitiveSchemas.String.type]: PrimitiveSchemas.String,
+  [PrimitiveSchemas.String.EmailAddress.type]: PrimitiveSchemas.String.EmailAddress,
+  [PrimitiveSchemas.Integer.type]: PrimitiveSchemas.Integer,
+  [PrimitiveSchemas.Integer.Year.type]: PrimitiveSchemas.Integer.Year,
+  [PrimitiveSchemas.Boolean.type]: PrimitiveSchemas.Boolean
+};
+
 /**
  * The Meta-Schema - Bootstrap schema for querying schema-defining deltas
  *
@@ -159,8 +172,21 @@ function resolveTransformationRules(hyperView: HyperView, db: RhizomeDB): Transf
     // Otherwise, extract individual transformation rule
     const onContextPointer = delta.pointers.find(p => p.role === 'on-context');
     const applySchemaPointer = delta.pointers.find(p => p.role === 'apply-schema');
-
-    if (onContextPointer && applySchemaPointer) {
+    const applyPrimitivePointer = delta.pointers.find(p => p.role === 'apply-primitive');
+
+    if (onContextPointer && applyPrimitivePointer) {
+      const primitive =
+        typeof applyPrimitivePointer.target === 'string'
+          ? PRIMITIVE_SCHEMAS_BY_TYPE[applyPrimitivePointer.target]
+          : undefined;
+
+      if (primitive) {
+        rules[onContextPointer.target as string] = {
+          schema: primitive,
+          when: pointer => primitive.validate(pointer.target)
+        };
+      }
+    } else if (onContextPointer && applySchemaPointer) {
       const contextName = onContextPointer.target as string;
 
       if (isDomainNodeReference(applySchemaPointer.target)) {
@@ -236,6 +262,37 @@ export async function addTransformationRule(
   return delta;
 }
 
+/**
+ * Helper: Add a primitive field to an existing schema
+ *
+ * @param db - RhizomeDB instance
+ * @param schemaId - ID of schema to modify
+ * @param contextName - Property name of the field
+ * @param primitiveType - `type` of a primitive schema (see PRIMITIVE_SCHEMAS_BY_TYPE)
+ */
+export async function addPrimitiveField(
+  db: RhizomeDB,
+  schemaId: string,
+  contextName: string,
+  primitiveType: string
+): Promise<Delta> {
+  const delta = db.createDelta('system', [
+    { role: 'schema', target: { id: schemaId, context: 'transform' } },
+    { role: 'on-context', target: contextName },
+    { role: 'apply-primitive', target: primitiveType }
+  ]);
+
+  await db.persistDelta(delta);
+  return delta;
+}
+
+/**
+ * Whether a delta is part of a schema-as-delta definition
+ */
+export function isSchemaDelta(delta: Delta): boolean {
+  return delta.pointers.some(p => p.role === 'schema' && isDomainNodeReference(p.target));
+}
+
 /**
  * Helper: Query all registered schemas
  *
@@ -243,12 +300,7 @@ export async function addTransformationRule(
  * @returns Array of schema IDs
  */
 export function getAllSchemaIds(db: RhizomeDB): string[] {
-  const schemaDeltas = db.queryDeltas({
-    filter: delta =>
-      delta.pointers.some(
-        p => p.role === 'schema' && isDomainNodeReference(p.target)
-      )
-  });
+  const schemaDeltas = db.queryDeltas({ predicate: isSchemaDelta });
 
   const schemaIds = new Set<string>();
   for (const delta of schemaDeltas) {
@@ -0,0 +1,133 @@
+/**
+ * Tests for delta archive export and import
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { RhizomeDB } from './instance';
+import { LevelDBStore } from './leveldb-store';
+import { ArchiveHeader } from './archive';
+import { createTerminalSchemaAsDeltas } from '../schemas/schemas-as-deltas';
+import { seedMovieDatabase } from '../fixtures/movie-database.fixture';
+
+async function collect(lines: AsyncIterable<string>): Promise<string[]> {
+  const collected: string[] = [];
+  for await (const line of lines) {
+    collected.push(line);
+  }
+  return collected;
+}
+
+describe('Delta Archives', () => {
+  let source: RhizomeDB;
+
+  beforeEach(() => {
+    source = new RhizomeDB({ storage: 'memory', systemId: 'source' });
+  });
+
+  it('should write a header with system ID, count and checksum', async () => {
+    await source.persistDelta(source.createDelta('alice', [{ role: 'name', target: 'Alice' }]));
+
+    const lines = await collect(source.exportDeltas());
+    const header = JSON.parse(lines[0]) as ArchiveHeader;
+
+    expect(header).toMatchObject({
+      format: 'rhizomedb-archive',
+      version: 1,
+      systemId: 'source',
+      deltaCount: 1
+    });
+    expect(header.checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(lines).toHaveLength(2);
+  });
+
+  it('should import idempotently, keeping negations', async () => {
+    const kept = source.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+    const removed = source.createDelta('alice', [{ role: 'name', target: 'Alicia' }]);
+    await source.persistDeltas([kept, removed, source.negateDelta('alice', removed.id)]);
+    const lines = await collect(source.exportDeltas());
+
+    const target = new RhizomeDB({ storage: 'memory' });
+    const first = await target.importDeltas(lines);
+    const second = await target.importDeltas(lines);
+
+    expect(first).toMatchObject({ imported: 3, skipped: 0 });
+    expect(second).toMatchObject({ imported: 0, skipped: 3 });
+    expect(target.getStats().totalDeltas).toBe(3);
+    expect(target.queryDeltas({ where: { pointer: { role: 'name' } } })).toEqual([kept]);
+  });
+
+  it('should bring schema-as-delta definitions along with filtered exports', async () => {
+    await createTerminalSchemaAsDeltas(source, 'person_schema', 'Person');
+    await source.persistDelta(source.createDelta('alice', [{ role: 'name', target: 'Alice' }]));
+
+    const target = new RhizomeDB({ storage: 'memory' });
+    const result = await target.importDeltas(source.exportDeltas({ authors: ['alice'] }));
+
+    expect(result.imported).toBe(4);
+    expect(target.getSchemaSnapshot('person_schema')?.schema.name).toBe('Person');
+  });
+
+  it('should reject truncated, tampered and headerless archives', async () => {
+    await source.persistDeltas([
+      source.createDelta('alice', [{ role: 'name', target: 'Alice' }]),
+      source.createDelta('alice', [{ role: 'name', target: 'Bob' }])
+    ]);
+    const lines = await collect(source.exportDeltas());
+    const target = new RhizomeDB({ storage: 'memory' });
+
+    await expect(target.importDeltas(lines.slice(0, 2))).rejects.toThrow('incomplete');
+    await expect(
+      target.importDeltas([lines[0], lines[1], lines[2].replace('"alice"', '"eve"')])
+    ).rejects.toThrow('checksum mismatch');
+    await expect(target.importDeltas(lines.slice(1))).rejects.toThrow('Not a RhizomeDB archive');
+    await expect(
+      target.importDeltas([lines[0].replace('"version":1', '"version":2'), ...lines.slice(1)])
+    ).rejects.toThrow('Unsupported archive version');
+    expect(target.getStats().totalDeltas).toBe(0);
+  });
+
+  describe('migrating between backends', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      const tmpDir = '/tmp/rhizomedb-test';
+      if (!fs.existsSync(tmpDir)) {
+        fs.mkdirSync(tmpDir, { recursive: true });
+      }
+      dir = path.join(tmpDir, `archive-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      fs.mkdirSync(dir);
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should move the movie database to LevelDB and back through a file', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await seedMovieDatabase(source, { includeExpanded: false });
+      jest.restoreAllMocks();
+
+      const archivePath = path.join(dir, 'movies.ndjson');
+      await pipeline(Readable.from(source.exportDeltas()), fs.createWriteStream(archivePath));
+
+      const store = new LevelDBStore({ storage: 'leveldb', dbPath: path.join(dir, 'db') });
+      const imported = await store.importDeltas(fs.createReadStream(archivePath));
+      expect(imported.imported).toBe(source.getStats().totalDeltas);
+
+      const restored = new RhizomeDB({ storage: 'memory' });
+      await restored.importDeltas(store.exportDeltas());
+      await store.close();
+
+      expect(restored.getStats().totalDeltas).toBe(source.getStats().totalDeltas);
+      const ids = (db: RhizomeDB) =>
+        db
+          .queryDeltas({ targetIds: ['movie_matrix'] })
+          .map(d => d.id)
+          .sort();
+      expect(ids(restored)).toEqual(ids(source));
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Portable delta archives
+ *
+ * An archive is newline-delimited JSON: a header line followed by one delta
+ * per line, parents before children.
+ *
+ *   {"format":"rhizomedb-archive","version":1,"systemId":"...","deltaCount":2,"checksum":"..."}
+ *   {"id":"...","timestamp":...,"author":"...","system":"...","pointers":[...]}
+ *   {"id":"...",...}
+ *
+ * The checksum is the SHA-256 of the delta lines (each with its newline),
+ * so an archive can be checked before anything is imported. Archives work
+ * with any DeltaStore, which makes them usable for backups, fixtures and
+ * moving data between RhizomeDB and LevelDBStore.
+ */
+
+import { createHash } from 'crypto';
+import { StringDecoder } from 'string_decoder';
+import { Delta, DeltaFilter, DeltaStore } from '../core/types';
+import { validateDelta } from '../core/validation';
+import { sortCausally } from '../core/causality';
+import { isSchemaDelta } from '../schemas/schemas-as-deltas';
+
+/** Format identifier in archive headers */
+export const ARCHIVE_FORMAT = 'rhizomedb-archive';
+
+/** Current archive format version */
+export const ARCHIVE_VERSION = 1;
+
+/**
+ * First line of an archive
+ */
+export interface ArchiveHeader {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+
+  /** System that exported the archive */
+  systemId: string;
+
+  /** When the archive was written */
+  exportedAt: number;
+
+  /** Number of delta lines */
+  deltaCount: number;
+
+  /** SHA-256 (hex) of the delta lines */
+  checksum: string;
+}
+
+/**
+ * Export options
+ */
+export interface ExportOptions {
+  /**
+   * Also export schema-defining deltas that the filter excludes, so the
+   * archive's schemas can be loaded on import (default: true)
+   */
+  includeSchemas?: boolean;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportResult {
+  /** Header of the imported archive */
+  header: ArchiveHeader;
+
+  /** Deltas persisted */
+  imported: number;
+
+  /** Deltas skipped because their IDs already existed */
+  skipped: number;
+}
+
+// Deltas checked for existing IDs and persisted at a time
+const IMPORT_BATCH_SIZE = 1000;
+
+/**
+ * Export deltas as archive lines (each ending in a newline)
+ *
+ * Matching deltas are collected first so the header can carry their count
+ * and checksum. Negated deltas are exported along with their negations
+ * unless the filter sets `includeNegated: false`.
+ *
+ * @example
+ * Readable.from(exportDeltas(db)).pipe(fs.createWriteStream('backup.ndjson'));
+ */
+export async function* exportDeltas(
+  source: DeltaStore,
+  filter: DeltaFilter = {},
+  options: ExportOptions = {}
+): AsyncIterable<string> {
+  const byId = new Map<string, Delta>();
+  for await (const delta of source.scanDeltas({ includeNegated: true, ...filter })) {
+    byId.set(delta.id, delta);
+  }
+
+  if (options.includeSchemas !== false) {
+    for await (const delta of source.scanDeltas({
+      includeNegated: true,
+      predicate: isSchemaDelta
+    })) {
+      byId.set(delta.id, delta);
+    }
+  }
+
+  const lines = sortCausally(Array.from(byId.values())).map(delta => `${JSON.stringify(delta)}\n`);
+  const hash = createHash('sha256');
+  for (const line of lines) {
+    hash.update(line);
+  }
+
+  const header: ArchiveHeader = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    systemId: source.systemId,
+    exportedAt: Date.now(),
+    deltaCount: lines.length,
+    checksum: hash.digest('hex')
+  };
+
+  yield `${JSON.stringify(header)}\n`;
+  yield* lines;
+}
+
+/**
+ * Split a stream of text or bytes into lines
+ */
+async function* readLines(
+  input: AsyncIterable<string | Buffer> | Iterable<string | Buffer>
+): AsyncIterable<string> {
+  const decoder = new StringDecoder('utf8');
+  let buffered = '';
+
+  for await (const chunk of input) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+    let newline = buffered.indexOf('\n');
+    while (newline >= 0) {
+      yield buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      newline = buffered.indexOf('\n');
+    }
+  }
+
+  buffered += decoder.end();
+  if (buffered.length > 0) {
+    yield buffered;
+  }
+}
+
+/**
+ * Parse and check an archive header line
+ *
+ * @throws Error if the line is not a header of a supported version
+ */
+function parseHeader(line: string | undefined): ArchiveHeader {
+  let header: Partial<ArchiveHeader> | undefined;
+  try {
+    header = line ? (JSON.parse(line) as Partial<ArchiveHeader>) : undefined;
+  } catch {
+    header = undefined;
+  }
+
+  if (!header || header.format !== ARCHIVE_FORMAT) {
+    throw new Error('Not a RhizomeDB archive: missing header');
+  }
+  if (header.version !== ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version: ${String(header.version)}`);
+  }
+
+  return header as ArchiveHeader;
+}
+
+/**
+ * Import an archive into a store
+ *
+ * The whole archive is read and checked against its header before anything
+ * is persisted. Deltas whose IDs already exist are skipped, so importing the
+ * same archive twice is a no-op.
+ *
+ * @param input - Archive text or bytes, e.g. `fs.createReadStream(path)` or
+ * the output of `exportDeltas`
+ * @throws Error if the header is missing or unsupported, or the delta
+ * count or checksum does not match
+ * @throws ValidationError if an archived delta is malformed
+ */
+export async function importDeltas(
+  target: DeltaStore,
+  input: AsyncIterable<string | Buffer> | Iterable<string | Buffer>
+): Promise<ImportResult> {
+  let header: ArchiveHeader | undefined;
+  const hash = createHash('sha256');
+  const deltas: Delta[] = [];
+
+  for await (const line of readLines(input)) {
+    if (!header) {
+      header = parseHeader(line);
+      continue;
+    }
+    if (line.length === 0) continue;
+
+    hash.update(`${line}\n`);
+    const delta = JSON.parse(line) as Delta;
+    validateDelta(delta);
+    deltas.push(delta);
+  }
+
+  if (!header) {
+    throw new Error('Not a RhizomeDB archive: missing header');
+  }
+  if (deltas.length !== header.deltaCount) {
+    throw new Error(
+      `Archive is incomplete: header lists ${header.deltaCount} deltas, found ${deltas.length}`
+    );
+  }
+  if (hash.digest('hex') !== header.checksum) {
+    throw new Error('Archive checksum mismatch');
+  }
+
+  let imported = 0;
+  for (let i = 0; i < deltas.length; i += IMPORT_BATCH_SIZE) {
+    const batch = deltas.slice(i, i + IMPORT_BATCH_SIZE);
+    const existing = new Set(
+      (await target.getDeltas(batch.map(delta => delta.id))).map(delta => delta.id)
+    );
+    const fresh = batch.filter(delta => !existing.has(delta.id));
+
+    await target.persistDeltas(fresh);
+    imported += fresh.length;
+  }
+
+  return { header, imported, skipped: deltas.length - imported };
+}
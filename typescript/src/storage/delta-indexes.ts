@@ -5,8 +5,9 @@
  * to dramatically speed up filtered queries.
  */
 
-import { Delta, DeltaFilter, IndexStats } from '../core/types';
+import { Delta, DeltaFilter, DeltaFilterExpression, IndexStats, Primitive } from '../core/types';
 import { isDomainNodeReference, isReference } from '../core/validation';
+import { getComparisonRange, getComparisonValues } from '../queries/filter-expression';
 
 /**
  * Secondary indexes for delta queries
@@ -188,6 +189,13 @@ export class DeltaIndexes {
       candidateSets.push(timestampSet);
     }
 
+    if (filter.where) {
+      const expressionSet = this.queryExpressionIds(filter.where);
+      if (expressionSet) {
+        candidateSets.push(expressionSet);
+      }
+    }
+
     // If no indexed fields in filter, return null (scan all deltas)
     if (candidateSets.length === 0) {
       return null;
@@ -232,6 +240,73 @@ export class DeltaIndexes {
     this.timestampIndex = [];
   }
 
+  /**
+   * Get candidate delta IDs for a filter expression
+   *
+   * Returns a superset of the matching delta IDs, or null if the expression
+   * can't be narrowed by the indexes (e.g. `not`, or a pointer role match).
+   */
+  private queryExpressionIds(expression: DeltaFilterExpression): Set<string> | null {
+    if ('and' in expression) {
+      const sets = expression.and
+        .map(child => this.queryExpressionIds(child))
+        .filter((set): set is Set<string> => set !== null);
+      return sets.length > 0 ? this.intersectSets(sets) : null;
+    }
+
+    if ('or' in expression) {
+      const sets = expression.or.map(child => this.queryExpressionIds(child));
+      if (sets.length === 0 || sets.some(set => set === null)) {
+        return null;
+      }
+      return this.unionSets(sets as Set<string>[]);
+    }
+
+    if ('field' in expression) {
+      switch (expression.field) {
+        case 'id': {
+          const values = getComparisonValues(expression.is);
+          return values ? new Set(values.map(String)) : null;
+        }
+        case 'author':
+          return this.lookupValues(this.authorIndex, getComparisonValues(expression.is));
+        case 'system':
+          return this.lookupValues(this.systemIndex, getComparisonValues(expression.is));
+        case 'timestamp': {
+          const range = getComparisonRange(expression.is);
+          return range ? this.getDeltaIdsByTimestampRange(range.start, range.end) : null;
+        }
+      }
+    }
+
+    if ('pointer' in expression) {
+      const sets: Set<string>[] = [];
+      const targetSet = this.lookupValues(
+        this.targetIdIndex,
+        getComparisonValues(expression.pointer.targetId)
+      );
+      const contextSet = this.lookupValues(
+        this.targetContextIndex,
+        getComparisonValues(expression.pointer.context)
+      );
+      if (targetSet) sets.push(targetSet);
+      if (contextSet) sets.push(contextSet);
+      return sets.length > 0 ? this.intersectSets(sets) : null;
+    }
+
+    return null;
+  }
+
+  private lookupValues(
+    index: Map<string, Set<string>>,
+    values: Primitive[] | null
+  ): Set<string> | null {
+    if (!values) {
+      return null;
+    }
+    return this.unionSets(values.map(value => index.get(String(value)) || new Set<string>()));
+  }
+
   // Helper methods
 
   private addToIndex(index: Map<string, Set<string>>, key: string, deltaId: string): void {
@@ -280,6 +355,16 @@ export class DeltaIndexes {
     }
   }
 
+  private unionSets(sets: Set<string>[]): Set<string> {
+    const result = new Set<string>();
+    for (const set of sets) {
+      for (const item of set) {
+        result.add(item);
+      }
+    }
+    return result;
+  }
+
   private intersectSets(sets: Set<string>[]): Set<string> {
     if (sets.length === 0) {
       return new Set();
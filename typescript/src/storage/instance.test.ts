@@ -83,6 +83,26 @@ describe('RhizomeDB', () => {
       expect(results).toHaveLength(1);
       expect(results[0].id).toBe(delta1.id);
     });
+
+    it('should only filter as many deltas as a scan consumes', async () => {
+      await db.persistDeltas(
+        Array.from({ length: 10 }, (_, i) => db.createDelta('author_1', [{ role: 'n', target: i }]))
+      );
+
+      const checked: Delta[] = [];
+      const scanned: Delta[] = [];
+      for await (const delta of db.scanDeltas({
+        predicate: d => checked.push(d) > 0
+      })) {
+        scanned.push(delta);
+        if (scanned.length === 3) {
+          break;
+        }
+      }
+
+      expect(scanned).toHaveLength(3);
+      expect(checked).toHaveLength(3);
+    });
   });
 
   describe('Streaming', () => {
@@ -314,6 +334,44 @@ describe('RhizomeDB', () => {
     });
   });
 
+  describe('Content-addressed Identity', () => {
+    let contentDb: RhizomeDB;
+
+    beforeEach(() => {
+      contentDb = new RhizomeDB({ storage: 'memory', deltaIdentity: 'content' });
+    });
+
+    it('should derive delta IDs from content', () => {
+      const delta = contentDb.createDelta('author_1', [{ role: 'test', target: 'value' }]);
+      expect(delta.id).toMatch(/^sha256-[0-9a-f]{64}$/);
+    });
+
+    it('should treat re-delivery of the same content as a no-op', async () => {
+      const received: Delta[] = [];
+      contentDb.subscribe({}, delta => {
+        received.push(delta);
+      });
+
+      const delta = contentDb.createDelta('author_1', [{ role: 'test', target: 'value' }]);
+      await contentDb.persistDelta(delta);
+      await contentDb.persistDelta({ ...delta });
+
+      expect(contentDb.getStats().totalDeltas).toBe(1);
+      expect(received).toHaveLength(1);
+    });
+
+    it('should reject deltas whose ID does not match their content', async () => {
+      const delta = contentDb.createDelta('author_1', [{ role: 'test', target: 'value' }]);
+
+      await expect(
+        contentDb.persistDelta({ ...delta, pointers: [{ role: 'test', target: 'forged' }] })
+      ).rejects.toThrow('does not match its content');
+      await expect(contentDb.persistDelta(db.createDelta('author_1', []))).rejects.toThrow(
+        'content-addressed'
+      );
+    });
+  });
+
   describe('Statistics', () => {
     it('should track instance statistics', async () => {
       const delta1 = db.createDelta('author_1', [{ role: 'test', target: 'value' }]);
@@ -8,6 +8,7 @@ import { LRUCache } from 'lru-cache';
 import {
   Delta,
   Pointer,
+  Reference,
   DeltaFilter,
   HyperSchema,
   HyperView,
@@ -15,18 +16,43 @@ import {
   RhizomeConfig,
   InstanceStats,
   DeltaHandler,
+  DeltaBatchHandler,
+  DeltaTransaction,
   Subscription,
   StreamInfo,
   DeltaAuthor,
   DeltaStore,
   StreamConsumer,
   StreamProducer,
-  IndexMaintainer
+  IndexMaintainer,
+  HyperViewConstraints,
+  FindHyperViewsOptions,
+  DeltaStorageAdapter
 } from '../core/types';
 import { validateDelta, isDomainNodeReference, isReference } from '../core/validation';
-import { constructHyperView, SchemaRegistry } from '../schemas/hyperview';
-import { DeltaIndexes } from './delta-indexes';
-import { getNegatedDeltaIds } from '../queries/negation';
+import { computeContentId } from '../core/canonical';
+import { signDelta, SigningKey } from '../core/signing';
+import { HybridLogicalClock } from '../core/hlc';
+import { CausalBuffer, getCausalParentIds, sortCausally } from '../core/causality';
+import {
+  constructHyperView,
+  transformDelta,
+  collectNestedObjectIds,
+  SchemaRegistry
+} from '../schemas/hyperview';
+import { HyperViewLoader, HyperViewLoaderOptions } from '../schemas/hyperview-loader';
+import { createStorageAdapter } from './storage-adapters';
+import { Transaction, orderForCommit } from './transaction';
+import {
+  ExportOptions,
+  ImportResult,
+  exportDeltas as exportArchive,
+  importDeltas as importArchive
+} from './archive';
+import { getNegatedTargetIds } from '../queries/negation';
+import { compileFilterExpression, matchesFilterExpression } from '../queries/filter-expression';
+import { buildHyperViews, findCandidateRootIds } from '../queries/hyperview-query';
+import { QueryPipeline } from '../queries/query-pipeline';
 import { calculateSchemaHash, VersionedHyperSchema } from '../schemas/schema-versioning';
 import {
   createMetaHyperSchema,
@@ -43,7 +69,7 @@ class MemorySubscription implements Subscription {
   constructor(
     private id: string,
     private filter: DeltaFilter,
-    private handler: DeltaHandler,
+    private handler: DeltaBatchHandler,
     private unsubscribeFn: () => void
   ) {}
 
@@ -67,13 +93,17 @@ class MemorySubscription implements Subscription {
     return this._paused;
   }
 
-  async handleDelta(delta: Delta): Promise<void> {
+  /**
+   * Deliver the matching deltas of one commit
+   */
+  async handleDeltas(deltas: Delta[]): Promise<void> {
     if (this._paused) {
       return;
     }
 
-    if (this.matchesFilter(delta)) {
-      await this.handler(delta);
+    const matching = deltas.filter(delta => this.matchesFilter(delta));
+    if (matching.length > 0) {
+      await this.handler(matching);
     }
   }
 
@@ -111,13 +141,20 @@ class MemorySubscription implements Subscription {
 
     if (this.filter.targetContexts) {
       const hasMatchingContext = delta.pointers.some(
-        p => isReference(p.target) && p.target.context && this.filter.targetContexts!.includes(p.target.context)
+        p =>
+          isReference(p.target) &&
+          p.target.context &&
+          this.filter.targetContexts!.includes(p.target.context)
       );
       if (!hasMatchingContext) {
         return false;
       }
     }
 
+    if (this.filter.where && !matchesFilterExpression(delta, this.filter.where)) {
+      return false;
+    }
+
     if (this.filter.predicate && !this.filter.predicate(delta)) {
       return false;
     }
@@ -140,19 +177,28 @@ export class RhizomeDB
   implements DeltaAuthor, DeltaStore, StreamConsumer, StreamProducer, IndexMaintainer
 {
   public readonly systemId: string;
-  private deltas: Delta[] = [];
-  private deltaIndex: Map<string, Delta> = new Map();
-  private deltaIndexes: DeltaIndexes = new DeltaIndexes();
+  /** Hybrid logical clock (only with `clock: 'hlc'`) */
+  public readonly clock?: HybridLogicalClock;
+  // Delta storage, indexes and negation lookup
+  private storage: DeltaStorageAdapter;
+  private opened: Promise<void>;
+  private isOpen = false;
+  // Deltas waiting for their causal parents
+  private causalBuffer: CausalBuffer = new CausalBuffer();
   private subscriptions: Map<string, MemorySubscription> = new Map();
   private materializedViews: LRUCache<string, MaterializedHyperView>;
+  // Nested object ID -> cache keys of materialized views that embed it
+  private viewDependents: Map<string, Set<string>> = new Map();
   private cacheStats = { hits: 0, misses: 0, evictions: 0 };
   private schemaRegistry: SchemaRegistry;
   private startTime: number = Date.now();
   private config: Required<RhizomeConfig>;
 
   // Schema snapshot tracking
-  private schemaSnapshots: Map<string, { schema: HyperSchema; version: string; timestamp: number }> =
-    new Map();
+  private schemaSnapshots: Map<
+    string,
+    { schema: HyperSchema; version: string; timestamp: number }
+  > = new Map();
   private metaSchema: HyperSchema;
 
   constructor(config: RhizomeConfig) {
@@ -164,15 +210,34 @@ export class RhizomeDB
       storageConfig: config.storageConfig,
       cacheSize: config.cacheSize || 1000,
       enableIndexing: config.enableIndexing !== false,
-      validateSchemas: config.validateSchemas || false
+      validateSchemas: config.validateSchemas || false,
+      deltaIdentity: config.deltaIdentity || 'uuid',
+      clock: config.clock || 'wall'
     };
 
+    if (this.config.clock === 'hlc') {
+      this.clock = new HybridLogicalClock();
+    }
+
+    this.storage = createStorageAdapter(config);
+    const opening = this.storage.open();
+    this.isOpen = !opening;
+    this.opened = opening
+      ? opening.then(() => {
+          this.isOpen = true;
+        })
+      : Promise.resolve();
+    // Surfaced by ready() and persistDelta(), not as an unhandled rejection
+    this.opened.catch(() => undefined);
+
     // Initialize LRU cache for materialized views
     this.materializedViews = new LRUCache<string, MaterializedHyperView>({
       max: this.config.cacheSize,
-      // Track evictions
-      dispose: () => {
-        this.cacheStats.evictions++;
+      // Track evictions (explicit invalidations are not evictions)
+      dispose: (_view, _key, reason) => {
+        if (reason === 'evict') {
+          this.cacheStats.evictions++;
+        }
       }
     });
 
@@ -190,18 +255,40 @@ export class RhizomeDB
   // =========================================================================
 
   createDelta(author: string, pointers: Pointer[]): Delta {
-    const delta: Delta = {
-      id: uuidv4(),
-      timestamp: Date.now(),
+    const hlc = this.clock?.tick();
+    const content: Omit<Delta, 'id'> = {
+      timestamp: hlc ? hlc.physical : Date.now(),
       author,
       system: this.systemId,
-      pointers
+      pointers,
+      ...(hlc ? { hlc } : {})
+    };
+    const delta: Delta = {
+      id: this.config.deltaIdentity === 'content' ? computeContentId(content) : uuidv4(),
+      ...content
     };
 
     validateDelta(delta);
     return delta;
   }
 
+  createSignedDelta(author: string, pointers: Pointer[], privateKey: SigningKey): Delta {
+    return signDelta(this.createDelta(author, pointers), privateKey);
+  }
+
+  /**
+   * Advance this instance's clock past a delta received from another system
+   *
+   * Always accepted by wall-clock instances.
+   *
+   * @returns false if the delta's clock is too far ahead of ours to observe;
+   * such a delta would outrank everything written here until our clock
+   * caught up, so it should be refused
+   */
+  observeDelta(delta: Delta): boolean {
+    return this.clock?.observe(delta) ?? true;
+  }
+
   negateDelta(author: string, targetDeltaId: string, reason?: string): Delta {
     const pointers: Pointer[] = [
       {
@@ -225,21 +312,32 @@ export class RhizomeDB
   // =========================================================================
 
   async persistDelta(delta: Delta): Promise<void> {
-    validateDelta(delta);
+    validateDelta(delta, { requireContentId: this.config.deltaIdentity === 'content' });
 
-    // Store in array and index
-    this.deltas.push(delta);
-    this.deltaIndex.set(delta.id, delta);
+    // Only wait while a persistent backend is still loading, so in-memory
+    // writes stay synchronous up to their first await
+    if (!this.isOpen) {
+      await this.opened;
+    }
 
-    // Add to secondary indexes
-    this.deltaIndexes.addDelta(delta);
+    // Deltas are immutable, so a known ID is a re-delivery (e.g. a
+    // federation echo or resumed sync) and a no-op
+    if (this.storage.has(delta.id) || this.causalBuffer.has(delta.id)) {
+      return;
+    }
 
-    // Publish to subscribers
-    await this.publishDelta(delta);
+    // Hold back deltas whose causal parents haven't arrived yet
+    const missingParents = getCausalParentIds(delta).filter(id => !this.storage.has(id));
+    if (missingParents.length > 0) {
+      this.causalBuffer.hold(delta, missingParents);
+      return;
+    }
 
-    // Update materialized views if indexing is enabled
-    if (this.config.enableIndexing) {
-      // TODO: Implement incremental view updates
+    const ready = [delta];
+    while (ready.length > 0) {
+      const next = ready.shift()!;
+      await this.storeDelta(next);
+      ready.push(...this.causalBuffer.release(next.id));
     }
   }
 
@@ -249,19 +347,143 @@ export class RhizomeDB
     }
   }
 
+  /**
+   * Get deltas held back because some of their causal parents are missing
+   */
+  getPendingDeltas(): Delta[] {
+    return this.causalBuffer.getPending();
+  }
+
+  /**
+   * Wait for the storage backend to load persisted deltas
+   *
+   * Reads before this resolves see only what has been loaded so far.
+   *
+   * @throws Error if the backend failed to open
+   */
+  async ready(): Promise<void> {
+    await this.opened;
+  }
+
+  /**
+   * Close the storage backend
+   */
+  async close(): Promise<void> {
+    await this.opened;
+    await this.storage.close();
+  }
+
+  /**
+   * Export deltas matching a filter as archive lines (see `archive.ts`)
+   */
+  exportDeltas(filter?: DeltaFilter, options?: ExportOptions): AsyncIterable<string> {
+    return exportArchive(this, filter, options);
+  }
+
+  /**
+   * Import an archive, skipping deltas that already exist
+   *
+   * Schemas defined by the imported deltas are loaded and registered.
+   */
+  async importDeltas(
+    input: AsyncIterable<string | Buffer> | Iterable<string | Buffer>
+  ): Promise<ImportResult> {
+    const result = await importArchive(this, input);
+    if (result.imported > 0) {
+      this.loadAllSchemasFromDeltas();
+    }
+    return result;
+  }
+
+  /**
+   * Stage deltas in `fn` and persist them atomically once it resolves
+   *
+   * Every staged delta is validated before any is stored, all of them are
+   * appended to storage together, and subscribers see them only once all
+   * are stored (`subscribeBatches` handlers as one batch). Nothing is
+   * persisted if `fn` throws. Unlike `persistDelta`, deltas are never held
+   * back: a causal parent outside the transaction must already be stored.
+   *
+   * @returns What `fn` returned
+   * @throws ValidationError if a staged delta is malformed
+   * @throws Error if a causal parent is missing
+   */
+  async transaction<T>(fn: (tx: DeltaTransaction) => T | Promise<T>): Promise<T> {
+    const tx = new Transaction(this, { requireContentId: this.config.deltaIdentity === 'content' });
+
+    let result: T;
+    try {
+      result = await fn(tx);
+    } finally {
+      tx.close();
+    }
+
+    await this.commitDeltas(tx.getDeltas());
+    return result;
+  }
+
+  private async commitDeltas(deltas: Delta[]): Promise<void> {
+    if (!this.isOpen) {
+      await this.opened;
+    }
+
+    // Re-delivered deltas are no-ops, as in persistDelta
+    const fresh = deltas.filter(
+      delta => !(this.storage.has(delta.id) || this.causalBuffer.has(delta.id))
+    );
+    const ordered = await orderForCommit(fresh, id => this.storage.has(id));
+    if (ordered.length === 0) {
+      return;
+    }
+
+    await this.storage.appendBatch(ordered);
+
+    if (this.config.enableIndexing) {
+      for (const delta of ordered) {
+        this.updateMaterializedViews(delta);
+      }
+    }
+
+    await this.publishDeltas(ordered);
+
+    // Held deltas waiting on anything just committed
+    const ready = ordered.flatMap(delta => this.causalBuffer.release(delta.id));
+    while (ready.length > 0) {
+      const next = ready.shift()!;
+      await this.storeDelta(next);
+      ready.push(...this.causalBuffer.release(next.id));
+    }
+  }
+
+  private async storeDelta(delta: Delta): Promise<void> {
+    // Store and index (readable once append resolves, after any durable write)
+    await this.storage.append(delta);
+
+    // Update materialized views before subscribers observe the delta
+    if (this.config.enableIndexing) {
+      this.updateMaterializedViews(delta);
+    }
+
+    // Publish to subscribers
+    await this.publishDelta(delta);
+  }
+
   getDeltas(ids: string[]): Promise<Delta[]> {
+    if (this.storage.getMany) {
+      return this.storage.getMany(ids);
+    }
     return Promise.resolve(
-      ids.map(id => this.deltaIndex.get(id)).filter((d): d is Delta => d !== undefined)
+      ids.map(id => this.storage.get(id)).filter((d): d is Delta => d !== undefined)
     );
   }
 
   // eslint-disable-next-line @typescript-eslint/require-await
-  async *scanDeltas(filter?: DeltaFilter, _cursor?: string): AsyncIterable<Delta> {
-    const matchingDeltas = filter ? this.queryDeltas(filter) : this.deltas;
-
-    for (const delta of matchingDeltas) {
-      yield delta;
+  async *scanDeltas(filter?: DeltaFilter, cursor?: string): AsyncIterable<Delta> {
+    if (this.storage.scan) {
+      yield* this.storage.scan(filter, cursor);
+      return;
     }
+    yield* filter ? this.matchDeltas(filter) : this.storage.getAll();
   }
 
   // =========================================================================
@@ -269,38 +491,70 @@ export class RhizomeDB
   // =========================================================================
 
   queryDeltas(filter: DeltaFilter): Delta[] {
-    let results: Delta[];
+    return Array.from(this.matchDeltas(filter));
+  }
 
+  /**
+   * Yield the deltas matching a filter one at a time, so callers that stop
+   * early don't pay for the rest
+   */
+  private *matchDeltas(filter: DeltaFilter): Generator<Delta> {
     // Try to use indexes for efficient filtering
-    const candidateIds = this.deltaIndexes.queryDeltaIds(filter);
+    const candidateIds = this.storage.queryDeltaIds(filter);
 
-    if (candidateIds) {
-      // Index query returned candidates - fetch only those deltas
-      results = Array.from(candidateIds)
-        .map(id => this.deltaIndex.get(id))
-        .filter((d): d is Delta => d !== undefined);
-    } else {
-      // No indexed fields in filter - scan all deltas
-      results = [...this.deltas];
-    }
+    // Index query returned candidates - fetch only those; otherwise scan all deltas
+    const candidates: Iterable<Delta | undefined> = candidateIds
+      ? Array.from(candidateIds, id => this.storage.get(id))
+      : this.storage.getAll();
 
     // Apply remaining filters not handled by indexes
-    if (filter.ids) {
-      const idSet = new Set(filter.ids);
-      results = results.filter(d => idSet.has(d.id));
+    const idSet = filter.ids ? new Set(filter.ids) : null;
+    const matchesWhere = filter.where ? compileFilterExpression(filter.where) : null;
+
+    // Handle negations (with double negation support)
+    const negatedIds = filter.includeNegated ? null : this.storage.getNegatedDeltaIds();
+
+    for (const delta of candidates) {
+      if (
+        delta !== undefined &&
+        (!idSet || idSet.has(delta.id)) &&
+        (!matchesWhere || matchesWhere(delta)) &&
+        (!filter.predicate || filter.predicate(delta)) &&
+        (!negatedIds || !negatedIds.has(delta.id))
+      ) {
+        yield delta;
+      }
     }
+  }
 
-    if (filter.predicate) {
-      results = results.filter(filter.predicate);
+  /**
+   * Get every persisted delta a delta causally depends on
+   *
+   * Follows causal parent pointers transitively. Ancestors come before their
+   * descendants; the delta itself is not included.
+   *
+   * @param deltaId - The delta whose history to collect
+   * @returns Ancestor deltas in causal order (empty if the delta is unknown)
+   */
+  getCausalHistory(deltaId: string): Delta[] {
+    const start = this.storage.get(deltaId);
+    if (!start) {
+      return [];
     }
 
-    // Handle negations (with double negation support)
-    if (!filter.includeNegated) {
-      const negatedIds = getNegatedDeltaIds(this.deltas);
-      results = results.filter(d => !negatedIds.has(d.id));
+    const ancestors = new Map<string, Delta>();
+    const queue = getCausalParentIds(start);
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      const delta = this.storage.get(id);
+      if (!delta || ancestors.has(id)) continue;
+
+      ancestors.set(id, delta);
+      queue.push(...getCausalParentIds(delta));
     }
 
-    return results;
+    return sortCausally(Array.from(ancestors.values()));
   }
 
   applyHyperSchema(objectId: string, schema: HyperSchema): HyperView {
@@ -309,7 +563,71 @@ export class RhizomeDB
       this.schemaRegistry.register(schema);
     }
 
-    return constructHyperView(objectId, schema, this.deltas, this.schemaRegistry);
+    return constructHyperView(objectId, schema, this.storage.getAll(), this.schemaRegistry);
+  }
+
+  /**
+   * Find all HyperViews whose properties satisfy the given constraints
+   *
+   * Candidate roots come from the target-context index, so only objects with
+   * deltas that could satisfy the constraints are constructed. Ordered by ID,
+   * construction stops once `limit` views match. Without constraints, the
+   * schema's transform rules name the properties objects are found by.
+   *
+   * @param schema - The HyperSchema to apply to each match
+   * @param constraints - Constraints on resolved property values (or `id`)
+   * @param options - Ordering and pagination
+   * @returns Matching HyperViews
+   */
+  findHyperViews(
+    schema: HyperSchema,
+    constraints: HyperViewConstraints = {},
+    options: FindHyperViewsOptions = {}
+  ): HyperView[] {
+    return buildHyperViews(
+      this.findCandidateIds(schema, constraints),
+      id => this.applyHyperSchema(id, schema),
+      constraints,
+      options
+    );
+  }
+
+  /**
+   * Find the IDs of objects that may satisfy the given constraints
+   *
+   * The candidate roots findHyperViews builds views for; the constraints
+   * still have to be checked against each view (see selectHyperViews).
+   */
+  findCandidateIds(schema: HyperSchema, constraints: HyperViewConstraints = {}): Set<string> {
+    return findCandidateRootIds(schema, constraints, context =>
+      this.lookupDeltas(this.storage.getDeltaIdsByTargetContext(context))
+    );
+  }
+
+  /**
+   * Create a loader that batches and caches HyperView construction
+   *
+   * Meant for one unit of work, such as a GraphQL request: it reads the
+   * deltas once, so call `clear()` on it after persisting deltas it should
+   * see, or `refresh()` with them to keep it for longer.
+   */
+  createHyperViewLoader(options?: HyperViewLoaderOptions): HyperViewLoader {
+    return new HyperViewLoader(() => this.storage.getAll(), options);
+  }
+
+  /**
+   * Start a query pipeline from every object matching property constraints
+   *
+   * @example
+   * db.query(personSchema, { name: 'Keanu Reeves' })
+   *   .traverse('performed_by')
+   *   .traverse('movie')
+   *   .applySchema(movieSchema)
+   *   .filter({ year: { between: [1990, 1999] } })
+   *   .ids();
+   */
+  query(schema: HyperSchema, constraints: HyperViewConstraints = {}): QueryPipeline {
+    return QueryPipeline.find(this, schema, constraints);
   }
 
   // =========================================================================
@@ -317,6 +635,20 @@ export class RhizomeDB
   // =========================================================================
 
   subscribe(filter: DeltaFilter, handler: DeltaHandler): Subscription {
+    return this.subscribeBatches(filter, async deltas => {
+      for (const delta of deltas) {
+        await handler(delta);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to deltas one commit at a time
+   *
+   * The handler receives the matching deltas of each transaction together
+   * (in causal order), and single persisted deltas as batches of one.
+   */
+  subscribeBatches(filter: DeltaFilter, handler: DeltaBatchHandler): Subscription {
     const id = uuidv4();
     const subscription = new MemorySubscription(id, filter, handler, () => {
       this.subscriptions.delete(id);
@@ -331,21 +663,29 @@ export class RhizomeDB
   // =========================================================================
 
   async publishDelta(delta: Delta): Promise<void> {
+    await this.publishDeltas([delta]);
+  }
+
+  /**
+   * Publish the deltas of one commit to subscribers as a group
+   */
+  async publishDeltas(deltas: Delta[]): Promise<void> {
     // Notify all subscriptions
     const promises: Promise<void>[] = [];
 
     for (const subscription of this.subscriptions.values()) {
-      promises.push(subscription.handleDelta(delta));
+      promises.push(subscription.handleDeltas(deltas));
     }
 
     await Promise.all(promises);
   }
 
   getStreamInfo(): StreamInfo {
-    const latestDelta = this.deltas[this.deltas.length - 1];
+    const deltas = this.storage.getAll();
+    const latestDelta = deltas[deltas.length - 1];
 
     return {
-      totalDeltas: this.deltas.length,
+      totalDeltas: deltas.length,
       activeSubscriptions: this.subscriptions.size,
       latestTimestamp: latestDelta?.timestamp
     };
@@ -390,18 +730,23 @@ export class RhizomeDB
     if (this.config.enableIndexing) {
       const cacheKey = `${objectId}:${schema.id}`;
       this.materializedViews.set(cacheKey, materializedView);
+      this.trackViewDependencies(cacheKey, materializedView, schema);
     }
 
     return materializedView;
   }
 
-  updateHyperView(view: MaterializedHyperView, _delta: Delta): void {
-    // For simplicity, just rebuild the view
-    // A more sophisticated implementation would incrementally update
+  /**
+   * Incrementally apply a delta to a materialized view
+   *
+   * The delta is added to the properties chosen by the schema's selection
+   * function, and negations retract the delta they negate. Applying a delta
+   * the view already contains is a no-op.
+   */
+  updateHyperView(view: MaterializedHyperView, delta: Delta): void {
     const schema = this.schemaRegistry.get(view._metadata.schemaId);
     if (schema) {
-      const updated = this.materializeHyperView(view.id, schema);
-      Object.assign(view, updated);
+      this.applyDeltaToView(view, schema, delta);
     }
   }
 
@@ -450,6 +795,197 @@ export class RhizomeDB
     return this.materializeHyperView(objectId, schema);
   }
 
+  /**
+   * Route a newly persisted delta to the cached views it affects
+   *
+   * Views whose schema selects the delta (or that contain a delta it negates)
+   * are patched in place. Views embedding a touched object as a nested
+   * HyperView are invalidated, transitively up the nesting chain.
+   */
+  private updateMaterializedViews(delta: Delta): void {
+    const touchedObjectIds = new Set(this.getReferencedObjectIds(delta));
+
+    for (const targetId of getNegatedTargetIds(delta)) {
+      const negated = this.storage.get(targetId);
+      if (negated) {
+        for (const objectId of this.getReferencedObjectIds(negated)) {
+          touchedObjectIds.add(objectId);
+        }
+      }
+    }
+
+    for (const [cacheKey, view] of Array.from(this.materializedViews.entries())) {
+      const schema = this.schemaRegistry.get(view._metadata.schemaId);
+      if (!schema) {
+        continue;
+      }
+
+      if (this.applyDeltaToView(view, schema, delta)) {
+        touchedObjectIds.add(view.id);
+        this.trackViewDependencies(cacheKey, view, schema);
+      }
+    }
+
+    this.invalidateDependentViews(touchedObjectIds);
+  }
+
+  /**
+   * Apply a delta to a single view
+   *
+   * @returns true if the view changed
+   */
+  private applyDeltaToView(
+    view: MaterializedHyperView,
+    schema: HyperSchema,
+    delta: Delta
+  ): boolean {
+    let deltaCountChange = 0;
+    let changed = false;
+
+    // Negations retract the negated delta from every property
+    for (const targetId of getNegatedTargetIds(delta)) {
+      for (const key of Object.keys(view)) {
+        const deltas = view[key];
+        if (key === 'id' || key === '_metadata' || !Array.isArray(deltas)) {
+          continue;
+        }
+
+        const remaining = deltas.filter(d => d.id !== targetId);
+        if (remaining.length === deltas.length) {
+          continue;
+        }
+
+        deltaCountChange -= deltas.length - remaining.length;
+        changed = true;
+
+        if (remaining.length > 0) {
+          view[key] = remaining;
+        } else {
+          delete view[key];
+        }
+      }
+    }
+
+    const result = schema.select(view.id, delta);
+    if (result !== false && !this.containsDelta(view, delta.id) && !this.isNegatedByAny(delta)) {
+      const properties = result === true ? ['_default'] : result;
+      const transformedDelta = transformDelta(
+        view.id,
+        schema,
+        delta,
+        this.storage.getAll(),
+        this.schemaRegistry
+      );
+
+      for (const property of properties) {
+        if (!view[property]) {
+          view[property] = [];
+        }
+        (view[property] as Delta[]).push(transformedDelta);
+      }
+
+      deltaCountChange += properties.length;
+      changed = true;
+    }
+
+    if (changed) {
+      view._metadata.deltaCount += deltaCountChange;
+      view._metadata.lastUpdated = Date.now();
+    }
+
+    return changed;
+  }
+
+  private lookupDeltas(ids: Iterable<string>): Delta[] {
+    const deltas: Delta[] = [];
+    for (const id of ids) {
+      const delta = this.storage.get(id);
+      if (delta) {
+        deltas.push(delta);
+      }
+    }
+    return deltas;
+  }
+
+  private containsDelta(view: HyperView, deltaId: string): boolean {
+    return Object.keys(view).some(key => {
+      const deltas = view[key];
+      return (
+        key !== 'id' &&
+        key !== '_metadata' &&
+        Array.isArray(deltas) &&
+        deltas.some(d => d.id === deltaId)
+      );
+    });
+  }
+
+  /**
+   * Check whether a negation for this delta has already been persisted
+   * (e.g. the negation arrived first via federation)
+   */
+  private isNegatedByAny(delta: Delta): boolean {
+    for (const id of this.storage.getDeltaIdsByTargetId(delta.id)) {
+      const candidate = this.storage.get(id);
+      if (candidate && getNegatedTargetIds(candidate).includes(delta.id)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private getReferencedObjectIds(delta: Delta): string[] {
+    return delta.pointers.filter(p => isReference(p.target)).map(p => (p.target as Reference).id);
+  }
+
+  /**
+   * Record which nested objects a cached view embeds
+   */
+  private trackViewDependencies(
+    cacheKey: string,
+    view: MaterializedHyperView,
+    schema: HyperSchema
+  ): void {
+    for (const nestedId of collectNestedObjectIds(view, schema, this.schemaRegistry)) {
+      let dependents = this.viewDependents.get(nestedId);
+      if (!dependents) {
+        dependents = new Set();
+        this.viewDependents.set(nestedId, dependents);
+      }
+      dependents.add(cacheKey);
+    }
+  }
+
+  /**
+   * Drop cached views that embed any of the given objects, following the
+   * chain upwards to views that embed the invalidated views' roots
+   */
+  private invalidateDependentViews(objectIds: Iterable<string>): void {
+    const pending = Array.from(objectIds);
+    const visited = new Set<string>();
+
+    while (pending.length > 0) {
+      const objectId = pending.pop()!;
+      if (visited.has(objectId)) {
+        continue;
+      }
+      visited.add(objectId);
+
+      const dependents = this.viewDependents.get(objectId);
+      if (!dependents) {
+        continue;
+      }
+      this.viewDependents.delete(objectId);
+
+      for (const cacheKey of dependents) {
+        const view = this.materializedViews.peek(cacheKey);
+        if (view) {
+          this.materializedViews.delete(cacheKey);
+          pending.push(view.id);
+        }
+      }
+    }
+  }
+
   // =========================================================================
   // Utility methods
   // =========================================================================
@@ -475,9 +1011,7 @@ export class RhizomeDB
     const schemaHyperView = this.applyHyperSchema(schemaId, this.metaSchema);
 
     // Check if we found any schema deltas
-    const hasData = Object.keys(schemaHyperView).some(
-      key => key !== 'id' && key !== '_metadata'
-    );
+    const hasData = Object.keys(schemaHyperView).some(key => key !== 'id' && key !== '_metadata');
 
     if (!hasData) {
       return undefined; // No schema deltas found
@@ -636,12 +1170,13 @@ export class RhizomeDB
   getStats(): InstanceStats {
     return {
       systemId: this.systemId,
-      totalDeltas: this.deltas.length,
+      totalDeltas: this.storage.count(),
       materializedHyperViews: this.materializedViews.size,
       cachedViews: this.materializedViews.size,
       activeSubscriptions: this.subscriptions.size,
       uptime: Date.now() - this.startTime,
-      storageType: 'memory',
+      storageType: this.storage.type,
+      pendingDeltas: this.causalBuffer.size,
       cacheStats: {
         hits: this.cacheStats.hits,
         misses: this.cacheStats.misses,
@@ -651,7 +1186,7 @@ export class RhizomeDB
             ? this.cacheStats.hits / (this.cacheStats.hits + this.cacheStats.misses)
             : 0
       },
-      indexStats: this.deltaIndexes.getStats()
+      indexStats: this.storage.getIndexStats()
     };
   }
 
@@ -659,10 +1194,10 @@ export class RhizomeDB
    * Clear all data (useful for testing)
    */
   clear(): void {
-    this.deltas = [];
-    this.deltaIndex.clear();
-    this.deltaIndexes.clear();
+    this.storage.clear();
+    this.causalBuffer.clear();
     this.materializedViews.clear();
+    this.viewDependents.clear();
     // Don't clear subscriptions or schema registry
   }
 }
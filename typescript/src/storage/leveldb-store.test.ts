@@ -6,8 +6,9 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { Level } from 'level';
 import { LevelDBStore } from './leveldb-store';
-import { Delta, DeltaFilter, Pointer, HyperSchema } from '../core/types';
+import { Delta, DeltaFilter, Pointer, HyperSchema, HyperView } from '../core/types';
 import { selectByTargetContext } from '../schemas/hyperview';
 
 // Helper to create temporary database path
@@ -149,6 +150,24 @@ describe('LevelDBStore', () => {
       expect(results).toHaveLength(1);
       expect(results[0].id).toBe(delta1.id);
     });
+
+    it('should filter deltas by filter expression', async () => {
+      const delta1 = db.createDelta('alice', [{ role: 'score', target: 10 }]);
+      const delta2 = db.createDelta('bob', [{ role: 'score', target: 90 }]);
+      const delta3 = db.createDelta('alice', [{ role: 'score', target: 75 }]);
+
+      await db.persistDeltas([delta1, delta2, delta3]);
+
+      const filter: DeltaFilter = {
+        where: {
+          and: [{ field: 'author', is: 'alice' }, { pointer: { role: 'score', value: { gt: 50 } } }]
+        }
+      };
+      const results = await db.queryDeltas(filter);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].id).toBe(delta3.id);
+    });
   });
 
   describe('Streaming', () => {
@@ -288,6 +307,77 @@ describe('LevelDBStore', () => {
       expect(hyperView.value).toHaveLength(1);
       expect((hyperView.value as Delta[])[0].id).toBe(delta2.id);
     });
+
+    it('should build HyperViews from the indexes without a full scan', async () => {
+      const personSchema: HyperSchema = {
+        id: 'person_schema',
+        name: 'Person',
+        select: selectByTargetContext,
+        transform: {}
+      };
+      const postSchema: HyperSchema = {
+        id: 'post_schema',
+        name: 'Post',
+        select: selectByTargetContext,
+        transform: { author: { schema: personSchema } }
+      };
+
+      const title = db.createDelta('system', [
+        { role: 'post', target: { id: 'post_1', context: 'title' } },
+        { role: 'title', target: 'Hello' }
+      ]);
+      const stale = db.createDelta('system', [
+        { role: 'post', target: { id: 'post_1', context: 'title' } },
+        { role: 'title', target: 'Draft' }
+      ]);
+      const negation = db.negateDelta('system', stale.id);
+      await db.persistDeltas([
+        title,
+        stale,
+        negation,
+        db.createDelta('system', [
+          { role: 'post', target: { id: 'post_1', context: 'author' } },
+          { role: 'author', target: { id: 'person_ada', context: 'posts' } }
+        ]),
+        db.createDelta('system', [
+          { role: 'named', target: { id: 'person_ada', context: 'name' } },
+          { role: 'name', target: 'Ada' }
+        ]),
+        db.createDelta('system', [
+          { role: 'post', target: { id: 'post_2', context: 'title' } },
+          { role: 'title', target: 'Other' }
+        ])
+      ]);
+      const scan = jest.spyOn(db, 'scanDeltas');
+
+      const view = await db.applyHyperSchema('post_1', postSchema);
+      const found = await db.findHyperViews(postSchema, { title: 'Hello' });
+      const materialized = await db.materializeHyperView('post_1', postSchema);
+
+      expect(scan).not.toHaveBeenCalled();
+      expect((view.title as Delta[]).map(d => d.id)).toEqual([title.id]);
+      const author = (view.author as Delta[])[0].pointers[1].target as unknown as HyperView;
+      expect(author.id).toBe('person_ada');
+      expect(author.name).toHaveLength(1);
+      expect(found).toEqual([view]);
+      expect(materialized.title).toEqual(view.title);
+    });
+
+    it('should scan every delta for schemas that select by other means', async () => {
+      const schema: HyperSchema = {
+        id: 'flag_schema',
+        name: 'Flag',
+        select: (_objectId, delta) => delta.pointers.some(p => p.role === 'flag'),
+        transform: {}
+      };
+      await db.persistDelta(db.createDelta('system', [{ role: 'flag', target: true }]));
+      const scan = jest.spyOn(db, 'scanDeltas');
+
+      const view = await db.applyHyperSchema('flags', schema);
+
+      expect(scan).toHaveBeenCalled();
+      expect(view._default).toHaveLength(1);
+    });
   });
 
   describe('Materialized HyperViews', () => {
@@ -396,6 +486,199 @@ describe('LevelDBStore', () => {
     });
   });
 
+  describe('Index Planning', () => {
+    async function seed(): Promise<Delta[]> {
+      const deltas = [
+        db.createDelta('alice', [
+          { role: 'person', target: { id: 'p1', context: 'name' } },
+          { role: 'name', target: 'Alice' }
+        ]),
+        db.createDelta('bob', [
+          { role: 'person', target: { id: 'p1', context: 'email' } },
+          { role: 'email', target: 'alice@example.com' }
+        ]),
+        db.createDelta('alice', [
+          { role: 'person', target: { id: 'p2', context: 'name' } },
+          { role: 'name', target: 'Bob' }
+        ])
+      ];
+      deltas.forEach((delta, i) => (delta.timestamp = 1000 + i * 1000));
+      await db.persistDeltas(deltas);
+      return deltas;
+    }
+
+    it('should answer indexed filters without a full scan', async () => {
+      const [aliceName, , bobName] = await seed();
+      const scan = jest.spyOn(db, 'scanDeltas');
+
+      const byContext = await db.queryDeltas({ targetContexts: ['name'] });
+      const combined = await db.queryDeltas({
+        authors: ['alice'],
+        targetIds: ['p1'],
+        timestampRange: { start: 500, end: 1500 }
+      });
+      const byExpression = await db.queryDeltas({
+        where: { pointer: { context: { in: ['name'] } } }
+      });
+
+      expect(scan).not.toHaveBeenCalled();
+      expect(byContext.map(d => d.id)).toEqual([aliceName.id, bobName.id]);
+      expect(combined.map(d => d.id)).toEqual([aliceName.id]);
+      expect(byExpression.map(d => d.id)).toEqual([aliceName.id, bobName.id]);
+    });
+
+    it('should exclude negated deltas from indexed queries', async () => {
+      const [aliceName] = await seed();
+      await db.persistDelta(db.negateDelta('alice', aliceName.id));
+
+      const results = await db.queryDeltas({ authors: ['alice'], targetContexts: ['name'] });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].id).not.toBe(aliceName.id);
+    });
+
+    it('should scan indexed filters in timestamp order from a cursor', async () => {
+      const [, email, bobName] = await seed();
+
+      const scanned: string[] = [];
+      const cursor = `ts:${String(email.timestamp).padStart(20, '0')}`;
+      for await (const delta of db.scanDeltas({ targetIds: ['p1', 'p2'] }, cursor)) {
+        scanned.push(delta.id);
+      }
+
+      expect(scanned).toEqual([email.id, bobName.id]);
+    });
+
+    it('should stream timestamp ranges from the index without loading candidates', async () => {
+      const [, email, bobName] = await seed();
+      const load = jest.spyOn(db, 'getDeltas');
+
+      const scanned: string[] = [];
+      const cursor = `ts:${String(bobName.timestamp).padStart(20, '0')}`;
+      for await (const delta of db.scanDeltas({ timestampRange: { start: 1500 } })) {
+        scanned.push(delta.id);
+      }
+      const fromCursor: string[] = [];
+      for await (const delta of db.scanDeltas({ timestampRange: { end: 3000 } }, cursor)) {
+        fromCursor.push(delta.id);
+      }
+
+      expect(load).not.toHaveBeenCalled();
+      expect(scanned).toEqual([email.id, bobName.id]);
+      expect(fromCursor).toEqual([bobName.id]);
+    });
+
+    it('should build the context index for stores written without it', async () => {
+      const [aliceName, , bobName] = await seed();
+      await db.close();
+
+      // Simulate a store from before the ctx: index existed
+      const raw = new Level<string, string>(dbPath, { valueEncoding: 'json' });
+      for await (const key of raw.keys({ gte: 'ctx:', lte: 'ctx:\xff' })) {
+        await raw.del(key);
+      }
+      await raw.del('meta:index_version');
+      await raw.close();
+
+      db = new LevelDBStore({ systemId: 'test-system', storage: 'leveldb', dbPath });
+      const results = await db.queryDeltas({ targetContexts: ['name'] });
+
+      expect(results.map(d => d.id)).toEqual([aliceName.id, bobName.id]);
+    });
+  });
+
+  describe('Negation Index', () => {
+    it('should track negation and double negation with point lookups', async () => {
+      const delta = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+      await db.persistDelta(delta);
+      const scan = jest.spyOn(db, 'scanDeltas');
+
+      expect(await db.isNegated(delta.id)).toBe(false);
+
+      const negation = db.negateDelta('bob', delta.id);
+      await db.persistDelta(negation);
+      expect(await db.isNegated(delta.id)).toBe(true);
+
+      const doubleNegation = db.negateDelta('alice', negation.id);
+      await db.persistDelta(doubleNegation);
+      expect(await db.isNegated(delta.id)).toBe(false);
+      expect(await db.isNegated(negation.id)).toBe(true);
+
+      await db.persistDelta(db.negateDelta('bob', doubleNegation.id));
+      expect(await db.isNegated(delta.id)).toBe(true);
+      expect(scan).not.toHaveBeenCalled();
+    });
+
+    it('should answer negation state as of a timestamp', async () => {
+      const delta = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+      delta.timestamp = 1000;
+      const negation = db.negateDelta('bob', delta.id);
+      negation.timestamp = 2000;
+      const doubleNegation = db.negateDelta('alice', negation.id);
+      doubleNegation.timestamp = 3000;
+      await db.persistDeltas([delta, negation, doubleNegation]);
+
+      expect(await db.isNegated(delta.id, 1500)).toBe(false);
+      expect(await db.isNegated(delta.id, 2000)).toBe(true);
+      expect(await db.isNegated(delta.id, 2500)).toBe(true);
+      expect(await db.isNegated(delta.id, 3000)).toBe(false);
+      expect(await db.getNegatedDeltaIds([delta.id, negation.id], 2500)).toEqual(
+        new Set([delta.id])
+      );
+    });
+
+    it('should restore double-negated deltas in query results', async () => {
+      const delta = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+      const negation = db.negateDelta('bob', delta.id);
+      await db.persistDeltas([delta, negation, db.negateDelta('alice', negation.id)]);
+
+      const results = await db.queryDeltas({ ids: [delta.id, negation.id] });
+
+      expect(results.map(d => d.id)).toEqual([delta.id]);
+    });
+
+    it('should build the negation index for stores written without it', async () => {
+      const delta = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+      await db.persistDeltas([delta, db.negateDelta('bob', delta.id)]);
+      await db.close();
+
+      const raw = new Level<string, string>(dbPath, { valueEncoding: 'json' });
+      for await (const key of raw.keys({ gte: 'negated_by:', lte: 'negated_by:\xff' })) {
+        await raw.del(key);
+      }
+      await raw.put('meta:index_version', '2');
+      await raw.close();
+
+      db = new LevelDBStore({ systemId: 'test-system', storage: 'leveldb', dbPath });
+
+      expect(await db.isNegated(delta.id)).toBe(true);
+    });
+  });
+
+  describe('Content-addressed Identity', () => {
+    it('should treat re-delivery of the same content as a no-op', async () => {
+      const contentPath = createTempDbPath();
+      const contentDb = new LevelDBStore({
+        systemId: 'test-system',
+        storage: 'leveldb',
+        deltaIdentity: 'content',
+        dbPath: contentPath
+      });
+
+      const delta = contentDb.createDelta('user-1', [{ role: 'name', target: 'Alice' }]);
+      expect(delta.id).toMatch(/^sha256-/);
+
+      await contentDb.persistDelta(delta);
+      await contentDb.persistDelta({ ...delta });
+
+      const stats = await contentDb.getStats();
+      expect(stats.totalDeltas).toBe(1);
+
+      await contentDb.close();
+      cleanupDb(contentPath);
+    });
+  });
+
   describe('Persistence Across Sessions', () => {
     it('should persist data across database close/open', async () => {
       const delta = db.createDelta('user-1', [{ role: 'test', target: 'persistent-data' }]);
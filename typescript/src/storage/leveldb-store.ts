@@ -19,14 +19,57 @@ import {
   StreamInfo,
   DeltaAuthor,
   DeltaStore,
+  DeltaTransaction,
   StreamConsumer,
   StreamProducer,
-  IndexMaintainer
+  IndexMaintainer,
+  HyperViewConstraints,
+  FindHyperViewsOptions,
+  DeltaFilterExpression,
+  Primitive,
+  isPrimitiveHyperSchema
 } from '../core/types';
 import { validateDelta, isDomainNodeReference, isReference } from '../core/validation';
-import { constructHyperView, SchemaRegistry } from '../schemas/hyperview';
+import { computeContentId } from '../core/canonical';
+import { signDelta, SigningKey } from '../core/signing';
+import { HybridLogicalClock } from '../core/hlc';
+import { CausalBuffer, getCausalParentIds, sortCausally } from '../core/causality';
+import { Transaction, orderForCommit } from './transaction';
+import {
+  ExportOptions,
+  ImportResult,
+  exportDeltas as exportArchive,
+  importDeltas as importArchive
+} from './archive';
+import {
+  getComparisonRange,
+  getComparisonValues,
+  matchesFilterExpression
+} from '../queries/filter-expression';
+import { buildHyperViews, findCandidateRootIds } from '../queries/hyperview-query';
+import { getNegatedTargetIds } from '../queries/negation';
+import { constructHyperView, SchemaRegistry, selectByTargetContext } from '../schemas/hyperview';
 import { calculateSchemaHash, VersionedHyperSchema } from '../schemas/schema-versioning';
 
+function padTimestamp(timestamp: number): string {
+  return timestamp.toString().padStart(20, '0');
+}
+
+function intersectSets(sets: Set<string>[]): Set<string> {
+  const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size);
+  return new Set(Array.from(smallest).filter(id => rest.every(set => set.has(id))));
+}
+
+function unionSets(sets: Set<string>[]): Set<string> {
+  const result = new Set<string>();
+  for (const set of sets) {
+    for (const id of set) {
+      result.add(id);
+    }
+  }
+  return result;
+}
+
 /**
  * Subscription implementation (same as in-memory version)
  */
@@ -104,13 +147,20 @@ class LevelDBSubscription implements Subscription {
 
     if (this.filter.targetContexts) {
       const hasMatchingContext = delta.pointers.some(
-        p => isReference(p.target) && p.target.context && this.filter.targetContexts!.includes(p.target.context)
+        p =>
+          isReference(p.target) &&
+          p.target.context &&
+          this.filter.targetContexts!.includes(p.target.context)
       );
       if (!hasMatchingContext) {
         return false;
       }
     }
 
+    if (this.filter.where && !matchesFilterExpression(delta, this.filter.where)) {
+      return false;
+    }
+
     if (this.filter.predicate && !this.filter.predicate(delta)) {
       return false;
     }
@@ -128,13 +178,23 @@ class LevelDBSubscription implements Subscription {
  * - StreamConsumer: Subscribe to delta streams
  * - StreamProducer: Publish deltas to subscribers
  * - IndexMaintainer: Materialize and maintain HyperViews
+ *
+ * Subscriptions, transactions, causal history and the materialized view
+ * cache duplicate `RhizomeDB`, which has them over any storage adapter; they
+ * are deprecated here in favour of `new RhizomeDB({ storage: 'leveldb' })`.
+ * Storage, index-backed queries and HyperView construction stay, and back
+ * that adapter.
  */
 export class LevelDBStore
   implements DeltaAuthor, DeltaStore, StreamConsumer, StreamProducer, IndexMaintainer
 {
   public readonly systemId: string;
+  /** Hybrid logical clock (only with `clock: 'hlc'`) */
+  public readonly clock?: HybridLogicalClock;
   private db: Level<string, string>;
   private subscriptions: Map<string, LevelDBSubscription> = new Map();
+  // Deltas waiting for their causal parents (in memory only)
+  private causalBuffer: CausalBuffer = new CausalBuffer();
   private materializedViews: Map<string, MaterializedHyperView> = new Map();
   private schemaRegistry: SchemaRegistry;
   private startTime: number = Date.now();
@@ -147,6 +207,12 @@ export class LevelDBStore
   private static readonly AUTHOR_PREFIX = 'author:';
   private static readonly SYSTEM_PREFIX = 'system:';
   private static readonly TARGET_PREFIX = 'target:';
+  private static readonly CONTEXT_PREFIX = 'ctx:';
+  private static readonly NEGATED_BY_PREFIX = 'negated_by:';
+
+  // Version of the index layout; older stores are upgraded on open
+  private static readonly INDEX_VERSION_KEY = 'meta:index_version';
+  private static readonly INDEX_VERSION = 3;
 
   constructor(config: RhizomeConfig & { dbPath: string }) {
     this.systemId = config.systemId || uuidv4();
@@ -157,9 +223,15 @@ export class LevelDBStore
       storageConfig: config.storageConfig,
       cacheSize: config.cacheSize || 1000,
       enableIndexing: config.enableIndexing !== false,
-      validateSchemas: config.validateSchemas || false
+      validateSchemas: config.validateSchemas || false,
+      deltaIdentity: config.deltaIdentity || 'uuid',
+      clock: config.clock || 'wall'
     };
 
+    if (this.config.clock === 'hlc') {
+      this.clock = new HybridLogicalClock();
+    }
+
     // Initialize schema registry with validation setting
     this.schemaRegistry = new SchemaRegistry({
       validateOnRegister: this.config.validateSchemas
@@ -167,7 +239,7 @@ export class LevelDBStore
 
     // Initialize LevelDB
     this.db = new Level(config.dbPath, { valueEncoding: 'json' });
-    this.ready = this.db.open();
+    this.ready = this.db.open().then(() => this.upgradeIndexes());
   }
 
   /**
@@ -177,6 +249,53 @@ export class LevelDBStore
     await this.ready;
   }
 
+  /**
+   * Build indexes missing from stores written by older versions
+   *
+   * Version 2 added the `ctx:` target-context index, version 3 the
+   * `negated_by:` negation index.
+   */
+  private async upgradeIndexes(): Promise<void> {
+    let version = 1;
+    try {
+      version = Number(await this.db.get(LevelDBStore.INDEX_VERSION_KEY));
+    } catch (err: unknown) {
+      if ((err as { code?: string }).code !== 'LEVEL_NOT_FOUND') {
+        throw err;
+      }
+    }
+
+    if (version >= LevelDBStore.INDEX_VERSION) {
+      return;
+    }
+
+    let batch = this.db.batch();
+    const iterator = this.db.iterator({
+      gte: LevelDBStore.DELTA_PREFIX,
+      lte: LevelDBStore.DELTA_PREFIX + '\xff'
+    });
+
+    for await (const [_key, json] of iterator) {
+      const delta = this.deserializeDelta(json);
+      const keys = [
+        ...(version < 2 ? this.contextIndexKeys(delta) : []),
+        ...this.negationIndexKeys(delta)
+      ];
+      for (const key of keys) {
+        batch.put(key, delta.id);
+      }
+
+      // Keep batches bounded on large stores
+      if (batch.length >= 10_000) {
+        await batch.write();
+        batch = this.db.batch();
+      }
+    }
+
+    batch.put(LevelDBStore.INDEX_VERSION_KEY, String(LevelDBStore.INDEX_VERSION));
+    await batch.write();
+  }
+
   /**
    * Close the database
    */
@@ -203,18 +322,40 @@ export class LevelDBStore
   // =========================================================================
 
   createDelta(author: string, pointers: Pointer[]): Delta {
-    const delta: Delta = {
-      id: uuidv4(),
-      timestamp: Date.now(),
+    const hlc = this.clock?.tick();
+    const content: Omit<Delta, 'id'> = {
+      timestamp: hlc ? hlc.physical : Date.now(),
       author,
       system: this.systemId,
-      pointers
+      pointers,
+      ...(hlc ? { hlc } : {})
+    };
+    const delta: Delta = {
+      id: this.config.deltaIdentity === 'content' ? computeContentId(content) : uuidv4(),
+      ...content
     };
 
     validateDelta(delta);
     return delta;
   }
 
+  createSignedDelta(author: string, pointers: Pointer[], privateKey: SigningKey): Delta {
+    return signDelta(this.createDelta(author, pointers), privateKey);
+  }
+
+  /**
+   * Advance this instance's clock past a delta received from another system
+   *
+   * Always accepted by wall-clock instances.
+   *
+   * @returns false if the delta's clock is too far ahead of ours to observe;
+   * such a delta would outrank everything written here until our clock
+   * caught up, so it should be refused
+   */
+  observeDelta(delta: Delta): boolean {
+    return this.clock?.observe(delta) ?? true;
+  }
+
   negateDelta(author: string, targetDeltaId: string, reason?: string): Delta {
     const pointers: Pointer[] = [
       {
@@ -239,35 +380,145 @@ export class LevelDBStore
 
   async persistDelta(delta: Delta): Promise<void> {
     await this.ensureReady();
-    validateDelta(delta);
+    validateDelta(delta, { requireContentId: this.config.deltaIdentity === 'content' });
 
-    const batch = this.db.batch();
+    // Deltas are immutable, so a known ID is a re-delivery and a no-op
+    if (this.causalBuffer.has(delta.id) || (await this.hasDelta(delta.id))) {
+      return;
+    }
 
-    // Store delta by ID
-    const deltaKey = `${LevelDBStore.DELTA_PREFIX}${delta.id}`;
-    batch.put(deltaKey, this.serializeDelta(delta));
+    // Hold back deltas whose causal parents haven't arrived yet
+    const missingParents: string[] = [];
+    for (const parentId of getCausalParentIds(delta)) {
+      if (!(await this.hasDelta(parentId))) {
+        missingParents.push(parentId);
+      }
+    }
+    if (missingParents.length > 0) {
+      this.causalBuffer.hold(delta, missingParents);
+      return;
+    }
 
-    // Create index entries for efficient querying
-    // Timestamp index: ts:{timestamp}:{deltaId} -> deltaId
-    const tsKey = `${LevelDBStore.TIMESTAMP_PREFIX}${delta.timestamp.toString().padStart(20, '0')}:${delta.id}`;
-    batch.put(tsKey, delta.id);
+    const ready = [delta];
+    while (ready.length > 0) {
+      const next = ready.shift()!;
+      await this.storeDelta(next);
+      ready.push(...this.causalBuffer.release(next.id));
+    }
+  }
 
-    // Author index: author:{author}:{deltaId} -> deltaId
-    const authorKey = `${LevelDBStore.AUTHOR_PREFIX}${delta.author}:${delta.id}`;
-    batch.put(authorKey, delta.id);
+  async persistDeltas(deltas: Delta[]): Promise<void> {
+    for (const delta of deltas) {
+      await this.persistDelta(delta);
+    }
+  }
 
-    // System index: system:{system}:{deltaId} -> deltaId
-    const systemKey = `${LevelDBStore.SYSTEM_PREFIX}${delta.system}:${delta.id}`;
-    batch.put(systemKey, delta.id);
+  /**
+   * Get deltas held back because some of their causal parents are missing
+   *
+   * The buffer is not persisted: held deltas are lost on close.
+   */
+  getPendingDeltas(): Delta[] {
+    return this.causalBuffer.getPending();
+  }
 
-    // Target index: target:{targetId}:{deltaId} -> deltaId
-    for (const pointer of delta.pointers) {
-      if (isDomainNodeReference(pointer.target)) {
-        const targetKey = `${LevelDBStore.TARGET_PREFIX}${pointer.target.id}:${delta.id}`;
-        batch.put(targetKey, delta.id);
+  /**
+   * Export deltas matching a filter as archive lines (see `archive.ts`)
+   */
+  exportDeltas(filter?: DeltaFilter, options?: ExportOptions): AsyncIterable<string> {
+    return exportArchive(this, filter, options);
+  }
+
+  /**
+   * Import an archive, skipping deltas that already exist
+   */
+  importDeltas(
+    input: AsyncIterable<string | Buffer> | Iterable<string | Buffer>
+  ): Promise<ImportResult> {
+    return importArchive(this, input);
+  }
+
+  /**
+   * Stage deltas in `fn` and persist them atomically once it resolves
+   *
+   * All staged deltas and their index entries are written in one LevelDB
+   * batch, then published. Nothing is persisted if `fn` throws. A causal
+   * parent outside the transaction must already be stored.
+   *
+   * @returns What `fn` returned
+   * @throws ValidationError if a staged delta is malformed
+   * @throws Error if a causal parent is missing
+   * @deprecated Use `RhizomeDB.transaction` with `storage: 'leveldb'`
+   */
+  async transaction<T>(fn: (tx: DeltaTransaction) => T | Promise<T>): Promise<T> {
+    const tx = new Transaction(this, { requireContentId: this.config.deltaIdentity === 'content' });
+
+    let result: T;
+    try {
+      result = await fn(tx);
+    } finally {
+      tx.close();
+    }
+
+    await this.commitDeltas(tx.getDeltas());
+    return result;
+  }
+
+  /**
+   * Persist deltas in a single LevelDB batch
+   *
+   * Backs `transaction()`, and lets RhizomeDB's LevelDB adapter commit its
+   * transactions atomically.
+   *
+   * @throws ValidationError if a delta is malformed
+   * @throws Error if a causal parent is neither stored nor in `deltas`
+   */
+  async commitDeltas(deltas: Delta[]): Promise<void> {
+    await this.ensureReady();
+    for (const delta of deltas) {
+      validateDelta(delta, { requireContentId: this.config.deltaIdentity === 'content' });
+    }
+
+    // Re-delivered deltas are no-ops, as in persistDelta
+    const fresh: Delta[] = [];
+    for (const delta of deltas) {
+      if (this.causalBuffer.has(delta.id) || (await this.hasDelta(delta.id))) {
+        continue;
       }
+      fresh.push(delta);
     }
 
+    const ordered = await orderForCommit(fresh, id => this.hasDelta(id));
+    if (ordered.length === 0) {
+      return;
+    }
+
+    const batch = this.db.batch();
+    for (const delta of ordered) {
+      for (const [key, value] of this.deltaEntries(delta)) {
+        batch.put(key, value);
+      }
+    }
+    await batch.write();
+
+    for (const delta of ordered) {
+      await this.publishDelta(delta);
+    }
+
+    // Held deltas waiting on anything just committed
+    const ready = ordered.flatMap(delta => this.causalBuffer.release(delta.id));
+    while (ready.length > 0) {
+      const next = ready.shift()!;
+      await this.storeDelta(next);
+      ready.push(...this.causalBuffer.release(next.id));
+    }
+  }
+
+  private async storeDelta(delta: Delta): Promise<void> {
+    const batch = this.db.batch();
+    for (const [key, value] of this.deltaEntries(delta)) {
+      batch.put(key, value);
+    }
     await batch.write();
 
     // Publish to subscribers
@@ -279,40 +530,100 @@ export class LevelDBStore
     }
   }
 
-  async persistDeltas(deltas: Delta[]): Promise<void> {
-    for (const delta of deltas) {
-      await this.persistDelta(delta);
+  /**
+   * Key/value pairs storing a delta and its index entries
+   */
+  private deltaEntries(delta: Delta): Array<[string, string]> {
+    // Store delta by ID
+    const entries: Array<[string, string]> = [
+      [`${LevelDBStore.DELTA_PREFIX}${delta.id}`, this.serializeDelta(delta)]
+    ];
+
+    // Create index entries for efficient querying
+    // Timestamp index: ts:{timestamp}:{deltaId} -> deltaId
+    entries.push([this.timestampKey(delta), delta.id]);
+
+    // Author index: author:{author}:{deltaId} -> deltaId
+    entries.push([`${LevelDBStore.AUTHOR_PREFIX}${delta.author}:${delta.id}`, delta.id]);
+
+    // System index: system:{system}:{deltaId} -> deltaId
+    entries.push([`${LevelDBStore.SYSTEM_PREFIX}${delta.system}:${delta.id}`, delta.id]);
+
+    // Target index: target:{targetId}:{deltaId} -> deltaId
+    for (const pointer of delta.pointers) {
+      if (isDomainNodeReference(pointer.target)) {
+        entries.push([`${LevelDBStore.TARGET_PREFIX}${pointer.target.id}:${delta.id}`, delta.id]);
+      }
+    }
+
+    // Context index: ctx:{context}:{deltaId} -> deltaId
+    for (const contextKey of this.contextIndexKeys(delta)) {
+      entries.push([contextKey, delta.id]);
+    }
+
+    // Negation index: negated_by:{targetId}:{timestamp}:{deltaId} -> deltaId
+    for (const negationKey of this.negationIndexKeys(delta)) {
+      entries.push([negationKey, delta.id]);
     }
+
+    return entries;
   }
 
   async getDeltas(ids: string[]): Promise<Delta[]> {
     await this.ensureReady();
-    const deltas: Delta[] = [];
+    if (ids.length === 0) {
+      return [];
+    }
 
-    for (const id of ids) {
-      try {
-        const deltaKey = `${LevelDBStore.DELTA_PREFIX}${id}`;
-        const json = await this.db.get(deltaKey);
-        deltas.push(this.deserializeDelta(json));
-      } catch (err: unknown) {
-        // Delta not found, skip
-        if ((err as { code?: string }).code !== 'LEVEL_NOT_FOUND') {
-          throw err;
-        }
+    const values = await this.db.getMany(ids.map(id => `${LevelDBStore.DELTA_PREFIX}${id}`));
+
+    // Missing deltas come back as undefined and are skipped
+    return values
+      .filter((json): json is string => json !== undefined)
+      .map(json => this.deserializeDelta(json));
+  }
+
+  /**
+   * Check whether a delta ID is already stored
+   */
+  private async hasDelta(id: string): Promise<boolean> {
+    try {
+      await this.db.get(`${LevelDBStore.DELTA_PREFIX}${id}`);
+      return true;
+    } catch (err: unknown) {
+      if ((err as { code?: string }).code !== 'LEVEL_NOT_FOUND') {
+        throw err;
       }
+      return false;
     }
-
-    return deltas;
   }
 
   async *scanDeltas(filter?: DeltaFilter, cursor?: string): AsyncIterable<Delta> {
     await this.ensureReady();
 
-    // Use timestamp index for efficient scanning
-    const prefix = LevelDBStore.TIMESTAMP_PREFIX;
+    // Filters on other indexed fields only load their candidates, in timestamp
+    // order; a timestamp range alone is streamed from the index below
+    const candidateIds = filter
+      ? await this.queryIndexedIds({ ...filter, timestampRange: undefined })
+      : null;
+    if (candidateIds) {
+      const deltas = this.sortByTimestamp(await this.getDeltas(Array.from(candidateIds)));
+      for (const delta of deltas) {
+        if ((!cursor || this.timestampKey(delta) >= cursor) && this.matchesFilter(delta, filter!)) {
+          yield delta;
+        }
+      }
+      return;
+    }
+
+    // Otherwise walk the timestamp index, within the filter's range
+    const { gte, lte } = this.timestampBounds(
+      filter?.timestampRange?.start,
+      filter?.timestampRange?.end
+    );
     const iterator = this.db.iterator({
-      gte: cursor || prefix,
-      lte: prefix + '\xff'
+      gte: cursor && cursor > gte ? cursor : gte,
+      lte
     });
 
     for await (const [_key, deltaId] of iterator) {
@@ -382,13 +693,20 @@ export class LevelDBStore
 
     if (filter.targetContexts) {
       const hasMatchingContext = delta.pointers.some(
-        p => isReference(p.target) && p.target.context && filter.targetContexts!.includes(p.target.context)
+        p =>
+          isReference(p.target) &&
+          p.target.context &&
+          filter.targetContexts!.includes(p.target.context)
       );
       if (!hasMatchingContext) {
         return false;
       }
     }
 
+    if (filter.where && !matchesFilterExpression(delta, filter.where)) {
+      return false;
+    }
+
     if (filter.predicate && !filter.predicate(delta)) {
       return false;
     }
@@ -400,25 +718,12 @@ export class LevelDBStore
     await this.ensureReady();
     const results: Delta[] = [];
 
-    // Use indices for efficient querying when possible
-    if (filter.ids && filter.ids.length > 0) {
-      // Direct lookup by IDs
-      return await this.getDeltas(filter.ids);
-    }
-
-    if (filter.authors && filter.authors.length === 1 && !filter.ids && !filter.systems) {
-      // Use author index
-      const author = filter.authors[0];
-      const prefix = `${LevelDBStore.AUTHOR_PREFIX}${author}:`;
-      const iterator = this.db.iterator({
-        gte: prefix,
-        lte: prefix + '\xff'
-      });
-
-      for await (const [_key, deltaId] of iterator) {
-        const delta = await this.getDeltas([deltaId]);
-        if (delta.length > 0 && this.matchesFilter(delta[0], filter)) {
-          results.push(delta[0]);
+    // Use indexes to load only candidate deltas when possible
+    const candidateIds = await this.queryIndexedIds(filter);
+    if (candidateIds) {
+      for (const delta of this.sortByTimestamp(await this.getDeltas(Array.from(candidateIds)))) {
+        if (this.matchesFilter(delta, filter)) {
+          results.push(delta);
         }
       }
 
@@ -436,21 +741,292 @@ export class LevelDBStore
   }
 
   private async applyNegationFilter(deltas: Delta[], filter: DeltaFilter): Promise<Delta[]> {
-    if (filter.includeNegated) {
+    if (filter.includeNegated || deltas.length === 0) {
       return deltas;
     }
 
-    // Find all negated delta IDs
-    const negatedIds = new Set<string>();
-    for await (const delta of this.scanDeltas()) {
-      for (const pointer of delta.pointers) {
-        if (pointer.role === 'negates' && isDomainNodeReference(pointer.target)) {
-          negatedIds.add(pointer.target.id);
+    const negatedIds = await this.getNegatedDeltaIds(deltas.map(d => d.id));
+    return deltas.filter(d => !negatedIds.has(d.id));
+  }
+
+  // =========================================================================
+  // Negation index
+  // =========================================================================
+
+  /**
+   * Check whether a delta is negated, from the `negated_by:` index
+   *
+   * A delta is negated if some negation of it is not itself negated, so
+   * double negation restores it. Costs one range seek per level of the
+   * negation chain rather than a scan of all deltas.
+   *
+   * @param deltaId - The delta to check
+   * @param asOfTimestamp - Only consider negations made at or before this time
+   */
+  async isNegated(deltaId: string, asOfTimestamp?: number): Promise<boolean> {
+    await this.ensureReady();
+    return this.resolveNegation(deltaId, asOfTimestamp, new Map(), new Set());
+  }
+
+  /**
+   * Get which of the given deltas are negated
+   *
+   * @param deltaIds - Deltas to check
+   * @param asOfTimestamp - Only consider negations made at or before this time
+   * @returns The subset of `deltaIds` that is negated
+   */
+  async getNegatedDeltaIds(deltaIds: string[], asOfTimestamp?: number): Promise<Set<string>> {
+    await this.ensureReady();
+
+    // Shared across the batch: negation chains often overlap
+    const memo = new Map<string, boolean>();
+    const negated = new Set<string>();
+
+    for (const id of deltaIds) {
+      if (await this.resolveNegation(id, asOfTimestamp, memo, new Set())) {
+        negated.add(id);
+      }
+    }
+
+    return negated;
+  }
+
+  private async resolveNegation(
+    deltaId: string,
+    asOfTimestamp: number | undefined,
+    memo: Map<string, boolean>,
+    visiting: Set<string>
+  ): Promise<boolean> {
+    const known = memo.get(deltaId);
+    if (known !== undefined) {
+      return known;
+    }
+
+    // A cycle can't be a valid negation chain; treat it as not negating
+    if (visiting.has(deltaId)) {
+      return false;
+    }
+    visiting.add(deltaId);
+
+    let negated = false;
+    for (const negatorId of await this.getNegatorIds(deltaId, asOfTimestamp)) {
+      if (!(await this.resolveNegation(negatorId, asOfTimestamp, memo, visiting))) {
+        negated = true;
+        break;
+      }
+    }
+
+    visiting.delete(deltaId);
+    memo.set(deltaId, negated);
+    return negated;
+  }
+
+  /**
+   * Get the IDs of deltas that negate a delta, optionally as of a time
+   */
+  private async getNegatorIds(deltaId: string, asOfTimestamp?: number): Promise<string[]> {
+    const prefix = `${LevelDBStore.NEGATED_BY_PREFIX}${deltaId}:`;
+    const upper =
+      asOfTimestamp !== undefined ? prefix + padTimestamp(Math.floor(asOfTimestamp)) : prefix;
+
+    const ids: string[] = [];
+    for await (const negatorId of this.db.values({ gte: prefix, lte: upper + '\xff' })) {
+      ids.push(negatorId);
+    }
+    return ids;
+  }
+
+  private negationIndexKeys(delta: Delta): string[] {
+    return getNegatedTargetIds(delta).map(
+      targetId =>
+        `${LevelDBStore.NEGATED_BY_PREFIX}${targetId}:${padTimestamp(delta.timestamp)}:${delta.id}`
+    );
+  }
+
+  // =========================================================================
+  // Index planning
+  // =========================================================================
+
+  /**
+   * Get candidate delta IDs for a filter from the on-disk indexes
+   *
+   * Each indexed field contributes the union of its prefix ranges, and the
+   * fields are intersected. The result is a superset of the matches (callers
+   * still apply `matchesFilter`), or null if no field is indexed.
+   */
+  private async queryIndexedIds(filter: DeltaFilter): Promise<Set<string> | null> {
+    const candidateSets: Set<string>[] = [];
+
+    if (filter.ids && filter.ids.length > 0) {
+      candidateSets.push(new Set(filter.ids));
+    }
+
+    if (filter.targetIds && filter.targetIds.length > 0) {
+      candidateSets.push(await this.scanIndex(LevelDBStore.TARGET_PREFIX, filter.targetIds));
+    }
+
+    if (filter.targetContexts && filter.targetContexts.length > 0) {
+      candidateSets.push(await this.scanIndex(LevelDBStore.CONTEXT_PREFIX, filter.targetContexts));
+    }
+
+    if (filter.authors && filter.authors.length > 0) {
+      candidateSets.push(await this.scanIndex(LevelDBStore.AUTHOR_PREFIX, filter.authors));
+    }
+
+    if (filter.systems && filter.systems.length > 0) {
+      candidateSets.push(await this.scanIndex(LevelDBStore.SYSTEM_PREFIX, filter.systems));
+    }
+
+    if (filter.timestampRange) {
+      const { start, end } = filter.timestampRange;
+      candidateSets.push(await this.scanTimestampRange(start, end));
+    }
+
+    if (filter.where) {
+      const expressionSet = await this.queryExpressionIds(filter.where);
+      if (expressionSet) {
+        candidateSets.push(expressionSet);
+      }
+    }
+
+    return candidateSets.length > 0 ? intersectSets(candidateSets) : null;
+  }
+
+  /**
+   * Get candidate delta IDs for a filter expression
+   *
+   * Mirrors `DeltaIndexes`: `and` intersects, `or` unions only if every
+   * branch is indexable, and `not` can't be narrowed.
+   */
+  private async queryExpressionIds(expression: DeltaFilterExpression): Promise<Set<string> | null> {
+    if ('and' in expression) {
+      const sets: Set<string>[] = [];
+      for (const child of expression.and) {
+        const set = await this.queryExpressionIds(child);
+        if (set) sets.push(set);
+      }
+      return sets.length > 0 ? intersectSets(sets) : null;
+    }
+
+    if ('or' in expression) {
+      const sets: Set<string>[] = [];
+      for (const child of expression.or) {
+        const set = await this.queryExpressionIds(child);
+        if (!set) return null;
+        sets.push(set);
+      }
+      return sets.length > 0 ? unionSets(sets) : null;
+    }
+
+    if ('field' in expression) {
+      switch (expression.field) {
+        case 'id': {
+          const values = getComparisonValues(expression.is);
+          return values ? new Set(values.map(String)) : null;
+        }
+        case 'author':
+          return this.scanIndexValues(
+            LevelDBStore.AUTHOR_PREFIX,
+            getComparisonValues(expression.is)
+          );
+        case 'system':
+          return this.scanIndexValues(
+            LevelDBStore.SYSTEM_PREFIX,
+            getComparisonValues(expression.is)
+          );
+        case 'timestamp': {
+          const range = getComparisonRange(expression.is);
+          return range ? this.scanTimestampRange(range.start, range.end) : null;
         }
       }
     }
 
-    return deltas.filter(d => !negatedIds.has(d.id));
+    if ('pointer' in expression) {
+      const sets: Set<string>[] = [];
+      const targetSet = await this.scanIndexValues(
+        LevelDBStore.TARGET_PREFIX,
+        getComparisonValues(expression.pointer.targetId)
+      );
+      const contextSet = await this.scanIndexValues(
+        LevelDBStore.CONTEXT_PREFIX,
+        getComparisonValues(expression.pointer.context)
+      );
+      if (targetSet) sets.push(targetSet);
+      if (contextSet) sets.push(contextSet);
+      return sets.length > 0 ? intersectSets(sets) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Collect delta IDs under `{prefix}{value}:` for each value
+   */
+  private async scanIndex(prefix: string, values: string[]): Promise<Set<string>> {
+    const ids = new Set<string>();
+
+    for (const value of new Set(values)) {
+      const range = `${prefix}${value}:`;
+      for await (const deltaId of this.db.values({ gte: range, lte: range + '\xff' })) {
+        ids.add(deltaId);
+      }
+    }
+
+    return ids;
+  }
+
+  private async scanIndexValues(
+    prefix: string,
+    values: Primitive[] | null
+  ): Promise<Set<string> | null> {
+    return values ? this.scanIndex(prefix, values.map(String)) : null;
+  }
+
+  /**
+   * Collect delta IDs in an inclusive timestamp range from the `ts:` index
+   */
+  private async scanTimestampRange(start?: number, end?: number): Promise<Set<string>> {
+    const ids = new Set<string>();
+
+    for await (const deltaId of this.db.values(this.timestampBounds(start, end))) {
+      ids.add(deltaId);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Get the `ts:` index keys bounding an inclusive timestamp range
+   */
+  private timestampBounds(start?: number, end?: number): { gte: string; lte: string } {
+    const prefix = LevelDBStore.TIMESTAMP_PREFIX;
+    return {
+      gte: start !== undefined ? prefix + padTimestamp(Math.floor(start)) : prefix,
+      lte: (end !== undefined ? prefix + padTimestamp(Math.floor(end)) : prefix) + '\xff'
+    };
+  }
+
+  private timestampKey(delta: Delta): string {
+    return `${LevelDBStore.TIMESTAMP_PREFIX}${padTimestamp(delta.timestamp)}:${delta.id}`;
+  }
+
+  /**
+   * Sort deltas into `ts:` index order (timestamp, then ID)
+   */
+  private sortByTimestamp(deltas: Delta[]): Delta[] {
+    return deltas.sort(
+      (a, b) => a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+  }
+
+  private contextIndexKeys(delta: Delta): string[] {
+    const keys: string[] = [];
+    for (const pointer of delta.pointers) {
+      if (isReference(pointer.target) && pointer.target.context) {
+        keys.push(`${LevelDBStore.CONTEXT_PREFIX}${pointer.target.context}:${delta.id}`);
+      }
+    }
+    return keys;
   }
 
   async applyHyperSchema(objectId: string, schema: HyperSchema): Promise<HyperView> {
@@ -461,15 +1037,174 @@ export class LevelDBStore
       this.schemaRegistry.register(schema);
     }
 
-    // Get all deltas for hyperview construction
-    const allDeltas = await this.getAllDeltas();
-    return constructHyperView(objectId, schema, allDeltas, this.schemaRegistry);
+    const deltas = await this.getHyperViewDeltas(objectId, schema);
+    return constructHyperView(objectId, schema, deltas, this.schemaRegistry);
+  }
+
+  /**
+   * Get the deltas constructing an object's HyperView can use
+   *
+   * selectByTargetContext only selects deltas that reference the object, so
+   * the object's deltas from the `target:` index, those of the objects nested
+   * in it through the transform rules, and the negations of all of them are
+   * enough. A schema along the way that selects otherwise needs every delta.
+   */
+  private async getHyperViewDeltas(objectId: string, schema: HyperSchema): Promise<Delta[]> {
+    const deltas = new Map<string, Delta>();
+    const visited = new Set<string>();
+    const queue: [string, HyperSchema][] = [[objectId, schema]];
+
+    while (queue.length > 0) {
+      const [id, nodeSchema] = queue.shift()!;
+      if (nodeSchema.select !== selectByTargetContext) {
+        return this.getAllDeltas();
+      }
+      if (visited.has(`${nodeSchema.id}:${id}`)) {
+        continue;
+      }
+      visited.add(`${nodeSchema.id}:${id}`);
+
+      for (const delta of await this.getReferencingDeltas([id])) {
+        deltas.set(delta.id, delta);
+        if (selectByTargetContext(id, delta) === false) {
+          continue;
+        }
+
+        // Follow the references constructHyperView expands
+        for (const pointer of delta.pointers) {
+          const rule = nodeSchema.transform[pointer.role];
+          if (
+            !rule ||
+            (rule.when && !rule.when(pointer, delta)) ||
+            !isDomainNodeReference(pointer.target) ||
+            pointer.target.id === id ||
+            (typeof rule.schema !== 'string' && isPrimitiveHyperSchema(rule.schema))
+          ) {
+            continue;
+          }
+          queue.push([pointer.target.id, this.schemaRegistry.resolve(rule.schema)]);
+        }
+      }
+    }
+
+    // Negations reference the deltas they negate, and can be negated in turn
+    let frontier = Array.from(deltas.keys());
+    while (frontier.length > 0) {
+      const negations = (await this.getReferencingDeltas(frontier)).filter(
+        delta => !deltas.has(delta.id) && getNegatedTargetIds(delta).length > 0
+      );
+      for (const negation of negations) {
+        deltas.set(negation.id, negation);
+      }
+      frontier = negations.map(negation => negation.id);
+    }
+
+    return this.sortByTimestamp(Array.from(deltas.values()));
+  }
+
+  /**
+   * Get the deltas that reference any of the given IDs, from the `target:` index
+   */
+  private async getReferencingDeltas(ids: string[]): Promise<Delta[]> {
+    return this.getDeltas(Array.from(await this.scanIndex(LevelDBStore.TARGET_PREFIX, ids)));
+  }
+
+  /**
+   * Get every persisted delta a delta causally depends on
+   *
+   * Ancestors come before their descendants; the delta itself is not
+   * included.
+   *
+   * @param deltaId - The delta whose history to collect
+   * @returns Ancestor deltas in causal order (empty if the delta is unknown)
+   * @deprecated Use `RhizomeDB.getCausalHistory` with `storage: 'leveldb'`
+   */
+  async getCausalHistory(deltaId: string): Promise<Delta[]> {
+    const [start] = await this.getDeltas([deltaId]);
+    if (!start) {
+      return [];
+    }
+
+    const ancestors = new Map<string, Delta>();
+    let frontier = getCausalParentIds(start);
+
+    while (frontier.length > 0) {
+      const deltas = await this.getDeltas(frontier.filter(id => !ancestors.has(id)));
+      frontier = [];
+      for (const delta of deltas) {
+        if (ancestors.has(delta.id)) continue;
+        ancestors.set(delta.id, delta);
+        frontier.push(...getCausalParentIds(delta));
+      }
+    }
+
+    return sortCausally(Array.from(ancestors.values()));
+  }
+
+  /**
+   * Find all HyperViews whose properties satisfy the given constraints
+   *
+   * @param schema - The HyperSchema to apply to each match
+   * @param constraints - Constraints on resolved property values (or `id`)
+   * @param options - Ordering and pagination
+   * @returns Matching HyperViews
+   */
+  async findHyperViews(
+    schema: HyperSchema,
+    constraints: HyperViewConstraints = {},
+    options: FindHyperViewsOptions = {}
+  ): Promise<HyperView[]> {
+    await this.ensureReady();
+
+    if (!this.schemaRegistry.get(schema.id)) {
+      this.schemaRegistry.register(schema);
+    }
+
+    if (schema.select !== selectByTargetContext) {
+      // Construction needs every delta anyway, so find candidate roots by
+      // target context from the same snapshot
+      const allDeltas = await this.getAllDeltas();
+      const candidateIds = findCandidateRootIds(schema, constraints, () => allDeltas);
+
+      return buildHyperViews(
+        candidateIds,
+        id => constructHyperView(id, schema, allDeltas, this.schemaRegistry),
+        constraints,
+        options
+      );
+    }
+
+    // Find candidate roots from the `ctx:` index, and build each from its
+    // own deltas
+    const byContext = new Map<string, Delta[]>();
+    for (const context of [...Object.keys(schema.transform), ...Object.keys(constraints)]) {
+      if (context !== 'id' && !byContext.has(context)) {
+        const ids = await this.scanIndex(LevelDBStore.CONTEXT_PREFIX, [context]);
+        byContext.set(context, await this.getDeltas(Array.from(ids)));
+      }
+    }
+    const candidateIds = findCandidateRootIds(
+      schema,
+      constraints,
+      context => byContext.get(context) ?? []
+    );
+
+    const views = new Map<string, HyperView>();
+    for (const id of candidateIds) {
+      const deltas = await this.getHyperViewDeltas(id, schema);
+      views.set(id, constructHyperView(id, schema, deltas, this.schemaRegistry));
+    }
+
+    return buildHyperViews(candidateIds, id => views.get(id)!, constraints, options);
   }
 
   // =========================================================================
   // StreamConsumer implementation
   // =========================================================================
 
+  /**
+   * @deprecated Use `RhizomeDB.subscribe` with `storage: 'leveldb'`
+   */
   subscribe(filter: DeltaFilter, handler: DeltaHandler): Subscription {
     const id = uuidv4();
     const subscription = new LevelDBSubscription(id, filter, handler, () => {
@@ -520,6 +1255,9 @@ export class LevelDBStore
   // IndexMaintainer implementation
   // =========================================================================
 
+  /**
+   * @deprecated Use `RhizomeDB.materializeHyperView` with `storage: 'leveldb'`
+   */
   async materializeHyperView(
     objectId: string,
     schema: HyperSchema
@@ -540,8 +1278,8 @@ export class LevelDBStore
     }
 
     // Construct the hyperview
-    const allDeltas = await this.getAllDeltas();
-    const hyperView = constructHyperView(objectId, schema, allDeltas, this.schemaRegistry);
+    const deltas = await this.getHyperViewDeltas(objectId, schema);
+    const hyperView = constructHyperView(objectId, schema, deltas, this.schemaRegistry);
 
     // Convert to materialized view
     const schemaHash = calculateSchemaHash(schema);
@@ -574,6 +1312,9 @@ export class LevelDBStore
     return materialized;
   }
 
+  /**
+   * @deprecated Use `RhizomeDB.updateHyperView` with `storage: 'leveldb'`
+   */
   updateHyperView(view: MaterializedHyperView, _delta: Delta): void {
     // For simplicity, just rebuild the view
     // A more sophisticated implementation would incrementally update
@@ -586,6 +1327,9 @@ export class LevelDBStore
     }
   }
 
+  /**
+   * @deprecated Use `RhizomeDB.getHyperView` with `storage: 'leveldb'`
+   */
   getHyperView(objectId: string): MaterializedHyperView | null {
     // Look for any cached view with this objectId
     for (const [key, view] of this.materializedViews.entries()) {
@@ -596,6 +1340,9 @@ export class LevelDBStore
     return null;
   }
 
+  /**
+   * @deprecated Use `RhizomeDB.rebuildHyperView` with `storage: 'leveldb'`
+   */
   rebuildHyperView(objectId: string): MaterializedHyperView {
     const existing = this.getHyperView(objectId);
     if (!existing) {
@@ -622,6 +1369,10 @@ export class LevelDBStore
     throw new Error(`Could not rebuild view for object: ${objectId}`);
   }
 
+  /**
+   * @deprecated `RhizomeDB` with `storage: 'leveldb'` updates its materialized views
+   * as deltas arrive, so they need no invalidating
+   */
   invalidateView(objectId: string, schemaId: string): void {
     const cacheKey = `${objectId}:${schemaId}`;
     this.materializedViews.delete(cacheKey);
@@ -640,7 +1391,8 @@ export class LevelDBStore
       totalDeltas: streamInfo.totalDeltas,
       cachedViews: this.materializedViews.size,
       activeSubscriptions: this.subscriptions.size,
-      storageType: 'leveldb'
+      storageType: 'leveldb',
+      pendingDeltas: this.causalBuffer.size
     };
   }
 }
@@ -0,0 +1,187 @@
+/**
+ * Tests for pluggable RhizomeDB storage adapters
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RhizomeDB } from './instance';
+import { LevelDBStore } from './leveldb-store';
+import { MemoryStorageAdapter, createStorageAdapter } from './storage-adapters';
+import { Delta } from '../core/types';
+
+function createTempDbPath(): string {
+  const tmpDir = '/tmp/rhizomedb-test';
+  if (!fs.existsSync(tmpDir)) {
+    fs.mkdirSync(tmpDir, { recursive: true });
+  }
+  return path.join(tmpDir, `test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+}
+
+/**
+ * Custom adapter that records what it was asked to store
+ */
+class RecordingAdapter extends MemoryStorageAdapter {
+  readonly type = 'recording';
+  appended: string[] = [];
+
+  append(delta: Delta): Promise<void> {
+    this.appended.push(delta.id);
+    return super.append(delta);
+  }
+}
+
+describe('Storage Adapters', () => {
+  describe('createStorageAdapter', () => {
+    it('should require a path for leveldb and an adapter for custom', () => {
+      expect(() => createStorageAdapter({ storage: 'leveldb' })).toThrow('storageConfig.path');
+      expect(() => createStorageAdapter({ storage: 'custom' })).toThrow('storageConfig.adapter');
+    });
+  });
+
+  describe('memory', () => {
+    it('should negate a delta whose negation arrived first', async () => {
+      const db = new RhizomeDB({ storage: 'memory' });
+      const delta = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+
+      expect(db.queryDeltas({})).toHaveLength(0);
+      await db.persistDelta(db.negateDelta('bob', delta.id));
+      expect(db.queryDeltas({})).toHaveLength(1);
+
+      await db.persistDelta(delta);
+      expect(db.queryDeltas({ ids: [delta.id] })).toHaveLength(0);
+    });
+  });
+
+  describe('custom', () => {
+    it('should delegate storage to the configured adapter', async () => {
+      const adapter = new RecordingAdapter();
+      const db = new RhizomeDB({ storage: 'custom', storageConfig: { adapter } });
+
+      const delta = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+      await db.persistDelta(delta);
+
+      expect(adapter.appended).toEqual([delta.id]);
+      expect(db.getStats().storageType).toBe('recording');
+      expect(db.queryDeltas({ authors: ['alice'] })).toEqual([delta]);
+    });
+  });
+
+  describe('leveldb', () => {
+    let dbPath: string;
+
+    beforeEach(() => {
+      dbPath = createTempDbPath();
+    });
+
+    afterEach(() => {
+      fs.rmSync(dbPath, { recursive: true, force: true });
+    });
+
+    it('should reload deltas and negations after reopening', async () => {
+      const db = new RhizomeDB({ storage: 'leveldb', storageConfig: { path: dbPath } });
+      await db.ready();
+
+      const kept = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+      const removed = db.createDelta('alice', [{ role: 'name', target: 'Alicia' }]);
+      await db.persistDeltas([kept, removed, db.negateDelta('alice', removed.id)]);
+      await db.close();
+
+      const reopened = new RhizomeDB({ storage: 'leveldb', storageConfig: { path: dbPath } });
+      await reopened.ready();
+
+      expect(reopened.getStats().storageType).toBe('leveldb');
+      expect(reopened.getStats().totalDeltas).toBe(3);
+      const names = reopened.queryDeltas({ where: { pointer: { role: 'name' } } });
+      expect(names.map(d => d.id)).toEqual([kept.id]);
+
+      await reopened.close();
+    });
+
+    it('should not index deltas whose write failed', async () => {
+      const db = new RhizomeDB({ storage: 'leveldb', storageConfig: { path: dbPath } });
+      await db.ready();
+      const delta = db.createDelta('alice', [{ role: 'name', target: 'Alice' }]);
+      const write = jest
+        .spyOn(LevelDBStore.prototype, 'commitDeltas')
+        .mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(db.transaction(tx => [tx.createDelta('alice', delta.pointers)])).rejects.toThrow(
+        'disk full'
+      );
+      expect(db.queryDeltas({ authors: ['alice'] })).toEqual([]);
+      write.mockRestore();
+
+      const persist = jest
+        .spyOn(LevelDBStore.prototype, 'persistDelta')
+        .mockRejectedValueOnce(new Error('disk full'));
+      await expect(db.persistDelta(delta)).rejects.toThrow('disk full');
+      expect(db.queryDeltas({ authors: ['alice'] })).toEqual([]);
+
+      await db.persistDelta(delta);
+      expect(persist).toHaveBeenCalledTimes(2);
+      persist.mockRestore();
+      await db.close();
+
+      const reopened = new RhizomeDB({ storage: 'leveldb', storageConfig: { path: dbPath } });
+      await reopened.ready();
+      expect(reopened.queryDeltas({ authors: ['alice'] })).toEqual([delta]);
+      await reopened.close();
+    });
+
+    it('should share its on-disk layout with LevelDBStore', async () => {
+      const store = new LevelDBStore({ storage: 'leveldb', dbPath });
+      const delta = store.createDelta('alice', [
+        { role: 'person', target: { id: 'p1', context: 'name' } },
+        { role: 'name', target: 'Alice' }
+      ]);
+      await store.persistDelta(delta);
+      await store.close();
+
+      const db = new RhizomeDB({ storage: 'leveldb', storageConfig: { path: dbPath } });
+      await db.ready();
+
+      expect(db.queryDeltas({ targetContexts: ['name'] })).toEqual([delta]);
+
+      await db.close();
+    });
+
+    it('should serve async reads from the LevelDB indexes', async () => {
+      const db = new RhizomeDB({ storage: 'leveldb', storageConfig: { path: dbPath } });
+      await db.ready();
+      const kept = db.createDelta('alice', [
+        { role: 'person', target: { id: 'p1', context: 'name' } },
+        { role: 'name', target: 'Alice' }
+      ]);
+      const removed = db.createDelta('alice', [
+        { role: 'person', target: { id: 'p1', context: 'name' } },
+        { role: 'name', target: 'Alicia' }
+      ]);
+      const negation = db.negateDelta('alice', removed.id);
+      await db.persistDeltas([kept, removed, negation]);
+
+      const get = jest.spyOn(MemoryStorageAdapter.prototype, 'get');
+      const getAll = jest.spyOn(MemoryStorageAdapter.prototype, 'getAll');
+      const scan = jest.spyOn(LevelDBStore.prototype, 'scanDeltas');
+      const scanned: string[] = [];
+      for await (const delta of db.scanDeltas({ targetIds: ['p1'] })) {
+        scanned.push(delta.id);
+      }
+      const all: string[] = [];
+      for await (const delta of db.scanDeltas()) {
+        all.push(delta.id);
+      }
+
+      expect(await db.getDeltas([removed.id, 'missing'])).toEqual([removed]);
+      expect(scanned).toEqual([kept.id]);
+      expect(all.sort()).toEqual([kept.id, removed.id, negation.id].sort());
+      expect(scan).toHaveBeenCalledWith({ targetIds: ['p1'] }, undefined);
+      expect(get).not.toHaveBeenCalled();
+      expect(getAll).not.toHaveBeenCalled();
+
+      get.mockRestore();
+      getAll.mockRestore();
+      scan.mockRestore();
+      await db.close();
+    });
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Storage adapters for RhizomeDB
+ *
+ * RhizomeDB delegates delta storage, indexing and negation lookup to a
+ * DeltaStorageAdapter chosen by `RhizomeConfig.storage`:
+ *
+ * - 'memory': deltas live only in memory, or are also logged to a
+ *   write-ahead log (`storageConfig: { wal: { dir } }`)
+ * - 'leveldb': deltas are written to a LevelDB database (`storageConfig:
+ *   { path }`), and async reads are served from its indexes
+ * - 'custom': any DeltaStorageAdapter (`storageConfig: { adapter }`)
+ */
+
+import { Delta, DeltaFilter, DeltaStorageAdapter, IndexStats, RhizomeConfig } from '../core/types';
+import { DeltaIndexes } from './delta-indexes';
+import { LevelDBStore } from './leveldb-store';
+import { WALRecoveryStats, WriteAheadLog, WriteAheadLogConfig } from './write-ahead-log';
+import { getNegatedDeltaIds, getNegatedTargetIds } from '../queries/negation';
+
+/**
+ * Adapter keeping all deltas in memory
+ *
+ * Also the base for adapters that add durability underneath the same
+ * in-memory indexes.
+ */
+export class MemoryStorageAdapter implements DeltaStorageAdapter {
+  readonly type: string = 'memory';
+  private deltas: Delta[] = [];
+  private deltaIndex: Map<string, Delta> = new Map();
+  private deltaIndexes: DeltaIndexes = new DeltaIndexes();
+  // Current negation state, dropped when an append can change it
+  private negatedIds: Set<string> | null = null;
+  // IDs of deltas being written by `indexAfter`
+  private writing: Set<string> = new Set();
+
+  open(): void | Promise<void> {
+    // Nothing to load
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  append(delta: Delta): Promise<void> {
+    this.index(delta);
+    return Promise.resolve();
+  }
+
+  appendBatch(deltas: Delta[]): Promise<void> {
+    // Indexing can't fail part-way, so the batch lands in one synchronous step
+    for (const delta of deltas) {
+      this.index(delta);
+    }
+    return Promise.resolve();
+  }
+
+  get(id: string): Delta | undefined {
+    return this.deltaIndex.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.deltaIndex.has(id) || this.writing.has(id);
+  }
+
+  getAll(): Delta[] {
+    return this.deltas;
+  }
+
+  count(): number {
+    return this.deltas.length;
+  }
+
+  queryDeltaIds(filter: DeltaFilter): Set<string> | null {
+    return this.deltaIndexes.queryDeltaIds(filter);
+  }
+
+  getDeltaIdsByTargetId(targetId: string): Set<string> {
+    return this.deltaIndexes.getDeltaIdsByTargetId(targetId);
+  }
+
+  getDeltaIdsByTargetContext(context: string): Set<string> {
+    return this.deltaIndexes.getDeltaIdsByTargetContext(context);
+  }
+
+  getNegatedDeltaIds(asOfTimestamp?: number): Set<string> {
+    if (asOfTimestamp !== undefined) {
+      return getNegatedDeltaIds(this.deltas, asOfTimestamp);
+    }
+
+    if (!this.negatedIds) {
+      this.negatedIds = getNegatedDeltaIds(this.deltas);
+    }
+    return this.negatedIds;
+  }
+
+  getIndexStats(): IndexStats {
+    return this.deltaIndexes.getStats();
+  }
+
+  clear(): void {
+    this.deltas = [];
+    this.deltaIndex.clear();
+    this.deltaIndexes.clear();
+    this.negatedIds = null;
+  }
+
+  /**
+   * Add deltas to the in-memory working set once `write` has stored them
+   *
+   * A failed write leaves nothing queryable that a restart would lose. While
+   * the write is pending the deltas count for `has`, so a re-delivery isn't
+   * written twice; if it fails they're forgotten and can be retried.
+   */
+  protected async indexAfter(deltas: Delta[], write: () => Promise<void>): Promise<void> {
+    for (const delta of deltas) {
+      this.writing.add(delta.id);
+    }
+    try {
+      await write();
+    } finally {
+      for (const delta of deltas) {
+        this.writing.delete(delta.id);
+      }
+    }
+
+    for (const delta of deltas) {
+      this.index(delta);
+    }
+  }
+
+  /**
+   * Add a delta to the in-memory working set
+   */
+  protected index(delta: Delta): void {
+    this.deltas.push(delta);
+    this.deltaIndex.set(delta.id, delta);
+    this.deltaIndexes.addDelta(delta);
+
+    // A negation, or a delta whose negation arrived first, changes the state
+    if (
+      getNegatedTargetIds(delta).length > 0 ||
+      this.deltaIndexes.getDeltaIdsByTargetId(delta.id).size > 0
+    ) {
+      this.negatedIds = null;
+    }
+  }
+}
+
+/**
+ * In-memory adapter made durable by a write-ahead log
+ *
+ * Every append is logged and fsync'd before it is indexed and acknowledged,
+ * and the log is replayed on open. The log is compacted into a snapshot every
+ * `snapshotInterval` records.
+ */
+export class WALStorageAdapter extends MemoryStorageAdapter {
+  readonly type: string = 'wal';
+  private log: WriteAheadLog;
+
+  constructor(config: WriteAheadLogConfig) {
+    super();
+    this.log = new WriteAheadLog(config);
+  }
+
+  open(): void {
+    // Replay synchronously, so the instance is usable straight away
+    for (const delta of this.log.replay()) {
+      this.index(delta);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.log.close();
+  }
+
+  async append(delta: Delta): Promise<void> {
+    await this.appendBatch([delta]);
+  }
+
+  async appendBatch(deltas: Delta[]): Promise<void> {
+    await this.indexAfter(deltas, () => this.log.append(deltas));
+
+    if (this.log.shouldCompact) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Snapshot every delta and empty the log
+   */
+  compact(): Promise<void> {
+    return this.log.compact(this.getAll());
+  }
+
+  /**
+   * Get what was recovered from the log on open
+   */
+  getRecoveryStats(): WALRecoveryStats {
+    return this.log.getRecoveryStats();
+  }
+
+  clear(): void {
+    throw new Error('clear() is not supported by the write-ahead log storage adapter');
+  }
+}
+
+/**
+ * Adapter persisting deltas to LevelDB
+ *
+ * Uses the same on-disk layout as LevelDBStore, so either can open a
+ * database written by the other. `getMany` and `scan` are served from the
+ * LevelDB prefix indexes (negation through `negated_by:`). The synchronous
+ * reads RhizomeDB's queries and HyperViews need can't wait on LevelDB, so
+ * they still use a working set loaded on open.
+ */
+export class LevelDBStorageAdapter extends MemoryStorageAdapter {
+  readonly type: string = 'leveldb';
+  private store: LevelDBStore;
+
+  constructor(path: string) {
+    super();
+    this.store = new LevelDBStore({ storage: 'leveldb', dbPath: path });
+  }
+
+  /**
+   * Load every delta on disk into memory
+   *
+   * Takes time and memory in proportion to the whole database, which is
+   * what bounds the stores this adapter suits.
+   */
+  async open(): Promise<void> {
+    for await (const delta of this.store.scanDeltas()) {
+      this.index(delta);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  async append(delta: Delta): Promise<void> {
+    await this.indexAfter([delta], () => this.store.persistDelta(delta));
+  }
+
+  async appendBatch(deltas: Delta[]): Promise<void> {
+    await this.indexAfter(deltas, () => this.store.commitDeltas(deltas));
+  }
+
+  getMany(ids: string[]): Promise<Delta[]> {
+    return this.store.getDeltas(ids);
+  }
+
+  async *scan(filter?: DeltaFilter, cursor?: string): AsyncIterable<Delta> {
+    for await (const delta of this.store.scanDeltas(filter, cursor)) {
+      if (!filter || filter.includeNegated || !(await this.store.isNegated(delta.id))) {
+        yield delta;
+      }
+    }
+  }
+
+  clear(): void {
+    throw new Error('clear() is not supported by the LevelDB storage adapter');
+  }
+}
+
+/**
+ * Create the storage adapter for an instance configuration
+ *
+ * @throws Error if 'leveldb' has no `storageConfig.path` or 'custom' has no
+ * `storageConfig.adapter`
+ */
+export function createStorageAdapter(config: RhizomeConfig): DeltaStorageAdapter {
+  const storageConfig = (config.storageConfig || {}) as {
+    path?: string;
+    adapter?: DeltaStorageAdapter;
+    wal?: WriteAheadLogConfig;
+  };
+
+  switch (config.storage) {
+    case 'memory':
+      return storageConfig.wal
+        ? new WALStorageAdapter(storageConfig.wal)
+        : new MemoryStorageAdapter();
+
+    case 'leveldb':
+      if (!storageConfig.path) {
+        throw new Error("storage: 'leveldb' requires storageConfig.path");
+      }
+      return new LevelDBStorageAdapter(storageConfig.path);
+
+    case 'custom':
+      if (!storageConfig.adapter) {
+        throw new Error("storage: 'custom' requires storageConfig.adapter");
+      }
+      return storageConfig.adapter;
+
+    default:
+      throw new Error(`Unknown storage backend: ${String(config.storage)}`);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Tests for atomic multi-delta transactions
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RhizomeDB } from './instance';
+import { LevelDBStore } from './leveldb-store';
+import { createCausalParentPointers } from '../core/causality';
+import { ValidationError } from '../core/validation';
+import { Delta, Pointer } from '../core/types';
+
+function name(personId: string, value: string): Pointer[] {
+  return [
+    { role: 'person', target: { id: personId, context: 'name' } },
+    { role: 'name', target: value }
+  ];
+}
+
+describe('Transactions', () => {
+  let db: RhizomeDB;
+
+  beforeEach(() => {
+    db = new RhizomeDB({ storage: 'memory' });
+  });
+
+  it('should commit all staged deltas and publish them as one batch', async () => {
+    const batches: string[][] = [];
+    db.subscribeBatches({}, deltas => {
+      batches.push(deltas.map(d => d.id));
+    });
+
+    // Per-delta subscribers only run once the whole transaction is stored
+    const visible: number[] = [];
+    db.subscribe({}, () => {
+      visible.push(db.queryDeltas({}).length);
+    });
+
+    const staged = await db.transaction(tx => [
+      tx.createDelta('alice', name('p1', 'Alice')),
+      tx.createDelta('alice', name('p2', 'Bob'))
+    ]);
+
+    expect(db.queryDeltas({})).toHaveLength(2);
+    expect(batches).toHaveLength(1);
+    expect(new Set(batches[0])).toEqual(new Set(staged.map(d => d.id)));
+    expect(visible).toEqual([2, 2]);
+  });
+
+  it('should persist nothing if the callback throws or a delta is invalid', async () => {
+    const seen: Delta[] = [];
+    db.subscribe({}, delta => {
+      seen.push(delta);
+    });
+
+    await expect(
+      db.transaction(tx => {
+        tx.createDelta('alice', name('p1', 'Alice'));
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+
+    const invalid = { ...db.createDelta('alice', name('p2', 'Bob')), author: '' };
+    await expect(
+      db.transaction(tx => {
+        tx.createDelta('alice', name('p1', 'Alice'));
+        tx.persistDelta(invalid);
+      })
+    ).rejects.toThrow(ValidationError);
+
+    expect(db.queryDeltas({})).toHaveLength(0);
+    expect(seen).toHaveLength(0);
+  });
+
+  it('should order causal parents first and reject missing ones', async () => {
+    const parent = db.createDelta('alice', name('p1', 'Alice'));
+    const child = db.createDelta('bob', [
+      ...name('p1', 'Alicia'),
+      ...createCausalParentPointers([parent.id])
+    ]);
+
+    const seen: string[] = [];
+    db.subscribe({}, delta => {
+      seen.push(delta.id);
+    });
+
+    await db.transaction(tx => {
+      tx.persistDelta(child);
+      tx.persistDelta(parent);
+    });
+    expect(seen).toEqual([parent.id, child.id]);
+
+    const orphan = db.createDelta('bob', [
+      ...name('p1', 'Al'),
+      ...createCausalParentPointers(['missing'])
+    ]);
+    await expect(db.transaction(tx => tx.persistDelta(orphan))).rejects.toThrow('missing');
+    expect(db.getPendingDeltas()).toHaveLength(0);
+  });
+
+  it('should not accept deltas after the callback returns', async () => {
+    let escaped: { createDelta(author: string, pointers: Pointer[]): Delta } | undefined;
+    await db.transaction(tx => {
+      escaped = tx;
+    });
+
+    expect(() => escaped!.createDelta('alice', name('p1', 'Alice'))).toThrow('already finished');
+  });
+
+  describe('LevelDBStore', () => {
+    let dbPath: string;
+
+    beforeEach(() => {
+      const tmpDir = '/tmp/rhizomedb-test';
+      if (!fs.existsSync(tmpDir)) {
+        fs.mkdirSync(tmpDir, { recursive: true });
+      }
+      dbPath = path.join(tmpDir, `test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    });
+
+    afterEach(() => {
+      fs.rmSync(dbPath, { recursive: true, force: true });
+    });
+
+    it('should write a transaction in one batch that survives reopening', async () => {
+      const store = new LevelDBStore({ storage: 'leveldb', dbPath });
+      const [alice, bob] = await store.transaction(tx => [
+        tx.createDelta('alice', name('p1', 'Alice')),
+        tx.createDelta('alice', name('p2', 'Bob'))
+      ]);
+      await store.close();
+
+      const reopened = new RhizomeDB({ storage: 'leveldb', storageConfig: { path: dbPath } });
+      await reopened.ready();
+      await reopened.transaction(tx => {
+        tx.negateDelta('alice', bob.id);
+      });
+
+      expect(reopened.queryDeltas({ targetContexts: ['name'] })).toEqual([alice]);
+      await reopened.close();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Atomic multi-delta transactions
+ *
+ * A transaction stages deltas and commits them together: every delta is
+ * validated before any is stored, and subscribers only see them once all of
+ * them are stored.
+ *
+ * @example
+ * await db.transaction(async tx => {
+ *   tx.negateDelta('alice', oldName.id);
+ *   tx.createDelta('alice', namePointers);
+ * });
+ */
+
+import { Delta, DeltaAuthor, DeltaTransaction, Pointer } from '../core/types';
+import { validateDelta } from '../core/validation';
+import { getCausalParentIds, sortCausally } from '../core/causality';
+
+/**
+ * Deltas staged by a `transaction()` callback
+ */
+export class Transaction implements DeltaTransaction {
+  private staged: Map<string, Delta> = new Map();
+  private closed = false;
+
+  constructor(
+    private author: Pick<DeltaAuthor, 'createDelta' | 'negateDelta'>,
+    private options: { requireContentId?: boolean } = {}
+  ) {}
+
+  createDelta(author: string, pointers: Pointer[]): Delta {
+    const delta = this.author.createDelta(author, pointers);
+    this.persistDelta(delta);
+    return delta;
+  }
+
+  negateDelta(author: string, targetDeltaId: string, reason?: string): Delta {
+    const delta = this.author.negateDelta(author, targetDeltaId, reason);
+    this.persistDelta(delta);
+    return delta;
+  }
+
+  /**
+   * Stage a delta
+   *
+   * @throws ValidationError if the delta is malformed
+   * @throws Error if the transaction has already finished
+   */
+  persistDelta(delta: Delta): void {
+    if (this.closed) {
+      throw new Error('Transaction has already finished');
+    }
+
+    validateDelta(delta, this.options);
+    this.staged.set(delta.id, delta);
+  }
+
+  getDeltas(): Delta[] {
+    return Array.from(this.staged.values());
+  }
+
+  /**
+   * Stop accepting deltas (once the callback has returned or thrown)
+   */
+  close(): void {
+    this.closed = true;
+  }
+}
+
+/**
+ * Order a transaction's deltas for commit
+ *
+ * @param isStored - Whether a delta outside the transaction is already stored
+ * @returns The deltas, parents before children
+ * @throws Error if a delta's causal parent is neither stored nor staged: the
+ * transaction can't be committed whole, so none of it is
+ */
+export async function orderForCommit(
+  deltas: Delta[],
+  isStored: (id: string) => boolean | Promise<boolean>
+): Promise<Delta[]> {
+  const staged = new Set(deltas.map(delta => delta.id));
+
+  for (const delta of deltas) {
+    for (const parentId of getCausalParentIds(delta)) {
+      if (!staged.has(parentId) && !(await isStored(parentId))) {
+        throw new Error(
+          `Cannot commit delta ${delta.id}: causal parent ${parentId} is neither stored nor in the transaction`
+        );
+      }
+    }
+  }
+
+  return sortCausally(deltas);
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests for the write-ahead log and crash recovery
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RhizomeDB } from './instance';
+import { WALStorageAdapter } from './storage-adapters';
+import { WriteAheadLog } from './write-ahead-log';
+import { Pointer } from '../core/types';
+
+function name(personId: string, value: string): Pointer[] {
+  return [
+    { role: 'person', target: { id: personId, context: 'name' } },
+    { role: 'name', target: value }
+  ];
+}
+
+describe('Write-Ahead Log', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    const tmpDir = '/tmp/rhizomedb-test';
+    if (!fs.existsSync(tmpDir)) {
+      fs.mkdirSync(tmpDir, { recursive: true });
+    }
+    dir = path.join(tmpDir, `wal-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function open(snapshotInterval?: number): RhizomeDB {
+    return new RhizomeDB({ storage: 'memory', storageConfig: { wal: { dir, snapshotInterval } } });
+  }
+
+  it('should replay deltas, transactions and negations on construction', async () => {
+    const db = open();
+    const alice = db.createDelta('alice', name('p1', 'Alice'));
+    await db.persistDelta(alice);
+    const [bob] = await db.transaction(tx => [
+      tx.createDelta('alice', name('p2', 'Bob')),
+      tx.createDelta('alice', name('p3', 'Carol'))
+    ]);
+    await db.persistDelta(db.negateDelta('alice', bob.id));
+    await db.close();
+
+    const reopened = open();
+    expect(reopened.getStats().storageType).toBe('wal');
+    expect(reopened.getStats().totalDeltas).toBe(4);
+    expect(reopened.queryDeltas({ targetContexts: ['name'] }).map(d => d.id)).toHaveLength(2);
+    expect(reopened.queryDeltas({ targetIds: ['p1'] })).toEqual([alice]);
+    await reopened.close();
+  });
+
+  it('should not index deltas whose log write failed', async () => {
+    const db = open();
+    const alice = db.createDelta('alice', name('p1', 'Alice'));
+    const append = jest
+      .spyOn(WriteAheadLog.prototype, 'append')
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(db.persistDelta(alice)).rejects.toThrow('disk full');
+    expect(db.queryDeltas({ targetIds: ['p1'] })).toEqual([]);
+
+    // Nothing was indexed, so the retry isn't mistaken for a re-delivery
+    await db.persistDelta(alice);
+    expect(append).toHaveBeenCalledTimes(2);
+    append.mockRestore();
+    await db.close();
+
+    const reopened = open();
+    expect(reopened.queryDeltas({ targetIds: ['p1'] })).toEqual([alice]);
+    await reopened.close();
+  });
+
+  it('should truncate a torn write and keep appending after it', async () => {
+    const db = open();
+    const alice = db.createDelta('alice', name('p1', 'Alice'));
+    await db.persistDelta(alice);
+    await db.close();
+
+    // Crash part-way through writing the next record
+    const logPath = path.join(dir, 'wal.log');
+    const intact = fs.statSync(logPath).size;
+    fs.appendFileSync(logPath, '0123456789abcdef [{"id":"torn","timest');
+
+    const adapter = new WALStorageAdapter({ dir });
+    const reopened = new RhizomeDB({ storage: 'custom', storageConfig: { adapter } });
+    expect(adapter.getRecoveryStats()).toEqual({
+      snapshotDeltas: 0,
+      logRecords: 1,
+      truncatedBytes: 38
+    });
+    expect(fs.statSync(logPath).size).toBe(intact);
+
+    const bob = reopened.createDelta('alice', name('p2', 'Bob'));
+    await reopened.persistDelta(bob);
+    await reopened.close();
+
+    const recovered = open();
+    expect(recovered.queryDeltas({}).map(d => d.id)).toEqual([alice.id, bob.id]);
+    await recovered.close();
+  });
+
+  it('should compact into a snapshot every snapshotInterval records', async () => {
+    const db = open(2);
+    for (const value of ['a', 'b', 'c']) {
+      await db.persistDelta(db.createDelta('alice', name('p1', value)));
+    }
+    await db.close();
+
+    expect(fs.existsSync(path.join(dir, 'snapshot.jsonl'))).toBe(true);
+    expect(fs.readFileSync(path.join(dir, 'wal.log'), 'utf8').split('\n')).toHaveLength(2);
+
+    const adapter = new WALStorageAdapter({ dir });
+    const reopened = new RhizomeDB({ storage: 'custom', storageConfig: { adapter } });
+    expect(adapter.getRecoveryStats()).toMatchObject({ snapshotDeltas: 2, logRecords: 1 });
+    expect(reopened.getStats().totalDeltas).toBe(3);
+    await reopened.close();
+  });
+
+  it('should not duplicate deltas when a compaction was interrupted', async () => {
+    const db = open();
+    const delta = db.createDelta('alice', name('p1', 'Alice'));
+    await db.persistDelta(delta);
+    await db.close();
+
+    // Snapshot written, but the log was never emptied
+    const log = new WriteAheadLog({ dir });
+    fs.writeFileSync(
+      path.join(dir, 'snapshot.jsonl'),
+      fs.readFileSync(path.join(dir, 'wal.log'), 'utf8')
+    );
+    expect(log.replay()).toEqual([delta]);
+    await log.close();
+  });
+
+  it('should refuse to open a corrupt snapshot', () => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'snapshot.jsonl'), 'garbage\n');
+
+    expect(() => open()).toThrow('Corrupt WAL snapshot');
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Write-ahead log for in-memory storage
+ *
+ * Deltas are appended to `wal.log` (and fsync'd) before a write is
+ * acknowledged, and replayed into memory on open. Periodically the log is
+ * compacted: every delta is written to `snapshot.jsonl` and the log is
+ * emptied.
+ *
+ * Both files hold one record per line:
+ *
+ *   <checksum> <JSON array of deltas>
+ *
+ * where the checksum is the first 16 hex digits of the SHA-256 of the JSON.
+ * A record holds the deltas of one append or transaction, so a torn write
+ * loses a transaction whole or not at all.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Delta } from '../core/types';
+
+const LOG_FILE = 'wal.log';
+const SNAPSHOT_FILE = 'snapshot.jsonl';
+
+/**
+ * Write-ahead log configuration
+ */
+export interface WriteAheadLogConfig {
+  /** Directory holding the log and snapshot (created if missing) */
+  dir: string;
+
+  /** Compact after this many log records (default: 10000, 0 = never) */
+  snapshotInterval?: number;
+
+  /** fsync every write before acknowledging it (default: true) */
+  fsync?: boolean;
+}
+
+/**
+ * What was found when replaying the log
+ */
+export interface WALRecoveryStats {
+  /** Deltas loaded from the snapshot */
+  snapshotDeltas: number;
+
+  /** Records replayed from the log */
+  logRecords: number;
+
+  /** Bytes of torn or corrupt records cut from the end of the log */
+  truncatedBytes: number;
+}
+
+function checksum(json: string): string {
+  return createHash('sha256').update(json).digest('hex').slice(0, 16);
+}
+
+function encodeRecord(deltas: Delta[]): string {
+  const json = JSON.stringify(deltas);
+  return `${checksum(json)} ${json}\n`;
+}
+
+/**
+ * Decode one line, or return null if it is incomplete or corrupt
+ */
+function decodeRecord(line: string): Delta[] | null {
+  const separator = line.indexOf(' ');
+  if (separator < 0) {
+    return null;
+  }
+
+  const json = line.slice(separator + 1);
+  if (line.slice(0, separator) !== checksum(json)) {
+    return null;
+  }
+
+  try {
+    const deltas: unknown = JSON.parse(json);
+    return Array.isArray(deltas) ? (deltas as Delta[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append-only delta log with snapshot compaction
+ */
+export class WriteAheadLog {
+  private readonly logPath: string;
+  private readonly snapshotPath: string;
+  private readonly config: Required<WriteAheadLogConfig>;
+  private handle: fs.promises.FileHandle | null = null;
+  // Writes, compactions and close run one at a time, in call order
+  private queue: Promise<void> = Promise.resolve();
+  private recordsSinceSnapshot = 0;
+  private recovery: WALRecoveryStats = { snapshotDeltas: 0, logRecords: 0, truncatedBytes: 0 };
+
+  constructor(config: WriteAheadLogConfig) {
+    this.config = {
+      dir: config.dir,
+      snapshotInterval: config.snapshotInterval ?? 10000,
+      fsync: config.fsync !== false
+    };
+    this.logPath = path.join(config.dir, LOG_FILE);
+    this.snapshotPath = path.join(config.dir, SNAPSHOT_FILE);
+  }
+
+  /**
+   * Read the snapshot and log, cutting a torn tail off the log
+   *
+   * Synchronous so that stores can open before their first write.
+   *
+   * @returns Every logged delta in append order, each ID once
+   * @throws Error if the snapshot is corrupt (snapshots are written
+   * atomically, so this is not a torn write)
+   */
+  replay(): Delta[] {
+    fs.mkdirSync(this.config.dir, { recursive: true });
+    const byId = new Map<string, Delta>();
+
+    if (fs.existsSync(this.snapshotPath)) {
+      const lines = fs.readFileSync(this.snapshotPath, 'utf8').split('\n');
+      lines.pop(); // Final newline
+
+      lines.forEach((line, index) => {
+        const deltas = decodeRecord(line);
+        if (!deltas) {
+          throw new Error(`Corrupt WAL snapshot ${this.snapshotPath} at line ${index + 1}`);
+        }
+        for (const delta of deltas) {
+          byId.set(delta.id, delta);
+        }
+      });
+      this.recovery.snapshotDeltas = byId.size;
+    }
+
+    if (fs.existsSync(this.logPath)) {
+      const content = fs.readFileSync(this.logPath, 'utf8');
+      let validLength = 0;
+
+      while (validLength < content.length) {
+        const end = content.indexOf('\n', validLength);
+        // A record without its newline was torn mid-write
+        const deltas = end < 0 ? null : decodeRecord(content.slice(validLength, end));
+        if (!deltas) break;
+
+        for (const delta of deltas) {
+          // Also in the snapshot if we crashed mid-compaction
+          if (!byId.has(delta.id)) {
+            byId.set(delta.id, delta);
+          }
+        }
+        this.recovery.logRecords++;
+        validLength = end + 1;
+      }
+
+      const totalBytes = Buffer.byteLength(content, 'utf8');
+      const validBytes = Buffer.byteLength(content.slice(0, validLength), 'utf8');
+      if (validBytes < totalBytes) {
+        fs.truncateSync(this.logPath, validBytes);
+        this.recovery.truncatedBytes = totalBytes - validBytes;
+      }
+    }
+
+    this.recordsSinceSnapshot = this.recovery.logRecords;
+    return Array.from(byId.values());
+  }
+
+  /**
+   * Append the deltas of one write as a single record
+   *
+   * Resolves once the record is on disk (fsync'd unless disabled).
+   */
+  append(deltas: Delta[]): Promise<void> {
+    const record = encodeRecord(deltas);
+
+    return this.enqueue(async () => {
+      const handle = await this.openLog();
+      await handle.write(record);
+      if (this.config.fsync) {
+        await handle.datasync();
+      }
+      this.recordsSinceSnapshot++;
+    });
+  }
+
+  /**
+   * Whether enough records have been logged to compact
+   */
+  get shouldCompact(): boolean {
+    return (
+      this.config.snapshotInterval > 0 && this.recordsSinceSnapshot >= this.config.snapshotInterval
+    );
+  }
+
+  /**
+   * Replace the snapshot with the given deltas and empty the log
+   *
+   * `deltas` must include everything appended so far; appends made after
+   * this call stay in the log.
+   */
+  compact(deltas: Delta[]): Promise<void> {
+    const snapshot = deltas.slice();
+
+    return this.enqueue(async () => {
+      // Write beside the snapshot and rename over it, so it is never torn
+      const tmpPath = `${this.snapshotPath}.tmp`;
+      const tmp = await fs.promises.open(tmpPath, 'w');
+      try {
+        for (const delta of snapshot) {
+          await tmp.write(encodeRecord([delta]));
+        }
+        if (this.config.fsync) {
+          await tmp.sync();
+        }
+      } finally {
+        await tmp.close();
+      }
+      await fs.promises.rename(tmpPath, this.snapshotPath);
+      if (this.config.fsync) {
+        await this.syncDirectory();
+      }
+
+      // Replay skips log records already in the snapshot, so crashing
+      // before this truncation is safe
+      const handle = await this.openLog();
+      await handle.truncate(0);
+      if (this.config.fsync) {
+        await handle.datasync();
+      }
+      this.recordsSinceSnapshot = 0;
+    });
+  }
+
+  /**
+   * Get what replay found
+   */
+  getRecoveryStats(): WALRecoveryStats {
+    return { ...this.recovery };
+  }
+
+  /**
+   * Wait for pending writes and close the log file
+   */
+  close(): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.handle) {
+        await this.handle.close();
+        this.handle = null;
+      }
+    });
+  }
+
+  private async openLog(): Promise<fs.promises.FileHandle> {
+    if (!this.handle) {
+      this.handle = await fs.promises.open(this.logPath, 'a');
+    }
+    return this.handle;
+  }
+
+  private async syncDirectory(): Promise<void> {
+    const dir = await fs.promises.open(this.config.dir, 'r');
+    try {
+      await dir.sync();
+    } finally {
+      await dir.close();
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    // A failed write fails its caller, not the writes queued after it
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
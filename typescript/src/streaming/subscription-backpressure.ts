@@ -6,6 +6,7 @@
  */
 
 import { Delta, DeltaFilter, DeltaHandler, Subscription } from '../core/types';
+import { matchesFilterExpression } from '../queries/filter-expression';
 
 /**
  * Overflow strategy when buffer is full
@@ -283,6 +284,10 @@ export class BackpressureSubscription implements Subscription {
       }
     }
 
+    if (this.filter.where && !matchesFilterExpression(delta, this.filter.where)) {
+      return false;
+    }
+
     if (this.filter.predicate && !this.filter.predicate(delta)) {
       return false;
     }